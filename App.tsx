@@ -1,54 +1,85 @@
 
 import React from 'react';
-import { useState, useCallback, useEffect } from 'react';
-import type { SelectedOptions, AnalysisResult, HardeningOption } from './types';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { SelectedOptions, AnalysisResult, HardeningOption, StreamProgress, ShellcheckFinding, SafeguardId, GeneratedScript, ScriptSection, ScriptKind, RefinedPrompt } from './types';
 import { PARANOIA_LEVELS, SUGGESTED_PROMPTS, JOKES } from './constants';
-import { generateScriptHeaderAndHelpers, generateScriptSection, generateScriptFooter, analyzeScriptOutput, runShellcheckAndLearn } from './services/geminiService';
+import { generateScriptHeaderAndHelpers, generateScriptSection, generateScriptFooter, analyzeScriptOutput, generateFixupScript, runShellcheckAndLearn } from './services/geminiService';
+import { getProviderConfig, setProviderConfig } from './services/llmProvider';
+import { generateTemplateHeader, generateTemplateSection, generateTemplateFooter } from './services/scriptTemplates';
+import { generateCheckHeader, generateCheckSection, generateCheckFooter } from './services/checkTemplates';
+import { withRetry, runWithConcurrency, DEFAULT_RETRY_OPTIONS } from './services/generationQueue';
+import { CancelledError } from './services/errors';
+import type { RetryOptions } from './services/generationQueue';
+import { buildFailedSectionPlaceholder } from './services/scriptAssembler';
+import { resolveParameters } from './services/optionParameters';
+import { buildOptionGraph, toggleOption, describeSelectionChange } from './services/optionGraph';
+import { sortByExecutionOrder } from './services/executionOrder';
+import { EMPTY_SCRIPT, renderScript, getScriptLineRanges, updateScriptSection, removeScriptSection, moveScriptSection, findChangedSections } from './services/generatedScript';
+import { generateRollbackScript } from './services/rollbackScript';
+import { parseRunLog, summarizeRunLog, RUN_LOG_FILE } from './services/runLog';
+import type { SectionOutcome, RunLogSummary } from './services/runLog';
+import { parseScriptOutput, getSectionBanners } from './services/outputParser';
+import type { ParsedOutput } from './services/outputParser';
+import { collectSectionFailures, buildFixupScript } from './services/fixupScript';
+import { splitOutputForAnalysis, mergeAnalysisResults } from './services/outputChunks';
+import { computeSecurityScore } from './services/securityScore';
+import type { SecurityScore } from './services/securityScore';
+import { runShellcheck, attributeFindings } from './services/shellcheckService';
+import { clearResponseCache, getCacheStats, invalidateCachedResponses } from './services/responseCache';
+import { detectLockoutRisks, getOfferedSafeguards, buildSafeguardParts, SAFEGUARDS } from './services/lockoutDetector';
+import type { CacheStats } from './services/responseCache';
+import type { GenerationCallOptions } from './services/geminiService';
+import type { ProviderConfig } from './services/llmProvider';
 import Header from './components/Header';
 import HardeningOptions from './components/HardeningOptions';
+import type { ParameterInputs } from './components/HardeningOptions';
 import ScriptDisplay from './components/ScriptDisplay';
 import AnalysisDisplay from './components/AnalysisDisplay';
+import type { FixupState } from './components/AnalysisDisplay';
+import OutputSummary from './components/OutputSummary';
+import LogUpload from './components/LogUpload';
+import type { UploadedLog } from './components/LogUpload';
+import ProviderSettings from './components/ProviderSettings';
+import ShellcheckFindings from './components/ShellcheckFindings';
+import LockoutWarning from './components/LockoutWarning';
+import OptionGraphPanel from './components/OptionGraphPanel';
+import type { SelectionNotice } from './components/OptionGraphPanel';
 
 const MAX_CUSTOM_PROMPT_LENGTH = 1000;
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 8;
+// Rough size of a generated part, used to turn streamed tokens into a progress estimate.
+const EXPECTED_TOKENS_PER_PART = 800;
+
+type GenerationMode = 'ai' | 'template';
+
+/** A section the ShellCheck fix changed, offered for applying to the script on its own. */
+interface SectionFix {
+  id: string;
+  label: string;
+  content: string;
+}
 
 interface GenerationStatus {
   totalSteps: number;
+  /** Finished steps plus the estimated fraction of the steps still streaming. */
   currentStep: number;
   message: string;
+  tokensReceived: number;
 }
 
 // --- Pre-computation for efficient option handling ---
 
-const getAllOptionsRecursively = (options: HardeningOption[]): HardeningOption[] => {
-    let all: HardeningOption[] = [];
-    options.forEach(option => {
-        all.push(option);
-        if (option.subOptions) {
-            all = all.concat(getAllOptionsRecursively(option.subOptions));
-        }
-    });
-    return all;
-};
-
-// Create maps for quick lookups of options and their relationships
-const idToOptionMap: Map<string, HardeningOption> = new Map();
-const parentMap: Map<string, string> = new Map();
-
-const buildLookups = (options: HardeningOption[], parentId: string | null = null) => {
-    for (const option of options) {
-        idToOptionMap.set(option.id, option);
-        if (parentId) {
-            parentMap.set(option.id, parentId);
-        }
-        if (option.subOptions) {
-            buildLookups(option.subOptions, option.id);
-        }
-    }
-};
-
-PARANOIA_LEVELS.forEach(level => buildLookups(level.options));
+// Lookups of every option, its parent, and what it requires, conflicts with and recommends.
+const optionGraph = buildOptionGraph(PARANOIA_LEVELS.flatMap(level => level.options));
+const idToOptionMap = optionGraph.options;
 
 const allOptionsFromLevels = Array.from(idToOptionMap.values());
+const optionLabels = new Map(allOptionsFromLevels.map(option => [option.id, option.label]));
+
+// The banners the offline templates print, so their output can be traced back to options even
+// when the script that printed it is not the one loaded.
+const templateBanners = getSectionBanners(allOptionsFromLevels.filter(option => option.prompt).map(option => ({ option, content: generateTemplateSection(option) })));
 
 const initialSelections = Array.from(idToOptionMap.keys()).reduce((acc, key) => {
     acc[key] = false;
@@ -61,35 +92,133 @@ const App: React.FC = () => {
   const [selectedOptions, setSelectedOptions] = useState<SelectedOptions>(initialSelections);
   const [customPrompt, setCustomPrompt] = useState<string>('');
   const [customExclusions, setCustomExclusions] = useState<string>('');
-  const [generatedScript, setGeneratedScript] = useState<string>('');
+  const [parameterInputs, setParameterInputs] = useState<ParameterInputs>({});
+  // What the last toggle changed or refused besides the option itself.
+  const [selectionNotice, setSelectionNotice] = useState<SelectionNotice | null>(null);
+  const [generatedScript, setGeneratedScript] = useState<GeneratedScript>(EMPTY_SCRIPT);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
   const [generationStatus, setGenerationStatus] = useState<GenerationStatus | null>(null);
-  const [lastActiveOptions, setLastActiveOptions] = useState<HardeningOption[]>([]);
-  const [isRebootRecommended, setIsRebootRecommended] = useState<boolean>(false);
-
+  const [providerConfig, setProviderConfigState] = useState<ProviderConfig>(getProviderConfig);
+  const [generationMode, setGenerationMode] = useState<GenerationMode>('ai');
+  const [scriptKind, setScriptKind] = useState<ScriptKind>('harden');
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_CONCURRENCY);
+  const [isProviderSettingsOpen, setIsProviderSettingsOpen] = useState<boolean>(false);
+  const [forceRefresh, setForceRefresh] = useState<boolean>(false);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  const [enabledSafeguards, setEnabledSafeguards] = useState<Set<SafeguardId>>(() => new Set(Object.keys(SAFEGUARDS) as SafeguardId[]));
+  // The risk ids the user acknowledged; a changed selection with different risks needs a new acknowledgement.
+  const [acknowledgedRiskKey, setAcknowledgedRiskKey] = useState<string | null>(null);
+  // Whether the header and footer were served from the response cache; sections keep this in their metadata.
+  const [cachedPartIds, setCachedPartIds] = useState<Set<string>>(new Set());
 
   // State for output analysis
   const [activeTab, setActiveTab] = useState<'generate' | 'shellcheck' | 'advanced'>('generate');
   const [scriptOutput, setScriptOutput] = useState<string>('');
+  // A loaded log file replaces the textarea with a preview; its text is the script output.
+  const [uploadedLog, setUploadedLog] = useState<UploadedLog | null>(null);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [analysisScore, setAnalysisScore] = useState<SecurityScore | null>(null);
+  // The section results the last analysis was made from; the fix-up script repairs their failures.
+  const [analyzedOutput, setAnalyzedOutput] = useState<RunLogSummary | ParsedOutput | null>(null);
+  const [fixup, setFixup] = useState<FixupState | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
-  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [analysisError, setAnalysisError] = useState<Error | null>(null);
 
   // State for ShellCheck & Learn
   const [isImproving, setIsImproving] = useState<boolean>(false);
-  const [improvingError, setImprovingError] = useState<string | null>(null);
+  const [improvingError, setImprovingError] = useState<Error | null>(null);
   const [improvedScript, setImprovedScript] = useState<string>('');
   const [improvementSummary, setImprovementSummary] = useState<string[]>([]);
   const [improvedPromptIds, setImprovedPromptIds] = useState<Set<string>>(new Set());
+  // Bumped for an option each time ShellCheck & Learn refines its prompt.
+  const [promptVersions, setPromptVersions] = useState<Record<string, number>>({});
+  const [sectionFixes, setSectionFixes] = useState<SectionFix[]>([]);
   const [showImprovementSuccess, setShowImprovementSuccess] = useState(false);
+  const [shellcheckFindings, setShellcheckFindings] = useState<ShellcheckFinding[] | null>(null);
+  const [improvementMessage, setImprovementMessage] = useState<string>('');
 
+  // One controller per tab, so each long-running request can be cancelled on its own.
+  const generationControllerRef = useRef<AbortController | null>(null);
+  const analysisControllerRef = useRef<AbortController | null>(null);
+  const improvementControllerRef = useRef<AbortController | null>(null);
+  const fixupControllerRef = useRef<AbortController | null>(null);
+  // One per section being regenerated or retried on its own, keyed by option id.
+  const sectionControllersRef = useRef(new Map<string, AbortController>());
 
   const isPromptTooLong = customPrompt.length > MAX_CUSTOM_PROMPT_LENGTH;
+
+  // The bash is always rendered from the model; streaming sections show their text so far.
+  const renderedScript = useMemo(() => renderScript(generatedScript), [generatedScript]);
+
+  // Which lines of `renderedScript` each part occupies, to trace ShellCheck findings back to options.
+  const sectionLineRanges = useMemo(() => getScriptLineRanges(generatedScript), [generatedScript]);
+
+  const scriptOptions = useMemo(() => generatedScript.sections.map(s => s.option), [generatedScript.sections]);
+  const isRebootRecommended = generatedScript.kind === 'harden' && scriptOptions.some(option => idToOptionMap.get(option.id)?.rebootRequired);
+
+  // The option sections of the finished script, for the table of contents and its per-section controls.
+  const scriptContents = useMemo(() => generatedScript.sections.flatMap(section => {
+    const range = sectionLineRanges.find(r => r.id === section.option.id);
+    return range ? [{
+      ...range,
+      isOutdated: section.promptVersion < (promptVersions[section.option.id] ?? 0),
+      isRegenerating: section.status === 'generating',
+    }] : [];
+  }), [generatedScript.sections, sectionLineRanges, promptVersions]);
+
+  // The companion script that undoes the sections of the finished script. A check changes nothing to undo.
+  const rollbackScript = useMemo(
+    () => (isLoading || !renderedScript || generatedScript.kind === 'check' ? '' : generateRollbackScript(scriptOptions)),
+    [isLoading, renderedScript, generatedScript.kind, scriptOptions]
+  );
+
+  // A compliance check only reads the system, so it cannot lock anyone out.
+  const lockoutRisks = useMemo(() => (scriptKind === 'check' ? [] : detectLockoutRisks(selectedOptions)), [scriptKind, selectedOptions]);
+  const lockoutRiskKey = lockoutRisks.map(risk => risk.id).join(',');
+  const isLockoutAcknowledged = lockoutRisks.length === 0 || acknowledgedRiskKey === lockoutRiskKey;
+
+  // After generation, only the risks the finished script still contains without a safeguard.
+  const scriptLockoutRisks = useMemo(() => {
+    if (isLoading || !renderedScript || generatedScript.kind === 'check') return [];
+    const lastSelection = Object.fromEntries(scriptOptions.map(option => [option.id, true]));
+    return detectLockoutRisks(lastSelection, renderedScript);
+  }, [isLoading, renderedScript, generatedScript.kind, scriptOptions]);
+
+  const failedSections = generatedScript.sections
+    .filter(s => s.status === 'failed' || (s.status === 'generating' && !isLoading && s.meta.error !== undefined))
+    .map(s => ({ id: s.option.id, label: s.option.label, error: s.meta.error || '', isRetrying: s.status === 'generating' }));
+
+  // A pasted JSON Lines run log has exact section results, shown before any analysis.
+  const runLog = useMemo(() => parseRunLog(scriptOutput), [scriptOutput]);
+  const runLogSummary = useMemo(() => runLog && summarizeRunLog(runLog.records), [runLog]);
+  const countOutcome = (outcome: SectionOutcome) => runLogSummary?.sections.filter(section => section.outcome === outcome).length ?? 0;
+  // Text output is read locally; its banners are traced back to the sections of the current script.
+  const sectionBanners = useMemo(() => new Map([...templateBanners, ...getSectionBanners(generatedScript.sections)]), [generatedScript.sections]);
+  const parsedOutput = useMemo(() => runLog ? null : parseScriptOutput(scriptOutput, sectionBanners), [runLog, scriptOutput, sectionBanners]);
+  // Long output is analyzed in parts, cut between sections.
+  const outputChunks = useMemo(() => splitOutputForAnalysis(scriptOutput), [scriptOutput]);
+  // The failed sections of the analyzed run that a fix-up script can repair.
+  const sectionFailures = useMemo(
+    () => (analysisResult && analyzedOutput ? collectSectionFailures(analyzedOutput, analysisResult.findings, idToOptionMap, generatedScript) : []),
+    [analysisResult, analyzedOutput, generatedScript]
+  );
+
+  const cachedParts = [
+    ...(cachedPartIds.has('header') ? ['Script header'] : []),
+    ...generatedScript.sections.filter(s => s.meta.cached && s.status === 'done').map(s => s.option.label),
+    ...(cachedPartIds.has('footer') ? ['Script footer'] : []),
+  ];
   
   // Determine if the generate button should be enabled.
   // It's active if any checkbox is selected OR if there's text in the custom prompt.
   const isAnyOptionSelected = Object.values(selectedOptions).some(Boolean) || customPrompt.trim() !== '';
+
+  // Generation waits until every parameter of a selected option has a valid value.
+  const hasInvalidParameters = allOptionsFromLevels.some(option =>
+    selectedOptions[option.id] && Object.keys(resolveParameters(option, parameterInputs[option.id]).errors).length > 0
+  );
   
   // Effect to dismiss the improvement success message
   useEffect(() => {
@@ -99,49 +228,86 @@ const App: React.FC = () => {
     }
   }, [showImprovementSuccess]);
 
+  const refreshCacheStats = useCallback(() => {
+    getCacheStats().then(setCacheStats);
+  }, []);
+
+  useEffect(() => {
+    refreshCacheStats();
+  }, [refreshCacheStats]);
+
+  // Stop anything still in flight when the app unmounts.
+  useEffect(() => () => {
+    generationControllerRef.current?.abort();
+    analysisControllerRef.current?.abort();
+    improvementControllerRef.current?.abort();
+    fixupControllerRef.current?.abort();
+    sectionControllersRef.current.forEach(controller => controller.abort());
+  }, []);
+
   const handleOptionChange = useCallback((id: string) => {
-    setSelectedOptions(prev => {
-      const newSelections = { ...prev };
+    const change = toggleOption(optionGraph, selectedOptions, id);
+    setSelectedOptions(change.selected);
+    const message = describeSelectionChange(optionGraph, id, change);
+    setSelectionNotice(message ? { message, isRefused: change.conflicts.length > 0 } : null);
+  }, [selectedOptions]);
+  
+  const updateSection = useCallback((id: string, patch: Partial<ScriptSection>) => {
+    setGeneratedScript(prev => updateScriptSection(prev, id, patch));
+  }, []);
 
-      // 1. Toggle the clicked option's state
-      const isChecked = !prev[id];
-      newSelections[id] = isChecked;
+  const retryOptionsFor = useCallback((label: string, signal?: AbortSignal): RetryOptions => ({
+    ...DEFAULT_RETRY_OPTIONS,
+    signal,
+    onRetry: (attempt, delayMs, e) => {
+      console.warn(`Retrying ${label} (attempt ${attempt}) in ${delayMs}ms:`, e);
+      setGenerationStatus(prev => prev && { ...prev, message: `Retrying ${label} in ${Math.round(delayMs / 1000)}s (attempt ${attempt} of ${DEFAULT_RETRY_OPTIONS.retries})...` });
+    },
+  }), []);
 
-      const changedOption = idToOptionMap.get(id);
+  const cacheOptionsFor = useCallback((partId: string): GenerationCallOptions['cache'] => ({
+    partId,
+    forceRefresh,
+    onHit: () => setCachedPartIds(prev => new Set(prev).add(partId)),
+  }), [forceRefresh]);
 
-      // 2. Propagate changes downwards to all descendants
-      if (changedOption?.subOptions) {
-        const descendants = getAllOptionsRecursively(changedOption.subOptions);
-        descendants.forEach(descendant => {
-          newSelections[descendant.id] = isChecked;
-        });
-      }
+  const generateSectionContent = useCallback(async (
+    option: HardeningOption,
+    kind: ScriptKind,
+    onProgress?: (progress: StreamProgress) => void,
+    signal?: AbortSignal
+  ): Promise<Pick<ScriptSection, 'content' | 'meta'>> => {
+    const { values: parameterValues } = resolveParameters(option, parameterInputs[option.id]);
+    if (generationMode === 'template') {
+      const content = kind === 'check' ? generateCheckSection(option, parameterValues) : generateTemplateSection(option, parameterValues);
+      return { content, meta: { source: 'template', cached: false, generatedAt: new Date().toISOString() } };
+    }
+    let cached = false;
+    const content = await withRetry(
+      () => generateScriptSection(option, { onProgress, signal, parameterValues, scriptKind: kind, cache: { ...cacheOptionsFor(option.id), onHit: () => { cached = true; } } }),
+      retryOptionsFor(`'${option.label}'`, signal)
+    );
+    return { content, meta: { source: 'ai', cached, generatedAt: new Date().toISOString() } };
+  }, [generationMode, parameterInputs, retryOptionsFor, cacheOptionsFor]);
 
-      // 3. Propagate changes upwards to all ancestors
-      let parentId = parentMap.get(id);
-      while (parentId) {
-        const parentOption = idToOptionMap.get(parentId);
-        if (!parentOption?.subOptions) break;
+  const handleProviderChange = useCallback((config: ProviderConfig | null) => {
+    setProviderConfig(config);
+    setProviderConfigState(getProviderConfig());
+  }, []);
 
-        if (!isChecked) {
-          // If a child is unchecked, its parent must also be unchecked.
-          newSelections[parentId] = false;
-        } else {
-          // If a child is checked, check the parent only if all its children are now checked.
-          const allChildrenChecked = parentOption.subOptions.every(
-            sub => newSelections[sub.id]
-          );
-          newSelections[parentId] = allChildrenChecked;
-        }
-        
-        // Move up the hierarchy
-        parentId = parentMap.get(parentId);
-      }
-      
-      return newSelections;
-    });
+  // Recovery action for authentication and configuration errors on any tab.
+  const handleOpenSettings = useCallback(() => {
+    setActiveTab('generate');
+    setGenerationMode('ai');
+    setIsProviderSettingsOpen(true);
   }, []);
-  
+
+  const handleCancelGeneration = useCallback(() => generationControllerRef.current?.abort(), []);
+  const handleCancelAnalysis = useCallback(() => analysisControllerRef.current?.abort(), []);
+  const handleCancelImprovement = useCallback(() => improvementControllerRef.current?.abort(), []);
+  const handleCancelFixup = useCallback(() => fixupControllerRef.current?.abort(), []);
+  const handleCancelSection = useCallback((id: string) => sectionControllersRef.current.get(id)?.abort(), []);
+
   const handleSuggestedPromptClick = useCallback((promptText: string) => {
     setCustomPrompt(prev => {
         if (prev.trim() === '') return promptText;
@@ -150,148 +316,420 @@ const App: React.FC = () => {
   }, []);
 
 
+  const handleParameterChange = useCallback((optionId: string, name: string, text: string) => {
+    setParameterInputs(prev => ({ ...prev, [optionId]: { ...prev[optionId], [name]: text } }));
+  }, []);
+
+  const handleToggleSafeguard = useCallback((id: SafeguardId) => {
+    setEnabledSafeguards(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  }, []);
+
   const handleGenerateScript = useCallback(async () => {
-    if (isPromptTooLong || !isAnyOptionSelected) return;
+    if (isPromptTooLong || !isAnyOptionSelected || !isLockoutAcknowledged || hasInvalidParameters) return;
+
+    generationControllerRef.current?.abort();
+    // The new script replaces every section, including any still being regenerated.
+    sectionControllersRef.current.forEach(controller => controller.abort());
+    sectionControllersRef.current.clear();
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
+    const { signal } = controller;
 
     setIsLoading(true);
     setError(null);
-    setGeneratedScript('');
+    setGeneratedScript(EMPTY_SCRIPT);
+    setCachedPartIds(new Set());
     setImprovedScript('');
     setImprovementSummary([]);
-    setIsRebootRecommended(false);
+    setSectionFixes([]);
 
-    const activeOptions = allOptionsFromLevels.filter(option => selectedOptions[option.id] && option.prompt);
+    const selectedSectionOptions = allOptionsFromLevels.filter(option => selectedOptions[option.id] && option.prompt);
     
     if (customPrompt.trim()) {
         let finalCustomPrompt = `*   **Custom Request**: ${customPrompt.trim()}`;
         if (customExclusions.trim()) {
             finalCustomPrompt += `\n    *   **IMPORTANT EXCLUSIONS**: The user has specified that the following items MUST be excluded from this custom task: \`${customExclusions.trim()}\`. For example, if the request is to "disable all services" and the exclusion is "sshd", your script must NOT disable the sshd service. Honor these exclusions strictly.`;
         }
-        activeOptions.push({
+        selectedSectionOptions.push({
             id: 'custom',
             label: 'Custom Requirement',
             description: 'User-defined custom prompt.',
             prompt: finalCustomPrompt,
         });
     }
-    setLastActiveOptions(activeOptions);
-    
-    // Check for reboot requirement
-    const rebootNeeded = activeOptions.some(option => {
-        const fullOptionData = idToOptionMap.get(option.id);
-        return fullOptionData?.rebootRequired;
-    });
-    setIsRebootRecommended(rebootNeeded);
-    
+
+    const activeOptions = sortByExecutionOrder(selectedSectionOptions);
+
+    const safeguards = buildSafeguardParts(getOfferedSafeguards(lockoutRisks).filter(id => enabledSafeguards.has(id)));
+
     const totalSteps = activeOptions.length + 2; // header + footer
-    let currentStep = 0;
-    let fullScript = '';
+    const streamedTokens = new Map<string, number>();
+    const finishedParts = new Set<string>();
+    let statusMessage = "Initializing generation...";
+
+    // A part that is still streaming counts for up to 90% of a step, based on its tokens so far.
+    const publishStatus = () => {
+        let inFlight = 0;
+        let tokensReceived = 0;
+        streamedTokens.forEach((tokens, part) => {
+            tokensReceived += tokens;
+            if (!finishedParts.has(part)) {
+                inFlight += Math.min(tokens / EXPECTED_TOKENS_PER_PART, 0.9);
+            }
+        });
+        setGenerationStatus({ totalSteps, currentStep: finishedParts.size + inFlight, message: statusMessage, tokensReceived });
+    };
 
     const updateProgress = (stepMessage: string) => {
-        currentStep++;
         const randomJoke = JOKES[Math.floor(Math.random() * JOKES.length)];
-        const message = `${stepMessage}\n\n"${randomJoke}"`;
-        setGenerationStatus({ totalSteps, currentStep, message });
+        statusMessage = `${stepMessage}\n\n"${randomJoke}"`;
+        publishStatus();
+    };
+
+    const finishPart = (part: string) => {
+        finishedParts.add(part);
+        publishStatus();
     };
 
+    const streamPart = (part: string, onText: (text: string) => void) => ({ text, tokens }: StreamProgress) => {
+        streamedTokens.set(part, tokens);
+        onText(text);
+        publishStatus();
+    };
+
+    const setHeader = (header: string) => setGeneratedScript(prev => ({ ...prev, header }));
+    const setFooter = (footer: string) => setGeneratedScript(prev => ({ ...prev, footer }));
+    const setSafeguards = (parts: GeneratedScript['safeguards']) => setGeneratedScript(prev => ({ ...prev, safeguards: parts }));
+
+    // Regenerating a section later keeps to the kind of script it belongs to.
+    const kind = scriptKind;
+    setGeneratedScript({
+        ...EMPTY_SCRIPT,
+        kind,
+        sections: activeOptions.map(option => ({
+            option,
+            promptVersion: promptVersions[option.id] ?? 0,
+            status: 'pending',
+            content: '',
+            meta: { source: generationMode, cached: false },
+        })),
+    });
+    let isHeaderDone = false;
+
     try {
         // Initial state
-        setGenerationStatus({ totalSteps, currentStep: 0, message: "Initializing generation..." });
+        publishStatus();
         
         // Step 1: Header
         updateProgress("Step 1: Generating script header and helpers...");
-        const header = await generateScriptHeaderAndHelpers();
-        fullScript += header + '\n\n';
-        setGeneratedScript(fullScript);
-
-        // Step 2...N: Sections
-        for (const option of activeOptions) {
-            updateProgress(`Step ${currentStep + 1}: Generating '${option.label}' section...`);
-            const section = await generateScriptSection(option);
-            fullScript += section + '\n\n';
-            setGeneratedScript(fullScript);
+        const header = generationMode === 'template'
+            ? (kind === 'check' ? generateCheckHeader() : generateTemplateHeader())
+            : await withRetry(
+                () => generateScriptHeaderAndHelpers({ onProgress: streamPart('header', setHeader), signal, scriptKind: kind, cache: cacheOptionsFor('header') }),
+                retryOptionsFor('script header', signal)
+              );
+        setHeader(header);
+        isHeaderDone = true;
+        finishPart('header');
+        // The snapshot runs before any section; the auto-revert is only armed once every section is in.
+        setSafeguards({ preamble: safeguards.preamble, epilogue: '' });
+
+        // Step 2...N: Sections, several at a time. A failed or cancelled section becomes a
+        // placeholder that can be retried on its own instead of failing the whole run.
+        await runWithConcurrency(activeOptions.map((option, index) => async () => {
+            updateProgress(`Step ${index + 2}: Generating '${option.label}' section...`);
+            updateSection(option.id, { status: 'generating' });
+            try {
+                const section = await generateSectionContent(
+                    option,
+                    kind,
+                    streamPart(option.id, text => updateSection(option.id, { content: text })),
+                    signal
+                );
+                updateSection(option.id, { status: 'done', ...section });
+            } catch (e) {
+                const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred during section generation.';
+                if (!(e instanceof CancelledError)) console.error(e);
+                updateSection(option.id, {
+                    status: 'failed',
+                    content: buildFailedSectionPlaceholder(option, errorMessage),
+                    meta: { source: generationMode, cached: false, error: errorMessage },
+                });
+            }
+            finishPart(option.id);
+        }), generationMode === 'template' ? 1 : concurrency, signal);
+
+        if (signal.aborted) {
+            throw new CancelledError();
         }
 
+        setSafeguards(safeguards);
+
         // Final Step: Footer
         updateProgress(`Step ${totalSteps}: Adding script footer...`);
-        const footer = await generateScriptFooter();
-        fullScript += footer + '\n';
-        setGeneratedScript(fullScript);
+        const footer = generationMode === 'template'
+            ? (kind === 'check' ? generateCheckFooter() : generateTemplateFooter())
+            : await withRetry(
+                () => generateScriptFooter({ onProgress: streamPart('footer', setFooter), signal, scriptKind: kind, cache: cacheOptionsFor('footer') }),
+                retryOptionsFor('script footer', signal)
+              );
+        setFooter(footer);
+        finishPart('footer');
 
     } catch (e) {
-      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred during script generation.';
-      setError(errorMessage);
+      if (e instanceof CancelledError) {
+        // Keep the sections that finished; the rest become retryable placeholders. A
+        // half-written header or footer is dropped, and without a header nothing is kept.
+        const cancelledMessage = e.message;
+        if (isHeaderDone) {
+          setGeneratedScript(prev => ({
+            ...prev,
+            footer: '',
+            sections: prev.sections.map(s => s.status === 'pending' || s.status === 'generating'
+              ? { ...s, status: 'failed', content: buildFailedSectionPlaceholder(s.option, cancelledMessage), meta: { ...s.meta, error: cancelledMessage } }
+              : s),
+          }));
+        } else {
+          setGeneratedScript(EMPTY_SCRIPT);
+        }
+        return;
+      }
+      setError(e instanceof Error ? e : new Error('An unknown error occurred during script generation.'));
       console.error(e);
       setGenerationStatus(null);
     } finally {
+      if (generationControllerRef.current === controller) {
+        generationControllerRef.current = null;
+      }
       setIsLoading(false);
       setGenerationStatus(null);
+      refreshCacheStats();
     }
-  }, [selectedOptions, customPrompt, customExclusions, isPromptTooLong, isAnyOptionSelected]);
+  }, [selectedOptions, customPrompt, customExclusions, isPromptTooLong, isAnyOptionSelected, isLockoutAcknowledged, hasInvalidParameters, lockoutRisks, enabledSafeguards, generationMode, scriptKind, concurrency, promptVersions, generateSectionContent, updateSection, retryOptionsFor, cacheOptionsFor, refreshCacheStats]);
+
+  // Generates one section again with the current prompt, leaving the rest of the script as it is.
+  const handleRegenerateSection = useCallback(async (id: string) => {
+    const section = generatedScript.sections.find(s => s.option.id === id);
+    if (!section) return;
+
+    sectionControllersRef.current.get(id)?.abort();
+    const controller = new AbortController();
+    sectionControllersRef.current.set(id, controller);
+
+    const promptVersion = promptVersions[id] ?? 0;
+    // A failed section keeps its error while it is retried, so it stays listed as retrying. The
+    // old content stays until the new one streams in, so the section keeps its entry and controls.
+    updateSection(id, { status: 'generating', meta: { ...section.meta, cached: false } });
+    try {
+      const result = await generateSectionContent(section.option, generatedScript.kind, ({ text }) => updateSection(id, { content: text }), controller.signal);
+      updateSection(id, { status: 'done', promptVersion, ...result });
+    } catch (e) {
+      if (e instanceof CancelledError) {
+        // A cancelled section goes back to what it was, unless a new script replaced it meanwhile.
+        if (sectionControllersRef.current.get(id) === controller) {
+          updateSection(id, { status: section.status, content: section.content, meta: section.meta });
+        }
+        return;
+      }
+      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred during section generation.';
+      console.error(e);
+      updateSection(id, {
+        status: 'failed',
+        content: buildFailedSectionPlaceholder(section.option, errorMessage),
+        meta: { source: generationMode, cached: false, error: errorMessage },
+      });
+    } finally {
+      if (sectionControllersRef.current.get(id) === controller) {
+        sectionControllersRef.current.delete(id);
+      }
+      refreshCacheStats();
+    }
+  }, [generatedScript.sections, generatedScript.kind, promptVersions, generationMode, generateSectionContent, updateSection, refreshCacheStats]);
+
+  const handleRemoveSection = useCallback((id: string) => {
+    setGeneratedScript(prev => removeScriptSection(prev, id));
+  }, []);
+
+  const handleMoveSection = useCallback((id: string, offset: number) => {
+    setGeneratedScript(prev => moveScriptSection(prev, id, offset));
+  }, []);
+
+  // Takes over the ShellCheck fix of a single section, keeping every other section as generated.
+  const handleApplySectionFix = useCallback((fix: SectionFix) => {
+    updateSection(fix.id, { content: fix.content, meta: { source: 'shellcheck', cached: false, generatedAt: new Date().toISOString() } });
+    setSectionFixes(prev => prev.filter(f => f.id !== fix.id));
+  }, [updateSection]);
+
+  const handleClearCache = useCallback(async () => {
+    await clearResponseCache();
+    refreshCacheStats();
+  }, [refreshCacheStats]);
   
+  // Rewrites the prompts of the options a fix taught something about, and returns their labels.
+  const applyRefinedPrompts = useCallback(async (refinedPrompts: RefinedPrompt[]): Promise<string[]> => {
+    const refinedOptions = refinedPrompts.flatMap(refined => {
+      const option = idToOptionMap.get(refined.id);
+      if (!option) return [];
+      option.prompt = refined.newPrompt;
+      return [option];
+    });
+    if (refinedOptions.length === 0) return [];
+
+    // Replies generated from the old prompts are no longer wanted.
+    await Promise.all(refinedOptions.map(option => invalidateCachedResponses(option.id)));
+    refreshCacheStats();
+    setImprovedPromptIds(prev => new Set([...prev, ...refinedOptions.map(option => option.id)]));
+    // Sections generated from the old prompts are now shown as outdated.
+    setPromptVersions(prev => {
+      const next = { ...prev };
+      refinedOptions.forEach(option => { next[option.id] = (next[option.id] ?? 0) + 1; });
+      return next;
+    });
+    return refinedOptions.map(option => option.label);
+  }, [refreshCacheStats]);
+
   const handleAnalyzeOutput = useCallback(async () => {
     if (!scriptOutput.trim()) {
-      setAnalysisError("Please paste the script output before analyzing.");
+      setAnalysisError(new Error("Please paste the script output before analyzing."));
       return;
     }
+    analysisControllerRef.current?.abort();
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+
     setIsAnalyzing(true);
     setAnalysisError(null);
     setAnalysisResult(null);
+    fixupControllerRef.current?.abort();
+    setFixup(null);
+    setAnalyzedOutput(runLogSummary ?? parsedOutput);
+    // Scored from the outcomes read locally, so the same output always gets the same score.
+    const sectionResults = runLogSummary?.sections ?? parsedOutput?.sections.map(({ id, title, outcome }) => ({ id, label: title, outcome })) ?? [];
+    setAnalysisScore(computeSecurityScore(sectionResults, idToOptionMap));
+
+    // One part after the other, so the progress counts the parts that are done.
+    const chunks = outputChunks;
+    setAnalysisProgress({ completed: 0, total: chunks.length });
 
     try {
-      const result = await analyzeScriptOutput(scriptOutput);
-      setAnalysisResult(result);
+      const results: AnalysisResult[] = [];
+      for (const [index, chunk] of chunks.entries()) {
+        const part = chunks.length === 1 ? undefined : { index: index + 1, total: chunks.length };
+        results.push(await analyzeScriptOutput(chunk.text, controller.signal, part, sectionBanners));
+        setAnalysisProgress({ completed: results.length, total: chunks.length });
+      }
+      setAnalysisResult(mergeAnalysisResults(chunks, results));
     } catch (e) {
-      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred during analysis.';
-      setAnalysisError(errorMessage);
+      if (controller.signal.aborted) return;
+      setAnalysisError(e instanceof Error ? e : new Error('An unknown error occurred during analysis.'));
       console.error(e);
     } finally {
+      if (analysisControllerRef.current === controller) {
+        analysisControllerRef.current = null;
+      }
       setIsAnalyzing(false);
+      setAnalysisProgress(null);
     }
-  }, [scriptOutput]);
+  }, [scriptOutput, runLogSummary, parsedOutput, outputChunks, sectionBanners]);
+
+  const handleLoadLog = useCallback((log: UploadedLog) => {
+    setUploadedLog(log);
+    setScriptOutput(log.text);
+  }, []);
+
+  const handleRemoveLog = useCallback(() => {
+    setUploadedLog(null);
+    setScriptOutput('');
+  }, []);
   
+  // Repairs the failed sections of the analyzed run with a script of their own. It uses the header
+  // of the loaded hardening script, or the template header when none is loaded.
+  const handleGenerateFixup = useCallback(async () => {
+    if (sectionFailures.length === 0) return;
+    fixupControllerRef.current?.abort();
+    const controller = new AbortController();
+    fixupControllerRef.current = controller;
+    setFixup({ script: '', isLoading: true, error: null, summary: [], improvedPrompts: [] });
+
+    const header = generatedScript.kind === 'harden' && generatedScript.header && !isLoading ? generatedScript.header : generateTemplateHeader();
+    const failures = sectionFailures.map(failure => ({ ...failure, parameterValues: resolveParameters(failure.option, parameterInputs[failure.option.id]).values }));
+
+    try {
+      const result = await generateFixupScript(failures, controller.signal);
+      const improvedPrompts = await applyRefinedPrompts(result.refinedPrompts);
+      setFixup({ script: renderScript(buildFixupScript(header, failures, result)), isLoading: false, error: null, summary: result.summary, improvedPrompts });
+    } catch (e) {
+      if (controller.signal.aborted) {
+        setFixup(null);
+        return;
+      }
+      setFixup({ script: '', isLoading: false, error: e instanceof Error ? e : new Error('An unknown error occurred during fix-up script generation.'), summary: [], improvedPrompts: [] });
+      console.error(e);
+    } finally {
+      if (fixupControllerRef.current === controller) {
+        fixupControllerRef.current = null;
+      }
+    }
+  }, [sectionFailures, generatedScript.kind, generatedScript.header, isLoading, parameterInputs, applyRefinedPrompts]);
+
   const handleRunShellcheck = useCallback(async () => {
-    if (!generatedScript.trim() || !generatedScript.trim().startsWith('#!')) {
-      setImprovingError("A valid script with a shebang (e.g., #!/bin/bash) must be generated on the first tab before running ShellCheck.");
+    if (!renderedScript.trim() || !renderedScript.trim().startsWith('#!')) {
+      setImprovingError(new Error("A valid script with a shebang (e.g., #!/bin/bash) must be generated on the first tab before running ShellCheck."));
       return;
     }
+    improvementControllerRef.current?.abort();
+    const controller = new AbortController();
+    improvementControllerRef.current = controller;
+
     setIsImproving(true);
     setImprovingError(null);
     setImprovedScript('');
     setImprovementSummary([]);
+    setShellcheckFindings(null);
+    setSectionFixes([]);
+    // The script as it was checked; the fixes are compared against it.
+    const checkedScript = generatedScript;
 
     try {
+      // Step 1: Real ShellCheck findings, each linked to the section that produced the line.
+      setImprovementMessage('Running ShellCheck...');
+      const findings = attributeFindings(await runShellcheck(renderedScript, controller.signal), sectionLineRanges);
+      setShellcheckFindings(findings);
+      if (findings.length === 0) return;
+
+      // Step 2: Only the verified findings are handed to the model for fixing and learning.
+      setImprovementMessage(`Fixing ${findings.length} ShellCheck finding${findings.length === 1 ? '' : 's'} and refining prompts...`);
       // Filter out the custom prompt before sending to learn, as it's not a permanent option
-      const learnableOptions = lastActiveOptions.filter(opt => opt.id !== 'custom');
-      const result = await runShellcheckAndLearn(generatedScript, learnableOptions);
+      const learnableOptions = scriptOptions.filter(opt => opt.id !== 'custom');
+      const result = await runShellcheckAndLearn(renderedScript, learnableOptions, findings, controller.signal);
       setImprovedScript(result.correctedScript);
       setImprovementSummary(result.improvementSummary);
-      
-      const allModifiableOptions = PARANOIA_LEVELS.flatMap(l => l.options);
 
-      // Apply learned prompt improvements
-      if (result.refinedPrompts.length > 0) {
-        setShowImprovementSuccess(true);
-        const newImprovedIds = new Set(improvedPromptIds);
+      // Attribute the corrections to the sections they were made in.
+      setSectionFixes(findChangedSections(checkedScript, result.correctedScript)
+        .map(section => ({ id: section.option.id, label: section.option.label, content: section.content })));
 
-        result.refinedPrompts.forEach(refined => {
-            const optionToUpdate = allOptionsFromLevels.find(opt => opt.id === refined.id);
-            if(optionToUpdate) {
-                optionToUpdate.prompt = refined.newPrompt;
-                newImprovedIds.add(refined.id);
-            }
-        });
-
-        setImprovedPromptIds(newImprovedIds);
+      // Apply learned prompt improvements. The prompts describe hardening steps, so the fixes
+      // to a compliance check say nothing about them.
+      if (checkedScript.kind === 'harden' && result.refinedPrompts.length > 0) {
+        setShowImprovementSuccess(true);
+        await applyRefinedPrompts(result.refinedPrompts);
       }
     } catch (e) {
-      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred during script refinement.';
-      setImprovingError(errorMessage);
+      if (controller.signal.aborted) return;
+      setImprovingError(e instanceof Error ? e : new Error('An unknown error occurred during script refinement.'));
       console.error(e);
     } finally {
+      if (improvementControllerRef.current === controller) {
+        improvementControllerRef.current = null;
+      }
       setIsImproving(false);
     }
-  }, [generatedScript, lastActiveOptions, improvedPromptIds]);
+  }, [renderedScript, generatedScript, sectionLineRanges, scriptOptions, applyRefinedPrompts]);
 
   const TabButton: React.FC<{tabName: 'generate' | 'shellcheck' | 'advanced'; label: string}> = ({ tabName, label }) => (
     <button
@@ -331,8 +769,18 @@ const App: React.FC = () => {
                   selectedOptions={selectedOptions} 
                   onOptionChange={handleOptionChange}
                   improvedPromptIds={improvedPromptIds}
+                  parameterInputs={parameterInputs}
+                  onParameterChange={handleParameterChange}
                 />
               ))}
+
+              <OptionGraphPanel
+                graph={optionGraph}
+                selectedOptions={selectedOptions}
+                notice={selectionNotice}
+                onOptionChange={handleOptionChange}
+                onDismissNotice={() => setSelectionNotice(null)}
+              />
               
               <div>
                 <label htmlFor="custom-prompt" className="block text-sm font-medium text-gray-400 mb-2">
@@ -383,26 +831,158 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              <div>
+                <span className="block text-sm font-medium text-gray-400 mb-2">Script Type</span>
+                <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Script Type">
+                  {([['harden', 'Harden'], ['check', 'Check']] as const).map(([kind, label]) => (
+                    <button
+                      key={kind}
+                      role="radio"
+                      aria-checked={scriptKind === kind}
+                      onClick={() => setScriptKind(kind)}
+                      disabled={isLoading}
+                      className={`${
+                        scriptKind === kind
+                          ? 'bg-blue-600 text-white border-blue-500'
+                          : 'bg-gray-800 text-gray-400 border-gray-700 hover:text-gray-200'
+                      } py-2 px-3 text-sm font-medium rounded-md border transition-colors disabled:cursor-not-allowed`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-400 mt-2">
+                  {scriptKind === 'harden'
+                    ? 'The script applies the selected options.'
+                    : 'A read-only script that reports PASS, FAIL or N/A for each selected option without changing anything.'}
+                </p>
+              </div>
+
+              <div>
+                <span className="block text-sm font-medium text-gray-400 mb-2">Generation Mode</span>
+                <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Generation Mode">
+                  {([['ai', 'AI'], ['template', 'Template']] as const).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      role="radio"
+                      aria-checked={generationMode === mode}
+                      onClick={() => setGenerationMode(mode)}
+                      disabled={isLoading}
+                      className={`${
+                        generationMode === mode
+                          ? 'bg-blue-600 text-white border-blue-500'
+                          : 'bg-gray-800 text-gray-400 border-gray-700 hover:text-gray-200'
+                      } py-2 px-3 text-sm font-medium rounded-md border transition-colors disabled:cursor-not-allowed`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-400 mt-2">
+                  {generationMode === 'ai'
+                    ? 'Each section is written by the configured model.'
+                    : 'Sections come from a curated offline snippet library. No API key needed, and the same selection always produces the same script.'}
+                </p>
+              </div>
+
+              {generationMode === 'ai' && (
+                <>
+                  <ProviderSettings
+                    config={providerConfig}
+                    onChange={handleProviderChange}
+                    isOpen={isProviderSettingsOpen}
+                    onToggle={setIsProviderSettingsOpen}
+                  />
+                  <div className="flex items-center justify-between gap-4">
+                    <label htmlFor="concurrency" className="text-sm font-medium text-gray-400">
+                      Parallel section requests
+                    </label>
+                    <input
+                      id="concurrency"
+                      type="number"
+                      min={1}
+                      max={MAX_CONCURRENCY}
+                      className="w-20 bg-gray-800 border border-gray-700 rounded-md shadow-sm p-2 text-sm focus:ring-blue-500 focus:border-blue-500 transition"
+                      value={concurrency}
+                      onChange={(e) => setConcurrency(Math.max(1, Math.min(MAX_CONCURRENCY, Number(e.target.value) || 1)))}
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <label htmlFor="force-refresh" className="flex items-center gap-2 text-sm font-medium text-gray-400 cursor-pointer">
+                      <input
+                        id="force-refresh"
+                        type="checkbox"
+                        className="h-4 w-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+                        checked={forceRefresh}
+                        onChange={(e) => setForceRefresh(e.target.checked)}
+                        disabled={isLoading}
+                      />
+                      Ignore cached responses
+                    </label>
+                    <button
+                      onClick={handleClearCache}
+                      disabled={isLoading || !cacheStats?.entries}
+                      className="px-3 py-1.5 text-xs font-medium text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors disabled:cursor-not-allowed disabled:text-gray-500"
+                      title={cacheStats ? `${cacheStats.entries} cached responses, ~${Math.ceil(cacheStats.bytes / 1024)} KB` : undefined}
+                    >
+                      Clear cache{cacheStats?.entries ? ` (${cacheStats.entries})` : ''}
+                    </button>
+                  </div>
+                </>
+              )}
+
+              <LockoutWarning
+                risks={lockoutRisks}
+                enabledSafeguards={enabledSafeguards}
+                onToggleSafeguard={handleToggleSafeguard}
+                isAcknowledged={isLockoutAcknowledged}
+                onAcknowledgeChange={(acknowledged) => setAcknowledgedRiskKey(acknowledged ? lockoutRiskKey : null)}
+                disabled={isLoading}
+              />
+
               <button
                 onClick={handleGenerateScript}
                 // The button is disabled while loading, if the prompt is too long,
-                // or if no selections have been made.
-                disabled={isLoading || isPromptTooLong || !isAnyOptionSelected}
+                // if no selections have been made, if lockout risks are unacknowledged, or if a parameter is invalid.
+                disabled={isLoading || isPromptTooLong || !isAnyOptionSelected || !isLockoutAcknowledged || hasInvalidParameters}
                 className="w-full flex justify-center items-center bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 px-4 rounded-md transition disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed"
               >
                 {/* The button text changes based on the loading state and whether any options are selected. */}
-                {isLoading ? 'Generating...' : isAnyOptionSelected ? 'Generate Hardening Script' : 'Make a Selection'}
+                {isLoading ? 'Generating...' : !isAnyOptionSelected ? 'Make a Selection' : scriptKind === 'check' ? 'Generate Check Script' : 'Generate Hardening Script'}
               </button>
+              {isLoading && (
+                <button
+                  onClick={handleCancelGeneration}
+                  className="w-full -mt-3 flex justify-center items-center bg-gray-700 hover:bg-gray-600 text-gray-200 font-medium py-2 px-4 rounded-md transition"
+                >
+                  Cancel
+                </button>
+              )}
             </div>
             <div className="lg:w-2/3">
                <ScriptDisplay 
-                  script={generatedScript} 
+                  script={renderedScript} 
+                  scriptKind={generatedScript.kind}
                   isLoading={isLoading} 
                   error={error} 
                   loadingMessage={generationStatus?.message || "Generating your custom script..."}
                   currentStep={generationStatus?.currentStep || 0}
                   totalSteps={generationStatus?.totalSteps || 0}
+                  tokensReceived={generationStatus?.tokensReceived || 0}
                   isRebootRecommended={isRebootRecommended}
+                  failedSections={failedSections}
+                  onRetrySection={handleRegenerateSection}
+                  onCancelSection={handleCancelSection}
+                  onRetry={handleGenerateScript}
+                  onOpenSettings={handleOpenSettings}
+                  cachedParts={cachedParts}
+                  lockoutRisks={scriptLockoutRisks}
+                  rollbackScript={rollbackScript}
+                  sections={scriptContents}
+                  onRegenerateSection={handleRegenerateSection}
+                  onRemoveSection={handleRemoveSection}
+                  onMoveSection={handleMoveSection}
                 />
             </div>
           </div>
@@ -411,19 +991,54 @@ const App: React.FC = () => {
         {activeTab === 'advanced' && (
           <div className="flex flex-col gap-6 animate-fadeIn">
              <div>
-              <label htmlFor="script-output" className="block text-sm font-medium text-gray-400 mb-2">
-                Paste Script Output Here
-              </label>
-              <textarea
-                id="script-output"
-                rows={15}
-                className="w-full bg-gray-800 border border-gray-700 rounded-md shadow-sm p-3 focus:ring-blue-500 focus:border-blue-500 transition font-mono text-sm"
-                placeholder="Paste the full terminal output after running the script..."
-                value={scriptOutput}
-                onChange={(e) => setScriptOutput(e.target.value)}
-              />
+              {!uploadedLog && (
+                <>
+                  <label htmlFor="script-output" className="block text-sm font-medium text-gray-400 mb-2">
+                    Paste Script Output Here
+                  </label>
+                  <textarea
+                    id="script-output"
+                    rows={15}
+                    className="w-full bg-gray-800 border border-gray-700 rounded-md shadow-sm p-3 focus:ring-blue-500 focus:border-blue-500 transition font-mono text-sm"
+                    placeholder={`Paste the full terminal output after running the script, or the contents of ${RUN_LOG_FILE}...`}
+                    value={scriptOutput}
+                    onChange={(e) => setScriptOutput(e.target.value)}
+                  />
+                  {outputChunks.length > 1 && (
+                    <p className="text-xs text-gray-400 mt-2">
+                      The output is long, so it will be analyzed in {outputChunks.length} parts, cut between sections.
+                    </p>
+                  )}
+                </>
+              )}
+              <div className={uploadedLog ? '' : 'mt-3'}>
+                <LogUpload
+                  log={uploadedLog}
+                  partCount={outputChunks.length}
+                  onLoad={handleLoadLog}
+                  onRemove={handleRemoveLog}
+                  disabled={isAnalyzing}
+                />
+              </div>
+              {runLog && runLogSummary && (
+                <p className="text-xs text-gray-400 mt-2" aria-label="Run log summary">
+                  Structured run log: {runLogSummary.sections.length} section{runLogSummary.sections.length === 1 ? '' : 's'}, {countOutcome('passed')} passed, {countOutcome('warning')} with warnings, {countOutcome('failed')} failed, {countOutcome('skipped')} skipped.
+                  {' '}The analysis uses these exact results.
+                  {runLogSummary.earlierRuns > 0 && ` Only the last of ${runLogSummary.earlierRuns + 1} runs in the log is analyzed.`}
+                  {runLog.invalidLines.length > 0 && ` Unreadable line${runLog.invalidLines.length === 1 ? '' : 's'} ${runLog.invalidLines.join(', ')} ${runLog.invalidLines.length === 1 ? 'was' : 'were'} ignored.`}
+                </p>
+              )}
+              {parsedOutput && <OutputSummary parsed={parsedOutput} />}
             </div>
-            <div className="flex justify-end">
+            <div className="flex justify-end gap-3">
+              {isAnalyzing && (
+                <button
+                  onClick={handleCancelAnalysis}
+                  className="w-full md:w-auto flex justify-center items-center bg-gray-700 hover:bg-gray-600 text-gray-200 font-medium py-3 px-6 rounded-md transition"
+                >
+                  Cancel
+                </button>
+              )}
               <button
                 onClick={handleAnalyzeOutput}
                 disabled={isAnalyzing}
@@ -432,7 +1047,20 @@ const App: React.FC = () => {
                 {isAnalyzing ? 'Analyzing...' : 'Analyze Output'}
               </button>
             </div>
-            <AnalysisDisplay result={analysisResult} isLoading={isAnalyzing} error={analysisError} />
+            <AnalysisDisplay
+              result={analysisResult}
+              score={analysisScore}
+              optionLabels={optionLabels}
+              fixableSections={sectionFailures.map(failure => failure.option.label)}
+              fixup={fixup}
+              onGenerateFixup={handleGenerateFixup}
+              onCancelFixup={handleCancelFixup}
+              isLoading={isAnalyzing}
+              progress={analysisProgress}
+              error={analysisError}
+              onRetry={handleAnalyzeOutput}
+              onOpenSettings={handleOpenSettings}
+            />
           </div>
         )}
 
@@ -448,30 +1076,44 @@ const App: React.FC = () => {
               <div className="space-y-4">
                 <h3 className="text-xl font-semibold">Automated ShellCheck &amp; Improvement</h3>
                 <p className="text-gray-400">
-                  This tool uses an AI to perform a static analysis inspired by{' '}
-                  <a href="https://github.com/koalaman/shellcheck" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">ShellCheck</a>.
-                  Click the button below to automatically find and fix issues in your last generated script, while also teaching the AI to avoid similar mistakes in the future.
+                  This tool runs{' '}
+                  <a href="https://github.com/koalaman/shellcheck" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">ShellCheck</a>{' '}
+                  on your last generated script, then has the AI fix exactly the reported issues and improve the prompts of the sections they came from, so similar mistakes are avoided in the future.
+                  It needs the <code className="text-gray-300">shellcheck</code> binary installed on the machine running the dev server.
                 </p>
                  <div>
                     <label htmlFor="original-script-display" className="block text-sm font-medium text-gray-400 mb-2">
                       Last Generated Script (Read-only)
                     </label>
                     <div id="original-script-display" className="w-full h-72 bg-gray-800 border border-gray-700 rounded-md p-3 font-mono text-sm overflow-auto">
-                        {generatedScript || <span className="text-gray-500">Generate a script on the first tab.</span>}
+                        {renderedScript || <span className="text-gray-500">Generate a script on the first tab.</span>}
                     </div>
                 </div>
                 <button
                   onClick={handleRunShellcheck}
-                  disabled={isImproving || !generatedScript}
+                  disabled={isImproving || !renderedScript}
                   className="w-full flex justify-center items-center bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 px-4 rounded-md transition disabled:bg-gray-700 disabled:cursor-not-allowed"
                 >
                   {isImproving ? 'Analyzing & Refining...' : 'Run ShellCheck & Improve'}
                 </button>
+                {isImproving && (
+                  <button
+                    onClick={handleCancelImprovement}
+                    className="w-full flex justify-center items-center bg-gray-700 hover:bg-gray-600 text-gray-200 font-medium py-2 px-4 rounded-md transition"
+                  >
+                    Cancel
+                  </button>
+                )}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-400 mb-2">
                   Corrected Script
                 </label>
+                {shellcheckFindings && (
+                  <div className="mb-4 animate-fadeIn">
+                    <ShellcheckFindings findings={shellcheckFindings} />
+                  </div>
+                )}
                  {improvementSummary.length > 0 && !isImproving && (
                     <div className="mb-4 bg-gray-800 p-4 rounded-lg border border-gray-700 animate-fadeIn">
                         <h4 className="text-md font-semibold text-gray-200 mb-2 flex items-center gap-2">
@@ -487,7 +1129,41 @@ const App: React.FC = () => {
                         </ul>
                     </div>
                 )}
-                <ScriptDisplay script={improvedScript} isLoading={isImproving} error={improvingError} loadingMessage={"Refining script..."}/>
+                {sectionFixes.length > 0 && !isImproving && (
+                  <div className="mb-4 bg-gray-800 p-4 rounded-lg border border-gray-700 animate-fadeIn">
+                    <h4 className="text-md font-semibold text-gray-200 mb-1">Fixes by section</h4>
+                    <p className="text-sm text-gray-400 mb-2">Apply a section's fix to the generated script without taking over the rest of the corrected script.</p>
+                    <ul className="space-y-2">
+                      {sectionFixes.map(fix => {
+                        const findingCount = shellcheckFindings?.filter(finding => finding.sectionId === fix.id).length ?? 0;
+                        return (
+                          <li key={fix.id} className="flex items-center justify-between gap-3 text-sm">
+                            <span className="text-gray-300">
+                              {fix.label}
+                              {findingCount > 0 && <span className="ml-2 text-xs text-gray-500">{findingCount} finding{findingCount === 1 ? '' : 's'}</span>}
+                            </span>
+                            <button
+                              onClick={() => handleApplySectionFix(fix)}
+                              className="flex-shrink-0 px-3 py-1.5 text-xs font-medium text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors"
+                              aria-label={`Apply fix to ${fix.label}`}
+                            >
+                              Apply
+                            </button>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                )}
+                <ScriptDisplay
+                  script={improvedScript}
+                  scriptKind={generatedScript.kind}
+                  isLoading={isImproving}
+                  error={improvingError}
+                  loadingMessage={improvementMessage || "Refining script..."}
+                  onRetry={handleRunShellcheck}
+                  onOpenSettings={handleOpenSettings}
+                />
               </div>
             </div>
           </div>
@@ -1,21 +1,41 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import type { AnalysisResult } from '../types';
+import type { SecurityScore } from '../services/securityScore';
+import ErrorPanel from './ErrorPanel';
+import { OUTCOME_STYLES } from './OutputSummary';
+import FindingsList from './FindingsList';
+import ScriptDisplay from './ScriptDisplay';
+import { FIXUP_SCRIPT_NAME } from '../services/fixupScript';
+
+/** The fix-up script for the failed sections, while and after it is generated. */
+export interface FixupState {
+  script: string;
+  isLoading: boolean;
+  error: Error | null;
+  summary: string[];
+  /** Labels of the options whose prompts the failures improved. */
+  improvedPrompts: string[];
+}
 
 interface AnalysisDisplayProps {
   result: AnalysisResult | null;
+  /** The rule-based score of the analyzed output; null when no section could be scored. */
+  score?: SecurityScore | null;
+  /** Option labels by id, to name the section of each finding. */
+  optionLabels?: Map<string, string>;
+  /** Labels of the failed sections a fix-up script would repair; it is only offered when there are any. */
+  fixableSections?: string[];
+  fixup?: FixupState | null;
+  onGenerateFixup?: () => void;
+  onCancelFixup?: () => void;
   isLoading: boolean;
-  error: string | null;
+  /** The parts of the output analyzed so far, while the analysis runs. */
+  progress?: { completed: number; total: number } | null;
+  error: Error | null;
+  onRetry?: () => void;
+  onOpenSettings?: () => void;
 }
 
-const ANALYSIS_MESSAGES = [
-  "Parsing script output log...",
-  "Cross-referencing with security benchmarks...",
-  "Identifying potential warnings and errors...",
-  "Calculating security score...",
-  "Formulating actionable recommendations...",
-  "Compiling the final analysis report...",
-];
-
 
 const ScoreIndicator: React.FC<{ score: number }> = ({ score }) => {
     const getScoreColor = (s: number) => {
@@ -27,89 +47,148 @@ const ScoreIndicator: React.FC<{ score: number }> = ({ score }) => {
     const colorClass = getScoreColor(score);
 
     return (
-        <div className="mb-6">
-            <h3 className="text-lg font-semibold text-gray-200 mb-2">Hardening Score</h3>
-            <div className="w-full bg-gray-700 rounded-full h-6" title={`Hardening Score: ${score}%`}>
-                <div
-                    className={`h-6 rounded-full ${colorClass} transition-all duration-1000 ease-out flex items-center justify-center text-white font-bold text-sm`}
-                    style={{ width: `${score}%` }}
-                    role="progressbar"
-                    aria-valuenow={score}
-                    aria-valuemin={0}
-                    aria-valuemax={100}
-                >
-                   {score > 10 ? `${score}%` : ''}
-                </div>
+        <div className="w-full bg-gray-700 rounded-full h-6" title={`Hardening Score: ${score}%`}>
+            <div
+                className={`h-6 rounded-full ${colorClass} transition-all duration-1000 ease-out flex items-center justify-center text-white font-bold text-sm`}
+                style={{ width: `${score}%` }}
+                role="progressbar"
+                aria-label="Hardening score"
+                aria-valuenow={score}
+                aria-valuemin={0}
+                aria-valuemax={100}
+            >
+               {score > 10 ? `${score}%` : ''}
             </div>
-            <p className="text-sm text-gray-400 mt-2">
-                This score represents an AI-driven assessment of your system's security posture based on the script's output.
-            </p>
         </div>
     );
 };
 
+const formatPoints = (points: number) => points.toFixed(1).replace(/\.0$/, '');
 
-const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, isLoading, error }) => {
-  const [loadingMessage, setLoadingMessage] = useState(ANALYSIS_MESSAGES[0]);
-  const [progress, setProgress] = useState(0);
+// Which sections cost how many points, so the headline number can be checked by hand.
+const ScoreBreakdown: React.FC<{ score: SecurityScore; aiScore?: number }> = ({ score, aiScore }) => {
+    const costly = score.sections.filter(section => section.pointsLost > 0).sort((a, b) => b.pointsLost - a.pointsLost);
+    const passed = score.sections.filter(section => section.outcome === 'passed').length;
+    const skipped = score.sections.filter(section => section.outcome === 'skipped').length;
 
-  useEffect(() => {
-    let messageInterval: ReturnType<typeof setInterval> | undefined;
-    let progressInterval: ReturnType<typeof setInterval> | undefined;
+    return (
+        <div className="mt-2 text-sm text-gray-400 space-y-2">
+            <p>
+                Computed from the section results: each section is worth its weight, a failed section loses all of it and a section with warnings half.
+                {' '}{passed} section{passed === 1 ? '' : 's'} passed{skipped > 0 ? `, ${skipped} skipped and not scored` : ''}.
+            </p>
+            {costly.length > 0 && (
+                <ul className="space-y-1" aria-label="Score breakdown">
+                    {costly.map(section => (
+                        <li key={section.id} className="flex items-center gap-2">
+                            <span className="font-mono text-red-300 w-14 text-right">-{formatPoints(section.pointsLost)}</span>
+                            <span className={`px-2 py-0.5 text-xs font-medium rounded border ${OUTCOME_STYLES[section.outcome]}`}>{section.outcome}</span>
+                            <span className="text-gray-200">{section.label}</span>
+                            <span className="text-xs text-gray-500">{section.criticality}, weight {section.weight}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {score.cappedBy && (
+                <p className="text-red-300">
+                    Capped at {score.score} (from {score.uncappedScore}) because {score.cappedBy.label} failed and is {score.cappedBy.criticality}.
+                </p>
+            )}
+            {score.unscored.length > 0 && (
+                <p>Not scored, as they belong to no option: {score.unscored.map(section => section.label).join(', ')}.</p>
+            )}
+            {aiScore !== undefined && <p>AI assessment: {aiScore}%. This is a second opinion and does not change the score.</p>}
+        </div>
+    );
+};
 
-    if (isLoading) {
-      setLoadingMessage(ANALYSIS_MESSAGES[0]);
-      setProgress(0);
-      let messageIndex = 0;
-      
-      messageInterval = setInterval(() => {
-        messageIndex = (messageIndex + 1) % ANALYSIS_MESSAGES.length;
-        setLoadingMessage(ANALYSIS_MESSAGES[messageIndex]);
-      }, 2200);
-
-      progressInterval = setInterval(() => {
-        setProgress(prev => Math.min(prev + Math.random() * 15, 95));
-      }, 800);
-
-    } else {
-        setProgress(result ? 100 : 0);
-    }
-    
-    return () => {
-      clearInterval(messageInterval);
-      clearInterval(progressInterval);
-    };
-  }, [isLoading, result]);
+// Repairs the failed sections with a script of their own, written from the errors they printed.
+const FixupPanel: React.FC<{ sections: string[]; fixup: FixupState | null; onGenerate?: () => void; onCancel?: () => void; onOpenSettings?: () => void }> = ({ sections, fixup, onGenerate, onCancel, onOpenSettings }) => (
+    <div className="space-y-3">
+        <p className="text-sm text-gray-400">
+            {sections.length} section{sections.length === 1 ? '' : 's'} failed: {sections.join(', ')}.
+            {' '}A fix-up script repairs only {sections.length === 1 ? 'this one' : 'these'}, with the same header and helpers as the hardening script, from the error output of the run.
+            {' '}The failures also improve the prompts of their options for future scripts.
+        </p>
+        <div className="flex gap-3">
+            <button
+                onClick={onGenerate}
+                disabled={fixup?.isLoading}
+                className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 px-4 rounded-md transition disabled:bg-gray-700 disabled:cursor-not-allowed"
+            >
+                {fixup?.isLoading ? 'Generating fix-up script...' : 'Generate fix-up script'}
+            </button>
+            {fixup?.isLoading && onCancel && (
+                <button onClick={onCancel} className="bg-gray-700 hover:bg-gray-600 text-gray-200 font-medium py-2 px-4 rounded-md transition">
+                    Cancel
+                </button>
+            )}
+        </div>
+        {fixup && !fixup.isLoading && fixup.summary.length > 0 && (
+            <ul className="list-disc list-inside space-y-1 text-sm text-gray-300" aria-label="Fix-up summary">
+                {fixup.summary.map((item, index) => <li key={index}>{item}</li>)}
+            </ul>
+        )}
+        {fixup && fixup.improvedPrompts.length > 0 && (
+            <p className="text-sm text-green-300">Improved the prompts of {fixup.improvedPrompts.join(', ')} for future scripts.</p>
+        )}
+        {fixup && (
+            <ScriptDisplay
+                script={fixup.script}
+                isLoading={fixup.isLoading}
+                error={fixup.error}
+                loadingMessage="Writing corrective sections from the error output..."
+                downloadName={FIXUP_SCRIPT_NAME}
+                onRetry={onGenerate}
+                onOpenSettings={onOpenSettings}
+            />
+        )}
+    </div>
+);
+
+const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, score, optionLabels, fixableSections = [], fixup = null, onGenerateFixup, onCancelFixup, isLoading, progress = null, error, onRetry, onOpenSettings }) => {
+  // The computed score needs no model, so it is shown while the analysis runs and when it fails.
+  const renderScore = () => (
+    <div className="mb-6">
+        <h3 className="text-lg font-semibold text-gray-200 mb-2">Hardening Score</h3>
+        <ScoreIndicator score={score ? score.score : result.securityScore} />
+        {score ? (
+            <ScoreBreakdown score={score} aiScore={result?.securityScore} />
+        ) : (
+            <p className="text-sm text-gray-400 mt-2">
+                This score is an AI-driven assessment of your system's security posture based on the script's output, because no section of the output could be traced back to an option to compute it.
+            </p>
+        )}
+    </div>
+  );
 
   const renderContent = () => {
     if (isLoading) {
+      const completed = progress?.completed ?? 0;
+      const total = progress?.total ?? 1;
       return (
         <div className="flex flex-col items-center justify-center h-full p-8 text-gray-400">
           <div className="w-full bg-gray-700 rounded-full h-2.5 mb-4">
             <div
               className="bg-blue-600 h-2.5 rounded-full transition-all duration-500 ease-out"
-              style={{ width: `${progress}%` }}
+              style={{ width: `${(completed / total) * 100}%` }}
               role="progressbar"
-              aria-valuenow={progress}
+              aria-label="Analysis progress"
+              aria-valuenow={completed}
               aria-valuemin={0}
-              aria-valuemax={100}
+              aria-valuemax={total}
             ></div>
           </div>
           <p className="text-lg font-semibold">Analyzing your script output...</p>
-          <p className="text-sm text-center mt-2 h-4 transition-opacity duration-500 ease-in-out">{loadingMessage}</p>
+          <p className="text-sm text-center mt-2 h-4">
+            {total > 1 ? `${completed} of ${total} parts analyzed. Long output is analyzed section by section.` : 'Waiting for the model to reply.'}
+          </p>
         </div>
       );
     }
 
     if (error) {
-      return (
-        <div className="flex items-center justify-center h-full p-8 text-red-400">
-          <div className="text-center">
-            <h3 className="text-xl font-bold mb-2">An Error Occurred</h3>
-            <p>{error}</p>
-          </div>
-        </div>
-      );
+      return <ErrorPanel error={error} onRetry={onRetry} onOpenSettings={onOpenSettings} />;
     }
 
     if (!result) {
@@ -126,8 +205,16 @@ const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, isLoading, er
 
     return (
       <div>
-        <ScoreIndicator score={result.securityScore} />
-        <h3 className="text-lg font-semibold text-gray-200 mb-2 border-t border-gray-700 pt-4">Detailed Analysis</h3>
+        {renderScore()}
+        <h3 className="text-lg font-semibold text-gray-200 mb-2 border-t border-gray-700 pt-4">Findings</h3>
+        <FindingsList findings={result.findings} optionLabels={optionLabels} />
+        {fixableSections.length > 0 && (
+          <>
+            <h3 className="text-lg font-semibold text-gray-200 mb-2 mt-6 border-t border-gray-700 pt-4">Fix-up Script</h3>
+            <FixupPanel sections={fixableSections} fixup={fixup} onGenerate={onGenerateFixup} onCancel={onCancelFixup} onOpenSettings={onOpenSettings} />
+          </>
+        )}
+        <h3 className="text-lg font-semibold text-gray-200 mb-2 mt-6 border-t border-gray-700 pt-4">Detailed Analysis</h3>
         <pre className="w-full whitespace-pre-wrap break-words font-sans text-sm leading-relaxed">
             {result.analysisText}
         </pre>
@@ -138,6 +225,7 @@ const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, isLoading, er
   return (
     <div role="log" aria-live="polite" className="relative h-full min-h-[400px] bg-gray-800 rounded-lg border border-gray-700 flex flex-col">
       <div className="flex-grow p-6 overflow-auto">
+        {score && (isLoading || error || !result) && renderScore()}
         {renderContent()}
       </div>
     </div>
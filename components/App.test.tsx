@@ -13,26 +13,43 @@ import { jest, describe, it, expect, beforeEach } from '@jest/globals';
 // @testing-library/react, @testing-library/jest-dom, and ts-jest.
 
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import '@testing-library/jest-dom';
 
 import App from '../App';
 import * as geminiService from '../services/geminiService';
+import type { GenerationCallOptions } from '../services/geminiService';
+import { AuthenticationError } from '../services/errors';
+import { buildPreflightChecks } from '../services/preflight';
+import * as shellcheckService from '../services/shellcheckService';
+import type { OutputPart } from '../services/outputChunks';
 // FIX: Import PARANOIA_LEVELS to correctly calculate expected mock calls and find elements.
 import { PARANOIA_LEVELS } from '../constants';
 // Fix: Import HardeningOption type for strong typing of mocks.
-import type { AnalysisResult, HardeningOption, ImprovementResult } from '../types';
+import type { AnalysisResult, FixupResult, HardeningOption, ImprovementResult, SectionFailure, ShellcheckFinding } from '../types';
 
 // Mock the entire geminiService module
 jest.mock('../services/geminiService');
+// Only the call to the dev server helper is mocked; parsing and attribution stay real.
+jest.mock('../services/shellcheckService', () => ({
+  ...jest.requireActual<typeof import('../services/shellcheckService')>('../services/shellcheckService'),
+  runShellcheck: jest.fn(),
+}));
 
 // FIX: The `generateHardenScript` function was refactored. Mocks are updated to target the new
 // modular functions: `generateScriptHeaderAndHelpers`, `generateScriptSection`, and `generateScriptFooter`.
-const mockGenerateScriptHeaderAndHelpers = geminiService.generateScriptHeaderAndHelpers as jest.Mock<() => Promise<string>>;
-const mockGenerateScriptSection = geminiService.generateScriptSection as jest.Mock<(option: HardeningOption) => Promise<string>>;
-const mockGenerateScriptFooter = geminiService.generateScriptFooter as jest.Mock<() => Promise<string>>;
-const mockAnalyzeScriptOutput = geminiService.analyzeScriptOutput as jest.Mock<(output: string) => Promise<AnalysisResult>>;
-const mockRunShellcheckAndLearn = geminiService.runShellcheckAndLearn as jest.Mock<(script: string, options: HardeningOption[]) => Promise<ImprovementResult>>;
+const mockGenerateScriptHeaderAndHelpers = geminiService.generateScriptHeaderAndHelpers as jest.Mock<(options?: GenerationCallOptions) => Promise<string>>;
+const mockGenerateScriptSection = geminiService.generateScriptSection as jest.Mock<(option: HardeningOption, options?: GenerationCallOptions) => Promise<string>>;
+const mockGenerateScriptFooter = geminiService.generateScriptFooter as jest.Mock<(options?: GenerationCallOptions) => Promise<string>>;
+const mockAnalyzeScriptOutput = geminiService.analyzeScriptOutput as jest.Mock<(output: string, signal?: AbortSignal, part?: OutputPart, banners?: Map<string, string>) => Promise<AnalysisResult>>;
+const mockGenerateFixupScript = geminiService.generateFixupScript as jest.Mock<(failures: SectionFailure[], signal?: AbortSignal) => Promise<FixupResult>>;
+const mockRunShellcheckAndLearn = geminiService.runShellcheckAndLearn as jest.Mock<(script: string, options: HardeningOption[], findings: ShellcheckFinding[], signal?: AbortSignal) => Promise<ImprovementResult>>;
+const mockRunShellcheck = shellcheckService.runShellcheck as jest.Mock<(script: string, signal?: AbortSignal) => Promise<ShellcheckFinding[]>>;
+
+// Settles the way the real service calls do: only once the request is aborted.
+const rejectWhenAborted = <T,>(signal?: AbortSignal) => new Promise<T>((_, reject) => {
+  signal?.addEventListener('abort', () => reject(new Error('Cancelled: The request was stopped before it finished.')));
+});
 
 
 describe('<App /> Integration Tests', () => {
@@ -116,6 +133,7 @@ describe('<App /> Integration Tests', () => {
     const analysisResult: AnalysisResult = {
       analysisText: 'Analysis complete.',
       securityScore: 88,
+      findings: [],
     };
     mockAnalyzeScriptOutput.mockResolvedValue(analysisResult);
     render(<App />);
@@ -142,7 +160,405 @@ describe('<App /> Integration Tests', () => {
     expect(screen.getByText(/88%/i)).toBeInTheDocument();
     expect(screen.getByText(analysisResult.analysisText)).toBeInTheDocument();
 
-    expect(mockAnalyzeScriptOutput).toHaveBeenCalledWith(scriptOutput);
+    expect(mockAnalyzeScriptOutput).toHaveBeenCalledWith(scriptOutput, expect.any(AbortSignal), undefined, expect.any(Map));
+  });
+
+  it('should summarize a pasted JSON Lines run log before any analysis', () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: /Advanced/i }));
+    const record = (status: string, section: string, step: string, exitCode: number | null = null) =>
+      JSON.stringify({ timestamp: '2025-01-01T12:00:00+00:00', section, step, status, exit_code: exitCode, stderr_tail: '' });
+    fireEvent.change(screen.getByLabelText(/Paste Script Output Here/i), { target: { value: [
+      record('start', 'ssh', 'SSH Hardening'),
+      record('end', 'ssh', 'SSH Hardening'),
+      record('start', 'logging', 'Logging & Auditing Setup (auditd)'),
+      record('failed', 'logging', 'augenrules --load', 1),
+      record('exit', 'logging', 'Stopped', 1),
+    ].join('\n') } });
+
+    expect(screen.getByLabelText('Run log summary')).toHaveTextContent('Structured run log: 2 sections, 1 passed, 0 with warnings, 1 failed, 0 skipped.');
+    expect(mockAnalyzeScriptOutput).not.toHaveBeenCalled();
+  });
+
+  it('should show a status table of pasted text output before any analysis', () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: /Advanced/i }));
+    fireEvent.change(screen.getByLabelText(/Paste Script Output Here/i), { target: { value: [
+      '\u001b[0;34m[INFO]\u001b[0m 2025-01-01 12:00:01 --- SSH Hardening ---',
+      '\u001b[0;32m[SUCCESS]\u001b[0m 2025-01-01 12:00:02 sshd restarted.',
+      '\u001b[0;34m[INFO]\u001b[0m 2025-01-01 12:00:03 --- Logging & Auditing Setup (auditd) ---',
+      'There was an error in line 5',
+      '\u001b[0;31m[FAILED]\u001b[0m Loading the audit rules',
+    ].join('\n') } });
+
+    const rows = within(screen.getByRole('table', { name: 'Section results' })).getAllByRole('row');
+    // The offline templates' banners trace the sections back to their options.
+    expect(rows[1]).toHaveTextContent(/SSH Hardening\s*ssh\s*passed/);
+    expect(rows[2]).toHaveTextContent(/Logging & Auditing Setup \(auditd\)\s*logging\s*failed/);
+    expect(screen.getByLabelText('Failing lines')).toHaveTextContent('line 5: [FAILED] Loading the audit rulesThere was an error in line 5');
+    expect(mockAnalyzeScriptOutput).not.toHaveBeenCalled();
+  });
+
+  it('should score the analyzed run from its section results and show the model\'s score as a second opinion', async () => {
+    mockAnalyzeScriptOutput.mockResolvedValue({ analysisText: 'auditd failed to load its rules.', securityScore: 90, findings: [] });
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: /Advanced/i }));
+    const record = (status: string, section: string, step: string, exitCode: number | null = null) =>
+      JSON.stringify({ timestamp: '2025-01-01T12:00:00+00:00', section, step, status, exit_code: exitCode, stderr_tail: '' });
+    fireEvent.change(screen.getByLabelText(/Paste Script Output Here/i), { target: { value: [
+      record('start', 'ssh', 'SSH Hardening'),
+      record('end', 'ssh', 'SSH Hardening'),
+      record('start', 'logging', 'Logging & Auditing Setup (auditd)'),
+      record('failed', 'logging', 'augenrules --load', 1),
+      record('exit', 'logging', 'Stopped', 1),
+    ].join('\n') } });
+    fireEvent.click(screen.getByRole('button', { name: 'Analyze Output' }));
+
+    await screen.findByText('auditd failed to load its rules.');
+    // SSH Hardening (weight 5) passed and Logging (weight 3) failed: 100 - 37.5 points.
+    expect(screen.getByRole('progressbar', { name: 'Hardening score' })).toHaveAttribute('aria-valuenow', '63');
+    expect(screen.getByLabelText('Score breakdown')).toHaveTextContent('-37.5failedLogging & Auditing Setup (auditd)high, weight 3');
+    expect(screen.getByText(/AI assessment: 90%/)).toBeInTheDocument();
+  });
+
+  it('should still show the computed score when the model analysis fails', async () => {
+    mockAnalyzeScriptOutput.mockRejectedValue(new AuthenticationError('analysis'));
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: /Advanced/i }));
+    const record = (status: string, section: string, step: string) =>
+      JSON.stringify({ timestamp: '2025-01-01T12:00:00+00:00', section, step, status, exit_code: null, stderr_tail: '' });
+    fireEvent.change(screen.getByLabelText(/Paste Script Output Here/i), { target: { value: [
+      record('start', 'ssh', 'SSH Hardening'),
+      record('end', 'ssh', 'SSH Hardening'),
+    ].join('\n') } });
+    fireEvent.click(screen.getByRole('button', { name: 'Analyze Output' }));
+
+    expect(await screen.findByText('Authentication Failed')).toBeInTheDocument();
+    expect(screen.getByText(/Hardening Score/i)).toBeInTheDocument();
+    expect(screen.getByText(/1 section passed/)).toBeInTheDocument();
+    expect(screen.queryByText(/AI assessment/)).not.toBeInTheDocument();
+  });
+
+  it('should list the analysis findings by severity, filter them and copy their commands', async () => {
+    const finding = { evidence: [], explanation: 'Explained.', remediation: [] };
+    mockAnalyzeScriptOutput.mockResolvedValue({
+      analysisText: 'Two sections need attention.',
+      securityScore: 70,
+      findings: [
+        { ...finding, severity: 'low', title: 'Reboot pending', optionId: null },
+        { ...finding, severity: 'high', title: 'Audit rules not loaded', optionId: 'logging', evidence: ['[FAILED] Loading the audit rules'], remediation: ['augenrules --check', 'augenrules --load'] },
+        { ...finding, severity: 'medium', title: 'Weak ban time', optionId: 'fail2ban' },
+      ],
+    });
+    const writeText = jest.fn<(text: string) => Promise<void>>().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: /Advanced/i }));
+    fireEvent.change(screen.getByLabelText(/Paste Script Output Here/i), { target: { value: '[FAILED] Loading the audit rules' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Analyze Output' }));
+
+    const list = await screen.findByRole('list', { name: 'Findings' });
+    const titles = () => within(list).queryAllByRole('listitem').map(item => item.querySelector('.font-semibold')?.textContent);
+    expect(titles()).toEqual(['Audit rules not loaded', 'Weak ban time', 'Reboot pending']);
+    expect(within(list).getAllByRole('listitem')[0]).toHaveTextContent('Logging & Auditing Setup (auditd)');
+
+    fireEvent.change(screen.getByLabelText('Section'), { target: { value: 'fail2ban' } });
+    expect(titles()).toEqual(['Weak ban time']);
+    fireEvent.change(screen.getByLabelText('Section'), { target: { value: 'all' } });
+    fireEvent.change(screen.getByLabelText('Sort by'), { target: { value: 'found' } });
+    expect(titles()).toEqual(['Reboot pending', 'Audit rules not loaded', 'Weak ban time']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Copy the commands for Audit rules not loaded' }));
+    expect(writeText).toHaveBeenCalledWith('augenrules --check\naugenrules --load');
+    expect(screen.getByText('Two sections need attention.')).toBeInTheDocument();
+  });
+
+  it('should generate a fix-up script for the failed sections of the analyzed run and improve their prompts', async () => {
+    const logging = PARANOIA_LEVELS.flatMap(level => level.options).flatMap(option => option.subOptions ?? []).find(option => option.id === 'logging')!;
+    const originalPrompt = logging.prompt;
+    mockAnalyzeScriptOutput.mockResolvedValue({
+      analysisText: 'auditd failed to load its rules.',
+      securityScore: 60,
+      findings: [{ severity: 'high', title: 'Audit rules not loaded', optionId: 'logging', evidence: ['augenrules: rule 12 is invalid'], explanation: 'No auditing.', remediation: [] }],
+    });
+    mockGenerateFixupScript.mockResolvedValue({
+      sections: [{ id: 'logging', content: 'log_info "--- Fix-up: Logging ---"\nrun_cmd augenrules --check' }],
+      refinedPrompts: [{ id: 'logging', newPrompt: 'Check the audit rules with augenrules --check before loading them.' }],
+      summary: ['Checks the audit rules before loading them.'],
+    });
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: /Advanced/i }));
+    const record = (status: string, section: string, step: string, exitCode: number | null = null) =>
+      JSON.stringify({ timestamp: '2025-01-01T12:00:00+00:00', section, step, status, exit_code: exitCode, stderr_tail: '' });
+    fireEvent.change(screen.getByLabelText(/Paste Script Output Here/i), { target: { value: [
+      record('start', 'ssh', 'SSH Hardening'),
+      record('end', 'ssh', 'SSH Hardening'),
+      record('start', 'logging', 'Logging & Auditing Setup (auditd)'),
+      record('failed', 'logging', 'augenrules --load', 1),
+      record('exit', 'logging', 'Stopped', 1),
+    ].join('\n') } });
+    fireEvent.click(screen.getByRole('button', { name: 'Analyze Output' }));
+
+    expect(await screen.findByText(/1 section failed: Logging & Auditing Setup \(auditd\)\./)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Generate fix-up script' }));
+
+    expect(await screen.findByTitle('Download as fedora_hardening_fixup.sh')).toBeInTheDocument();
+    const [failures] = mockGenerateFixupScript.mock.calls[0];
+    expect(failures.map(failure => failure.option.id)).toEqual(['logging']);
+    expect(failures[0].evidence).toEqual(['[FAILED] augenrules --load (exit code 1)', 'The run stopped in this section.', 'augenrules: rule 12 is invalid']);
+    // Without a loaded script, the fix-up uses the template header and helpers.
+    const fixupScript = document.querySelector('[role="log"] code');
+    expect(fixupScript).toHaveTextContent('log_success()');
+    expect(fixupScript).toHaveTextContent('run_section logging');
+    expect(fixupScript).toHaveTextContent('run_cmd augenrules --check');
+    expect(screen.getByLabelText('Fix-up summary')).toHaveTextContent('Checks the audit rules before loading them.');
+    expect(screen.getByText('Improved the prompts of Logging & Auditing Setup (auditd) for future scripts.')).toBeInTheDocument();
+    expect(logging.prompt).toBe('Check the audit rules with augenrules --check before loading them.');
+    logging.prompt = originalPrompt;
+  });
+
+  it('should load an uploaded log with a preview and analyze a long one in parts with real progress', async () => {
+    const section = (title: string) => [`[INFO] --- ${title} ---`, ...Array.from({ length: 700 }, (_, index) => `[INFO] ${title} step ${index + 1} done.`)];
+    const log = [...section('SSH Hardening'), ...section('Logging & Auditing Setup (auditd)')].join('\n');
+    let finishSecondPart: (result: AnalysisResult) => void = () => {};
+    mockAnalyzeScriptOutput
+      .mockResolvedValueOnce({ analysisText: 'SSH is fine.', securityScore: 90, findings: [] })
+      .mockImplementationOnce(() => new Promise(resolve => { finishSecondPart = resolve; }));
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: /Advanced/i }));
+    const upload = screen.getByLabelText('Upload a log file');
+
+    fireEvent.change(upload, { target: { files: [new File(['\x7fELF'], 'hardening.sh')] } });
+    expect(await screen.findByRole('alert')).toHaveTextContent('hardening.sh is not a log file. Upload a .log, .txt, .jsonl file.');
+    const tooLarge = new File(['x'], 'huge.log');
+    Object.defineProperty(tooLarge, 'size', { value: 11 * 1024 * 1024 });
+    fireEvent.change(upload, { target: { files: [tooLarge] } });
+    expect(await screen.findByRole('alert')).toHaveTextContent('huge.log is 11.0 MB; files up to 10.0 MB can be analyzed.');
+
+    fireEvent.change(upload, { target: { files: [new File([log], 'hardening.log')] } });
+    const preview = await screen.findByLabelText('Log preview');
+    expect(preview).toHaveTextContent('hardening.log');
+    expect(preview).toHaveTextContent('1,402 lines, analyzed in 2 parts');
+    expect(preview).toHaveTextContent('First 20 of 1,402 lines.');
+    expect(screen.queryByLabelText(/Paste Script Output Here/i)).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Analyze Output' }));
+    expect(await screen.findByText('1 of 2 parts analyzed. Long output is analyzed section by section.')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar', { name: 'Analysis progress' })).toHaveAttribute('aria-valuenow', '1');
+    expect(mockAnalyzeScriptOutput.mock.calls.map(([output, , part]) => [output.split('\n')[0], part])).toEqual([
+      ['[INFO] --- SSH Hardening ---', { index: 1, total: 2 }],
+      ['[INFO] --- Logging & Auditing Setup (auditd) ---', { index: 2, total: 2 }],
+    ]);
+
+    finishSecondPart({ analysisText: 'auditd is fine.', securityScore: 80, findings: [] });
+    expect(await screen.findByText(/## Part 1 of 2: SSH Hardening\s+SSH is fine\.\s+## Part 2 of 2: Logging & Auditing Setup \(auditd\)\s+auditd is fine\./)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove file' }));
+    expect(screen.getByLabelText(/Paste Script Output Here/i)).toHaveValue('');
+  });
+
+  it('should offer to open the provider settings when authentication fails', async () => {
+    mockGenerateScriptHeaderAndHelpers.mockRejectedValue(new AuthenticationError('script generation'));
+    render(<App />);
+
+    fireEvent.click(screen.getByLabelText('Firewall Configuration'));
+    fireEvent.click(await screen.findByRole('button', { name: /Generate Hardening Script/i }));
+
+    expect(await screen.findByText('Authentication Failed')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /^Retry/ })).not.toBeInTheDocument();
+
+    const settings = document.getElementById('provider-settings') as HTMLDetailsElement;
+    expect(settings.open).toBe(false);
+    fireEvent.click(screen.getByRole('button', { name: /Open Provider Settings/i }));
+    await waitFor(() => expect(settings.open).toBe(true));
+  });
+
+  it('should run the built-in checks on the generated script and mark the offending lines', async () => {
+    mockGenerateScriptHeaderAndHelpers.mockResolvedValue('#!/bin/bash\nset -euo pipefail\nlog_info() { echo "$1"; }\nlog_success() { echo "$1"; }\nlog_warning() { echo "$1"; }\nlog_error() { echo "$1"; }\nrun_cmd() { "$@"; }\nregister_section() { :; }\ncheck_section_options() { :; }\nstart_run() { :; }\nrun_section() { "section_$1"; }');
+    mockGenerateScriptSection.mockResolvedValue('log_info "--- SELinux ---"\nrun_cmd setenforce 0');
+    mockGenerateScriptFooter.mockResolvedValue('log_info "Done"');
+    render(<App />);
+
+    fireEvent.click(screen.getByLabelText('Firewall Configuration'));
+    fireEvent.click(await screen.findByRole('button', { name: /Generate Hardening Script/i }));
+
+    expect(await screen.findByText(/Built-in checks: 1 error, 0 warnings/)).toBeInTheDocument();
+    expect(screen.getByText('SELinux switched to permissive')).toBeInTheDocument();
+    const marked = document.querySelector('[data-lint-severity="error"]');
+    expect(marked?.textContent).toBe('run_cmd setenforce 0');
+  });
+
+  it('should require acknowledging lockout risks and add the chosen safeguards to the script', async () => {
+    render(<App />);
+    fireEvent.click(screen.getByLabelText('Advanced IPtables Ruleset'));
+
+    const warning = screen.getByRole('region', { name: /Lockout risks/i });
+    expect(warning).toHaveTextContent(/Firewall rules flushed during the session/);
+    const generateButton = screen.getByRole('button', { name: /Generate Hardening Script/i });
+    expect(generateButton).toBeDisabled();
+
+    fireEvent.click(screen.getByLabelText(/I understand these risks/i));
+    expect(generateButton).not.toBeDisabled();
+    fireEvent.click(generateButton);
+
+    const script = await screen.findByText(/systemd-run --unit=hardening-auto-revert/);
+    expect(script).toHaveTextContent(/Lockout Safeguard: Configuration Snapshot/);
+    expect(script).toHaveTextContent(/section_iptablesAdvanced\(\) \{/);
+    expect(script).toHaveTextContent('register_section iptablesAdvanced "Advanced IPtables Ruleset"');
+    const contents = screen.getByRole('navigation', { name: 'Script sections' });
+    expect(contents).toHaveTextContent('Advanced IPtables Ruleset');
+    expect(screen.getByRole('button', { name: 'Download rollback' })).toHaveAttribute('title', 'Download as fedora_hardening_rollback.sh');
+
+    // Deselecting the ruleset removes the risk, so the warning goes away.
+    fireEvent.click(screen.getByLabelText('Advanced IPtables Ruleset'));
+    expect(screen.queryByRole('region', { name: /Lockout risks/i })).not.toBeInTheDocument();
+  });
+
+  it('should generate a read-only check script without the lockout gate or a rollback', async () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole('radio', { name: 'Check' }));
+    fireEvent.click(screen.getByLabelText('Advanced IPtables Ruleset'));
+
+    // Checking the ruleset cannot lock anyone out, so there is nothing to acknowledge.
+    expect(screen.queryByRole('region', { name: /Lockout risks/i })).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Generate Check Script' }));
+    await screen.findByRole('button', { name: /Copy/i });
+    expect(mockGenerateScriptHeaderAndHelpers).toHaveBeenCalledWith(expect.objectContaining({ scriptKind: 'check' }));
+    expect(mockGenerateScriptSection.mock.calls[0][1]?.scriptKind).toBe('check');
+    expect(screen.getByRole('button', { name: 'Download' })).toHaveAttribute('title', 'Download as fedora_compliance_check.sh');
+    expect(screen.queryByRole('button', { name: 'Download rollback' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('radio', { name: 'Template' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Generate Check Script' }));
+    await waitFor(() => expect(document.querySelector('code')?.textContent).toContain('Compliance Summary'));
+    const script = document.querySelector('code')?.textContent ?? '';
+    expect(script).toContain('check_fail "The INPUT policy is not DROP."');
+    expect(script).not.toMatch(/run_cmd|Lockout Safeguard/);
+    expect(screen.getByText(/Built-in checks passed/)).toBeInTheDocument();
+  });
+
+  it('should select required options and refuse conflicting ones', () => {
+    render(<App />);
+    fireEvent.click(screen.getByLabelText('Enable Port Knocking for SSH'));
+    expect(screen.getByLabelText('Advanced IPtables Ruleset')).toBeChecked();
+    expect(screen.getByRole('status')).toHaveTextContent('Also selected Advanced IPtables Ruleset, required by Enable Port Knocking for SSH.');
+
+    fireEvent.click(screen.getByLabelText('Firewall Configuration'));
+    expect(screen.getByLabelText('Firewall Configuration')).not.toBeChecked();
+    expect(screen.getByRole('status')).toHaveTextContent(/Firewall Configuration was not selected: Firewall Configuration conflicts with Advanced IPtables Ruleset/);
+
+    fireEvent.click(screen.getByLabelText('Advanced IPtables Ruleset'));
+    expect(screen.getByLabelText('Enable Port Knocking for SSH')).not.toBeChecked();
+    fireEvent.click(screen.getByRole('button', { name: 'Dismiss' }));
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+
+  it('should validate option parameters and pass their values to the section prompt', async () => {
+    render(<App />);
+    fireEvent.click(screen.getByLabelText('Change Default SSH Port'));
+    const port = screen.getByLabelText(/New SSH port/);
+    expect(port).toHaveValue('2222');
+
+    fireEvent.change(port, { target: { value: '70000' } });
+    expect(screen.getByText('Enter a number from 1 to 65535.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Generate Hardening Script/i })).toBeDisabled();
+
+    fireEvent.change(port, { target: { value: '2200' } });
+    fireEvent.click(screen.getByRole('button', { name: /Generate Hardening Script/i }));
+    await screen.findByRole('button', { name: /Copy/i });
+    const sshPortCall = mockGenerateScriptSection.mock.calls.find(([option]) => option.id === 'sshPort');
+    expect(sshPortCall?.[1]?.parameterValues).toEqual({ NEW_SSH_PORT: 2200 });
+  });
+
+  it('should regenerate, move and remove single sections without generating the rest again', async () => {
+    render(<App />);
+    fireEvent.click(screen.getByLabelText('System Updates & Packages'));
+    fireEvent.click(screen.getByLabelText('Firewall Configuration'));
+    fireEvent.click(await screen.findByRole('button', { name: /Generate Hardening Script/i }));
+    await screen.findByRole('button', { name: /Copy/i });
+
+    const contents = screen.getByRole('navigation', { name: 'Script sections' });
+    const order = () => Array.from(contents.querySelectorAll('li')).map(item => item.querySelector('button')?.textContent);
+    expect(order()).toEqual(['System Updates & Packages', 'Firewall Configuration']);
+    expect(screen.getByRole('button', { name: 'Move System Updates & Packages up' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Move Firewall Configuration up' }));
+    expect(order()).toEqual(['Firewall Configuration', 'System Updates & Packages']);
+    expect(document.querySelector('code')?.textContent).toMatch(/register_section firewall[^]*register_section updates/);
+
+    mockGenerateScriptSection.mockResolvedValueOnce('# Firewall, second attempt\n');
+    fireEvent.click(screen.getByRole('button', { name: 'Regenerate Firewall Configuration' }));
+    expect(await screen.findByText(/# Firewall, second attempt/)).toBeInTheDocument();
+    expect(mockGenerateScriptSection).toHaveBeenCalledTimes(3);
+    expect(mockGenerateScriptHeaderAndHelpers).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove System Updates & Packages' }));
+    expect(order()).toEqual(['Firewall Configuration']);
+    expect(document.querySelector('code')?.textContent).not.toContain('section_updates()');
+  });
+
+  it('should cancel regenerating a single section and keep what it had before', async () => {
+    render(<App />);
+    fireEvent.click(screen.getByLabelText('Firewall Configuration'));
+    fireEvent.click(await screen.findByRole('button', { name: /Generate Hardening Script/i }));
+    await screen.findByRole('button', { name: /Copy/i });
+
+    mockGenerateScriptSection.mockImplementationOnce((_option, options) => rejectWhenAborted<string>(options?.signal));
+    fireEvent.click(screen.getByRole('button', { name: 'Regenerate Firewall Configuration' }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Cancel regenerating Firewall Configuration' }));
+
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Regenerate Firewall Configuration' })).not.toBeDisabled());
+    expect(mockGenerateScriptSection.mock.calls[1][1]?.signal?.aborted).toBe(true);
+    expect(screen.getByText(/# Section for Firewall Configuration/)).toBeInTheDocument();
+    expect(screen.queryByText(/could not be generated/i)).not.toBeInTheDocument();
+  });
+
+  it('should cancel generation partway through and keep the sections already generated', async () => {
+    mockGenerateScriptSection.mockImplementation(async (option, options) => {
+      if (option.id === 'firewall') return '# Firewall section';
+      return rejectWhenAborted<string>(options?.signal);
+    });
+
+    render(<App />);
+    fireEvent.click(screen.getByLabelText('Firewall Configuration'));
+    fireEvent.click(screen.getByLabelText('SSH Hardening'));
+    fireEvent.click(screen.getByLabelText('Change Default SSH Port'));
+    // One request at a time, so the third section is still queued when we cancel.
+    fireEvent.change(screen.getByLabelText(/Parallel section requests/i), { target: { value: '1' } });
+    fireEvent.click(screen.getByLabelText(/I understand these risks/i));
+    fireEvent.click(await screen.findByRole('button', { name: /Generate Hardening Script/i }));
+
+    await waitFor(() => expect(mockGenerateScriptSection).toHaveBeenCalledTimes(2));
+    fireEvent.click(screen.getByRole('button', { name: /^Cancel$/ }));
+
+    expect(await screen.findByRole('button', { name: /Generate Hardening Script/i })).not.toBeDisabled();
+    expect(screen.queryByRole('button', { name: /^Cancel$/ })).not.toBeInTheDocument();
+    expect(screen.queryByText(/An Error Occurred/i)).not.toBeInTheDocument();
+
+    // The finished section is kept, the interrupted and the queued one become retryable placeholders.
+    expect(screen.getByText(/# Firewall section/)).toBeInTheDocument();
+    expect(screen.getByText(/2 sections could not be generated/i)).toBeInTheDocument();
+    expect(screen.getAllByRole('button', { name: /^Retry$/ })).toHaveLength(2);
+
+    expect(mockGenerateScriptSection).toHaveBeenCalledTimes(2);
+    expect(mockGenerateScriptSection.mock.calls[1][1]?.signal?.aborted).toBe(true);
+    expect(mockGenerateScriptFooter).not.toHaveBeenCalled();
+  });
+
+  it('should cancel a running analysis without reporting an error', async () => {
+    mockAnalyzeScriptOutput.mockImplementation((_output, signal) => rejectWhenAborted<AnalysisResult>(signal));
+    render(<App />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Advanced/i }));
+    fireEvent.change(screen.getByLabelText(/Paste Script Output Here/i), { target: { value: '[FAILED] sshd' } });
+    fireEvent.click(screen.getByRole('button', { name: /Analyze Output/i }));
+
+    fireEvent.click(await screen.findByRole('button', { name: /^Cancel$/ }));
+
+    expect(await screen.findByRole('button', { name: /Analyze Output/i })).not.toBeDisabled();
+    expect(mockAnalyzeScriptOutput.mock.calls[0][1]?.aborted).toBe(true);
+    expect(screen.queryByText(/Cancelled/i)).not.toBeInTheDocument();
+    expect(screen.queryByText(/Hardening Score/i)).not.toBeInTheDocument();
   });
   
   // FIX: This test no longer mocks `generateHardenScript` and instead uses the default
@@ -157,6 +573,9 @@ describe('<App /> Integration Tests', () => {
         improvementSummary: ['Used `[[ ... ]]` instead of `[ ... ]` for modern syntax.'],
     };
     mockRunShellcheckAndLearn.mockResolvedValue(improvementResult);
+    mockRunShellcheck.mockResolvedValue([
+      { code: 2086, level: 'info', message: 'Double quote to prevent globbing.', line: 5, endLine: 5, column: 1, endColumn: 4 },
+    ]);
     
     render(<App />);
     
@@ -186,7 +605,7 @@ describe('<App /> Integration Tests', () => {
     
     // 5. Wait for the corrected script to appear
     expect(await screen.findByText(improvementResult.correctedScript)).toBeInTheDocument();
-    expect(mockRunShellcheckAndLearn).toHaveBeenCalledWith(expect.any(String), expect.any(Array));
+    expect(mockRunShellcheckAndLearn).toHaveBeenCalledWith(expect.any(String), expect.any(Array), expect.any(Array), expect.any(AbortSignal));
 
     // 6. Check for success message and that loading is done
     expect(await screen.findByText(/Script refined and AI prompts have been improved/i)).toBeInTheDocument();
@@ -197,4 +616,61 @@ describe('<App /> Integration Tests', () => {
     fireEvent.click(generateTab);
     expect(await screen.findByText('✨ Improved')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('should run the real ShellCheck and pass only its findings, linked to their section, to the model', async () => {
+    // The header mock spans lines 1-3 and the section list lines 5-15. The pre-flight checks come
+    // next, so the SSH section's first own line is line 19 moved down by their length.
+    const sshLine = 19 + buildPreflightChecks([{ id: 'ssh' } as HardeningOption]).split('\n').length + 1;
+    mockRunShellcheck.mockResolvedValue([
+      { code: 2086, level: 'warning', message: 'Double quote to prevent globbing and word splitting.', line: sshLine, endLine: sshLine, column: 3, endColumn: 8 },
+    ]);
+    mockRunShellcheckAndLearn.mockResolvedValue({
+      correctedScript: '#!/bin/bash\n# fixed\nsection_ssh() {\n# Section for SSH Hardening, quoted\n}\nrun_section ssh',
+      refinedPrompts: [],
+      improvementSummary: ['SC2086: Quoted variables.'],
+    });
+
+    render(<App />);
+    fireEvent.click(screen.getByLabelText('SSH Hardening'));
+    // Without the key check safeguard, the script is only the mocked parts.
+    fireEvent.click(screen.getByLabelText(/Stop if no SSH key is installed/i));
+    fireEvent.click(screen.getByLabelText(/I understand these risks/i));
+    fireEvent.click(await screen.findByRole('button', { name: /Generate Hardening Script/i }));
+    await screen.findByRole('button', { name: /Copy/i });
+
+    fireEvent.click(screen.getByRole('button', { name: /^ShellCheck$/ }));
+    fireEvent.click(screen.getByRole('button', { name: /Run ShellCheck & Improve/i }));
+
+    expect(await screen.findByRole('link', { name: 'SC2086' })).toHaveAttribute('href', 'https://www.shellcheck.net/wiki/SC2086');
+    expect(screen.getByText('In section: SSH Hardening')).toBeInTheDocument();
+    await screen.findByText('SC2086: Quoted variables.');
+
+    const [, options, findings] = mockRunShellcheckAndLearn.mock.calls[0];
+    expect(options.map(o => o.id)).toEqual(['ssh']);
+    expect(findings).toEqual([expect.objectContaining({ code: 2086, sectionId: 'ssh', sectionLabel: 'SSH Hardening' })]);
+
+    // The fix of the SSH section can be taken over on its own.
+    expect(screen.getByText('Fixes by section')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Apply fix to SSH Hardening' }));
+    expect(screen.queryByText('Fixes by section')).not.toBeInTheDocument();
+    expect(document.getElementById('original-script-display')).toHaveTextContent('# Section for SSH Hardening, quoted');
+  });
+
+  it('should skip the model when ShellCheck finds nothing', async () => {
+    mockRunShellcheck.mockResolvedValue([]);
+
+    render(<App />);
+    fireEvent.click(screen.getByLabelText('SSH Hardening'));
+    // Without the key check safeguard, the script is only the mocked parts.
+    fireEvent.click(screen.getByLabelText(/Stop if no SSH key is installed/i));
+    fireEvent.click(screen.getByLabelText(/I understand these risks/i));
+    fireEvent.click(await screen.findByRole('button', { name: /Generate Hardening Script/i }));
+    await screen.findByRole('button', { name: /Copy/i });
+
+    fireEvent.click(screen.getByRole('button', { name: /^ShellCheck$/ }));
+    fireEvent.click(screen.getByRole('button', { name: /Run ShellCheck & Improve/i }));
+
+    expect(await screen.findByText(/ShellCheck found no issues/i)).toBeInTheDocument();
+    expect(mockRunShellcheckAndLearn).not.toHaveBeenCalled();
+  });
+});
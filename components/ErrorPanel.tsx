@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { LlmError } from '../services/errors';
+import type { ErrorCode } from '../services/errors';
+
+interface ErrorPanelProps {
+  error: Error;
+  /** Shown for transient API failures; plain validation errors never offer a retry. */
+  onRetry?: () => void;
+  /** Shown for authentication and configuration problems. */
+  onOpenSettings?: () => void;
+}
+
+const TITLES: Partial<Record<ErrorCode, string>> = {
+  auth: 'Authentication Failed',
+  network: 'Connection Problem',
+  quota: 'Rate Limit Reached',
+  safety: 'Response Blocked',
+  'malformed-json': 'Unexpected Response',
+  schema: 'Unexpected Response',
+  timeout: 'Request Timed Out',
+  config: 'Configuration Needed',
+};
+
+// Codes where simply trying again has a reasonable chance of working.
+const RETRYABLE_CODES = new Set<ErrorCode>(['network', 'quota', 'timeout', 'malformed-json', 'schema', 'unknown']);
+
+const HINTS: Partial<Record<ErrorCode, string>> = {
+  auth: 'Check the API key in the provider settings.',
+  config: 'Finish setting up the model provider, then try again.',
+  safety: 'Rephrase or remove the custom requirements that triggered the filter, then generate again.',
+  'malformed-json': 'Models occasionally return broken output. Trying again usually helps.',
+  schema: 'Models occasionally return incomplete output. Trying again usually helps.',
+};
+
+const ErrorPanel: React.FC<ErrorPanelProps> = ({ error, onRetry, onOpenSettings }) => {
+  const code = error instanceof LlmError ? error.code : undefined;
+  const retryAfterMs = error instanceof LlmError ? error.retryAfterMs : undefined;
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  // Count down the provider's retry-after hint before allowing another attempt.
+  useEffect(() => {
+    if (!retryAfterMs) {
+      setSecondsLeft(0);
+      return;
+    }
+    const readyAt = Date.now() + retryAfterMs;
+    setSecondsLeft(Math.ceil(retryAfterMs / 1000));
+    const timer = setInterval(() => {
+      const remaining = Math.max(0, Math.ceil((readyAt - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [error, retryAfterMs]);
+
+  const canRetry = onRetry && code !== undefined && RETRYABLE_CODES.has(code);
+  const canOpenSettings = onOpenSettings && (code === 'auth' || code === 'config');
+  const hint = code && HINTS[code];
+
+  return (
+    <div className="flex items-center justify-center h-full p-8 text-red-400" role="alert">
+      <div className="text-center">
+        <h3 className="text-xl font-bold mb-2">{(code && TITLES[code]) || 'An Error Occurred'}</h3>
+        <p>{error.message}</p>
+        {hint && <p className="text-sm text-red-300/80 mt-2">{hint}</p>}
+        {(canRetry || canOpenSettings) && (
+          <div className="mt-4 flex justify-center gap-3">
+            {canRetry && (
+              <button
+                onClick={onRetry}
+                disabled={secondsLeft > 0}
+                className="px-4 py-2 text-sm font-medium text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors disabled:cursor-not-allowed disabled:text-gray-400"
+              >
+                {secondsLeft > 0 ? `Retry in ${secondsLeft}s` : 'Retry'}
+              </button>
+            )}
+            {canOpenSettings && (
+              <button
+                onClick={onOpenSettings}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-500 transition-colors"
+              >
+                Open Provider Settings
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ErrorPanel;
@@ -0,0 +1,156 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import type { AnalysisFinding, FindingSeverity } from '../types';
+
+interface FindingsListProps {
+  findings: AnalysisFinding[];
+  /** Option labels by id, to name the section a finding concerns. */
+  optionLabels?: Map<string, string>;
+}
+
+type SortOrder = 'severity' | 'section' | 'found';
+
+const SEVERITIES: FindingSeverity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+const SEVERITY_STYLES: Record<FindingSeverity, string> = {
+  critical: 'bg-red-600/30 text-red-200 border-red-500/60',
+  high: 'bg-red-500/20 text-red-300 border-red-500/40',
+  medium: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/40',
+  low: 'bg-blue-500/20 text-blue-300 border-blue-500/40',
+  info: 'bg-gray-500/20 text-gray-300 border-gray-500/40',
+};
+
+// The value of the section filter for findings that concern no section.
+const NO_SECTION = '';
+
+const FindingsList: React.FC<FindingsListProps> = ({ findings, optionLabels }) => {
+  const [sortOrder, setSortOrder] = useState<SortOrder>('severity');
+  const [severityFilter, setSeverityFilter] = useState<FindingSeverity | 'all'>('all');
+  const [sectionFilter, setSectionFilter] = useState<string | null>(null);
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (copiedIndex === null) return;
+    const timer = setTimeout(() => setCopiedIndex(null), 2000);
+    return () => clearTimeout(timer);
+  }, [copiedIndex]);
+
+  const sectionName = (optionId: string | null) => optionId ? optionLabels?.get(optionId) ?? optionId : 'No section';
+  const sectionIds = [...new Set<string>(findings.map(finding => finding.optionId ?? NO_SECTION))];
+
+  // Indexes into `findings`, so a finding keeps its identity across sorting and filtering.
+  const shown = useMemo(() => {
+    const indexes = findings.map((_, index) => index).filter(index =>
+      (severityFilter === 'all' || findings[index].severity === severityFilter) &&
+      (sectionFilter === null || (findings[index].optionId ?? NO_SECTION) === sectionFilter)
+    );
+    if (sortOrder === 'severity') {
+      indexes.sort((a, b) => SEVERITIES.indexOf(findings[a].severity) - SEVERITIES.indexOf(findings[b].severity) || a - b);
+    } else if (sortOrder === 'section') {
+      // Findings that concern no section come last.
+      const hasNoSection = (index: number) => Number(findings[index].optionId === null);
+      const name = (index: number) => sectionName(findings[index].optionId);
+      indexes.sort((a, b) => hasNoSection(a) - hasNoSection(b) || name(a).localeCompare(name(b)) || a - b);
+    }
+    return indexes;
+  }, [findings, optionLabels, sortOrder, severityFilter, sectionFilter]);
+
+  const handleCopy = (index: number) => {
+    navigator.clipboard.writeText(findings[index].remediation.join('\n'));
+    setCopiedIndex(index);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(findings, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'hardening_findings.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  if (findings.length === 0) {
+    return <p className="text-sm text-gray-400">No findings: the analysis found nothing to fix.</p>;
+  }
+
+  const selectClass = 'bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200';
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+        <label className="flex items-center gap-2 text-gray-400">
+          Sort by
+          <select value={sortOrder} onChange={e => setSortOrder(e.target.value as SortOrder)} className={selectClass}>
+            <option value="severity">Severity</option>
+            <option value="section">Section</option>
+            <option value="found">Order found</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-400">
+          Severity
+          <select value={severityFilter} onChange={e => setSeverityFilter(e.target.value as FindingSeverity | 'all')} className={selectClass}>
+            <option value="all">All</option>
+            {SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-400">
+          Section
+          <select
+            value={sectionFilter ?? 'all'}
+            onChange={e => setSectionFilter(e.target.value === 'all' ? null : e.target.value)}
+            className={selectClass}
+          >
+            <option value="all">All</option>
+            {sectionIds.map(id => <option key={id} value={id}>{sectionName(id || null)}</option>)}
+          </select>
+        </label>
+        <span className="text-gray-500">{shown.length} of {findings.length} shown</span>
+        <button
+          onClick={handleExport}
+          className="ml-auto bg-gray-700 hover:bg-gray-600 text-gray-200 font-medium py-1 px-3 rounded-md transition"
+          title="Download the findings as hardening_findings.json"
+        >
+          Export JSON
+        </button>
+      </div>
+      <ul className="space-y-3" aria-label="Findings">
+        {shown.map(index => {
+          const finding = findings[index];
+          return (
+            <li key={index} className="border border-gray-700 rounded-md p-3 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className={`px-2 py-0.5 text-xs font-medium rounded border ${SEVERITY_STYLES[finding.severity]}`}>{finding.severity}</span>
+                <span className="font-semibold text-gray-200">{finding.title}</span>
+                <span className="text-xs text-gray-500">{sectionName(finding.optionId)}</span>
+              </div>
+              <p className="mt-2 text-gray-300">{finding.explanation}</p>
+              {finding.evidence.length > 0 && (
+                <pre className="mt-2 bg-gray-900 rounded p-2 text-xs text-gray-400 whitespace-pre-wrap break-words" aria-label="Evidence">
+                  {finding.evidence.join('\n')}
+                </pre>
+              )}
+              {finding.remediation.length > 0 && (
+                <div className="mt-2 relative">
+                  <pre className="bg-gray-900 rounded p-2 pr-20 text-xs text-green-300 whitespace-pre-wrap break-words" aria-label="Remediation">
+                    {finding.remediation.join('\n')}
+                  </pre>
+                  <button
+                    onClick={() => handleCopy(index)}
+                    className="absolute top-1 right-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs py-1 px-2 rounded transition"
+                    aria-label={`Copy the commands for ${finding.title}`}
+                  >
+                    {copiedIndex === index ? 'Copied!' : 'Copy'}
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default FindingsList;
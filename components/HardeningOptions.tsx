@@ -1,6 +1,10 @@
 
 import React from 'react';
 import type { SelectedOptions, HardeningOption } from '../types';
+import { formatParameterValue, resolveParameters } from '../services/optionParameters';
+
+/** What the user typed for each parameter, by option id and variable name. */
+export type ParameterInputs = Record<string, Record<string, string>>;
 
 interface HardeningOptionsProps {
   title: string;
@@ -9,14 +13,64 @@ interface HardeningOptionsProps {
   selectedOptions: SelectedOptions;
   onOptionChange: (id: string) => void;
   improvedPromptIds: Set<string>;
+  parameterInputs: ParameterInputs;
+  onParameterChange: (optionId: string, name: string, text: string) => void;
 }
 
+const INPUT_STYLE = 'w-full bg-gray-900 border rounded-md px-2 py-1 text-sm focus:ring-blue-500 focus:border-blue-500 transition';
+
+// Inputs for the parameters of a selected option, each with its validation message.
+const OptionParameterInputs: React.FC<{
+  option: HardeningOption;
+  inputs: Record<string, string>;
+  onParameterChange: (optionId: string, name: string, text: string) => void;
+}> = ({ option, inputs, onParameterChange }) => {
+  const { errors } = resolveParameters(option, inputs);
+  return (
+    <div className="mt-2 space-y-2">
+      {(option.parameters ?? []).map(parameter => {
+        const inputId = `${option.id}-${parameter.name}`;
+        const text = inputs[parameter.name] ?? formatParameterValue(parameter.default);
+        const error = errors[parameter.name];
+        const borderStyle = error ? 'border-red-500' : 'border-gray-700';
+        const onChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => onParameterChange(option.id, parameter.name, e.target.value);
+        return (
+          <div key={parameter.name}>
+            <label htmlFor={inputId} className="block text-xs text-gray-400 mb-1" title={parameter.description}>
+              {parameter.label} <code className="text-gray-500">{parameter.name}</code>
+            </label>
+            {parameter.type === 'enum' ? (
+              <select id={inputId} value={text} onChange={onChange} className={`${INPUT_STYLE} ${borderStyle}`}>
+                {parameter.choices.map(choice => <option key={choice} value={choice}>{choice}</option>)}
+              </select>
+            ) : (
+              <input
+                id={inputId}
+                type="text"
+                inputMode={parameter.type === 'string' ? 'text' : 'numeric'}
+                value={text}
+                onChange={onChange}
+                aria-invalid={error !== undefined}
+                aria-describedby={error ? `${inputId}-error` : undefined}
+                className={`${INPUT_STYLE} ${borderStyle}`}
+              />
+            )}
+            {error && <p id={`${inputId}-error`} className="text-xs text-red-400 mt-1">{error}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
 const HardeningOptionItem: React.FC<{
   option: HardeningOption;
   selectedOptions: SelectedOptions;
   onOptionChange: (id: string) => void;
   improvedPromptIds: Set<string>;
-}> = ({ option, selectedOptions, onOptionChange, improvedPromptIds }) => {
+  parameterInputs: ParameterInputs;
+  onParameterChange: (optionId: string, name: string, text: string) => void;
+}> = ({ option, selectedOptions, onOptionChange, improvedPromptIds, parameterInputs, onParameterChange }) => {
   return (
     <div>
       <div className="flex items-start">
@@ -40,6 +94,9 @@ const HardeningOptionItem: React.FC<{
             )}
           </label>
           <p className="text-gray-400">{option.description}</p>
+          {selectedOptions[option.id] && option.parameters && (
+            <OptionParameterInputs option={option} inputs={parameterInputs[option.id] ?? {}} onParameterChange={onParameterChange} />
+          )}
         </div>
       </div>
       {option.subOptions && (
@@ -51,6 +108,8 @@ const HardeningOptionItem: React.FC<{
               selectedOptions={selectedOptions}
               onOptionChange={onOptionChange}
               improvedPromptIds={improvedPromptIds}
+              parameterInputs={parameterInputs}
+              onParameterChange={onParameterChange}
             />
           ))}
         </div>
@@ -60,7 +119,7 @@ const HardeningOptionItem: React.FC<{
 };
 
 
-const HardeningOptions: React.FC<HardeningOptionsProps> = ({ title, description, options, selectedOptions, onOptionChange, improvedPromptIds }) => {
+const HardeningOptions: React.FC<HardeningOptionsProps> = ({ title, description, options, selectedOptions, onOptionChange, improvedPromptIds, parameterInputs, onParameterChange }) => {
   return (
     <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
       <h2 className="text-lg font-semibold mb-1 text-gray-100">{title}</h2>
@@ -73,6 +132,8 @@ const HardeningOptions: React.FC<HardeningOptionsProps> = ({ title, description,
             selectedOptions={selectedOptions}
             onOptionChange={onOptionChange}
             improvedPromptIds={improvedPromptIds}
+            parameterInputs={parameterInputs}
+            onParameterChange={onParameterChange}
           />
         ))}
       </div>
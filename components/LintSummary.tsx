@@ -0,0 +1,58 @@
+import React from 'react';
+import type { LintFinding, LintSeverity } from '../types';
+import { getLintRuleTitle } from '../services/scriptLinter';
+
+interface LintSummaryProps {
+  findings: LintFinding[];
+  onSelectLine?: (line: number) => void;
+}
+
+export const LINT_SEVERITY_STYLES: Record<LintSeverity, string> = {
+  error: 'bg-red-500/20 text-red-300 border-red-500/40',
+  warning: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/40',
+};
+
+const LintSummary: React.FC<LintSummaryProps> = ({ findings, onSelectLine }) => {
+  if (findings.length === 0) {
+    return (
+      <div className="border-t border-green-500/30 bg-green-500/10 p-3 text-sm text-green-300">
+        Built-in checks passed: no lockout or safety problems found.
+      </div>
+    );
+  }
+
+  const errors = findings.filter(finding => finding.severity === 'error').length;
+  const warnings = findings.length - errors;
+
+  return (
+    <div className="border-t border-gray-700 p-3 text-sm" aria-label="Built-in checks">
+      <strong className="font-semibold text-gray-200">
+        Built-in checks: {errors} error{errors === 1 ? '' : 's'}, {warnings} warning{warnings === 1 ? '' : 's'}
+      </strong>
+      <ul className="mt-2 space-y-2 max-h-40 overflow-auto">
+        {findings.map((finding, index) => (
+          <li key={`${finding.ruleId}:${finding.line}:${index}`} className="flex items-start gap-3">
+            <span className={`flex-shrink-0 px-2 py-0.5 text-xs font-medium rounded border ${LINT_SEVERITY_STYLES[finding.severity]}`}>
+              {finding.severity}
+            </span>
+            <div className="min-w-0">
+              <p className="text-gray-300">
+                <button
+                  onClick={() => onSelectLine?.(finding.line)}
+                  className="font-mono text-blue-400 hover:underline"
+                  title="Show this line"
+                >
+                  line {finding.line}
+                </button>{' '}
+                <span className="font-medium">{getLintRuleTitle(finding.ruleId)}</span>
+              </p>
+              <p className="text-xs text-gray-400">{finding.message}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default LintSummary;
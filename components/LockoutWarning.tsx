@@ -0,0 +1,70 @@
+import React from 'react';
+import type { LockoutRisk, SafeguardId } from '../types';
+import { SAFEGUARDS, getOfferedSafeguards } from '../services/lockoutDetector';
+
+interface LockoutWarningProps {
+  risks: LockoutRisk[];
+  enabledSafeguards: Set<SafeguardId>;
+  onToggleSafeguard: (id: SafeguardId) => void;
+  isAcknowledged: boolean;
+  onAcknowledgeChange: (acknowledged: boolean) => void;
+  disabled?: boolean;
+}
+
+const LockoutWarning: React.FC<LockoutWarningProps> = ({ risks, enabledSafeguards, onToggleSafeguard, isAcknowledged, onAcknowledgeChange, disabled = false }) => {
+  if (risks.length === 0) {
+    return null;
+  }
+
+  const offered = getOfferedSafeguards(risks);
+
+  return (
+    <div className="bg-orange-500/10 border border-orange-500/40 rounded-lg p-4 text-sm" role="region" aria-label="Lockout risks">
+      <h3 className="font-semibold text-orange-300 mb-2">
+        This selection can lock you out of a remote host
+      </h3>
+      <ul className="space-y-2 mb-3">
+        {risks.map(risk => (
+          <li key={risk.id}>
+            <span className="font-medium text-orange-200">{risk.title}</span>
+            <p className="text-orange-200/80">{risk.message}</p>
+          </li>
+        ))}
+      </ul>
+
+      {offered.length > 0 && (
+        <fieldset className="mb-3">
+          <legend className="text-xs font-medium text-gray-400 mb-1">Add safeguards to the script</legend>
+          {offered.map(id => (
+            <label key={id} className="flex items-start gap-2 py-1 text-gray-300 cursor-pointer" title={SAFEGUARDS[id].description}>
+              <input
+                type="checkbox"
+                className="mt-0.5 h-4 w-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+                checked={enabledSafeguards.has(id)}
+                onChange={() => onToggleSafeguard(id)}
+                disabled={disabled}
+              />
+              <span>
+                {SAFEGUARDS[id].label}
+                <span className="block text-xs text-gray-500">{SAFEGUARDS[id].description}</span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      <label className="flex items-start gap-2 text-gray-200 font-medium cursor-pointer">
+        <input
+          type="checkbox"
+          className="mt-0.5 h-4 w-4 rounded border-gray-600 bg-gray-700 text-orange-500 focus:ring-orange-500"
+          checked={isAcknowledged}
+          onChange={(e) => onAcknowledgeChange(e.target.checked)}
+          disabled={disabled}
+        />
+        I understand these risks and have console or out-of-band access to this host.
+      </label>
+    </div>
+  );
+};
+
+export default LockoutWarning;
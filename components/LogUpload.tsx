@@ -0,0 +1,146 @@
+import React, { useState, useRef } from 'react';
+import { RUN_LOG_FILE } from '../services/runLog';
+
+/** A log file read in the browser. */
+export interface UploadedLog {
+  name: string;
+  size: number;
+  text: string;
+}
+
+interface LogUploadProps {
+  /** The loaded file, shown as a preview instead of the drop zone. */
+  log: UploadedLog | null;
+  /** How many parts the loaded output is analyzed in. */
+  partCount: number;
+  onLoad: (log: UploadedLog) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+export const ACCEPTED_EXTENSIONS = ['.log', '.txt', '.jsonl'];
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const PREVIEW_LINES = 20;
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const readFileAsText = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(file);
+});
+
+// The reason a file cannot be analyzed, or null when it can be read.
+const checkFile = (file: File): string | null => {
+  if (!ACCEPTED_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))) {
+    return `${file.name} is not a log file. Upload a ${ACCEPTED_EXTENSIONS.join(', ')} file.`;
+  }
+  if (file.size === 0) return `${file.name} is empty.`;
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return `${file.name} is ${formatSize(file.size)}; files up to ${formatSize(MAX_UPLOAD_BYTES)} can be analyzed.`;
+  }
+  return null;
+};
+
+/** Drag-and-drop or file-picker upload of a run's log, with a preview of the loaded file. */
+const LogUpload: React.FC<LogUploadProps> = ({ log, partCount, onLoad, onRemove, disabled = false }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const problem = checkFile(file);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    try {
+      const text = await readFileAsText(file);
+      if (text.includes('\u0000')) {
+        setError(`${file.name} is not a text file.`);
+        return;
+      }
+      setError(null);
+      onLoad({ name: file.name, size: file.size, text });
+    } catch {
+      setError(`${file.name} could not be read.`);
+    }
+  };
+
+  if (log) {
+    const lines = log.text.split('\n');
+    return (
+      <div className="bg-gray-800 border border-gray-700 rounded-md p-3 text-sm" aria-label="Log preview">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="font-mono text-gray-200">{log.name}</span>
+          <span className="text-gray-400">
+            {formatSize(log.size)}, {lines.length.toLocaleString()} line{lines.length === 1 ? '' : 's'}
+            {partCount > 1 && `, analyzed in ${partCount} parts`}
+          </span>
+          <button
+            onClick={onRemove}
+            disabled={disabled}
+            className="ml-auto px-3 py-1 text-xs font-medium text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors disabled:cursor-not-allowed disabled:text-gray-500"
+          >
+            Remove file
+          </button>
+        </div>
+        <pre className="mt-2 bg-gray-900 rounded p-2 text-xs text-gray-400 whitespace-pre-wrap break-words max-h-72 overflow-auto">
+          {lines.slice(0, PREVIEW_LINES).join('\n')}
+        </pre>
+        {lines.length > PREVIEW_LINES && (
+          <p className="mt-1 text-xs text-gray-500">First {PREVIEW_LINES} of {lines.length.toLocaleString()} lines.</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div
+        onDragOver={e => {
+          e.preventDefault();
+          if (!disabled) setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={e => {
+          e.preventDefault();
+          setIsDragging(false);
+          if (!disabled) handleFile(e.dataTransfer.files[0]);
+        }}
+        className={`${
+          isDragging ? 'border-blue-500 bg-blue-900/20' : 'border-gray-700'
+        } border-2 border-dashed rounded-md p-4 text-center text-sm text-gray-400 transition-colors`}
+      >
+        Drop a log file here, or{' '}
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className="text-blue-400 hover:underline disabled:cursor-not-allowed disabled:text-gray-500"
+        >
+          choose a file
+        </button>
+        <span className="block text-xs text-gray-500 mt-1">
+          {ACCEPTED_EXTENSIONS.join(', ')} up to {formatSize(MAX_UPLOAD_BYTES)}, such as /var/log/hardening.log or {RUN_LOG_FILE}
+        </span>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_EXTENSIONS.join(',')}
+          className="hidden"
+          aria-label="Upload a log file"
+          onChange={e => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {error && <p className="text-sm text-red-400 mt-2" role="alert">{error}</p>}
+    </div>
+  );
+};
+
+export default LogUpload;
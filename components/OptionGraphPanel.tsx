@@ -0,0 +1,85 @@
+import React from 'react';
+import type { SelectedOptions } from '../types';
+import { getOptionEdges, getMissingRecommendations } from '../services/optionGraph';
+import type { OptionGraph, OptionRelationKind } from '../services/optionGraph';
+
+export interface SelectionNotice {
+  message: string;
+  /** The toggle was refused because of a conflict. */
+  isRefused: boolean;
+}
+
+interface OptionGraphPanelProps {
+  graph: OptionGraph;
+  selectedOptions: SelectedOptions;
+  notice: SelectionNotice | null;
+  onOptionChange: (id: string) => void;
+  onDismissNotice: () => void;
+}
+
+const RELATION_TEXT: Record<OptionRelationKind, string> = {
+  requires: 'requires',
+  conflictsWith: 'conflicts with',
+  recommends: 'recommends',
+};
+
+const OptionGraphPanel: React.FC<OptionGraphPanelProps> = ({ graph, selectedOptions, notice, onOptionChange, onDismissNotice }) => {
+  const edges = getOptionEdges(graph);
+  const missing = getMissingRecommendations(graph, selectedOptions);
+  const label = (id: string) => graph.options.get(id)?.label ?? id;
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 text-sm" role="region" aria-label="Option dependencies">
+      <h2 className="text-lg font-semibold mb-1 text-gray-100">Dependencies</h2>
+      <p className="text-gray-400 mb-3">Required options are selected automatically. Conflicting options cannot be selected together.</p>
+
+      {notice && (
+        <div
+          className={`mb-3 flex items-start justify-between gap-3 rounded-md border p-3 whitespace-pre-line ${notice.isRefused ? 'border-orange-500/40 bg-orange-500/10 text-orange-200' : 'border-blue-500/40 bg-blue-500/10 text-blue-200'}`}
+          role="status"
+        >
+          <span>{notice.message}</span>
+          <button onClick={onDismissNotice} className="flex-shrink-0 text-xs text-gray-400 hover:text-gray-200" aria-label="Dismiss">
+            ✕
+          </button>
+        </div>
+      )}
+
+      {missing.length > 0 && (
+        <ul className="mb-3 space-y-2">
+          {missing.map(edge => (
+            <li key={`${edge.fromId}-${edge.id}`} className="flex items-start justify-between gap-3">
+              <span className="text-gray-300">
+                {label(edge.fromId)} recommends <span className="font-medium">{label(edge.id)}</span>
+                <span className="block text-xs text-gray-500">{edge.reason}</span>
+              </span>
+              <button
+                onClick={() => onOptionChange(edge.id)}
+                className="flex-shrink-0 px-2 py-1 text-xs font-medium text-blue-300 bg-blue-900/50 border border-blue-800 rounded-md hover:bg-blue-900/80 transition-colors"
+              >
+                Add {label(edge.id)}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <details>
+        <summary className="cursor-pointer text-gray-300">All relations ({edges.length})</summary>
+        <ul className="mt-2 space-y-1">
+          {edges.map(edge => (
+            <li
+              key={`${edge.kind}-${edge.fromId}-${edge.id}`}
+              className={selectedOptions[edge.fromId] ? 'text-gray-200' : 'text-gray-500'}
+              title={edge.reason}
+            >
+              {label(edge.fromId)} <span className={edge.kind === 'conflictsWith' ? 'text-orange-300' : 'text-gray-400'}>{RELATION_TEXT[edge.kind]}</span> {label(edge.id)}
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+};
+
+export default OptionGraphPanel;
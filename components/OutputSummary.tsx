@@ -0,0 +1,89 @@
+import React from 'react';
+import { OUTPUT_MARKERS } from '../services/outputParser';
+import type { OutputLine, OutputMarker, ParsedOutput } from '../services/outputParser';
+import type { SectionOutcome } from '../services/runLog';
+
+interface OutputSummaryProps {
+  parsed: ParsedOutput;
+}
+
+export const OUTCOME_STYLES: Record<SectionOutcome, string> = {
+  passed: 'bg-green-500/20 text-green-300 border-green-500/40',
+  warning: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/40',
+  failed: 'bg-red-500/20 text-red-300 border-red-500/40',
+  skipped: 'bg-gray-500/20 text-gray-300 border-gray-500/40',
+};
+
+const MARKER_LABELS: Record<OutputMarker, string> = { info: 'Info', success: 'Success', done: 'Done', warning: 'Warning', error: 'Error', failed: 'Failed' };
+
+const IssueLines: React.FC<{ lines: OutputLine[] }> = ({ lines }) => (
+  <ul className="mt-1 space-y-1">
+    {lines.map(line => (
+      <li key={line.lineNumber} className="font-mono text-xs">
+        <span className="text-gray-500">line {line.lineNumber}:</span>{' '}
+        <span className={line.marker === 'warning' ? 'text-yellow-300' : 'text-red-300'}>[{line.marker.toUpperCase()}]</span>{' '}
+        <span className="text-gray-300">{line.message}</span>
+        {line.context.map((text, index) => (
+          <div key={index} className="pl-4 text-gray-500">{text}</div>
+        ))}
+      </li>
+    ))}
+  </ul>
+);
+
+/** The per-section results of pasted text output, read locally before any analysis. */
+const OutputSummary: React.FC<OutputSummaryProps> = ({ parsed }) => {
+  const issues = parsed.sections.filter(section => section.failures.length > 0 || section.warnings.length > 0);
+
+  return (
+    <div className="mt-3 bg-gray-800 border border-gray-700 rounded-md p-3 text-sm">
+      <table className="w-full text-left" aria-label="Section results">
+        <thead className="text-xs text-gray-400">
+          <tr>
+            <th className="py-1 pr-3 font-medium">Section</th>
+            <th className="py-1 pr-3 font-medium">Status</th>
+            {OUTPUT_MARKERS.map(marker => (
+              <th key={marker} className="py-1 pr-3 font-medium text-right">{MARKER_LABELS[marker]}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {parsed.sections.map((section, index) => (
+            <tr key={`${section.title}:${index}`} className="border-t border-gray-700/60">
+              <td className="py-1 pr-3 text-gray-200">
+                {section.title}
+                {section.id && <span className="ml-2 font-mono text-xs text-gray-500">{section.id}</span>}
+              </td>
+              <td className="py-1 pr-3">
+                <span className={`px-2 py-0.5 text-xs font-medium rounded border ${OUTCOME_STYLES[section.outcome]}`}>{section.outcome}</span>
+              </td>
+              {OUTPUT_MARKERS.map(marker => (
+                <td key={marker} className={`py-1 pr-3 text-right font-mono ${section.counts[marker] > 0 ? 'text-gray-200' : 'text-gray-600'}`}>
+                  {section.counts[marker]}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {(issues.length > 0 || parsed.otherIssues.length > 0) && (
+        <div className="mt-3 border-t border-gray-700 pt-2 space-y-2 max-h-60 overflow-auto" aria-label="Failing lines">
+          {issues.map((section, index) => (
+            <div key={`${section.title}:${index}`}>
+              <p className="text-gray-200 font-medium">{section.title}</p>
+              <IssueLines lines={[...section.failures, ...section.warnings].sort((a, b) => a.lineNumber - b.lineNumber)} />
+            </div>
+          ))}
+          {parsed.otherIssues.length > 0 && (
+            <div>
+              <p className="text-gray-200 font-medium">Outside any section</p>
+              <IssueLines lines={parsed.otherIssues} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutputSummary;
@@ -0,0 +1,120 @@
+
+import React, { useEffect, useRef } from 'react';
+import type { ProviderConfig, ProviderKind } from '../services/llmProvider';
+import { DEFAULT_GEMINI_MODEL, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from '../services/llmProvider';
+
+interface ProviderSettingsProps {
+  config: ProviderConfig;
+  onChange: (config: ProviderConfig | null) => void;
+  isOpen: boolean;
+  onToggle: (isOpen: boolean) => void;
+}
+
+const inputClassName = "w-full bg-gray-900 border border-gray-700 rounded-md shadow-sm p-2 text-sm focus:ring-blue-500 focus:border-blue-500 transition";
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ config, onChange, isOpen, onToggle }) => {
+  const detailsRef = useRef<HTMLDetailsElement>(null);
+
+  // Bring the panel into view when it is opened from elsewhere, e.g. an error's recovery action.
+  useEffect(() => {
+    if (isOpen) {
+      detailsRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'center' });
+    }
+  }, [isOpen]);
+
+  const handleKindChange = (kind: ProviderKind) => {
+    if (kind === config.kind) return;
+    // Switching backends resets the model, since model names are not portable between them.
+    onChange(kind === 'gemini'
+      ? { kind, model: DEFAULT_GEMINI_MODEL }
+      : { kind, model: DEFAULT_OPENAI_MODEL, baseUrl: DEFAULT_OPENAI_BASE_URL });
+  };
+
+  return (
+    <details
+      id="provider-settings"
+      ref={detailsRef}
+      open={isOpen}
+      onToggle={(e) => onToggle(e.currentTarget.open)}
+      className="bg-gray-800 p-4 rounded-lg border border-gray-700"
+    >
+      <summary className="text-sm font-medium text-gray-300 cursor-pointer">
+        Model Provider: <span className="text-gray-400">{config.kind === 'gemini' ? 'Gemini' : 'OpenAI-compatible'} ({config.model})</span>
+      </summary>
+      <div className="mt-4 space-y-3">
+        <div>
+          <label htmlFor="provider-kind" className="block text-xs font-medium text-gray-400 mb-1">Backend</label>
+          <select
+            id="provider-kind"
+            className={inputClassName}
+            value={config.kind}
+            onChange={(e) => handleKindChange(e.target.value as ProviderKind)}
+          >
+            <option value="gemini">Google Gemini</option>
+            <option value="openai-compatible">OpenAI-compatible (self-hosted, Ollama...)</option>
+          </select>
+        </div>
+        {config.kind === 'openai-compatible' && (
+          <div>
+            <label htmlFor="provider-base-url" className="block text-xs font-medium text-gray-400 mb-1">Base URL</label>
+            <input
+              id="provider-base-url"
+              type="url"
+              className={inputClassName}
+              placeholder={DEFAULT_OPENAI_BASE_URL}
+              value={config.baseUrl || ''}
+              onChange={(e) => onChange({ ...config, baseUrl: e.target.value })}
+            />
+          </div>
+        )}
+        <div>
+          <label htmlFor="provider-model" className="block text-xs font-medium text-gray-400 mb-1">Model</label>
+          <input
+            id="provider-model"
+            type="text"
+            className={inputClassName}
+            value={config.model}
+            onChange={(e) => onChange({ ...config, model: e.target.value })}
+          />
+        </div>
+        <div>
+          <label htmlFor="provider-api-key" className="block text-xs font-medium text-gray-400 mb-1">API Key (optional override)</label>
+          <input
+            id="provider-api-key"
+            type="password"
+            autoComplete="off"
+            className={inputClassName}
+            placeholder="Uses the key configured at build time"
+            value={config.apiKey || ''}
+            onChange={(e) => onChange({ ...config, apiKey: e.target.value || undefined })}
+          />
+          {config.apiKey && (
+            <>
+              <label className="flex items-center gap-2 mt-2 text-xs text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={!!config.rememberApiKey}
+                  onChange={(e) => onChange({ ...config, rememberApiKey: e.target.checked || undefined })}
+                />
+                Remember the key in this browser
+              </label>
+              <p className={`mt-1 text-xs ${config.rememberApiKey ? 'text-yellow-400' : 'text-gray-500'}`}>
+                {config.rememberApiKey
+                  ? "The key is stored unencrypted in this browser's local storage, where anyone using this browser profile, and any script running on this page, can read it."
+                  : 'The key is kept in memory only and has to be entered again after a reload.'}
+              </p>
+            </>
+          )}
+        </div>
+        <button
+          onClick={() => onChange(null)}
+          className="px-3 py-1.5 text-xs font-medium text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors"
+        >
+          Reset to Default
+        </button>
+      </div>
+    </details>
+  );
+};
+
+export default ProviderSettings;
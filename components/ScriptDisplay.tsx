@@ -1,21 +1,89 @@
 
 import React from 'react';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import type { LintFinding, LintSeverity, LockoutRisk, ScriptKind } from '../types';
+import { lintScript } from '../services/scriptLinter';
+import { ROLLBACK_SCRIPT_NAME } from '../services/rollbackScript';
+import type { SectionLineRange } from '../services/scriptAssembler';
 import DancingDuck from './DancingDuck';
+import ErrorPanel from './ErrorPanel';
+import LintSummary from './LintSummary';
+
+const DOWNLOAD_NAMES: Record<ScriptKind, string> = {
+  harden: 'fedora_hardening.sh',
+  check: 'fedora_compliance_check.sh',
+};
+
+const LINT_LINE_STYLES: Record<LintSeverity, string> = {
+  error: 'block -mx-4 px-4 bg-red-500/10 border-l-2 border-red-500',
+  warning: 'block -mx-4 px-4 bg-yellow-500/10 border-l-2 border-yellow-500',
+};
+
+/** A section in the table of contents. */
+export interface ScriptContentsEntry extends SectionLineRange {
+  /** Generated before ShellCheck & Learn last refined the option's prompt. */
+  isOutdated: boolean;
+  isRegenerating: boolean;
+}
+
+const SECTION_CONTROL_STYLE = 'px-2 py-0.5 text-xs font-medium text-gray-200 bg-gray-700 rounded hover:bg-gray-600 transition-colors disabled:cursor-not-allowed disabled:text-gray-500';
+
+export interface FailedSection {
+  id: string;
+  label: string;
+  error: string;
+  isRetrying: boolean;
+}
 
 interface ScriptDisplayProps {
   script: string;
+  /** Chooses the built-in rules and the download name. Defaults to 'harden'. */
+  scriptKind?: ScriptKind;
+  /** Overrides the download name that goes with the script kind. */
+  downloadName?: string;
   isLoading: boolean;
-  error: string | null;
+  error: Error | null;
   loadingMessage: string;
   currentStep?: number;
   totalSteps?: number;
+  tokensReceived?: number;
   placeholder?: React.ReactNode;
   isRebootRecommended?: boolean;
+  failedSections?: FailedSection[];
+  onRetrySection?: (id: string) => void;
+  /** Labels of the parts that were reused from the response cache rather than generated. */
+  cachedParts?: string[];
+  /** Lockout risks the finished script still contains without a safeguard. */
+  lockoutRisks?: LockoutRisk[];
+  /** The companion script that undoes this one, offered as a second download. */
+  rollbackScript?: string;
+  /** Where each option section starts, for the table of contents. */
+  sections?: ScriptContentsEntry[];
+  onRegenerateSection?: (id: string) => void;
+  /** Stops a section that is being regenerated or retried on its own. */
+  onCancelSection?: (id: string) => void;
+  onRemoveSection?: (id: string) => void;
+  /** Moves a section up (-1) or down (1). */
+  onMoveSection?: (id: string, offset: number) => void;
+  onRetry?: () => void;
+  onOpenSettings?: () => void;
 }
 
-const ScriptDisplay: React.FC<ScriptDisplayProps> = ({ script, isLoading, error, loadingMessage, placeholder, currentStep = 0, totalSteps = 0, isRebootRecommended = false }) => {
+const ScriptDisplay: React.FC<ScriptDisplayProps> = ({ script, scriptKind, downloadName: downloadNameOverride, isLoading, error, loadingMessage, placeholder, currentStep = 0, totalSteps = 0, tokensReceived = 0, isRebootRecommended = false, failedSections = [], onRetrySection, cachedParts = [], lockoutRisks = [], rollbackScript = '', sections = [], onRegenerateSection, onCancelSection, onRemoveSection, onMoveSection, onRetry, onOpenSettings }) => {
   const [copyButtonText, setCopyButtonText] = useState('Copy');
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+
+  const downloadName = downloadNameOverride ?? DOWNLOAD_NAMES[scriptKind ?? 'harden'];
+
+  // The built-in rules only look at finished scripts; a half-streamed one would flag missing helpers.
+  const lintFindings = useMemo(() => (script && !isLoading ? lintScript(script, scriptKind) : []), [script, scriptKind, isLoading]);
+
+  // Follow the text while it streams in.
+  useEffect(() => {
+    if (isLoading && scrollContainerRef.current) {
+      scrollContainerRef.current.scrollTop = scrollContainerRef.current.scrollHeight;
+    }
+  }, [script, isLoading]);
 
   useEffect(() => {
     if (copyButtonText === 'Copied!') {
@@ -31,50 +99,118 @@ const ScriptDisplay: React.FC<ScriptDisplayProps> = ({ script, isLoading, error,
     }
   };
   
-  const handleDownload = () => {
-    if (!script) return;
-    const blob = new Blob([script], { type: 'text/bash' });
+  const handleDownload = (content: string, fileName: string) => {
+    if (!content) return;
+    const blob = new Blob([content], { type: 'text/bash' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'fedora_hardening.sh';
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
+  const handleSelectLine = (line: number) => {
+    scrollContainerRef.current?.querySelector(`[data-script-line="${line}"]`)?.scrollIntoView?.({ block: 'center' });
+  };
+
+  // Renders the script with every line that has a finding highlighted and its messages in a
+  // tooltip, and the first line of each section marked so the table of contents can jump to it.
+  const renderLintedScript = () => {
+    const sectionStarts = new Set(sections.map(section => section.startLine));
+    if (lintFindings.length === 0 && sectionStarts.size === 0) {
+      return script;
+    }
+    const findingsByLine = new Map<number, LintFinding[]>();
+    for (const finding of lintFindings) {
+      findingsByLine.set(finding.line, [...(findingsByLine.get(finding.line) ?? []), finding]);
+    }
+
+    const nodes: React.ReactNode[] = [];
+    let plain = '';
+    script.split('\n').forEach((text, index, lines) => {
+      const findings = findingsByLine.get(index + 1);
+      const newline = index < lines.length - 1 ? '\n' : '';
+      if (!findings && !sectionStarts.has(index + 1)) {
+        plain += text + newline;
+        return;
+      }
+      if (plain) nodes.push(plain);
+      plain = '';
+      if (!findings) {
+        nodes.push(<span key={index} data-script-line={index + 1}>{text}</span>);
+        plain = newline;
+        return;
+      }
+      const severity = findings.some(finding => finding.severity === 'error') ? 'error' : 'warning';
+      // Block spans end the line themselves, so the newline is left out.
+      nodes.push(
+        <span
+          key={index}
+          data-script-line={index + 1}
+          data-lint-line={index + 1}
+          data-lint-severity={severity}
+          title={findings.map(finding => finding.message).join('\n')}
+          className={LINT_LINE_STYLES[severity]}
+        >
+          {text || ' '}
+        </span>
+      );
+    });
+    if (plain) nodes.push(plain);
+    return nodes;
+  };
+
 
   const renderContent = () => {
     if (isLoading) {
       const progress = totalSteps > 0 ? (currentStep / totalSteps) * 100 : 0;
+      const progressBar = (
+        <div className="w-full bg-gray-700 rounded-full h-2.5 my-4">
+          <div
+            className="bg-blue-600 h-2.5 rounded-full transition-all duration-300 ease-linear"
+            style={{ width: `${progress}%` }}
+            role="progressbar"
+            aria-valuenow={Math.floor(currentStep)}
+            aria-valuemin={0}
+            aria-valuemax={totalSteps}
+          ></div>
+        </div>
+      );
+      const tokenCount = tokensReceived > 0 && (
+        <p className="text-xs text-gray-500 text-center">~{tokensReceived.toLocaleString()} tokens received</p>
+      );
+
+      // Once text starts streaming in, show it live under a compact progress header.
+      if (script) {
+        return (
+          <div className="flex flex-col gap-2">
+            <div className="sticky top-0 bg-gray-800 pb-2 text-gray-400">
+              {progressBar}
+              <p className="text-sm font-semibold text-center whitespace-pre-line">{loadingMessage}</p>
+              {tokenCount}
+            </div>
+            <pre className="w-full whitespace-pre-wrap break-words">
+              <code className="language-bash font-mono text-sm">{script}</code>
+            </pre>
+          </div>
+        );
+      }
+
       return (
         <div className="flex flex-col items-center justify-center h-full p-8 text-gray-400">
           <DancingDuck />
-          <div className="w-full bg-gray-700 rounded-full h-2.5 my-4">
-            <div
-              className="bg-blue-600 h-2.5 rounded-full transition-all duration-300 ease-linear"
-              style={{ width: `${progress}%` }}
-              role="progressbar"
-              aria-valuenow={currentStep}
-              aria-valuemin={0}
-              aria-valuemax={totalSteps}
-            ></div>
-          </div>
+          {progressBar}
           <p className="text-sm font-semibold text-center whitespace-pre-line">{loadingMessage}</p>
+          {tokenCount}
         </div>
       );
     }
 
     if (error) {
-      return (
-        <div className="flex items-center justify-center h-full p-8 text-red-400">
-            <div className="text-center">
-                <h3 className="text-xl font-bold mb-2">An Error Occurred</h3>
-                <p>{error}</p>
-            </div>
-        </div>
-      );
+      return <ErrorPanel error={error} onRetry={onRetry} onOpenSettings={onOpenSettings} />;
     }
 
     if (!script) {
@@ -94,7 +230,7 @@ const ScriptDisplay: React.FC<ScriptDisplayProps> = ({ script, isLoading, error,
 
     return (
       <pre className="h-full w-full whitespace-pre-wrap break-words">
-        <code className="language-bash font-mono text-sm">{script}</code>
+        <code className="language-bash font-mono text-sm">{renderLintedScript()}</code>
       </pre>
     );
   };
@@ -104,12 +240,21 @@ const ScriptDisplay: React.FC<ScriptDisplayProps> = ({ script, isLoading, error,
       {script && !isLoading && !error && (
         <div className="absolute top-2 right-2 z-10 flex gap-2">
           <button
-            onClick={handleDownload}
+            onClick={() => handleDownload(script, downloadName)}
             className="px-3 py-1.5 text-xs font-medium text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors"
-            title="Download as fedora_hardening.sh"
+            title={`Download as ${downloadName}`}
           >
             Download
           </button>
+          {rollbackScript && (
+            <button
+              onClick={() => handleDownload(rollbackScript, ROLLBACK_SCRIPT_NAME)}
+              className="px-3 py-1.5 text-xs font-medium text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors"
+              title={`Download as ${ROLLBACK_SCRIPT_NAME}`}
+            >
+              Download rollback
+            </button>
+          )}
           <button
             onClick={handleCopy}
             className="px-3 py-1.5 text-xs font-medium text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors"
@@ -118,9 +263,143 @@ const ScriptDisplay: React.FC<ScriptDisplayProps> = ({ script, isLoading, error,
           </button>
         </div>
       )}
-      <div className="flex-grow p-4 overflow-auto">
+      {script && !isLoading && !error && sections.length > 0 && (
+        <nav className="border-b border-gray-700 p-3 pr-64 text-sm" aria-label="Script sections">
+          <strong className="font-semibold text-gray-200">Sections</strong>
+          <ol className="mt-1 space-y-1">
+            {sections.map((section, index) => (
+              <li key={section.id} className="flex items-center justify-between gap-3">
+                <span className="min-w-0">
+                  <button
+                    onClick={() => handleSelectLine(section.startLine)}
+                    className="text-blue-400 hover:underline"
+                    title={`Line ${section.startLine}. Run only this section with --only ${section.id}`}
+                  >
+                    {section.label}
+                  </button>
+                  {section.isOutdated && (
+                    <span className="ml-2 text-xs text-yellow-300" title="Its prompt was refined after this section was generated.">outdated</span>
+                  )}
+                </span>
+                <span className="flex flex-shrink-0 gap-1">
+                  {onMoveSection && (
+                    <>
+                      <button
+                        onClick={() => onMoveSection(section.id, -1)}
+                        disabled={index === 0}
+                        className={SECTION_CONTROL_STYLE}
+                        aria-label={`Move ${section.label} up`}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => onMoveSection(section.id, 1)}
+                        disabled={index === sections.length - 1}
+                        className={SECTION_CONTROL_STYLE}
+                        aria-label={`Move ${section.label} down`}
+                      >
+                        ↓
+                      </button>
+                    </>
+                  )}
+                  {onRegenerateSection && (
+                    <button
+                      onClick={() => onRegenerateSection(section.id)}
+                      disabled={section.isRegenerating}
+                      className={SECTION_CONTROL_STYLE}
+                      aria-label={`Regenerate ${section.label}`}
+                    >
+                      {section.isRegenerating ? 'Regenerating...' : 'Regenerate'}
+                    </button>
+                  )}
+                  {onCancelSection && section.isRegenerating && (
+                    <button
+                      onClick={() => onCancelSection(section.id)}
+                      className={SECTION_CONTROL_STYLE}
+                      aria-label={`Cancel regenerating ${section.label}`}
+                    >
+                      Cancel
+                    </button>
+                  )}
+                  {onRemoveSection && (
+                    <button
+                      onClick={() => onRemoveSection(section.id)}
+                      disabled={section.isRegenerating}
+                      className={SECTION_CONTROL_STYLE}
+                      aria-label={`Remove ${section.label}`}
+                    >
+                      Remove
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </nav>
+      )}
+      <div ref={scrollContainerRef} className="flex-grow p-4 overflow-auto">
         {renderContent()}
       </div>
+      {script && !isLoading && !error && (
+        <LintSummary findings={lintFindings} onSelectLine={handleSelectLine} />
+      )}
+      {script && !isLoading && !error && lockoutRisks.length > 0 && (
+        <div className="border-t border-orange-500/30 bg-orange-500/10 p-3 text-sm text-orange-200">
+          <strong className="font-semibold">Lockout risk{lockoutRisks.length === 1 ? '' : 's'} in this script</strong>
+          <p className="text-orange-300/80 mb-2">Keep a console or second session open while it runs.</p>
+          <ul className="list-disc list-inside space-y-1">
+            {lockoutRisks.map(risk => (
+              <li key={risk.id} title={risk.message}>{risk.title}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {script && !isLoading && !error && failedSections.length > 0 && (
+        <div className="border-t border-red-500/30 bg-red-500/10 p-3 text-sm text-red-200">
+          <strong className="font-semibold">
+            {failedSections.length} section{failedSections.length === 1 ? '' : 's'} could not be generated
+          </strong>
+          <p className="text-red-300/80 mb-2">The script contains a placeholder for each one. Retry them individually before running the script.</p>
+          <ul className="space-y-2">
+            {failedSections.map(section => (
+              <li key={section.id} className="flex items-center justify-between gap-3">
+                <span className="min-w-0">
+                  <span className="font-medium">{section.label}</span>
+                  {section.error && <span className="block text-xs text-red-300/80 truncate" title={section.error}>{section.error}</span>}
+                </span>
+                <span className="flex flex-shrink-0 gap-2">
+                  {onRetrySection && (
+                    <button
+                      onClick={() => onRetrySection(section.id)}
+                      disabled={section.isRetrying}
+                      className="px-3 py-1.5 text-xs font-medium text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors disabled:cursor-not-allowed disabled:text-gray-400"
+                    >
+                      {section.isRetrying ? 'Retrying...' : 'Retry'}
+                    </button>
+                  )}
+                  {onCancelSection && section.isRetrying && (
+                    <button
+                      onClick={() => onCancelSection(section.id)}
+                      className="px-3 py-1.5 text-xs font-medium text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors"
+                      aria-label={`Cancel retrying ${section.label}`}
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {script && !isLoading && !error && cachedParts.length > 0 && (
+        <div className="border-t border-blue-500/30 bg-blue-500/10 p-3 text-sm text-blue-200">
+          <strong className="font-semibold">
+            {cachedParts.length} part{cachedParts.length === 1 ? ' was' : 's were'} reused from cache
+          </strong>
+          <p className="text-blue-300/80">{cachedParts.join(', ')}. Tick "Ignore cached responses" to generate them again.</p>
+        </div>
+      )}
        {script && !isLoading && !error && isRebootRecommended && (
         <div className="border-t border-yellow-500/30 bg-yellow-500/10 p-3 text-sm text-yellow-200 flex items-start gap-3">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mt-0.5 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor">
@@ -0,0 +1,57 @@
+import React from 'react';
+import type { ShellcheckFinding, ShellcheckLevel } from '../types';
+import { shellcheckWikiUrl } from '../services/shellcheckService';
+
+interface ShellcheckFindingsProps {
+  findings: ShellcheckFinding[];
+}
+
+const LEVEL_STYLES: Record<ShellcheckLevel, string> = {
+  error: 'bg-red-500/20 text-red-300 border-red-500/40',
+  warning: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/40',
+  info: 'bg-blue-500/20 text-blue-300 border-blue-500/40',
+  style: 'bg-gray-500/20 text-gray-300 border-gray-500/40',
+};
+
+const ShellcheckFindings: React.FC<ShellcheckFindingsProps> = ({ findings }) => {
+  if (findings.length === 0) {
+    return (
+      <div className="bg-green-500/10 border border-green-500/40 text-green-300 p-4 rounded-lg text-sm">
+        ShellCheck found no issues in this script.
+      </div>
+    );
+  }
+
+  const sorted = [...findings].sort((a, b) => a.line - b.line || a.column - b.column);
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
+      <h4 className="text-md font-semibold text-gray-200 mb-3">
+        ShellCheck Findings <span className="text-gray-400 font-normal">({findings.length})</span>
+      </h4>
+      <ul className="space-y-2 max-h-72 overflow-auto text-sm">
+        {sorted.map((finding, index) => (
+          <li key={`${finding.line}:${finding.column}:${finding.code}:${index}`} className="flex items-start gap-3">
+            <span className={`flex-shrink-0 px-2 py-0.5 text-xs font-medium rounded border ${LEVEL_STYLES[finding.level]}`}>
+              {finding.level}
+            </span>
+            <div className="min-w-0">
+              <p className="text-gray-300">
+                <a href={shellcheckWikiUrl(finding.code)} target="_blank" rel="noopener noreferrer" className="font-mono text-blue-400 hover:underline">
+                  SC{finding.code}
+                </a>{' '}
+                <span className="font-mono text-gray-500">{finding.line}:{finding.column}</span>{' '}
+                {finding.message}
+              </p>
+              {finding.sectionLabel && (
+                <p className="text-xs text-gray-500">In section: {finding.sectionLabel}</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ShellcheckFindings;
@@ -1,4 +1,4 @@
-import type { ParanoiaLevel, SuggestedPrompt } from './types';
+import type { HardeningOption, ParanoiaLevel, SuggestedPrompt } from './types';
 
 const allOptions = {
   updates: {
@@ -6,48 +6,92 @@ const allOptions = {
     label: 'System Updates & Packages',
     description: 'Ensure all packages are up-to-date and remove unnecessary software.',
     prompt: '*   **System Updates & Package Management**: Ensure the system is fully up-to-date using `dnf upgrade -y`. Identify and suggest removal of common unnecessary services or packages (e.g., telnet-server, rsh-server). After updates, clean the DNF cache using `dnf clean all`.',
+    phase: 'packages',
+    weight: 5,
+    criticality: 'critical',
   },
   firewall: {
     id: 'firewall',
     label: 'Firewall Configuration',
     description: 'Set up firewalld with a default-deny policy and allow essential services.',
     prompt: '*   **Firewall Configuration**: Configure `firewalld`. Set the default zone to public, with a default-deny policy for incoming traffic. Add rules to allow SSH (on a non-standard port if specified) and other essential services.',
+    phase: 'network',
+    weight: 4,
+    criticality: 'critical',
   },
   ssh: {
     id: 'ssh',
     label: 'SSH Hardening',
     description: 'Secure the SSH daemon by disabling root login and enforcing key-based auth.',
     prompt: '*   **SSH Hardening**: Secure `/etc/ssh/sshd_config`. The script should programmatically (e.g., using `sed`) disable root login (`PermitRootLogin no`), disable password authentication (`PasswordAuthentication no`), and enable key-based authentication (`PubkeyAuthentication yes`). Warn the user to have a key in place before running.',
+    phase: 'access',
+    weight: 5,
+    criticality: 'critical',
+    recommends: [
+      { id: 'fail2ban', reason: 'Bans addresses that keep trying to log in.' },
+    ],
   },
   fail2ban: {
     id: 'fail2ban',
     label: 'Fail2Ban Intrusion Prevention',
     description: 'Install and configure Fail2Ban to block brute-force attacks on SSH.',
-    prompt: `*   **Fail2Ban Intrusion Prevention**: Install the \`fail2ban\` package. Create a configuration file at \`/etc/fail2ban/jail.local\` to override the defaults and prevent changes from being overwritten by package updates. Populate this file with a \`[sshd]\` section, setting \`enabled = true\`, a \`bantime\` of \`1h\`, a \`findtime\` of \`10m\`, and a \`maxretry\` of \`3\`. After creating the file, enable and start the \`fail2ban\` service via \`systemctl\`. Add comments to the script explaining how a user can customize these values.`,
+    prompt: `*   **Fail2Ban Intrusion Prevention**: Install the \`fail2ban\` package. Create a configuration file at \`/etc/fail2ban/jail.local\` to override the defaults and prevent changes from being overwritten by package updates. Populate this file with a \`[sshd]\` section, setting \`enabled = true\`, \`bantime\` from \`$FAIL2BAN_BANTIME\`, a \`findtime\` of \`10m\`, and \`maxretry\` from \`$FAIL2BAN_MAXRETRY\`. After creating the file, enable and start the \`fail2ban\` service via \`systemctl\`. Add comments to the script explaining how a user can customize these values.`,
+    phase: 'network',
+    weight: 3,
+    criticality: 'high',
+    parameters: [
+      { name: 'FAIL2BAN_BANTIME', label: 'Ban time', type: 'enum', default: '1h', choices: ['10m', '1h', '12h', '1d', '1w'], description: 'How long an offending address stays banned.' },
+      { name: 'FAIL2BAN_MAXRETRY', label: 'Failures before a ban', type: 'number', default: 3, min: 1, max: 20 },
+    ],
+    recommends: [
+      { id: 'firewall', reason: "Fedora's fail2ban bans addresses through firewalld." },
+    ],
+    runsAfter: [
+      { id: 'firewall', reason: 'The sshd jail bans through firewalld, so it starts once the firewall is configured.' },
+    ],
   },
   passwordPolicy: {
       id: 'passwordPolicy',
       label: 'Enforce Strong Password Policies',
       description: 'Configure /etc/security/pwquality.conf to enforce password complexity.',
-      prompt: '*   **Enforce Strong Password Policies**: Modify `/etc/security/pwquality.conf` using `sed` or `awk` to set strong password requirements. Include `minlen = 14`, `dcredit = -1` (at least one digit), `ucredit = -1` (at least one uppercase), `ocredit = -1` (at least one special char), `lcredit = -1` (at least one lowercase). Explain each setting in comments.',
+      prompt: '*   **Enforce Strong Password Policies**: Modify `/etc/security/pwquality.conf` using `sed` or `awk` to set strong password requirements. Include `minlen` set to `$PWQUALITY_MINLEN`, `dcredit = -1` (at least one digit), `ucredit = -1` (at least one uppercase), `ocredit = -1` (at least one special char), `lcredit = -1` (at least one lowercase). Explain each setting in comments.',
+      phase: 'access',
+      weight: 3,
+      criticality: 'high',
+      parameters: [
+        { name: 'PWQUALITY_MINLEN', label: 'Minimum password length', type: 'number', default: 14, min: 8, max: 128 },
+      ],
   },
   userAccountManagement: {
       id: 'userAccountManagement',
       label: 'User Account Management',
       description: 'Add a placeholder for a new admin user and lock inactive accounts.',
-      prompt: '*   **User Account Management**: Define a placeholder variable `NEW_ADMIN_USER="your_admin"`. The script will check if this user exists. If not, it will create this user (`useradd -m -s /bin/bash $NEW_ADMIN_USER`), add them to the `wheel` group for sudo access (`usermod -aG wheel $NEW_ADMIN_USER`), and set an account expiration date 90 days from creation using `chage`. The script should also include a function to find and lock any user accounts (excluding system accounts with UID < 1000) that have been inactive for over 35 days.',
+      prompt: '*   **User Account Management**: Use the `NEW_ADMIN_USER` variable for the admin account. The script will check if this user exists. If not, it will create this user (`useradd -m -s /bin/bash $NEW_ADMIN_USER`), add them to the `wheel` group for sudo access (`usermod -aG wheel $NEW_ADMIN_USER`), and set an account expiration date 90 days from creation using `chage`. The script should also include a function to find and lock any user accounts (excluding system accounts with UID < 1000) that have been inactive for more than `$INACTIVE_DAYS` days.',
+      phase: 'access',
+      weight: 2,
+      criticality: 'medium',
+      parameters: [
+        { name: 'NEW_ADMIN_USER', label: 'Admin user name', type: 'string', default: 'your_admin', pattern: '[a-z_][a-z0-9_-]{0,31}', patternHint: 'Use a Linux user name: lower-case letters, digits, _ and -, at most 32 characters.' },
+        { name: 'INACTIVE_DAYS', label: 'Lock accounts idle for more than (days)', type: 'number', default: 35, min: 1, max: 3650 },
+      ],
   },
   sudoAudit: {
       id: 'sudoAudit',
       label: 'Audit Sudo Privileges',
       description: 'Check /etc/sudoers and /etc/sudoers.d/ for insecure configurations.',
       prompt: '*   **Audit Sudo Privileges**: The script should check for insecure sudo configurations by scanning `/etc/sudoers` and files in `/etc/sudoers.d/`. Specifically, it should report any users or groups with `NOPASSWD` privileges and any entries for the `ALL` keyword. The findings should be logged with `log_warning`.',
+      phase: 'access',
+      weight: 2,
+      criticality: 'medium',
   },
   kernel: {
     id: 'kernel',
     label: 'Kernel Hardening (sysctl)',
     description: 'Apply security-focused kernel parameter tuning via sysctl.',
     prompt: '*   **Kernel Hardening (sysctl)**: Apply security-related kernel parameters by creating a configuration file in `/etc/sysctl.d/`. Include settings to prevent IP spoofing, mitigate SYN flood attacks, and harden network parameters.',
+    phase: 'kernel',
+    weight: 3,
+    criticality: 'high',
     rebootRequired: true,
   },
   filesystem: {
@@ -55,6 +99,9 @@ const allOptions = {
     label: 'Secure Filesystem Mounts',
     description: 'Secure shared memory and temporary directories; find insecure permissions.',
     prompt: '*   **Filesystem & Permissions**: Secure `/tmp` and `/var/tmp` by mounting them with `noexec`, `nosuid`, and `nodev` options. Secure shared memory (`/dev/shm`). Find and report world-writable files and directories.',
+    phase: 'boot',
+    weight: 2,
+    criticality: 'medium',
     rebootRequired: true,
   },
   logging: {
@@ -62,55 +109,110 @@ const allOptions = {
     label: 'Logging & Auditing Setup (auditd)',
     description: 'Configure and enable the auditd service with a baseline ruleset.',
     prompt: '*   **Logging & Auditing Setup**: Ensure the `audit` package is installed. Start and enable the `auditd` service. Create a baseline ruleset in `/etc/audit/rules.d/00-base.rules` that sets the buffer size, enables the daemon, and sets the failure mode to panic. After adding any specific rules files, the script must run `augenrules --load` to apply them.',
+    phase: 'audit',
+    weight: 3,
+    criticality: 'high',
   },
   auditFileAccess: {
     id: 'auditFileAccess',
     label: 'Monitor Critical File Access',
     description: 'Set auditd rules to watch for changes to sensitive files like /etc/passwd.',
     prompt: '*   **Audit Critical File Access**: Generate auditd rules to monitor read, write, and attribute change access to critical system files. Include rules for `/etc/passwd`, `/etc/shadow`, `/etc/group`, `/etc/gshadow`, `/etc/sudoers`, and `/etc/selinux/semanage.conf`. The rules should be written to `/etc/audit/rules.d/50-file-access.rules`.',
+    phase: 'audit',
+    weight: 2,
+    criticality: 'medium',
+    requires: [
+      { id: 'logging', reason: 'The audit rules are loaded by auditd, which Logging & Auditing Setup installs and starts.' },
+    ],
   },
   auditCommands: {
     id: 'auditCommands',
     label: 'Monitor Privileged Commands',
     description: 'Log the execution of commands that can alter system security.',
     prompt: '*   **Audit Privileged Commands**: Generate auditd rules to monitor the execution of commands that can affect system security. Track `setuid` and `setgid` programs and specifically watch for the execution of `/usr/bin/sudo`, `/usr/bin/mount`, `/usr/bin/chown`, and `/usr/bin/chmod`. The rules should be written to `/etc/audit/rules.d/51-commands.rules`.',
+    phase: 'audit',
+    weight: 2,
+    criticality: 'medium',
+    requires: [
+      { id: 'logging', reason: 'The audit rules are loaded by auditd, which Logging & Auditing Setup installs and starts.' },
+    ],
   },
   auditLogins: {
     id: 'auditLogins',
     label: 'Monitor Login Attempts',
     description: 'Audit all login events, session creations, and failed login attempts.',
     prompt: '*   **Audit Login Attempts**: Generate auditd rules to create a log trail for all login events. Monitor the files `/var/log/faillog`, `/var/log/lastlog`, and `/var/log/tallylog`. Also, audit syscalls related to session creation like `setsid`. The rules should be written to `/etc/audit/rules.d/52-logins.rules`.',
+    phase: 'audit',
+    weight: 2,
+    criticality: 'medium',
+    requires: [
+      { id: 'logging', reason: 'The audit rules are loaded by auditd, which Logging & Auditing Setup installs and starts.' },
+    ],
   },
   selinux: {
     id: 'selinux',
     label: 'SELinux Configuration',
     description: 'Ensure SELinux is set to enforcing mode.',
     prompt: '*   **SELinux Configuration**: Ensure SELinux is enabled and running in `enforcing` mode. Modify `/etc/selinux/config` programmatically (e.g., using `sed`) to set `SELINUX=enforcing`. Add comments explaining how to check SELinux status (`sestatus`) and temporarily set modes (`setenforce 1`).',
+    phase: 'kernel',
+    weight: 5,
+    criticality: 'critical',
     rebootRequired: true,
   },
   sshPort: {
     id: 'sshPort',
     label: 'Change Default SSH Port',
     description: 'Move SSH to a non-standard port to reduce exposure to automated attacks.',
-    prompt: '*   **Change SSH Port**: The script should define a variable `NEW_SSH_PORT` and set it to a non-standard port (e.g., 2222). It must then programmatically modify `/etc/ssh/sshd_config` to change the listening port to this new value. After updating the config, the script MUST also update both the firewall and SELinux policy to allow the new port. Use `firewall-cmd --permanent --add-port=$NEW_SSH_PORT/tcp` and `semanage port -a -t ssh_port_t -p tcp $NEW_SSH_PORT`. Check if the `policycoreutils-python-utils` package (which provides `semanage`) is installed first. The script must reload both `firewalld` and `sshd` services to apply all changes. Add comments explaining each step.',
+    prompt: '*   **Change SSH Port**: The script should use the `NEW_SSH_PORT` variable for the new port. It must then programmatically modify `/etc/ssh/sshd_config` to change the listening port to this new value. After updating the config, the script MUST also update both the firewall and SELinux policy to allow the new port. Use `firewall-cmd --permanent --add-port=$NEW_SSH_PORT/tcp` and `semanage port -a -t ssh_port_t -p tcp $NEW_SSH_PORT`. Check if the `policycoreutils-python-utils` package (which provides `semanage`) is installed first. The script must reload both `firewalld` and `sshd` services to apply all changes. Add comments explaining each step.',
+    phase: 'access',
+    weight: 1,
+    criticality: 'low',
+    parameters: [
+      { name: 'NEW_SSH_PORT', label: 'New SSH port', type: 'port', default: 2222 },
+    ],
+    requires: [
+      { id: 'firewall', reason: 'The new port has to be opened in firewalld before sshd moves to it.' },
+    ],
+    recommends: [
+      { id: 'selinux', reason: 'The port is labelled for sshd in SELinux, which only protects anything while SELinux is enforcing.' },
+    ],
+    runsBefore: [
+      { id: 'selinux', reason: 'semanage labels the new port for sshd before SELinux enforcement changes, so sshd can still bind to it.' },
+    ],
   },
   umask: {
     id: 'umask',
     label: 'Enforce Stricter Umask',
     description: 'Set a more secure default umask (e.g., 027) for new users to limit default file permissions.',
     prompt: '*   **Stricter Umask**: Configure a stricter default umask of `027` for all users to ensure new files and directories are not world-readable by default. Modify both `/etc/bashrc` and `/etc/profile` to set the umask.',
+    phase: 'access',
+    weight: 1,
+    criticality: 'low',
   },
   autoUpdates: {
     id: 'autoUpdates',
     label: 'Enable Automatic Security Updates',
     description: 'Install and configure dnf-automatic to apply security updates daily.',
     prompt: '*   **Automatic Security Updates**: Install the `dnf-automatic` package. Configure it by modifying `/etc/dnf/automatic.conf`. Set `upgrade_type = security` and `apply_updates = yes`. Enable and start the `dnf-automatic.timer` systemd unit.',
+    phase: 'packages',
+    weight: 3,
+    criticality: 'high',
+    recommends: [
+      { id: 'updates', reason: 'Brings the system up to date once, so the automatic updates start from a patched state.' },
+    ],
+    runsAfter: [
+      { id: 'dnfSecurity', reason: 'dnf-automatic is installed once GPG signature checks are enforced.' },
+      { id: 'updates', reason: 'dnf-automatic is installed once the system is up to date.' },
+    ],
   },
   disableFilesystems: {
     id: 'disableFilesystems',
     label: 'Disable Unused Filesystems',
     description: 'Prevent loading of uncommon filesystems to reduce kernel attack surface.',
     prompt: '*   **Disable Unused Filesystems**: Create a file in `/etc/modprobe.d/` to prevent the loading of uncommon filesystems. Add `install <filesystem_name> /bin/true` for filesystems like `cramfs`, `freevxfs`, `jffs2`, `hfs`, `hfsplus`, `squashfs`, and `udf`.',
+    phase: 'kernel',
+    weight: 1,
+    criticality: 'low',
     rebootRequired: true,
   },
   bindCheck: {
@@ -118,12 +220,18 @@ const allOptions = {
     label: 'Check for BIND Vulnerabilities',
     description: 'Suggests updating BIND if it\'s installed and vulnerable to known exploits.',
     prompt: '*   **BIND Vulnerability Check**: The script will check if the `bind` package is installed. If it is, it will use `named -v` to get the version and display it to the user with a warning to check for CVEs. It will also use `dnf --security check-update bind` to see if there are pending security updates for the package and recommend the user to run `dnf upgrade bind` if any are found.',
+    phase: 'preflight',
+    weight: 1,
+    criticality: 'low',
   },
   grubPassword: {
     id: 'grubPassword',
     label: 'Set GRUB Bootloader Password',
     description: 'Protects the GRUB bootloader with a password to prevent unauthorized boot changes.',
-    prompt: '*   **Set GRUB Password**: Protects the bootloader menu. The script will first generate a secure, random 16-character alphanumeric password. It will log this password to the screen and to the log file, with a strong warning for the user to save it immediately. Then, it will generate a PBKDF2 hash of that password using `grub2-mkpasswd-pbdf2`. It will then create a custom GRUB settings file at `/etc/grub.d/01_users` and programmatically add a superuser (`set superusers="root"`) and the hashed password (`password_pbkdf2 root HASH_FROM_PREVIOUS_STEP`). It must then make this file executable and readable only by root (`chmod 700 /etc/grub.d/01_users`). Finally, it should regenerate the main `grub.cfg` file by detecting the correct location (UEFI vs BIOS) and running `grub2-mkconfig` with the correct output path. Add very prominent, multi-line comments explaining that the generated password is critical and losing it will require boot media to recover the system.',
+    prompt: '*   **Set GRUB Password**: Protects the bootloader menu. The script will first generate a secure, random 16-character alphanumeric password. It will show this password on the screen with `log_secret`, which keeps it out of the log files, with a strong warning for the user to save it immediately. Then, it will generate a PBKDF2 hash of that password using `grub2-mkpasswd-pbdf2`. It will then create a custom GRUB settings file at `/etc/grub.d/01_users` and programmatically add a superuser (`set superusers="root"`) and the hashed password (`password_pbkdf2 root HASH_FROM_PREVIOUS_STEP`). It must then make this file executable and readable only by root (`chmod 700 /etc/grub.d/01_users`). Finally, it should regenerate the main `grub.cfg` file by detecting the correct location (UEFI vs BIOS) and running `grub2-mkconfig` with the correct output path. Add very prominent, multi-line comments explaining that the generated password is critical and losing it will require boot media to recover the system.',
+    phase: 'boot',
+    weight: 2,
+    criticality: 'medium',
     rebootRequired: true,
   },
   iptablesAdvanced: {
@@ -131,24 +239,51 @@ const allOptions = {
     label: 'Advanced IPtables Ruleset',
     description: 'Configure a stateful firewall, log dropped packets, and mitigate common stealth scans.',
     prompt: '*   **Advanced IPtables Ruleset**: The script must generate a secure, stateful firewall ruleset using `iptables`. First, it should flush all existing rules (`iptables -F`), delete all chains (`iptables -X`), and zero all counters (`iptables -Z`). It should then set default policies to `DROP` for the `INPUT` and `FORWARD` chains, and `ACCEPT` for the `OUTPUT` chain. The rules should: allow loopback traffic; allow established and related incoming connections (`-m conntrack --ctstate ESTABLISHED,RELATED`); log and drop common stealth scans (NULL, FIN, XMAS); log and drop invalid packets; and rate-limit new SSH connection attempts to 3 per minute to prevent brute-force attacks. After all rules are added, use `iptables-save` to persist them.',
+    phase: 'network',
+    weight: 4,
+    criticality: 'critical',
+    conflictsWith: [
+      { id: 'firewall', reason: 'firewalld and a hand-written iptables ruleset manage the same tables; the next firewalld reload replaces the ruleset.' },
+    ],
   },
   iptablesBogon: {
     id: 'iptablesBogon',
     label: 'Block Bogon Networks',
     description: 'Drop traffic from unroutable and unallocated "bogon" IP address spaces.',
     prompt: '*   **Block Bogon Networks**: The script should add `iptables` rules to the `INPUT` chain to drop all packets from known unroutable and unallocated "bogon" IP address spaces. This includes ranges like `0.0.0.0/8`, `10.0.0.0/8`, `127.0.0.0/8`, `169.254.0.0/16`, `172.16.0.0/12`, `192.168.0.0/16`, etc. Add comments explaining what bogon networks are.',
+    phase: 'network',
+    weight: 1,
+    criticality: 'low',
+    requires: [
+      { id: 'iptablesAdvanced', reason: 'The bogon chain is hooked into the iptables ruleset.' },
+    ],
   },
   iptablesPortKnocking: {
     id: 'iptablesPortKnocking',
     label: 'Enable Port Knocking for SSH',
     description: 'Hide the SSH port, opening it only after a secret sequence of connection "knocks".',
-    prompt: '*   **Enable Port Knocking for SSH**: This is an advanced feature. The script should use `iptables` to set up a port knocking sequence for SSH. First, ensure the main SSH rule is REMOVED from the INPUT chain. Then, create three new chains (e.g., `KNOCK1`, `KNOCK2`, `SSH_GATE`). A new connection to a secret port (e.g., 7001) should move the source IP to the `KNOCK1` list. A subsequent connection from that IP to a second secret port (e.g., 7002) moves them to `KNOCK2`. A final knock on a third port (e.g., 7003) moves them to `SSH_GATE`, which contains the rule to `ACCEPT` traffic on the real SSH port. The user\'s IP is tracked via the `recent` module. IPs are remembered for only 15 seconds in each stage. Add extensive comments explaining how to use this (e.g., `knock server 7001 7002 7003`) and how to change the ports.',
+    prompt: '*   **Enable Port Knocking for SSH**: This is an advanced feature. The script should use `iptables` to set up a port knocking sequence for SSH. First, ensure the main SSH rule is REMOVED from the INPUT chain. Then, create three new chains (e.g., `KNOCK1`, `KNOCK2`, `SSH_GATE`). The knock ports are the three entries of the `KNOCK_PORTS` array, in order. A new connection to the first should move the source IP to the `KNOCK1` list. A subsequent connection from that IP to the second moves them to `KNOCK2`. A final knock on the third moves them to `SSH_GATE`, which contains the rule to `ACCEPT` traffic on the real SSH port. The user\'s IP is tracked via the `recent` module. IPs are remembered for only 15 seconds in each stage. Add extensive comments explaining how to use this (e.g., `knock server <the three ports>`) and how to change the ports.',
+    phase: 'network',
+    weight: 1,
+    criticality: 'low',
+    parameters: [
+      { name: 'KNOCK_PORTS', label: 'Knock sequence (three ports)', type: 'list', itemType: 'port', length: 3, default: [7001, 7002, 7003] },
+    ],
+    requires: [
+      { id: 'iptablesAdvanced', reason: 'Knocking only hides SSH when the ruleset drops all other new connections.' },
+    ],
   },
   dnfSecurity: {
     id: 'dnfSecurity',
     label: 'Secure DNF Configuration',
     description: 'Enforce GPG checks for all packages and audit repository configurations.',
     prompt: '*   **Secure DNF Configuration**: The script must ensure that GPG signature checking is globally enabled. Programmatically verify and set `gpgcheck=1` in the `[main]` section of `/etc/dnf/dnf.conf`. Additionally, the script should scan all `.repo` files in `/etc/yum.repos.d/` and use `log_warning` to report any repositories that are configured with `gpgcheck=0`, as this is a major security risk. It should also list any disabled repositories (`enabled=0`) for user review. Add comments explaining the importance of these settings.',
+    phase: 'packages',
+    weight: 3,
+    criticality: 'high',
+    runsBefore: [
+      { id: 'updates', reason: 'GPG signature checks are enforced before any package is upgraded.' },
+    ],
   },
   pciDss: {
     id: 'pciDss',
@@ -156,11 +291,20 @@ const allOptions = {
     description: 'Install and configure tools to meet common PCI DSS requirements like File Integrity Monitoring (AIDE) and log retention.',
     prompt: `*   **PCI DSS Baseline Checks**: This section implements several controls related to the Payment Card Industry Data Security Standard.
 *   **File Integrity Monitoring (Req 11.5)**: Install the \`aide\` package. Initialize the AIDE database using \`aide --init\` and then move the new database to become the active one (\`mv /var/lib/aide/aide.db.new.gz /var/lib/aide/aide.db.gz\`). Add comments explaining that the initial database must be stored securely. Create a cron job in \`/etc/cron.daily/aidecheck\` to run \`aide --check\` and log the results.
-*   **Log Retention (Req 10.7)**: Configure system logs to be persistent and retained. Modify \`/etc/systemd/journald.conf\` to set \`Storage=persistent\` and \`SystemMaxUse=500M\` to prevent excessive disk usage. The script should then restart the \`systemd-journald\` service.
+*   **Log Retention (Req 10.7)**: Configure system logs to be persistent and retained. Modify \`/etc/systemd/journald.conf\` to set \`Storage=persistent\` and \`SystemMaxUse\` to \`$JOURNAL_MAX_USE\` to prevent excessive disk usage. The script should then restart the \`systemd-journald\` service.
 *   **Disable Unnecessary Services (Req 2.2.2)**: Systematically disable services that are insecure or typically not required in a PCI environment, such as \`telnet.socket\`, \`rsh.socket\`, \`nfs-server\`, and \`samba\`. Use \`systemctl disable --now\` for each.
 *   **Password History & Lockout (Req 8.2.3, 8.1.6)**: Enhance password security. Check PAM configuration files in \`/etc/pam.d/\` (like \`password-auth\` and \`system-auth\`) to ensure \`pam_pwhistory.so\` is used to remember at least the last 5 passwords, and \`pam_tally2.so\` is configured to lock an account for 15 minutes after 5 failed login attempts.`,
+    phase: 'audit',
+    weight: 2,
+    criticality: 'medium',
+    parameters: [
+      { name: 'JOURNAL_MAX_USE', label: 'Journal size limit', type: 'string', default: '500M', pattern: '[1-9][0-9]*[KMG]', patternHint: 'Use a size such as 500M or 2G.' },
+    ],
+    recommends: [
+      { id: 'logging', reason: 'PCI DSS Requirement 10 expects user activity to be audited.' },
+    ],
   },
-};
+} satisfies Record<string, HardeningOption>;
 
 // --- Parent Container Definitions ---
 
@@ -0,0 +1,119 @@
+import { spawn } from 'node:child_process';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Connect, Plugin } from 'vite';
+
+/**
+ * Serves `POST /api/shellcheck` from the Vite dev and preview servers by piping the
+ * posted script into the locally installed `shellcheck` binary. The browser cannot run
+ * ShellCheck itself, and this keeps the findings real instead of model-generated.
+ *
+ * Request body: `{ "script": "..." }`. Response: ShellCheck's `--format=json1` output.
+ */
+
+const ENDPOINT = '/api/shellcheck';
+const MAX_SCRIPT_BYTES = 1024 * 1024;
+const TIMEOUT_MS = 20_000;
+
+interface ShellcheckRun {
+  status: number;
+  body: string;
+}
+
+/** A request the helper refuses, with the status to reply with. */
+class RequestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    if (size > MAX_SCRIPT_BYTES) return;
+    size += chunk.length;
+    if (size > MAX_SCRIPT_BYTES) {
+      // The rest is read and dropped, so the socket stays open for the reply.
+      chunks.length = 0;
+      reject(new RequestError('Script is too large to check.', 413));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const runShellcheck = (script: string): Promise<ShellcheckRun> => new Promise(resolve => {
+  const child = spawn('shellcheck', ['--format=json1', '--shell=bash', '-'], { timeout: TIMEOUT_MS });
+  let stdout = '';
+  let stderr = '';
+  child.stdout.on('data', chunk => { stdout += chunk; });
+  child.stderr.on('data', chunk => { stderr += chunk; });
+
+  child.on('error', (error: NodeJS.ErrnoException) => {
+    const message = error.code === 'ENOENT'
+      ? 'shellcheck is not installed on the machine running the dev server. Install it with `sudo dnf install ShellCheck`.'
+      : `Could not run shellcheck: ${error.message}`;
+    resolve({ status: 503, body: JSON.stringify({ error: message }) });
+  });
+
+  child.on('close', (code, signal) => {
+    // Exit code 1 only means that issues were found; the JSON is still complete.
+    if (code === 0 || code === 1) {
+      resolve({ status: 200, body: stdout || '{"comments":[]}' });
+    } else if (signal) {
+      resolve({ status: 504, body: JSON.stringify({ error: `shellcheck did not finish within ${TIMEOUT_MS / 1000}s.` }) });
+    } else {
+      resolve({ status: 500, body: JSON.stringify({ error: stderr.trim() || `shellcheck exited with code ${code}.` }) });
+    }
+  });
+
+  child.stdin.on('error', () => { /* Reported through 'close' or 'error'. */ });
+  child.stdin.end(script);
+});
+
+const shellcheckMiddleware: Connect.NextHandleFunction = (req, res: ServerResponse, next) => {
+  if (req.url !== ENDPOINT) {
+    next();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.statusCode = 405;
+    res.end();
+    return;
+  }
+
+  readBody(req)
+    .then(raw => {
+      const { script } = JSON.parse(raw);
+      if (typeof script !== 'string') {
+        throw new Error('Expected a JSON body with a "script" string.');
+      }
+      return runShellcheck(script);
+    })
+    .catch((error: Error): ShellcheckRun => ({
+      status: error instanceof RequestError ? error.status : 400,
+      body: JSON.stringify({ error: error.message }),
+    }))
+    .then(({ status, body }) => {
+      res.statusCode = status;
+      res.setHeader('Content-Type', 'application/json');
+      if (status === 413) {
+        // Closes the connection once the reply is sent rather than waiting for the rest of the body.
+        res.setHeader('Connection', 'close');
+      }
+      res.end(body);
+    });
+};
+
+export const shellcheckPlugin = (): Plugin => ({
+  name: 'fedora-hardening-shellcheck',
+  configureServer(server) {
+    server.middlewares.use(shellcheckMiddleware);
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(shellcheckMiddleware);
+  },
+});
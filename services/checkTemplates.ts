@@ -0,0 +1,853 @@
+import type { HardeningOption, ParameterValues } from '../types';
+import { buildParameterAssignments } from './optionParameters';
+
+// Offline compliance checks: the read-only counterpart of scriptTemplates.ts. Each snippet
+// tests whether its option is already in place on the running system and reports the result
+// with `check_pass`, `check_fail` or `check_na`; none of them changes anything. The header
+// keeps the section functions and --list/--only/--skip of the hardening script, so the same
+// selection produces matching sections.
+
+const CHECK_HEADER = `#!/bin/bash
+#
+# Fedora compliance check, generated from the offline template library.
+# It only reads the system: no package, file, service or setting is changed, and
+# nothing is logged to disk. Each section reports PASS, FAIL or N/A for its option,
+# and the summary at the end lists the result per option id.
+# Exit status: 0 if no check failed, 1 otherwise.
+# Use --list to see the sections, and --only or --skip to check some of them.
+#
+
+# Stop on the first failing command, unset variable or failed pipeline stage.
+# Checks that may fail are written as conditions, so a failed check is reported, not fatal.
+set -euo pipefail
+
+# --- Color Variables ---
+GREEN='\\033[0;32m'
+YELLOW='\\033[1;33m'
+RED='\\033[0;31m'
+BLUE='\\033[0;34m'
+NC='\\033[0m'
+
+# --- Command-Line Options ---
+# --only and --skip take comma-separated section ids; --list prints the ids and exits.
+LIST_SECTIONS=false
+ONLY_SECTIONS=""
+SKIP_SECTIONS=""
+
+usage() {
+    echo "Usage: $0 [--list] [--only ID[,ID...]] [--skip ID[,ID...]]"
+}
+
+while [[ $# -gt 0 ]]; do
+    case "$1" in
+        --list) LIST_SECTIONS=true ;;
+        --only|--skip)
+            if [[ $# -lt 2 ]]; then
+                echo "$1 needs a comma-separated list of section ids." >&2
+                usage >&2
+                exit 2
+            fi
+            case "$1" in
+                --only) ONLY_SECTIONS="$2" ;;
+                --skip) SKIP_SECTIONS="$2" ;;
+            esac
+            shift
+            ;;
+        --only=*) ONLY_SECTIONS="\${1#*=}" ;;
+        --skip=*) SKIP_SECTIONS="\${1#*=}" ;;
+        *)
+            echo "Unknown option: $1" >&2
+            usage >&2
+            exit 2
+            ;;
+    esac
+    shift
+done
+
+# --- Logging ---
+# Prints a colored, timestamped status line. A check writes nothing to disk, so there is no log file.
+# Usage: _log <color> <tag> <message>
+_log() {
+    local timestamp
+    timestamp="$(date '+%Y-%m-%d %H:%M:%S')"
+    echo -e "\${1}[\${2}]\${NC} \${timestamp} \${3}"
+}
+
+log_info()    { _log "$BLUE" "INFO" "$1"; }
+log_success() { _log "$GREEN" "SUCCESS" "$1"; }
+log_warning() { _log "$YELLOW" "WARNING" "$1"; }
+log_error()   { _log "$RED" "ERROR" "$1"; }
+
+# --- Check Results ---
+# Each section reports one line per check. A section passes when at least one of its checks
+# passed and none failed, fails when any check failed, and is N/A when no check applied.
+CURRENT_SECTION=""
+declare -A SECTION_RESULTS=()
+
+check_pass() {
+    echo -e "\${GREEN}[PASS]\${NC} $1"
+    if [[ "\${SECTION_RESULTS[$CURRENT_SECTION]:-}" != "FAIL" ]]; then
+        SECTION_RESULTS[$CURRENT_SECTION]="PASS"
+    fi
+}
+
+check_fail() {
+    echo -e "\${RED}[FAIL]\${NC} $1"
+    SECTION_RESULTS[$CURRENT_SECTION]="FAIL"
+}
+
+# For a check that does not apply to this host or cannot be made, e.g. without root.
+check_na() {
+    echo -e "\${YELLOW}[N/A]\${NC} $1"
+}
+
+# --- Sections ---
+# Each section is a function named section_<id>. The generator registers them right after
+# this header, so --list, --only and --skip know every section before the first one runs.
+SECTION_IDS=()
+declare -A SECTION_LABELS=()
+
+# Usage: register_section <id> <label>
+register_section() {
+    SECTION_IDS+=("$1")
+    SECTION_LABELS[$1]="$2"
+}
+
+# Rejects unknown ids in --only and --skip, and prints the sections and exits for --list.
+check_section_options() {
+    local id
+    for id in \${ONLY_SECTIONS//,/ } \${SKIP_SECTIONS//,/ }; do
+        if [[ -z "\${SECTION_LABELS[$id]:-}" ]]; then
+            log_error "Unknown section '$id'. Run $0 --list to see the section ids."
+            exit 2
+        fi
+    done
+    if [[ "$LIST_SECTIONS" == true ]]; then
+        for id in "\${SECTION_IDS[@]}"; do
+            printf "%-24s %s\\n" "$id" "\${SECTION_LABELS[$id]}"
+        done
+        exit 0
+    fi
+}
+
+# Runs a section's checks unless --only or --skip leave it out.
+# Usage: run_section <id>
+run_section() {
+    local id="$1"
+    if [[ -n "$ONLY_SECTIONS" && ",$ONLY_SECTIONS," != *",$id,"* ]] || [[ ",$SKIP_SECTIONS," == *",$id,"* ]]; then
+        log_info "Skipping section: \${SECTION_LABELS[$id]} ($id)"
+        return 0
+    fi
+    CURRENT_SECTION="$id"
+    SECTION_RESULTS[$id]="N/A"
+    "section_$id"
+}
+
+# --- Root Check ---
+# Reading sshd, audit and shadow settings needs root. Without it those checks report N/A.
+check_root() {
+    if [[ "\${EUID}" -ne 0 ]]; then
+        log_warning "Not running as root; checks that need root will report N/A."
+    fi
+}
+
+# --- Initial Execution ---
+# The generator calls this right after check_section_options, which exits first for --list
+# and for unknown section ids.
+start_run() {
+    check_root
+    log_info "Starting the Fedora compliance check. Nothing on this system will be changed."
+}`;
+
+const CHECK_FOOTER = `# ----------------------------------------------------------------------------
+# Compliance Summary
+# One line per option that was checked, and a non-zero exit status if any failed.
+# ----------------------------------------------------------------------------
+echo
+log_info "=========================================================="
+log_info "                  Compliance Summary"
+log_info "=========================================================="
+failed_sections=0
+for id in "\${SECTION_IDS[@]}"; do
+    # Sections left out with --only or --skip have no result.
+    if [[ -z "\${SECTION_RESULTS[$id]:-}" ]]; then
+        continue
+    fi
+    printf "%-5s %-24s %s\\n" "\${SECTION_RESULTS[$id]}" "$id" "\${SECTION_LABELS[$id]}"
+    if [[ "\${SECTION_RESULTS[$id]}" == "FAIL" ]]; then
+        failed_sections=$((failed_sections + 1))
+    fi
+done
+if [[ "$failed_sections" -gt 0 ]]; then
+    log_error "\${failed_sections} option(s) are not in place. Generate a hardening script for them to fix this."
+    exit 1
+fi
+log_success "Every checked option is in place or does not apply."`;
+
+/** Curated read-only checks keyed by `HardeningOption.id`. */
+// Replaced with the option's parameter assignments, which here are the expected values.
+const PARAMETERS = '# @parameters';
+
+// Reading the loaded audit rules needs root; the audit checks share this preamble.
+const READ_AUDIT_RULES = `if ! audit_rules="$(auditctl -l 2>/dev/null)"; then
+    check_na "Could not read the loaded audit rules; run the check as root."
+    return 0
+fi`;
+
+const CHECK_TEMPLATES: Record<string, string> = {
+  updates: `# ----------------------------------------------------------------------------
+# Check: System Updates & Package Management
+# Every package is up to date and no clear-text remote-access server is installed.
+# ----------------------------------------------------------------------------
+log_info "--- Check: System Updates & Package Management ---"
+
+# -C only reads the cached metadata; check-update exits 100 when updates are available.
+update_status=0
+dnf -q -C check-update >/dev/null 2>&1 || update_status=$?
+case "$update_status" in
+    0) check_pass "All packages are up to date." ;;
+    100) check_fail "Package updates are available (see: dnf check-update)." ;;
+    *) check_na "The cached repository metadata could not be read; run dnf makecache first." ;;
+esac
+
+for pkg in telnet-server rsh-server; do
+    if rpm -q "$pkg" >/dev/null 2>&1; then
+        check_fail "Insecure package \${pkg} is installed."
+    else
+        check_pass "\${pkg} is not installed."
+    fi
+done`,
+  firewall: `# ----------------------------------------------------------------------------
+# Check: Firewall Configuration
+# firewalld runs with the public zone as default, and SSH is allowed in it.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Firewall Configuration ---"
+
+if ! systemctl is-active --quiet firewalld; then
+    check_fail "firewalld is not running."
+else
+    check_pass "firewalld is running."
+    default_zone="$(firewall-cmd --get-default-zone)"
+    if [[ "$default_zone" == "public" ]]; then
+        check_pass "The default zone is public."
+    else
+        check_fail "The default zone is \${default_zone}, not public."
+    fi
+    if firewall-cmd --zone=public --list-all | grep -qE '^[[:space:]]*services:.*\\bssh\\b'; then
+        check_pass "SSH is allowed in the public zone."
+    else
+        check_fail "SSH is not allowed in the public zone."
+    fi
+fi`,
+  ssh: `# ----------------------------------------------------------------------------
+# Check: SSH Hardening
+# The effective sshd settings refuse root and password logins.
+# ----------------------------------------------------------------------------
+log_info "--- Check: SSH Hardening ---"
+
+# sshd -T prints the settings sshd actually uses, after every drop-in, with lowercase keys.
+if ! sshd_settings="$(sshd -T 2>/dev/null)"; then
+    check_na "sshd -T failed; run the check as root."
+    return 0
+fi
+for setting in permitrootlogin=no passwordauthentication=no kbdinteractiveauthentication=no pubkeyauthentication=yes; do
+    key="\${setting%%=*}"
+    expected="\${setting#*=}"
+    actual="$(awk -v key="$key" '$1 == key { print $2; exit }' <<< "$sshd_settings")"
+    if [[ "$actual" == "$expected" ]]; then
+        check_pass "sshd \${key} is \${expected}."
+    else
+        check_fail "sshd \${key} is \${actual:-unset}, expected \${expected}."
+    fi
+done`,
+  sshPort: `# ----------------------------------------------------------------------------
+# Check: Change Default SSH Port
+# sshd listens on the new port, which SELinux labels for sshd and firewalld opens.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Change Default SSH Port ---"
+
+${PARAMETERS}
+
+if ! sshd_settings="$(sshd -T 2>/dev/null)"; then
+    check_na "sshd -T failed; run the check as root."
+elif awk '$1 == "port" { print $2 }' <<< "$sshd_settings" | grep -qx "$NEW_SSH_PORT"; then
+    check_pass "sshd listens on port \${NEW_SSH_PORT}."
+else
+    check_fail "sshd does not listen on port \${NEW_SSH_PORT}."
+fi
+
+if ! command -v semanage >/dev/null 2>&1; then
+    check_na "semanage is not installed, so the SELinux port label cannot be read."
+elif semanage port -l | grep -E '^ssh_port_t' | grep -qw "$NEW_SSH_PORT"; then
+    check_pass "Port \${NEW_SSH_PORT} is labelled ssh_port_t."
+else
+    check_fail "Port \${NEW_SSH_PORT} is not labelled ssh_port_t; SELinux will stop sshd from binding to it."
+fi
+
+if ! systemctl is-active --quiet firewalld; then
+    check_na "firewalld is not running."
+elif firewall-cmd --query-port="\${NEW_SSH_PORT}/tcp" >/dev/null; then
+    check_pass "Port \${NEW_SSH_PORT}/tcp is open in firewalld."
+else
+    check_fail "Port \${NEW_SSH_PORT}/tcp is not open in firewalld."
+fi`,
+  fail2ban: `# ----------------------------------------------------------------------------
+# Check: Fail2Ban Intrusion Prevention
+# fail2ban runs an sshd jail with at least the configured ban time and at most the
+# configured number of failures.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Fail2Ban Intrusion Prevention ---"
+
+${PARAMETERS}
+
+if ! systemctl is-active --quiet fail2ban; then
+    check_fail "fail2ban is not running."
+    return 0
+fi
+check_pass "fail2ban is running."
+
+if ! fail2ban-client status sshd >/dev/null 2>&1; then
+    check_fail "The sshd jail is not active."
+    return 0
+fi
+check_pass "The sshd jail is active."
+
+# fail2ban-client reports the ban time in seconds.
+case "$FAIL2BAN_BANTIME" in
+    *m) expected_bantime=$(( \${FAIL2BAN_BANTIME%m} * 60 )) ;;
+    *h) expected_bantime=$(( \${FAIL2BAN_BANTIME%h} * 3600 )) ;;
+    *d) expected_bantime=$(( \${FAIL2BAN_BANTIME%d} * 86400 )) ;;
+    *w) expected_bantime=$(( \${FAIL2BAN_BANTIME%w} * 604800 )) ;;
+    *) expected_bantime="$FAIL2BAN_BANTIME" ;;
+esac
+bantime="$(fail2ban-client get sshd bantime)"
+if [[ "$bantime" -ge "$expected_bantime" ]]; then
+    check_pass "Addresses are banned for \${bantime}s (at least \${FAIL2BAN_BANTIME})."
+else
+    check_fail "Addresses are banned for only \${bantime}s, expected at least \${FAIL2BAN_BANTIME}."
+fi
+
+maxretry="$(fail2ban-client get sshd maxretry)"
+if [[ "$maxretry" -le "$FAIL2BAN_MAXRETRY" ]]; then
+    check_pass "An address is banned after \${maxretry} failures."
+else
+    check_fail "An address is banned after \${maxretry} failures, expected at most \${FAIL2BAN_MAXRETRY}."
+fi`,
+  passwordPolicy: `# ----------------------------------------------------------------------------
+# Check: Enforce Strong Password Policies
+# pwquality requires the minimum length and every character class.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Enforce Strong Password Policies ---"
+
+PWQUALITY_CONF="/etc/security/pwquality.conf"
+
+${PARAMETERS}
+
+if [[ ! -r "$PWQUALITY_CONF" ]]; then
+    check_fail "\${PWQUALITY_CONF} does not exist."
+    return 0
+fi
+
+# Prints the last value set for a key, ignoring comments and spaces.
+pwquality_value() {
+    awk -F= -v key="$1" '{ gsub(/[[:space:]]/, "") } $1 == key { value = $2 } END { print value }' "$PWQUALITY_CONF"
+}
+
+minlen="$(pwquality_value minlen)"
+if [[ "\${minlen:-0}" -ge "$PWQUALITY_MINLEN" ]]; then
+    check_pass "Passwords need at least \${minlen} characters."
+else
+    check_fail "minlen is \${minlen:-unset}, expected at least \${PWQUALITY_MINLEN}."
+fi
+
+# A negative credit requires at least that many characters of the class.
+for credit in dcredit ucredit ocredit lcredit; do
+    value="$(pwquality_value "$credit")"
+    if [[ "\${value:-0}" -le -1 ]]; then
+        check_pass "\${credit} is \${value}."
+    else
+        check_fail "\${credit} is \${value:-unset}, expected -1 or lower."
+    fi
+done`,
+  userAccountManagement: `# ----------------------------------------------------------------------------
+# Check: User Account Management
+# The admin user exists in the wheel group, and accounts idle for too long are locked.
+# ----------------------------------------------------------------------------
+log_info "--- Check: User Account Management ---"
+
+${PARAMETERS}
+
+if ! id "$NEW_ADMIN_USER" >/dev/null 2>&1; then
+    check_fail "Admin user \${NEW_ADMIN_USER} does not exist."
+elif id -nG "$NEW_ADMIN_USER" | grep -qw wheel; then
+    check_pass "\${NEW_ADMIN_USER} exists and is in the wheel group."
+else
+    check_fail "\${NEW_ADMIN_USER} is not in the wheel group."
+fi
+
+if ! command -v lastlog >/dev/null 2>&1; then
+    check_na "lastlog is not available, so idle accounts cannot be found."
+    return 0
+fi
+idle_unlocked=0
+while read -r idle_user; do
+    idle_uid="$(id -u "$idle_user" 2>/dev/null || echo 0)"
+    if [[ "$idle_uid" -lt 1000 || "$idle_user" == "nobody" || "$idle_user" == "$NEW_ADMIN_USER" ]]; then
+        continue
+    fi
+    # A locked password starts with "!". Reading /etc/shadow needs root.
+    password_hash="$(getent shadow "$idle_user" | cut -d: -f2)"
+    if [[ -z "$password_hash" ]]; then
+        check_na "Cannot read the password status of \${idle_user}; run the check as root."
+    elif [[ "$password_hash" != "!"* ]]; then
+        check_fail "\${idle_user} has been idle for more than \${INACTIVE_DAYS} days but is not locked."
+        idle_unlocked=$((idle_unlocked + 1))
+    fi
+done < <(lastlog -b "$INACTIVE_DAYS" | awk 'NR > 1 { print $1 }')
+if [[ "$idle_unlocked" -eq 0 ]]; then
+    check_pass "No account idle for more than \${INACTIVE_DAYS} days is unlocked."
+fi`,
+  sudoAudit: `# ----------------------------------------------------------------------------
+# Check: Audit Sudo Privileges
+# No sudo rule grants passwordless or unrestricted access.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Audit Sudo Privileges ---"
+
+sudo_findings=0
+for sudoers_file in /etc/sudoers /etc/sudoers.d/*; do
+    [[ -f "$sudoers_file" ]] || continue
+    if [[ ! -r "$sudoers_file" ]]; then
+        check_na "Cannot read \${sudoers_file}; run the check as root."
+        continue
+    fi
+    while IFS= read -r entry; do
+        check_fail "NOPASSWD rule in \${sudoers_file}: \${entry}"
+        sudo_findings=$((sudo_findings + 1))
+    done < <(grep -E '^[^#]*NOPASSWD' "$sudoers_file" || true)
+    while IFS= read -r entry; do
+        check_fail "Unrestricted ALL rule in \${sudoers_file}: \${entry}"
+        sudo_findings=$((sudo_findings + 1))
+    done < <(grep -E '^[^#]*ALL[[:space:]]*=[[:space:]]*\\(ALL(:ALL)?\\)[[:space:]]*ALL' "$sudoers_file" | grep -vE '^[[:space:]]*(root|%wheel)[[:space:]]' || true)
+done
+if [[ "$sudo_findings" -eq 0 ]]; then
+    check_pass "No insecure sudo rules found."
+fi`,
+  umask: `# ----------------------------------------------------------------------------
+# Check: Enforce Stricter Umask
+# Login shells set umask 027.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Enforce Stricter Umask ---"
+
+for profile_file in /etc/bashrc /etc/profile; do
+    if grep -qE '^umask 027$' "$profile_file"; then
+        check_pass "\${profile_file} sets umask 027."
+    else
+        check_fail "\${profile_file} does not set umask 027."
+    fi
+done`,
+  kernel: `# ----------------------------------------------------------------------------
+# Check: Kernel Hardening (sysctl)
+# The running kernel uses the hardened network and information-leak settings.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Kernel Hardening (sysctl) ---"
+
+KERNEL_SETTINGS=(
+    net.ipv4.conf.all.rp_filter=1
+    net.ipv4.conf.default.rp_filter=1
+    net.ipv4.tcp_syncookies=1
+    net.ipv4.conf.all.accept_redirects=0
+    net.ipv4.conf.default.accept_redirects=0
+    net.ipv6.conf.all.accept_redirects=0
+    net.ipv6.conf.default.accept_redirects=0
+    net.ipv4.conf.all.send_redirects=0
+    net.ipv4.conf.default.send_redirects=0
+    net.ipv4.conf.all.accept_source_route=0
+    net.ipv6.conf.all.accept_source_route=0
+    net.ipv4.conf.all.log_martians=1
+    net.ipv4.icmp_echo_ignore_broadcasts=1
+    net.ipv4.icmp_ignore_bogus_error_responses=1
+    kernel.kptr_restrict=2
+    kernel.dmesg_restrict=1
+)
+
+for setting in "\${KERNEL_SETTINGS[@]}"; do
+    key="\${setting%%=*}"
+    expected="\${setting#*=}"
+    # Keys can be missing, e.g. the IPv6 ones when IPv6 is disabled.
+    if ! actual="$(sysctl -n "$key" 2>/dev/null)"; then
+        check_na "\${key} does not exist on this kernel."
+    elif [[ "$actual" == "$expected" ]]; then
+        check_pass "\${key} = \${actual}"
+    else
+        check_fail "\${key} = \${actual}, expected \${expected}."
+    fi
+done`,
+  selinux: `# ----------------------------------------------------------------------------
+# Check: SELinux Configuration
+# SELinux is enforcing now and stays enforcing after a reboot.
+# ----------------------------------------------------------------------------
+log_info "--- Check: SELinux Configuration ---"
+
+if ! command -v getenforce >/dev/null 2>&1; then
+    check_fail "The SELinux tools are not installed."
+    return 0
+fi
+current_mode="$(getenforce)"
+if [[ "$current_mode" == "Enforcing" ]]; then
+    check_pass "SELinux is enforcing."
+else
+    check_fail "SELinux is \${current_mode}."
+fi
+
+if grep -qE '^SELINUX=enforcing' /etc/selinux/config; then
+    check_pass "/etc/selinux/config keeps SELinux enforcing after a reboot."
+else
+    check_fail "/etc/selinux/config does not set SELINUX=enforcing."
+fi`,
+  autoUpdates: `# ----------------------------------------------------------------------------
+# Check: Enable Automatic Security Updates
+# dnf-automatic applies security updates on a timer.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Enable Automatic Security Updates ---"
+
+if ! rpm -q dnf-automatic >/dev/null 2>&1; then
+    check_fail "dnf-automatic is not installed."
+    return 0
+fi
+if systemctl is-enabled --quiet dnf-automatic.timer 2>/dev/null; then
+    check_pass "dnf-automatic.timer is enabled."
+else
+    check_fail "dnf-automatic.timer is not enabled."
+fi
+if grep -qE '^[[:space:]]*apply_updates[[:space:]]*=[[:space:]]*yes' /etc/dnf/automatic.conf 2>/dev/null; then
+    check_pass "Updates are applied, not only downloaded."
+else
+    check_fail "apply_updates is not set to yes in /etc/dnf/automatic.conf."
+fi`,
+  dnfSecurity: `# ----------------------------------------------------------------------------
+# Check: Secure DNF Configuration
+# Package signatures are checked globally and in every repository.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Secure DNF Configuration ---"
+
+if grep -qE '^[[:space:]]*gpgcheck[[:space:]]*=[[:space:]]*(1|True|yes)' /etc/dnf/dnf.conf; then
+    check_pass "gpgcheck is enabled in /etc/dnf/dnf.conf."
+else
+    check_fail "gpgcheck is not enabled in /etc/dnf/dnf.conf."
+fi
+
+unsigned_repos=0
+for repo_file in /etc/yum.repos.d/*.repo; do
+    [[ -f "$repo_file" ]] || continue
+    while IFS= read -r repo_id; do
+        check_fail "Repository \${repo_id} in \${repo_file} has gpgcheck=0."
+        unsigned_repos=$((unsigned_repos + 1))
+    done < <(awk '/^\\[/ { section = $0 } /^[[:space:]]*gpgcheck[[:space:]]*=[[:space:]]*0/ { print section }' "$repo_file")
+done
+if [[ "$unsigned_repos" -eq 0 ]]; then
+    check_pass "No repository disables gpgcheck."
+fi`,
+  bindCheck: `# ----------------------------------------------------------------------------
+# Check: BIND Vulnerabilities
+# BIND is not installed, or has no pending security update.
+# ----------------------------------------------------------------------------
+log_info "--- Check: BIND Vulnerabilities ---"
+
+if ! rpm -q bind >/dev/null 2>&1; then
+    check_pass "BIND is not installed."
+    return 0
+fi
+bind_status=0
+dnf -q -C --security check-update bind >/dev/null 2>&1 || bind_status=$?
+case "$bind_status" in
+    0) check_pass "No pending security updates for bind." ;;
+    100) check_fail "Security updates are available for bind (see: dnf --security check-update bind)." ;;
+    *) check_na "The cached repository metadata could not be read; run dnf makecache first." ;;
+esac`,
+  iptablesAdvanced: `# ----------------------------------------------------------------------------
+# Check: Advanced IPtables Ruleset
+# INPUT drops by default after accepting established traffic and dropping scans,
+# and the rules are restored at boot.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Advanced IPtables Ruleset ---"
+
+# iptables -S prints the rules in their normalised form, e.g. ALL as FIN,SYN,RST,PSH,ACK,URG.
+if ! input_rules="$(iptables -S INPUT 2>/dev/null)"; then
+    check_na "Could not read the iptables rules; run the check as root."
+    return 0
+fi
+if grep -qx -- '-P INPUT DROP' <<< "$input_rules"; then
+    check_pass "The INPUT policy is DROP."
+else
+    check_fail "The INPUT policy is not DROP."
+fi
+if grep -q -- '--ctstate RELATED,ESTABLISHED -j ACCEPT' <<< "$input_rules"; then
+    check_pass "Established and related connections are accepted."
+else
+    check_fail "No rule accepts established and related connections."
+fi
+if grep -q -- '--tcp-flags FIN,SYN,RST,PSH,ACK,URG NONE -j DROP' <<< "$input_rules"; then
+    check_pass "NULL scans are dropped."
+else
+    check_fail "NULL scans are not dropped."
+fi
+if systemctl is-enabled --quiet iptables 2>/dev/null; then
+    check_pass "iptables.service restores the rules at boot."
+else
+    check_fail "iptables.service is not enabled, so the rules are lost at reboot."
+fi`,
+  iptablesBogon: `# ----------------------------------------------------------------------------
+# Check: Block Bogon Networks
+# The BOGONS chain drops unroutable ranges and is hooked into INPUT.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Block Bogon Networks ---"
+
+if ! bogon_rules="$(iptables -S BOGONS 2>/dev/null)"; then
+    check_fail "The BOGONS chain does not exist (or the check is not running as root)."
+    return 0
+fi
+dropped_ranges="$(grep -c -- '-j DROP' <<< "$bogon_rules" || true)"
+if [[ "$dropped_ranges" -gt 0 ]]; then
+    check_pass "The BOGONS chain drops \${dropped_ranges} range(s)."
+else
+    check_fail "The BOGONS chain drops nothing."
+fi
+if iptables -C INPUT ! -i lo -j BOGONS 2>/dev/null; then
+    check_pass "INPUT sends external traffic through BOGONS."
+else
+    check_fail "INPUT does not jump to the BOGONS chain."
+fi`,
+  iptablesPortKnocking: `# ----------------------------------------------------------------------------
+# Check: Enable Port Knocking for SSH
+# SSH only accepts new connections after the knock sequence.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Enable Port Knocking for SSH ---"
+
+SSH_PORT="\${NEW_SSH_PORT:-22}"
+
+${PARAMETERS}
+
+if ! iptables -S INPUT >/dev/null 2>&1; then
+    check_na "Could not read the iptables rules; run the check as root."
+    return 0
+fi
+for chain in KNOCK1 KNOCK2 SSH_GATE; do
+    if iptables -S "$chain" >/dev/null 2>&1; then
+        check_pass "The \${chain} chain exists."
+    else
+        check_fail "The \${chain} chain does not exist."
+    fi
+done
+if iptables -C INPUT -p tcp --dport "\${KNOCK_PORTS[0]}" -j KNOCK1 2>/dev/null; then
+    check_pass "The sequence starts on port \${KNOCK_PORTS[0]}."
+else
+    check_fail "No rule starts the knock sequence on port \${KNOCK_PORTS[0]}."
+fi
+if iptables -C INPUT -p tcp --dport "$SSH_PORT" -m conntrack --ctstate NEW -j ACCEPT 2>/dev/null; then
+    check_fail "Port \${SSH_PORT} still accepts new connections without knocking."
+else
+    check_pass "Port \${SSH_PORT} only opens after the knock sequence."
+fi`,
+  grubPassword: `# ----------------------------------------------------------------------------
+# Check: Set GRUB Bootloader Password
+# GRUB has a superuser password.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Set GRUB Bootloader Password ---"
+
+GRUB_USER_CFG="/boot/grub2/user.cfg"
+if [[ ! -e "$GRUB_USER_CFG" ]]; then
+    check_fail "\${GRUB_USER_CFG} does not exist, so GRUB has no password."
+elif [[ ! -r "$GRUB_USER_CFG" ]]; then
+    check_na "Cannot read \${GRUB_USER_CFG}; run the check as root."
+elif grep -q '^GRUB2_PASSWORD=grub\\.pbkdf2\\.' "$GRUB_USER_CFG"; then
+    check_pass "GRUB is password protected."
+else
+    check_fail "\${GRUB_USER_CFG} does not contain a PBKDF2 password hash."
+fi`,
+  filesystem: `# ----------------------------------------------------------------------------
+# Check: Secure Filesystem Mounts
+# The temporary directories are mounted nosuid, nodev and noexec.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Secure Filesystem Mounts ---"
+
+for mount_point in /tmp /var/tmp /dev/shm; do
+    if ! mount_options="$(findmnt -no OPTIONS "$mount_point")"; then
+        check_fail "\${mount_point} is not a separate mount."
+        continue
+    fi
+    missing_options=""
+    for flag in nosuid nodev noexec; do
+        if [[ ",\${mount_options}," != *",\${flag},"* ]]; then
+            missing_options+=" \${flag}"
+        fi
+    done
+    if [[ -z "$missing_options" ]]; then
+        check_pass "\${mount_point} is mounted nosuid,nodev,noexec."
+    else
+        check_fail "\${mount_point} is mounted without\${missing_options}."
+    fi
+done`,
+  disableFilesystems: `# ----------------------------------------------------------------------------
+# Check: Disable Unused Filesystems
+# Rarely used filesystem modules are not loaded and cannot be loaded.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Disable Unused Filesystems ---"
+
+for fs in cramfs freevxfs jffs2 hfs hfsplus squashfs udf; do
+    # modprobe -n only shows what loading the module would do.
+    if lsmod | awk '{ print $1 }' | grep -qx "$fs"; then
+        check_fail "The \${fs} module is loaded."
+    elif modprobe -n -v "$fs" 2>/dev/null | grep -q '/bin/true'; then
+        check_pass "The \${fs} module cannot be loaded."
+    else
+        check_fail "The \${fs} module can still be loaded."
+    fi
+done`,
+  logging: `# ----------------------------------------------------------------------------
+# Check: Logging & Auditing Setup (auditd)
+# auditd is running and auditing is enabled in the kernel.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Logging & Auditing Setup (auditd) ---"
+
+if systemctl is-active --quiet auditd; then
+    check_pass "auditd is running."
+else
+    check_fail "auditd is not running."
+fi
+
+if ! audit_status="$(auditctl -s 2>/dev/null)"; then
+    check_na "Could not read the audit status; run the check as root."
+elif [[ "$(awk '$1 == "enabled" { print $2 }' <<< "$audit_status")" =~ ^[12]$ ]]; then
+    check_pass "Auditing is enabled in the kernel."
+else
+    check_fail "Auditing is disabled in the kernel."
+fi`,
+  auditFileAccess: `# ----------------------------------------------------------------------------
+# Check: Monitor Critical File Access
+# The identity and privilege files are watched by loaded audit rules.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Monitor Critical File Access ---"
+
+${READ_AUDIT_RULES}
+for watched in /etc/passwd /etc/shadow /etc/group /etc/gshadow /etc/sudoers /etc/selinux/semanage.conf; do
+    if grep -q -- "-w \${watched} -p" <<< "$audit_rules"; then
+        check_pass "\${watched} is watched."
+    else
+        check_fail "\${watched} is not watched."
+    fi
+done`,
+  auditCommands: `# ----------------------------------------------------------------------------
+# Check: Monitor Privileged Commands
+# Running setuid and setgid programs is audited.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Monitor Privileged Commands ---"
+
+${READ_AUDIT_RULES}
+privileged_rules="$(grep -c 'key=privileged' <<< "$audit_rules" || true)"
+if grep -q 'path=/usr/bin/sudo .*key=privileged' <<< "$audit_rules"; then
+    check_pass "\${privileged_rules} privileged command(s) are audited, including sudo."
+else
+    check_fail "Running sudo is not audited (\${privileged_rules} privileged command rule(s) loaded)."
+fi`,
+  auditLogins: `# ----------------------------------------------------------------------------
+# Check: Monitor Login Attempts
+# Login records and new sessions are audited.
+# ----------------------------------------------------------------------------
+log_info "--- Check: Monitor Login Attempts ---"
+
+${READ_AUDIT_RULES}
+for watched in /var/log/faillog /var/log/lastlog /var/log/tallylog; do
+    if grep -q -- "-w \${watched} -p" <<< "$audit_rules"; then
+        check_pass "\${watched} is watched."
+    else
+        check_fail "\${watched} is not watched."
+    fi
+done
+if grep -q -- '-S setsid .*key=session' <<< "$audit_rules"; then
+    check_pass "New sessions are audited."
+else
+    check_fail "New sessions (setsid) are not audited."
+fi`,
+  pciDss: `# ----------------------------------------------------------------------------
+# Check: PCI DSS Baseline Checks
+# File integrity monitoring, persistent journal retention, no legacy network
+# services, and password history and lockout.
+# ----------------------------------------------------------------------------
+log_info "--- Check: PCI DSS Baseline Checks ---"
+
+# The most disk space the journal should be allowed to use.
+${PARAMETERS}
+
+# Requirement 11.5: file integrity monitoring.
+if ! rpm -q aide >/dev/null 2>&1; then
+    check_fail "AIDE is not installed."
+elif [[ -f /var/lib/aide/aide.db.gz ]]; then
+    check_pass "AIDE is installed and its database is initialised."
+else
+    check_fail "The AIDE database has not been initialised."
+fi
+if [[ -x /etc/cron.daily/aidecheck ]]; then
+    check_pass "AIDE runs daily."
+else
+    check_fail "No daily AIDE check is scheduled."
+fi
+
+# Requirement 10.7: log retention. cat-config merges journald.conf with its drop-ins.
+journald_config="$(systemd-analyze cat-config systemd/journald.conf 2>/dev/null || true)"
+if grep -qx 'Storage=persistent' <<< "$journald_config"; then
+    check_pass "The journal is persistent."
+else
+    check_fail "The journal is not set to persistent storage."
+fi
+if grep -qx "SystemMaxUse=\${JOURNAL_MAX_USE}" <<< "$journald_config"; then
+    check_pass "The journal may use up to \${JOURNAL_MAX_USE}."
+else
+    check_fail "SystemMaxUse is not set to \${JOURNAL_MAX_USE}."
+fi
+
+# Requirement 2.2.2: no legacy network services.
+for unit in telnet.socket rsh.socket nfs-server.service smb.service; do
+    if systemctl is-enabled --quiet "$unit" 2>/dev/null; then
+        check_fail "\${unit} is enabled."
+    else
+        check_pass "\${unit} is not enabled."
+    fi
+done
+
+# Requirements 8.2.3 and 8.1.6: password history and lockout.
+if grep -qE '^[[:space:]]*remember[[:space:]]*=[[:space:]]*([5-9]|[1-9][0-9]+)' /etc/security/pwhistory.conf 2>/dev/null; then
+    check_pass "The last 5 or more passwords cannot be reused."
+else
+    check_fail "Password history does not remember at least 5 passwords."
+fi
+if grep -q 'pam_faillock' /etc/pam.d/system-auth 2>/dev/null; then
+    check_pass "Accounts are locked after repeated failed logins."
+else
+    check_fail "pam_faillock is not enabled in /etc/pam.d/system-auth."
+fi`,
+};
+
+export const generateCheckHeader = (): string => CHECK_HEADER;
+
+/**
+ * Returns the curated check for an option, expecting its parameters to be `values` (or their
+ * defaults). Options without a check (such as the custom requirement) report N/A when the
+ * script runs.
+ */
+export const generateCheckSection = (option: HardeningOption, values: ParameterValues = {}): string => {
+  const template = CHECK_TEMPLATES[option.id];
+  if (template) {
+    return template.replace(PARAMETERS, () => buildParameterAssignments(option, values));
+  }
+
+  const safeLabel = option.label.replace(/["$`\\]/g, '');
+  return [
+    '# ----------------------------------------------------------------------------',
+    `# Check: ${safeLabel}`,
+    '# No offline check exists for this item; switch to AI mode to generate it.',
+    '# ----------------------------------------------------------------------------',
+    `check_na "No offline check is available for '${safeLabel}'."`,
+  ].join('\n');
+};
+
+export const generateCheckFooter = (): string => CHECK_FOOTER;
@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { toLlmError, parseRetryAfterHeader, HttpStatusError, LlmError, SafetyBlockedError } from './errors';
+
+// Mimics the Gemini SDK's ApiError, which carries the HTTP status as a property.
+const apiError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+describe('errors', () => {
+  describe('toLlmError', () => {
+    it('should classify HTTP statuses', () => {
+      expect(toLlmError(new HttpStatusError(401, 'HTTP 401'), 'analysis').code).toBe('auth');
+      expect(toLlmError(new HttpStatusError(403, 'HTTP 403'), 'analysis').code).toBe('auth');
+      expect(toLlmError(new HttpStatusError(504, 'HTTP 504'), 'analysis').code).toBe('timeout');
+      expect(toLlmError(apiError(429, 'got status: 429'), 'analysis').code).toBe('quota');
+    });
+
+    it('should carry the retry-after hint of a rate limit', () => {
+      const fromHeader = toLlmError(new HttpStatusError(429, 'HTTP 429', 30_000), 'script generation');
+      expect(fromHeader).toMatchObject({ code: 'quota', retryable: true, retryAfterMs: 30_000, context: 'script generation' });
+
+      const fromGemini = toLlmError(apiError(429, '{"error":{"details":[{"retryDelay":"23s"}]}}'), 'script generation');
+      expect(fromGemini.retryAfterMs).toBe(23_000);
+    });
+
+    it('should fall back to the message for transport failures without a status', () => {
+      const error = toLlmError(new TypeError('fetch failed'), 'script generation');
+      expect(error.code).toBe('network');
+      expect(error.retryable).toBe(true);
+      expect(error.message).toBe('Network Error: Could not connect to the API. Please check your internet connection.');
+    });
+
+    it('should report aborted requests as cancelled', () => {
+      const abort = Object.assign(new Error('This operation was aborted'), { name: 'AbortError' });
+      expect(toLlmError(abort, 'analysis').code).toBe('cancelled');
+
+      const controller = new AbortController();
+      controller.abort();
+      expect(toLlmError(new Error('anything'), 'analysis', controller.signal).code).toBe('cancelled');
+    });
+
+    it('should keep typed errors and fill in a missing context', () => {
+      const blocked = new SafetyBlockedError('');
+      const result = toLlmError(blocked, 'script generation');
+      expect(result).toBe(blocked);
+      expect(result.context).toBe('script generation');
+      expect(result.retryable).toBe(false);
+    });
+
+    it('should wrap anything else as an unknown, non-retryable error', () => {
+      const error = toLlmError(new Error('Internal server error'), 'analysis');
+      expect(error).toBeInstanceOf(LlmError);
+      expect(error).toMatchObject({ code: 'unknown', retryable: false });
+      expect(error.message).toBe('An unexpected API error occurred during analysis. Check the console for details.');
+    });
+  });
+
+  describe('parseRetryAfterHeader', () => {
+    it('should accept seconds and ignore missing or invalid values', () => {
+      expect(parseRetryAfterHeader('12')).toBe(12_000);
+      expect(parseRetryAfterHeader(null)).toBeUndefined();
+      expect(parseRetryAfterHeader('soon')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,165 @@
+
+/**
+ * Typed errors for everything that can go wrong while talking to a model. The UI picks
+ * recovery actions from `code`, and the retry queue relies on `retryable` and
+ * `retryAfterMs` instead of parsing messages. Messages keep their "Category: detail"
+ * wording, since they are still shown to the user as-is.
+ */
+
+export type ErrorCode =
+  | 'auth'
+  | 'network'
+  | 'quota'
+  | 'safety'
+  | 'malformed-json'
+  | 'schema'
+  | 'timeout'
+  | 'config'
+  | 'cancelled'
+  | 'unknown';
+
+interface LlmErrorOptions {
+  retryable?: boolean;
+  /** How long the provider asked us to wait before trying again. */
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+export class LlmError extends Error {
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  /**
+   * @param context - The operation that failed (e.g. 'script generation'). Errors raised
+   *   inside a provider start without one; `toLlmError` fills it in.
+   */
+  constructor(readonly code: ErrorCode, message: string, public context: string, options: LlmErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class AuthenticationError extends LlmError {
+  constructor(context: string, options?: LlmErrorOptions) {
+    super('auth', "Authentication Error: The API key is invalid or missing. Please ensure it is configured correctly.", context, options);
+  }
+}
+
+export class NetworkError extends LlmError {
+  constructor(context: string, options?: LlmErrorOptions) {
+    super('network', "Network Error: Could not connect to the API. Please check your internet connection.", context, { retryable: true, ...options });
+  }
+}
+
+export class QuotaError extends LlmError {
+  constructor(context: string, options?: LlmErrorOptions) {
+    super('quota', "Rate Limit Exceeded: Too many requests sent. Please wait a while before trying again.", context, { retryable: true, ...options });
+  }
+}
+
+export class SafetyBlockedError extends LlmError {
+  constructor(context: string, options?: LlmErrorOptions) {
+    super('safety', "Blocked Response: The model refused to answer because of its safety filters. Try rephrasing your custom requirements.", context, options);
+  }
+}
+
+export class MalformedResponseError extends LlmError {
+  /** @param subject - What was being parsed, e.g. 'analysis' or 'script improvement'. */
+  constructor(context: string, subject: string, options?: LlmErrorOptions) {
+    super('malformed-json', `Invalid Response: The ${subject} data from the API was malformed and could not be parsed.`, context, options);
+  }
+}
+
+export class SchemaViolationError extends LlmError {
+  constructor(context: string, subject: string, readonly fields: string[], options?: LlmErrorOptions) {
+    super('schema', `Invalid Response: The ${subject} data from the API is missing or has invalid fields: ${fields.join(', ')}.`, context, options);
+  }
+}
+
+export class TimeoutError extends LlmError {
+  constructor(context: string, options?: LlmErrorOptions) {
+    super('timeout', "Timeout: The API took too long to respond. It may be overloaded; try again shortly.", context, { retryable: true, ...options });
+  }
+}
+
+export class ConfigurationError extends LlmError {
+  constructor(detail: string, options?: LlmErrorOptions) {
+    super('config', `Configuration Error: ${detail}`, '', options);
+  }
+}
+
+export class CancelledError extends LlmError {
+  constructor(context = '') {
+    super('cancelled', "Cancelled: The request was stopped before it finished.", context);
+  }
+}
+
+/**
+ * Raised by providers for a non-2xx HTTP reply. `toLlmError` maps the status onto the
+ * matching `LlmError`, so providers do not need to know the operation they serve.
+ */
+export class HttpStatusError extends Error {
+  constructor(readonly status: number, message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
+
+/** Reads a `Retry-After` header, which is either a number of seconds or an HTTP date. */
+export const parseRetryAfterHeader = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Gemini puts the hint in the error body, e.g. `"retryDelay": "23s"` or "Please retry in 23.5s".
+const parseRetryDelayFromMessage = (message: string): number | undefined => {
+  const match = message.match(/retry(?:Delay"?\s*:\s*"|\s+in\s+)(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const statusOf = (error: Error): number | undefined => {
+  const status = (error as { status?: unknown }).status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * Normalises anything thrown during a provider call into an `LlmError`. HTTP statuses
+ * (from `HttpStatusError` or the Gemini SDK's `ApiError`) decide the type where
+ * available; the SDKs and `fetch` report some failures only through their message.
+ */
+export const toLlmError = (error: unknown, context: string, signal?: AbortSignal): LlmError => {
+  if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) {
+    return new CancelledError(context);
+  }
+  if (error instanceof LlmError) {
+    if (!error.context) error.context = context;
+    return error;
+  }
+  if (!(error instanceof Error)) {
+    return new LlmError('unknown', `An unknown error occurred during ${context}.`, context, { cause: error });
+  }
+
+  const message = error.message.toLowerCase();
+  const status = statusOf(error);
+  const options = { cause: error };
+
+  if (status === 401 || status === 403 || message.includes('api key not valid') || message.includes('permission denied')) {
+    return new AuthenticationError(context, options);
+  }
+  if (status === 429 || message.includes('resource has been exhausted') || message.includes('rate limit')) {
+    const retryAfterMs = error instanceof HttpStatusError ? error.retryAfterMs : parseRetryDelayFromMessage(error.message);
+    return new QuotaError(context, { ...options, retryAfterMs });
+  }
+  if (status === 408 || status === 504 || message.includes('deadline exceeded') || message.includes('timed out')) {
+    return new TimeoutError(context, options);
+  }
+  if (message.includes('fetch failed') || message.includes('failed to fetch') || message.includes('network')) {
+    return new NetworkError(context, options);
+  }
+  return new LlmError('unknown', `An unexpected API error occurred during ${context}. Check the console for details.`, context, options);
+};
@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { sortByExecutionOrder, describeExecutionOrder, getOrderingConstraints } from './executionOrder';
+import { buildOptionGraph } from './optionGraph';
+import { PARANOIA_LEVELS } from '../constants';
+import type { HardeningOption } from '../types';
+
+const option = (id: string, extra: Partial<HardeningOption> = {}): HardeningOption => ({ id, label: `${id} label`, description: '', prompt: `${id} prompt`, ...extra });
+
+const ids = (options: HardeningOption[]) => options.map(o => o.id);
+
+describe('executionOrder', () => {
+  it('should sort by phase and keep the given order within a phase', () => {
+    const options = [
+      option('custom'),
+      option('audit', { phase: 'audit' }),
+      option('firewall', { phase: 'network' }),
+      option('updates', { phase: 'packages' }),
+      option('ssh', { phase: 'network' }),
+    ];
+    expect(ids(sortByExecutionOrder(options))).toEqual(['updates', 'firewall', 'ssh', 'audit', 'custom']);
+  });
+
+  it('should run constrained and required sections first, even across phases', () => {
+    const options = [
+      option('selinux', { phase: 'access' }),
+      option('knocking', { phase: 'network', requires: [{ id: 'ruleset', reason: 'Needs the ruleset.' }] }),
+      option('ruleset', { phase: 'network' }),
+      option('sshPort', { phase: 'kernel', runsBefore: [{ id: 'selinux', reason: 'Label the port first.' }] }),
+    ];
+    expect(ids(sortByExecutionOrder(options))).toEqual(['ruleset', 'knocking', 'sshPort', 'selinux']);
+    // Constraints on options that are not in the list do not apply.
+    expect(getOrderingConstraints(options.slice(0, 2))).toEqual([]);
+  });
+
+  it('should pull the sections a waiting option depends on forward instead of letting a later one jump ahead', () => {
+    const options = [
+      option('updates', { phase: 'packages' }),
+      option('autoUpdates', { phase: 'packages' }),
+      option('gpg', { phase: 'packages', runsBefore: [{ id: 'updates', reason: '' }] }),
+      option('keys', { phase: 'packages', runsBefore: [{ id: 'gpg', reason: '' }] }),
+    ];
+    expect(ids(sortByExecutionOrder(options))).toEqual(['keys', 'gpg', 'updates', 'autoUpdates']);
+  });
+
+  it('should still order every section when the constraints form a cycle', () => {
+    const options = [
+      option('a', { phase: 'network', runsAfter: [{ id: 'b', reason: '' }] }),
+      option('b', { phase: 'network', runsAfter: [{ id: 'a', reason: '' }] }),
+      option('c', { phase: 'preflight' }),
+    ];
+    expect(ids(sortByExecutionOrder(options))).toEqual(['c', 'a', 'b']);
+  });
+
+  it('should explain the order and point out constraints it breaks', () => {
+    const ruleset = option('ruleset', { phase: 'network' });
+    const knocking = option('knocking', { phase: 'network', runsAfter: [{ id: 'ruleset', reason: 'Needs the ruleset.' }] });
+    expect(describeExecutionOrder([ruleset, knocking]).slice(2)).toEqual([
+      '#    1. ruleset   network',
+      '#    2. knocking  network',
+      '#         after ruleset: Needs the ruleset.',
+    ]);
+    expect(describeExecutionOrder([knocking, ruleset])[3]).toBe('#         should run after ruleset, but runs before it: Needs the ruleset.');
+  });
+
+  it('should give every option a phase and order all of them without breaking a constraint', () => {
+    const options = [...buildOptionGraph(PARANOIA_LEVELS.flatMap(level => level.options)).options.values()].filter(o => o.prompt);
+    expect(options.filter(o => !o.phase)).toEqual([]);
+    const sorted = ids(sortByExecutionOrder(options));
+    for (const constraint of getOrderingConstraints(options)) {
+      expect(sorted.indexOf(constraint.beforeId)).toBeLessThan(sorted.indexOf(constraint.afterId));
+    }
+    expect(sorted.indexOf('dnfSecurity')).toBeLessThan(sorted.indexOf('updates'));
+    // dnf-automatic is installed only after gpgcheck is enforced and the system is upgraded.
+    expect(sorted.slice(0, 4)).toEqual(['bindCheck', 'dnfSecurity', 'updates', 'autoUpdates']);
+    expect(sorted.indexOf('sshPort')).toBeLessThan(sorted.indexOf('selinux'));
+  });
+});
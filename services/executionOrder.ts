@@ -0,0 +1,90 @@
+
+import type { ExecutionPhase, HardeningOption } from '../types';
+
+// The order sections run in. Each option declares a phase, and sections run phase by phase;
+// explicit `runsAfter` / `runsBefore` constraints and requirements between the selected
+// options come first, even across phases. Ties keep the order the options were given in.
+
+export const EXECUTION_PHASES: ExecutionPhase[] = ['preflight', 'packages', 'network', 'access', 'kernel', 'audit', 'boot', 'finalize'];
+
+export interface OrderingConstraint {
+  /** The section that runs first. */
+  beforeId: string;
+  afterId: string;
+  reason: string;
+}
+
+export const getPhase = (option: HardeningOption): ExecutionPhase => option.phase ?? 'finalize';
+
+/** The constraints between the given options. Constraints naming other options are ignored. */
+export const getOrderingConstraints = (options: HardeningOption[]): OrderingConstraint[] => {
+  const ids = new Set(options.map(option => option.id));
+  const constraints: OrderingConstraint[] = [];
+  for (const option of options) {
+    for (const relation of [...(option.requires ?? []), ...(option.runsAfter ?? [])]) {
+      constraints.push({ beforeId: relation.id, afterId: option.id, reason: relation.reason });
+    }
+    for (const relation of option.runsBefore ?? []) {
+      constraints.push({ beforeId: option.id, afterId: relation.id, reason: relation.reason });
+    }
+  }
+  // Keep one constraint per pair, e.g. when an option both requires and runs after another.
+  return constraints.filter((constraint, index) =>
+    ids.has(constraint.beforeId) && ids.has(constraint.afterId) && constraint.beforeId !== constraint.afterId &&
+    constraints.findIndex(other => other.beforeId === constraint.beforeId && other.afterId === constraint.afterId) === index
+  );
+};
+
+/**
+ * Sorts options into the order their sections should run. The option in the earliest phase,
+ * then the earliest given, goes next; while it waits for other sections, the first of those
+ * goes in its place. Prerequisites are pulled forward this way, instead of a later option of
+ * the same phase jumping ahead of the waiting one. Should the constraints form a cycle, the
+ * first option met twice goes next, so the order stays deterministic.
+ */
+export const sortByExecutionOrder = (options: HardeningOption[]): HardeningOption[] => {
+  const constraints = getOrderingConstraints(options);
+  const rank = (option: HardeningOption) => EXECUTION_PHASES.indexOf(getPhase(option)) * options.length + options.indexOf(option);
+  const remaining = [...options].sort((a, b) => rank(a) - rank(b));
+  const sorted: HardeningOption[] = [];
+  while (remaining.length > 0) {
+    const visited = new Set<string>();
+    let next = remaining[0];
+    while (!visited.has(next.id)) {
+      visited.add(next.id);
+      const waitsFor = remaining.find(other =>
+        constraints.some(constraint => constraint.afterId === next.id && constraint.beforeId === other.id));
+      if (!waitsFor) break;
+      next = waitsFor;
+    }
+    sorted.push(...remaining.splice(remaining.indexOf(next), 1));
+  }
+  return sorted;
+};
+
+/**
+ * Comment lines explaining the order of the given sections: each section's phase, the
+ * sections it runs after and why, and any constraint the order breaks, e.g. after a
+ * section was moved by hand.
+ */
+export const describeExecutionOrder = (options: HardeningOption[]): string[] => {
+  const constraints = getOrderingConstraints(options);
+  const position = (id: string) => options.findIndex(option => option.id === id);
+  const width = Math.max(...options.map(option => option.id.length));
+  const lines = [
+    `# They run phase by phase (${EXECUTION_PHASES.slice(0, 5).join(', ')},`,
+    `# ${EXECUTION_PHASES.slice(5).join(', ')}), each after the sections it depends on:`,
+  ];
+  options.forEach((option, index) => {
+    lines.push(`#   ${String(index + 1).padStart(2)}. ${option.id.padEnd(width)}  ${getPhase(option)}`);
+    for (const constraint of constraints) {
+      if (constraint.afterId === option.id) {
+        const placement = position(constraint.beforeId) < index
+          ? `after ${constraint.beforeId}`
+          : `should run after ${constraint.beforeId}, but runs before it`;
+        lines.push(`#         ${placement}: ${constraint.reason}`);
+      }
+    }
+  });
+  return lines;
+};
@@ -0,0 +1,95 @@
+import { describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { collectSectionFailures, buildFixupScript } from './fixupScript';
+import { summarizeRunLog } from './runLog';
+import { parseScriptOutput } from './outputParser';
+import { renderScript, EMPTY_SCRIPT } from './generatedScript';
+import { lintScript } from './scriptLinter';
+import { generateTemplateHeader } from './scriptTemplates';
+import { SAFEGUARDS } from './lockoutDetector';
+import type { AnalysisFinding, GeneratedScript, HardeningOption, RunLogRecord } from '../types';
+
+const option = (id: string, label: string) => ({ id, label, description: '', prompt: `Harden ${label}.` }) as HardeningOption;
+const ssh = option('ssh', 'SSH Hardening');
+const logging = option('logging', 'Logging & Auditing Setup (auditd)');
+const options = new Map([ssh, logging].map(o => [o.id, o]));
+
+const record = (status: RunLogRecord['status'], section: string, step: string, exitCode: number | null = null, stderrTail = ''): RunLogRecord =>
+  ({ timestamp: '2025-01-01T12:00:00+00:00', section, step, status, exitCode, stderrTail });
+
+const finding = (optionId: string | null, evidence: string[]): AnalysisFinding =>
+  ({ severity: 'high', title: 'Failed', optionId, evidence, explanation: '', remediation: [] });
+
+describe('fixupScript', () => {
+  it('should collect the failed sections of a run log with their errors and the evidence of the findings', () => {
+    const summary = summarizeRunLog([
+      record('start', 'ssh', 'SSH Hardening'),
+      record('end', 'ssh', 'SSH Hardening'),
+      record('start', 'custom', 'Custom Requirement'),
+      record('error', 'custom', 'Custom step failed'),
+      record('end', 'custom', 'Custom Requirement'),
+      record('start', 'logging', 'Logging & Auditing Setup (auditd)'),
+      record('failed', 'logging', 'augenrules --load', 1, 'Error sending add rule data request (Invalid argument)'),
+      record('exit', 'logging', 'Stopped', 1),
+    ]);
+    const script: GeneratedScript = {
+      ...EMPTY_SCRIPT,
+      sections: [{ option: logging, promptVersion: 0, status: 'done', content: 'run_cmd augenrules --load', meta: { source: 'template', cached: false } }],
+    };
+
+    const failures = collectSectionFailures(summary, [
+      finding('logging', ['[FAILED] augenrules --load (exit code 1)', 'augenrules: rule 12 is invalid']),
+      finding('ssh', ['unrelated']),
+    ], options, script);
+
+    // The custom request has no option to regenerate, and SSH passed.
+    expect(failures).toEqual([{
+      option: logging,
+      evidence: [
+        '[FAILED] augenrules --load (exit code 1)',
+        'Error sending add rule data request (Invalid argument)',
+        'The run stopped in this section.',
+        'augenrules: rule 12 is invalid',
+      ],
+      content: 'run_cmd augenrules --load',
+    }]);
+  });
+
+  it('should collect the failed sections of text output with the lines printed before each failure', () => {
+    const parsed = parseScriptOutput([
+      '[INFO] --- SSH Hardening ---',
+      'sshd: bad configuration option',
+      '[ERROR] sshd -t rejected the configuration.',
+      '[INFO] --- Unknown Section ---',
+      '[ERROR] Something else failed.',
+    ].join('\n'), new Map([['SSH Hardening', 'ssh']]))!;
+
+    expect(collectSectionFailures(parsed, [], options)).toEqual([{
+      option: ssh,
+      evidence: ['sshd: bad configuration option', '[ERROR] sshd -t rejected the configuration.'],
+    }]);
+  });
+
+  it('should render the fixes with the same header, pre-flight checks and lockout safeguards', () => {
+    const failures = [{ option: ssh, evidence: [] }, { option: logging, evidence: [] }];
+    const fixup = buildFixupScript(generateTemplateHeader(), failures, {
+      sections: [{ id: 'ssh', content: 'log_info "--- Fix-up: SSH Hardening ---"\nrun_cmd systemctl restart sshd' }],
+      refinedPrompts: [],
+      summary: [],
+    });
+
+    // Only the sections the model fixed are in the script.
+    expect(fixup.sections.map(section => section.option.id)).toEqual(['ssh']);
+    const bash = renderScript(fixup);
+    expect(bash.startsWith(generateTemplateHeader())).toBe(true);
+    expect(bash).toContain('if preflight_wants ssh; then');
+    expect(bash).toContain(SAFEGUARDS.sshKeyPrecheck.marker);
+    expect(bash).toContain('run_section ssh');
+    expect(bash).toContain('Fix-up Complete');
+    expect(lintScript(bash)).toEqual([]);
+  });
+});
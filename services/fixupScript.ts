@@ -0,0 +1,93 @@
+
+import type { AnalysisFinding, FixupResult, GeneratedScript, HardeningOption, RunLogRecord, SectionFailure } from '../types';
+import type { RunLogSummary } from './runLog';
+import type { OutputLine, ParsedOutput } from './outputParser';
+import { EMPTY_SCRIPT } from './generatedScript';
+import { detectLockoutRisks, getOfferedSafeguards, buildSafeguardParts } from './lockoutDetector';
+
+// A fix-up script repairs only the sections that failed in an analyzed run. It is rendered from
+// the same header as the script that ran, so its corrective sections use the same helpers and
+// get the same pre-flight checks, section list and lockout safeguards.
+
+export const FIXUP_SCRIPT_NAME = 'fedora_hardening_fixup.sh';
+
+const FIXUP_FOOTER = `# ----------------------------------------------------------------------------
+# Fix-up Complete
+# ----------------------------------------------------------------------------
+echo
+log_success "=========================================================="
+log_success "                    Fix-up Complete"
+log_success "=========================================================="
+if [[ "$DRY_RUN" == true ]]; then
+    log_info "Dry run finished; nothing was changed. Run without --dry-run to apply the fixes above."
+else
+    log_info "Review the full log at \${LOG_FILE} for details of every step."
+    log_info "Paste \${LOG_JSON_FILE} into the Advanced tab of the generator again to confirm that the repaired sections pass."
+    if [[ -d "$BACKUP_DIR" ]]; then
+        log_info "Every changed file was backed up to \${BACKUP_DIR}. Undo the fixes with: sudo ./fedora_hardening_rollback.sh"
+    fi
+fi`;
+
+const formatRunLogFailure = (record: RunLogRecord): string[] => [
+  `[${record.status.toUpperCase()}] ${record.step}${record.exitCode !== null ? ` (exit code ${record.exitCode})` : ''}`,
+  ...(record.stderrTail ? record.stderrTail.split('\n') : []),
+];
+
+// The untagged lines came first in the output.
+const formatOutputFailure = (line: OutputLine): string[] => [...line.context, `[${line.marker.toUpperCase()}] ${line.message}`];
+
+/**
+ * The failed sections of an analyzed run, each with its failing lines followed by the evidence
+ * the analysis findings quote for it. Sections that cannot be traced back to an option with a
+ * prompt of its own, such as a custom request, are left out.
+ * @param script - The loaded script; its content for a failed section is passed on as what ran.
+ */
+export const collectSectionFailures = (
+  output: RunLogSummary | ParsedOutput,
+  findings: AnalysisFinding[],
+  options: Map<string, HardeningOption>,
+  script: GeneratedScript = EMPTY_SCRIPT
+): SectionFailure[] => {
+  const failed = 'exitCode' in output
+    ? output.sections.filter(section => section.outcome === 'failed').map(section => ({
+        id: section.id,
+        evidence: [
+          ...section.failures.flatMap(formatRunLogFailure),
+          ...(section.completed ? [] : ['The run stopped in this section.']),
+        ],
+      }))
+    : output.sections.flatMap(section => section.outcome === 'failed' && section.id !== null
+        ? [{ id: section.id, evidence: section.failures.flatMap(formatOutputFailure) }]
+        : []);
+
+  return failed.flatMap(({ id, evidence }) => {
+    const option = options.get(id);
+    if (!option?.prompt) return [];
+    const quoted = findings.filter(finding => finding.optionId === id).flatMap(finding => finding.evidence);
+    const section = script.kind === 'harden' ? script.sections.find(s => s.option.id === id && s.status === 'done') : undefined;
+    return [{ option, evidence: [...new Set([...evidence, ...quoted])], ...(section && { content: section.content }) }];
+  });
+};
+
+/**
+ * Builds the fix-up script from the corrective sections of `result`, in the order the sections
+ * failed. The safeguards of any lockout risk the repaired sections carry are always included.
+ */
+export const buildFixupScript = (header: string, failures: SectionFailure[], result: FixupResult): GeneratedScript => {
+  const contents = new Map(result.sections.map(section => [section.id, section.content]));
+  const repaired = failures.filter(failure => contents.has(failure.option.id)).map(failure => failure.option);
+  const risks = detectLockoutRisks(Object.fromEntries(repaired.map(option => [option.id, true])));
+  return {
+    kind: 'harden',
+    header,
+    sections: repaired.map(option => ({
+      option,
+      promptVersion: 0,
+      status: 'done',
+      content: contents.get(option.id)!,
+      meta: { source: 'ai', cached: false },
+    })),
+    footer: FIXUP_FOOTER,
+    safeguards: buildSafeguardParts(getOfferedSafeguards(risks)),
+  };
+};
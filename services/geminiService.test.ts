@@ -30,15 +30,24 @@ jest.mock('@google/genai', () => ({
 import { GoogleGenAI } from '@google/genai';
 // FIX: The function `generateHardenScript` was refactored into three separate functions.
 // Update imports to reflect the new modular structure.
-import { generateScriptHeaderAndHelpers, generateScriptSection, generateScriptFooter, analyzeScriptOutput, runShellcheckAndLearn } from './geminiService';
+import { generateScriptHeaderAndHelpers, generateScriptSection, generateScriptFooter, analyzeScriptOutput, generateFixupScript, runShellcheckAndLearn } from './geminiService';
+import * as responseCache from './responseCache';
 import { PARANOIA_LEVELS } from '../constants';
-import type { AnalysisResult, ImprovementResult } from '../types';
+import type { AnalysisResult, FixupResult, HardeningOption, ImprovementResult, SectionFailure, ShellcheckFinding, StreamProgress } from '../types';
 
 // Get a typed mock for the constructor and its methods
 const mockGoogleGenAI = GoogleGenAI as jest.Mock;
 // FIX: Type the mock function to prevent TypeScript from inferring `never` for its parameters.
 // Use a single function type argument to be compatible with the version of Jest types being used.
 const mockGenerateContent = jest.fn<(args: { contents: string; [key: string]: any; }) => Promise<{ text: string }>>();
+const mockGenerateContentStream = jest.fn<(args: { contents: string; [key: string]: any; }) => Promise<AsyncGenerator<{ text: string }>>>();
+
+// Builds the async iterable that `generateContentStream` resolves to.
+const streamOf = (chunks: string[]) => (async function* () {
+  for (const text of chunks) {
+    yield { text };
+  }
+})();
 
 describe('geminiService', () => {
   beforeEach(() => {
@@ -47,6 +56,7 @@ describe('geminiService', () => {
     mockGoogleGenAI.mockImplementation(() => ({
       models: {
         generateContent: mockGenerateContent,
+        generateContentStream: mockGenerateContentStream,
       },
     }));
     // Mock the environment variable for the API key
@@ -73,6 +83,25 @@ describe('geminiService', () => {
       expect(header).toBe(mockHeader);
     });
 
+    it('should ask the model as usual when the response cache lookup fails', async () => {
+      mockGenerateContent.mockResolvedValue({ text: '#!/bin/bash\n# Header' });
+      const spies = [
+        jest.spyOn(responseCache, 'isResponseCacheAvailable').mockReturnValue(true),
+        jest.spyOn(responseCache, 'computeCacheKey').mockRejectedValue(new DOMException('crypto.subtle is unavailable', 'NotSupportedError')),
+        jest.spyOn(responseCache, 'putCachedResponse'),
+        jest.spyOn(console, 'warn').mockImplementation(() => {}),
+      ];
+      const onHit = jest.fn();
+
+      try {
+        expect(await generateScriptHeaderAndHelpers({ cache: { partId: 'header', onHit } })).toBe('#!/bin/bash\n# Header');
+        expect(onHit).not.toHaveBeenCalled();
+        expect(responseCache.putCachedResponse).not.toHaveBeenCalled();
+      } finally {
+        spies.forEach(spy => spy.mockRestore());
+      }
+    });
+
     it('should throw a user-friendly error for an invalid API key', async () => {
       mockGenerateContent.mockRejectedValue(new Error('API key not valid'));
       await expect(generateScriptHeaderAndHelpers()).rejects.toThrow('Authentication Error: The API key is invalid or missing. Please ensure it is configured correctly.');
@@ -114,6 +143,43 @@ describe('geminiService', () => {
         expect(section).toBe(mockSection);
     });
 
+    it('should stream the section and strip markdown fences incrementally', async () => {
+        mockGenerateContentStream.mockResolvedValue(streamOf(['```ba', 'sh\nlog_info "--- SSH', ' Hardening ---"\n``', '`']));
+        const onProgress = jest.fn<(progress: StreamProgress) => void>();
+
+        const option = PARANOIA_LEVELS[0].options[1];
+        const section = await generateScriptSection(option, { onProgress });
+
+        expect(mockGenerateContent).not.toHaveBeenCalled();
+        expect(section).toBe('log_info "--- SSH Hardening ---"');
+        const streamedTexts = onProgress.mock.calls.map(([progress]) => progress.text);
+        expect(streamedTexts).toEqual(['', 'log_info "--- SSH', 'log_info "--- SSH Hardening ---"', 'log_info "--- SSH Hardening ---"']);
+        expect(onProgress.mock.calls[3][0].tokens).toBeGreaterThan(onProgress.mock.calls[0][0].tokens);
+    });
+
+    it('should ask for the option parameters as script variables', async () => {
+        mockGenerateContent.mockResolvedValue({ text: 'NEW_SSH_PORT=2200' });
+        const option: HardeningOption = {
+            id: 'sshPort',
+            label: 'Change Default SSH Port',
+            description: '',
+            prompt: 'Use the `NEW_SSH_PORT` variable.',
+            parameters: [{ name: 'NEW_SSH_PORT', label: 'New SSH port', type: 'port', default: 2222 }],
+        };
+
+        await generateScriptSection(option, { parameterValues: { NEW_SSH_PORT: 2200 } });
+
+        const calledPrompt = mockGenerateContent.mock.calls[0][0].contents;
+        expect(calledPrompt).toContain('7.  **Parameters**');
+        expect(calledPrompt).toContain('```bash\nNEW_SSH_PORT=2200\n```');
+    });
+
+    it('should report a reply withheld by the safety filters', async () => {
+        mockGenerateContent.mockResolvedValue({ text: '', candidates: [{ finishReason: 'SAFETY' }] } as { text: string });
+        const option = PARANOIA_LEVELS[0].options[1];
+        await expect(generateScriptSection(option)).rejects.toMatchObject({ code: 'safety', retryable: false, context: 'script generation' });
+    });
+
     it('should throw an error if the API call fails', async () => {
         mockGenerateContent.mockRejectedValue(new Error('API Error'));
         const option = PARANOIA_LEVELS[0].options[0];
@@ -144,7 +210,8 @@ describe('geminiService', () => {
     it('should return a valid analysis result and score on successful analysis', async () => {
       const mockResponse: AnalysisResult = {
         analysisText: 'System looks well-hardened.',
-        securityScore: 95
+        securityScore: 95,
+        findings: [],
       };
       mockGenerateContent.mockResolvedValue({ text: JSON.stringify(mockResponse) });
 
@@ -154,24 +221,128 @@ describe('geminiService', () => {
     });
 
     it('should clamp the security score to 100 if the API returns a higher value', async () => {
-      const mockResponse = { analysisText: 'Perfect!', securityScore: 150 };
+      const mockResponse = { analysisText: 'Perfect!', securityScore: 150, findings: [] };
       mockGenerateContent.mockResolvedValue({ text: JSON.stringify(mockResponse) });
       const result = await analyzeScriptOutput('...');
       expect(result.securityScore).toBe(100);
     });
 
     it('should clamp the security score to 0 if the API returns a negative value', async () => {
-      const mockResponse = { analysisText: 'Something is wrong', securityScore: -10 };
+      const mockResponse = { analysisText: 'Something is wrong', securityScore: -10, findings: [] };
       mockGenerateContent.mockResolvedValue({ text: JSON.stringify(mockResponse) });
       const result = await analyzeScriptOutput('...');
       expect(result.securityScore).toBe(0);
     });
 
+    it('should give the model the exact section results of a JSON Lines run log', async () => {
+      mockGenerateContent.mockResolvedValue({ text: JSON.stringify({ analysisText: 'auditd failed.', securityScore: 60, findings: [] }) });
+      const record = (status: string, step: string, exitCode: number | null = null, stderrTail = '') =>
+        JSON.stringify({ timestamp: '2025-01-01T12:00:00+00:00', section: 'logging', step, status, exit_code: exitCode, stderr_tail: stderrTail });
+      await analyzeScriptOutput([
+        record('start', 'Logging & Auditing Setup (auditd)'),
+        record('failed', 'augenrules --load', 1, 'There was an error in line 5'),
+        record('exit', 'Stopped', 1),
+      ].join('\n'));
+
+      const prompt = mockGenerateContent.mock.calls[0][0].contents;
+      expect(prompt).toContain('so these per-section results are exact');
+      expect(prompt).toContain('- logging (Logging & Auditing Setup (auditd)): FAILED, the run stopped in this section');
+      expect(prompt).toContain('stderr: There was an error in line 5');
+      expect(prompt).not.toContain('"stderr_tail"');
+    });
+
+    it('should give the model the locally parsed sections of text output', async () => {
+      mockGenerateContent.mockResolvedValue({ text: JSON.stringify({ analysisText: 'auditd failed.', securityScore: 60, findings: [] }) });
+      await analyzeScriptOutput([
+        '\u001b[0;34m[INFO]\u001b[0m 2025-01-01 12:03:02 --- Logging & Auditing Setup (auditd) ---',
+        'There was an error in line 5',
+        '\u001b[0;31m[FAILED]\u001b[0m Loading the audit rules',
+      ].join('\n'));
+
+      const prompt = mockGenerateContent.mock.calls[0][0].contents;
+      expect(prompt).toContain('Only explain the failures and warnings listed');
+      expect(prompt).toContain('- Logging & Auditing Setup (auditd): FAILED, 1 info, 1 failed\n    - line 3: [FAILED] Loading the audit rules\n      output: There was an error in line 5');
+      expect(prompt).not.toContain('\u001b');
+    });
+
+    it('should give the model the option id of each section it traced back to an option', async () => {
+      mockGenerateContent.mockResolvedValue({ text: JSON.stringify({ analysisText: 'SSH failed.', securityScore: 60, findings: [] }) });
+      await analyzeScriptOutput([
+        '[INFO] 2025-01-01 12:03:02 --- SSH Hardening ---',
+        '[ERROR] sshd -t rejected the configuration.',
+        '[INFO] 2025-01-01 12:03:03 --- Custom Requirement ---',
+        '[SUCCESS] Done.',
+      ].join('\n'), undefined, undefined, new Map([['SSH Hardening', 'ssh']]));
+
+      const prompt = mockGenerateContent.mock.calls[0][0].contents;
+      expect(prompt).toContain('- SSH Hardening (ssh): FAILED, 1 info, 1 error');
+      expect(prompt).toContain('- Custom Requirement: PASSED');
+    });
+
+    it('should redact passwords and password hashes before the output is sent', async () => {
+      mockGenerateContent.mockResolvedValue({ text: JSON.stringify({ analysisText: 'GRUB failed.', securityScore: 70, findings: [] }) });
+      await analyzeScriptOutput([
+        '[INFO] 2025-01-01 12:03:02 --- Set GRUB Bootloader Password ---',
+        "[WARNING] 2025-01-01 12:03:03 GRUB superuser 'root' password: Ab12Cd34Ef56Gh78",
+        'GRUB2_PASSWORD=grub.pbkdf2.sha512.10000.0A1B.2C3D',
+        '[FAILED] Regenerating grub.cfg',
+      ].join('\n'));
+
+      const prompt = mockGenerateContent.mock.calls[0][0].contents;
+      expect(prompt).toContain("GRUB superuser 'root' password: [REDACTED]");
+      expect(prompt).toContain('GRUB2_PASSWORD=[REDACTED]');
+      expect(prompt).not.toContain('Ab12Cd34Ef56Gh78');
+      expect(prompt).not.toContain('0A1B.2C3D');
+    });
+
+    it('should tell the model which part of a long output it analyzes', async () => {
+      mockGenerateContent.mockResolvedValue({ text: JSON.stringify({ analysisText: 'Part two.', securityScore: 80, findings: [] }) });
+      await analyzeScriptOutput('[INFO] --- SSH Hardening ---', undefined, { index: 2, total: 3 });
+
+      const prompt = mockGenerateContent.mock.calls[0][0].contents;
+      expect(prompt).toContain('This is part 2 of 3 of a long output, cut between sections.');
+    });
+
     it('should throw an error for an invalid JSON response from the API', async () => {
       mockGenerateContent.mockResolvedValue({ text: 'This is not a valid JSON.' });
       await expect(analyzeScriptOutput('...')).rejects.toThrow('Invalid Response: The analysis data from the API was malformed and could not be parsed.');
     });
     
+    it('should return the findings with an option id only where one was given', async () => {
+      const finding = {
+        severity: 'high',
+        title: 'Audit rules not loaded',
+        optionId: 'logging',
+        evidence: ['[FAILED] Loading the audit rules'],
+        explanation: 'Without its rules, auditd records nothing.',
+        remediation: ['augenrules --check', 'augenrules --load'],
+      };
+      mockGenerateContent.mockResolvedValue({ text: JSON.stringify({
+        analysisText: 'auditd failed.',
+        securityScore: 60,
+        findings: [finding, { ...finding, title: 'Reboot pending', optionId: '', severity: 'info' }],
+      }) });
+
+      const result = await analyzeScriptOutput('...');
+      expect(result.findings).toEqual([finding, { ...finding, title: 'Reboot pending', optionId: null, severity: 'info' }]);
+      const prompt = mockGenerateContent.mock.calls[0][0].contents;
+      expect(prompt).toContain('`severity`: one of critical, high, medium, low, info.');
+    });
+
+    it('should reject findings that do not match the schema', async () => {
+      mockGenerateContent.mockResolvedValue({ text: JSON.stringify({
+        analysisText: 'auditd failed.',
+        securityScore: 60,
+        findings: [{ severity: 'urgent', title: 'Audit rules not loaded', optionId: 'logging', evidence: [], explanation: '', remediation: 'augenrules --load' }],
+      }) });
+      await expect(analyzeScriptOutput('...')).rejects.toMatchObject({ code: 'schema', fields: ['findings'] });
+    });
+
+    it('should reject a response that does not match the schema', async () => {
+      mockGenerateContent.mockResolvedValue({ text: JSON.stringify({ securityScore: 80, findings: [] }) });
+      await expect(analyzeScriptOutput('...')).rejects.toMatchObject({ code: 'schema', fields: ['analysisText'] });
+    });
+
     it('should throw a user-friendly error for an invalid API key', async () => {
         mockGenerateContent.mockRejectedValue(new Error('API key not valid'));
         await expect(analyzeScriptOutput('...')).rejects.toThrow('Authentication Error: The API key is invalid or missing. Please ensure it is configured correctly.');
@@ -183,6 +354,52 @@ describe('geminiService', () => {
     });
   });
   
+  describe('generateFixupScript', () => {
+    const sshPort: HardeningOption = {
+        id: 'sshPort',
+        label: 'Change Default SSH Port',
+        description: '',
+        prompt: 'Use the `NEW_SSH_PORT` variable.',
+        parameters: [{ name: 'NEW_SSH_PORT', label: 'New SSH port', type: 'port', default: 2222 }],
+    };
+    const logging: HardeningOption = { id: 'logging', label: 'Logging & Auditing Setup (auditd)', description: '', prompt: 'Install and enable auditd.' };
+    const failures: SectionFailure[] = [
+        { option: sshPort, evidence: ['[FAILED] semanage port -a -t ssh_port_t -p tcp 2200 (exit code 127)', 'semanage: command not found'], parameterValues: { NEW_SSH_PORT: 2200 } },
+        { option: logging, evidence: ['[FAILED] augenrules --load (exit code 1)'], content: 'run_cmd augenrules --load' },
+    ];
+
+    it('should give the model the error output of each failed section and keep only their fixes', async () => {
+        const mockResponse: FixupResult = {
+            sections: [
+                { id: 'sshPort', content: '```bash\nrun_cmd dnf install -y policycoreutils-python-utils\n```' },
+                { id: 'firewall', content: 'run_cmd firewall-cmd --reload' },
+            ],
+            refinedPrompts: [{ id: 'sshPort', newPrompt: 'Install policycoreutils-python-utils before calling semanage.' }, { id: 'firewall', newPrompt: 'Unrelated.' }],
+            summary: ['Installs semanage before labelling the port.'],
+        };
+        mockGenerateContent.mockResolvedValue({ text: JSON.stringify(mockResponse) });
+
+        const result = await generateFixupScript(failures);
+
+        expect(result).toEqual({
+            sections: [{ id: 'sshPort', content: 'run_cmd dnf install -y policycoreutils-python-utils' }],
+            refinedPrompts: [{ id: 'sshPort', newPrompt: 'Install policycoreutils-python-utils before calling semanage.' }],
+            summary: ['Installs semanage before labelling the port.'],
+        });
+        const calledPrompt = mockGenerateContent.mock.calls[0][0].contents;
+        expect(calledPrompt).toContain('### sshPort (Change Default SSH Port)\nTask: Use the `NEW_SSH_PORT` variable.\nError output:\n    [FAILED] semanage port');
+        expect(calledPrompt).toContain('    semanage: command not found');
+        // Without the code that ran, the parameter values are passed on.
+        expect(calledPrompt).toContain('```bash\nNEW_SSH_PORT=2200\n```');
+        expect(calledPrompt).toContain('Code that ran:\n```bash\nrun_cmd augenrules --load\n```');
+    });
+
+    it('should reject a response that does not match the schema', async () => {
+        mockGenerateContent.mockResolvedValue({ text: JSON.stringify({ sections: [{ id: 'sshPort' }], refinedPrompts: [], summary: [] }) });
+        await expect(generateFixupScript(failures)).rejects.toThrow('Invalid Response: The fix-up script data from the API is missing or has invalid fields: sections.');
+    });
+  });
+
   describe('runShellcheckAndLearn', () => {
     it('should return a corrected script and refined prompts', async () => {
         // Fix: Add the missing `improvementSummary` property to the mock `ImprovementResult`
@@ -196,8 +413,12 @@ describe('geminiService', () => {
 
         const originalScript = 'echo "Original Script"';
         const activeOptions = [PARANOIA_LEVELS[0].options[2]]; // SSH Hardening
+        const findings: ShellcheckFinding[] = [{
+            code: 2086, level: 'info', message: 'Double quote to prevent globbing and word splitting.',
+            line: 1, endLine: 1, column: 6, endColumn: 10, sectionId: 'ssh', sectionLabel: 'SSH Hardening',
+        }];
 
-        const result = await runShellcheckAndLearn(originalScript, activeOptions);
+        const result = await runShellcheckAndLearn(originalScript, activeOptions, findings);
 
         expect(result.correctedScript).toBe(mockResponse.correctedScript);
         expect(result.refinedPrompts).toEqual(mockResponse.refinedPrompts);
@@ -205,16 +426,18 @@ describe('geminiService', () => {
         const calledPrompt = mockGenerateContent.mock.calls[0][0].contents;
         expect(calledPrompt).toContain(originalScript);
         expect(calledPrompt).toContain(JSON.stringify([{id: 'ssh', prompt: activeOptions[0].prompt}]));
+        expect(calledPrompt).toContain('SC2086 (info) at line 1, column 6 in section "SSH Hardening" [ssh]');
+        expect(calledPrompt).not.toContain('Act as the ShellCheck');
     });
 
     it('should throw an error for an invalid JSON response from the API', async () => {
       mockGenerateContent.mockResolvedValue({ text: 'This is not valid JSON.' });
-      await expect(runShellcheckAndLearn('script', [])).rejects.toThrow('Invalid Response: The script improvement data from the API was malformed and could not be parsed.');
+      await expect(runShellcheckAndLearn('script', [], [])).rejects.toThrow('Invalid Response: The script improvement data from the API was malformed and could not be parsed.');
     });
 
     it('should throw a user-friendly error for an invalid API key', async () => {
         mockGenerateContent.mockRejectedValue(new Error('API key not valid'));
-        await expect(runShellcheckAndLearn('script', [])).rejects.toThrow('Authentication Error: The API key is invalid or missing. Please ensure it is configured correctly.');
+        await expect(runShellcheckAndLearn('script', [], [])).rejects.toThrow('Authentication Error: The API key is invalid or missing. Please ensure it is configured correctly.');
     });
   });
 });
\ No newline at end of file
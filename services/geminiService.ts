@@ -1,34 +1,28 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import type { HardeningOption, AnalysisResult, ImprovementResult, RefinedPrompt } from '../types';
+import { Type } from "@google/genai";
+import type { HardeningOption, AnalysisResult, AnalysisFinding, FindingSeverity, FixupResult, SectionFailure, ImprovementResult, RefinedPrompt, StreamProgress, ShellcheckFinding, ParameterValues, ScriptKind } from '../types';
+import { getProvider } from './llmProvider';
+import { toLlmError, MalformedResponseError, SchemaViolationError } from './errors';
+import type { LlmError } from './errors';
+import { computeCacheKey, getCachedResponse, putCachedResponse, isResponseCacheAvailable } from './responseCache';
+import { buildParameterAssignments } from './optionParameters';
+import { parseRunLog, summarizeRunLog, formatRunLogSummary, RUN_LOG_FILE } from './runLog';
+import { parseScriptOutput, formatOutputSummary, redactSecrets } from './outputParser';
+import type { OutputPart } from './outputChunks';
 
 /**
- * Handles errors from the Gemini API, returning a user-friendly error object.
+ * Handles errors from the LLM provider, returning a typed, user-friendly error.
  * @param error - The error caught from the API call.
  * @param context - A string describing the operation (e.g., 'generation', 'analysis').
- * @returns A new Error with a user-friendly message.
+ * @param signal - The signal the call was made with; once it has fired, any failure is reported as a cancellation.
+ * @returns An `LlmError` whose `code` tells the UI how the user can recover.
  */
-const handleApiError = (error: unknown, context: string): Error => {
-    console.error(`Error during API call for ${context}:`, error);
-    if (error instanceof Error) {
-        const message = error.message.toLowerCase();
-        
-        // Check for specific error messages from the API/fetch
-        if (message.includes('api key not valid') || message.includes('permission denied')) {
-            return new Error("Authentication Error: The API key is invalid or missing. Please ensure it is configured correctly.");
-        }
-        if (message.includes('fetch failed') || message.includes('network')) {
-            return new Error("Network Error: Could not connect to the API. Please check your internet connection.");
-        }
-        if (message.includes('resource has been exhausted') || message.includes('rate limit')) {
-            return new Error("Rate Limit Exceeded: Too many requests sent. Please wait a while before trying again.");
-        }
-        
-        // Generic API error fallback
-        return new Error(`An unexpected API error occurred during ${context}. Check the console for details.`);
+const handleApiError = (error: unknown, context: string, signal?: AbortSignal): LlmError => {
+    const apiError = toLlmError(error, context, signal);
+    if (apiError.code !== 'cancelled') {
+        console.error(`Error during API call for ${context}:`, error);
     }
-    // Fallback for non-Error objects being thrown
-    return new Error(`An unknown error occurred during ${context}.`);
+    return apiError;
 };
 
 
@@ -41,54 +35,185 @@ const cleanScriptOutput = (rawOutput: string): string => {
   return cleaned;
 };
 
-const callApi = async (prompt: string): Promise<string> => {
-    if (!process.env.API_KEY) {
-        throw new Error("Configuration Error: The API_KEY environment variable is not set.");
-    }
+/**
+ * Incremental counterpart of `cleanScriptOutput` for a reply that is still arriving.
+ * An opening fence is held back until its line is complete, and a closing fence is
+ * hidden even while only some of its backticks have arrived.
+ */
+const cleanPartialScriptOutput = (partialOutput: string): string => {
+  let text = partialOutput.trimStart();
+  if (text.startsWith('`')) {
+    if (!text.includes('\n')) return '';
+    text = text.replace(/^```(?:bash|sh)?\s*/, '');
+  }
+  return text.replace(/\n?`{1,3}\s*$/, '').trimEnd();
+};
 
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Models do not report token counts mid-stream, so use the usual ~4 characters per token.
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export interface GenerationCallOptions {
+  /** When set, the reply is streamed and this is called with the cleaned text so far. */
+  onProgress?: (progress: StreamProgress) => void;
+  /** Aborts the request; the call then rejects with a "Cancelled" error. */
+  signal?: AbortSignal;
+  /** Reuses and stores replies in the response cache. Omit to always call the provider. */
+  cache?: {
+    /** The option id, or 'header' / 'footer'. */
+    partId: string;
+    /** Skips the lookup but still stores the fresh reply. */
+    forceRefresh?: boolean;
+    /** Called when the reply was served from the cache instead of the provider. */
+    onHit?: () => void;
+  };
+  /** Values for the option's parameters in `generateScriptSection`; missing ones use their defaults. */
+  parameterValues?: ParameterValues;
+  /** 'check' asks for the read-only compliance check instead of the hardening script. Defaults to 'harden'. */
+  scriptKind?: ScriptKind;
+}
+
+const callApi = async (prompt: string, { onProgress, signal, cache }: GenerationCallOptions = {}): Promise<string> => {
+    const provider = getProvider();
+    // The cache only saves calls, so a lookup that fails, e.g. because hashing is unavailable,
+    // counts as a miss and the reply is not stored.
+    let cacheKey: string | null = null;
+    if (cache && isResponseCacheAvailable()) {
+        try {
+            cacheKey = await computeCacheKey({ provider: provider.kind, model: provider.model, baseUrl: provider.baseUrl, prompt, optionId: cache.partId });
+            const cached = cache.forceRefresh ? null : await getCachedResponse(cacheKey);
+            if (cached !== null) {
+                cache.onHit?.();
+                return cached;
+            }
+        } catch (error) {
+            console.warn('Response cache unavailable:', error);
+            cacheKey = null;
+        }
+    }
 
     try {
-        const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        });
-        
-        const rawScript = response.text;
-        return cleanScriptOutput(rawScript);
+        let rawScript: string;
+        if (onProgress) {
+            let received = '';
+            rawScript = await provider.streamText(prompt, chunk => {
+                received += chunk;
+                onProgress({ text: cleanPartialScriptOutput(received), tokens: estimateTokens(received) });
+            }, signal);
+        } else {
+            rawScript = await provider.generateText(prompt, signal);
+        }
+        const script = cleanScriptOutput(rawScript);
+        if (cache && cacheKey && script) {
+            await putCachedResponse(cacheKey, cache.partId, script);
+        }
+        return script;
     } catch (error) {
-        throw handleApiError(error, "script generation");
+        throw handleApiError(error, "script generation", signal);
     }
 }
 
-export const generateScriptHeaderAndHelpers = async (): Promise<string> => {
+const CHECK_HEADER_PROMPT = `
+You are a senior Linux security expert. Your task is to generate the header and utility functions for a read-only bash compliance check script for Fedora Linux. The script reports whether hardening measures are in place and MUST NOT change anything on the system.
+The output MUST be only the bash script content.
+
+Generate the following components in order:
+1.  **Shebang and Strict Mode**: \`#!/bin/bash\` followed by \`set -euo pipefail\`.
+2.  **Color Variables**: Define ANSI color variables for GREEN, YELLOW, RED, BLUE, and NC (No Color).
+3.  **Arguments**: \`--list\` sets \`LIST_SECTIONS=true\`, \`--only <ids>\` and \`--skip <ids>\` (also \`--only=<ids>\`) store comma-separated section ids in \`ONLY_SECTIONS\` and \`SKIP_SECTIONS\`, and any other option prints a usage line and exits with status 2.
+4.  **Logging**: Create \`log_info\`, \`log_success\`, \`log_warning\` and \`log_error\`, which print a colored status indicator (e.g., [INFO]) and a timestamp to stdout. Do not write a log file.
+5.  **Results**: Keep the id of the running section in \`CURRENT_SECTION\` and each section's result in an associative array \`SECTION_RESULTS\`.
+    *   \`check_pass <message>\` prints a green "[PASS]" line and sets the section's result to PASS unless it is already FAIL.
+    *   \`check_fail <message>\` prints a red "[FAIL]" line and sets the result to FAIL.
+    *   \`check_na <message>\` prints a yellow "[N/A]" line for a check that does not apply or cannot be made, and leaves the result unchanged.
+6.  **Sections**: The generator wraps every section in a function \`section_<id>\`, registers it right after this header with \`register_section <id> "<label>"\`, calls \`check_section_options\` and then \`start_run\` once, and runs each section with \`run_section <id>\`.
+    *   Keep the ids in a \`SECTION_IDS\` array and the labels in an associative array \`SECTION_LABELS\`.
+    *   \`check_section_options\` prints an error to stderr and exits with status 2 on an unknown id in \`--only\` or \`--skip\`, and with \`--list\` prints each id and label and exits 0. It must not write to a log file.
+    *   \`run_section <id>\` logs "Skipping section" and returns if \`--only\` leaves the id out or \`--skip\` names it; otherwise it sets \`CURRENT_SECTION\`, sets the section's result to N/A, and calls \`section_<id>\`.
+7.  **Initial Execution**: Define it as a function \`start_run\`, which the generator calls after \`check_section_options\`. It warns (does not exit) when not running as root, since some checks then report N/A, and prints a welcome message stating that nothing will be changed.
+8.  **Read Only**: Do not define \`run_cmd\`, \`write_file\`, \`append_file\` or \`run_with_spinner\`, and do not create, change or delete any file, package, service or setting.
+`;
+
+export const generateScriptHeaderAndHelpers = async (options?: GenerationCallOptions): Promise<string> => {
+    if (options?.scriptKind === 'check') {
+        return callApi(CHECK_HEADER_PROMPT, options);
+    }
     const prompt = `
 You are a senior Linux security expert. Your task is to generate the header and utility functions for a bash hardening script for Fedora Linux.
 The output MUST be only the bash script content.
 
 Generate the following components in order:
-1.  **Shebang**: \`#!/bin/bash\`
+1.  **Shebang and Strict Mode**: \`#!/bin/bash\` followed by \`set -euo pipefail\`.
 2.  **Root Check**: A function that checks if the script is run as root. If not, it prints a colorized error message and exits.
 3.  **Color Variables**: Define ANSI color variables for GREEN, YELLOW, RED, BLUE, and NC (No Color).
 4.  **Logging Setup**:
     *   Define a \`LOG_FILE\` variable set to "/var/log/hardening.log".
     *   Create helper functions (\`log_info\`, \`log_success\`, \`log_warning\`, \`log_error\`) that prepend a colored status indicator (e.g., [INFO], [SUCCESS]) and a timestamp. These functions must print to stdout and also append a non-colored version to the \`LOG_FILE\`.
+    *   Define a \`LOG_JSON_FILE\` variable set to "/var/log/hardening.jsonl" and create \`_log_json <status> <step> [exit code] [stderr tail]\`, which appends one JSON object per line with exactly the keys \`timestamp\` (ISO 8601), \`section\` (\`$CURRENT_SECTION\`), \`step\`, \`status\`, \`exit_code\` (a number, or null when not given) and \`stderr_tail\`. Escape backslashes, quotes, tabs and line breaks in the strings and drop other control characters. The four log helpers also call it with the lowercase level (info, success, warning, error) as status and the message as step.
+    *   Create \`log_secret <message> <secret>\`, which prints "<message>: <secret>" like \`log_warning\` but writes "<message>: [REDACTED]" to both log files. Secrets such as generated passwords must only be shown with it.
+    *   Create \`_init_logs\`, which returns at once when \`DRY_RUN\` is true and otherwise creates both log files and \`chmod 600\`s them, so only root can read them. Call it in \`start_run\` right after the root check.
 5.  **Spinner for Tasks**:
     *   Create a function named \`run_with_spinner\` that executes a command in the background.
     *   It takes two arguments: a task description (string) and the command to execute (string).
     *   It must display an animated spinner, and after the command finishes, reprint the description with a colored "[DONE]" or "[FAILED]" status.
     *   All command output (stdout/stderr) should be redirected to the log file.
-6.  **Initial Execution**:
-    *   Call the root check function.
-    *   Use \`log_info\` to print a welcome message and state where logs will be stored.
+    *   It calls \`_log_json\` with status "done" and exit code 0, or "failed" with the exit code and the last 5 lines of the command's stderr.
+    *   When \`DRY_RUN\` is true, it must print the description and the command with a "[DRY-RUN]" prefix and return 0 without running it.
+6.  **Dry-Run Mode**:
+    *   Parse the arguments: \`--dry-run\` sets \`DRY_RUN=true\` (default \`false\`), \`--list\` sets \`LIST_SECTIONS=true\`, \`--only <ids>\` and \`--skip <ids>\` (also \`--only=<ids>\`) store comma-separated section ids in \`ONLY_SECTIONS\` and \`SKIP_SECTIONS\`, and any other option prints a usage line and exits with status 2. In dry-run mode or with \`--list\`, set \`LOG_FILE\` and \`LOG_JSON_FILE\` to /dev/null.
+    *   Create \`run_cmd\`, which runs its arguments as a command, or only prints them with a "[DRY-RUN]" prefix when \`DRY_RUN\` is true. Like \`run_with_spinner\`, it records the command (\`$*\`) with \`_log_json\` as "done" or "failed", still shows its stderr, and returns the command's exit status.
+    *   Create \`write_file\` and \`append_file\`, which take a path and write or append their stdin to it. In dry-run mode they print the target path and the content instead.
+7.  **Backups for Rollback**: A companion rollback script restores what this script changes, section by section, from \`BACKUP_DIR/manifest\`.
+    *   Set \`BACKUP_DIR\` to "/var/backups/fedora-hardening/<YYYYmmdd-HHMMSS>" and keep the current section id in \`CURRENT_SECTION\`.
+    *   Create \`begin_section <id> <label>\`, which sets \`CURRENT_SECTION\`, creates \`BACKUP_DIR\` and the symlink /var/backups/fedora-hardening/latest on first use, and appends the line \`section<TAB>id<TAB>label\` to the manifest.
+    *   Create \`backup_path <path>\`. The first time a section touches an absolute path, it copies an existing file with \`cp -a\` to \`BACKUP_DIR/files/<section id><path>\` and appends \`file<TAB>id<TAB>path\`, or appends \`created<TAB>id<TAB>path\` if the path does not exist yet.
+    *   Create \`record_service <unit>\`, which appends \`service<TAB>id<TAB>unit<TAB>is-enabled state<TAB>is-active state\` once per section and unit, using "unknown" for an empty state.
+    *   Create \`track_changes <command> [args...]\`, which calls \`record_service\` for the units of \`systemctl enable|disable|mask|unmask\`, \`backup_path\` for every argument of \`sed\`, \`cp\`, \`mv\`, \`install\`, \`ln\`, \`rm\`, \`touch\`, \`mkdir\`, \`chmod\`, \`chown\`, \`chgrp\` and \`grub2-mkconfig\`, and \`backup_path\` for /etc/passwd, /etc/shadow, /etc/group and /etc/gshadow before account commands such as \`useradd\`.
+    *   Outside dry-run mode, \`run_cmd\` and \`run_with_spinner\` call \`track_changes\` on their command before running it, and \`write_file\` and \`append_file\` call \`backup_path\` on their target. None of these record anything in dry-run mode or before the first \`begin_section\`.
+8.  **Sections**: The generator wraps every section in a function \`section_<id>\`, registers it right after this header with \`register_section <id> "<label>"\`, calls \`check_section_options\` and then \`start_run\` once, and runs each section with \`run_section <id>\`.
+    *   Keep the ids in a \`SECTION_IDS\` array and the labels in an associative array \`SECTION_LABELS\`.
+    *   \`check_section_options\` prints an error to stderr and exits with status 2 on an unknown id in \`--only\` or \`--skip\`, and with \`--list\` prints each id and label and exits 0. It must not write to a log file.
+    *   \`run_section <id>\` logs "Skipping section" and returns if \`--only\` leaves the id out or \`--skip\` names it; otherwise it calls \`begin_section\` with the id and label, then \`section_<id>\`.
+    *   \`run_section\` records each section in the JSON log: status "skipped" (with \`CURRENT_SECTION\` set to the id) when it is left out, otherwise "start" before and "end" after the section function, with the label as step. It clears \`CURRENT_SECTION\` after the "end" record.
+9.  **Initial Execution**: Define it as a function \`start_run\`, which the generator calls after \`check_section_options\`, so a mistyped section id or \`--list\` never creates a log file.
+    *   Call the root check function. In dry-run mode it only warns instead of exiting.
+    *   Then set an EXIT trap that records status "exit" with the script's exit status, so a run stopped by \`set -e\` is visible in the JSON log.
+    *   Use \`log_info\` to print a welcome message and state where logs will be stored, or that this is a dry run and nothing will be changed.
+`;
+    return callApi(prompt, options);
+};
+
+const buildCheckSectionPrompt = (option: HardeningOption, assignments: string): string => {
+    const parameterRule = assignments
+        ? `6.  **Parameters**: Right after the section banner, define these variables exactly as written. They are the values the hardening step configures, so check for them instead of literal values:\n\`\`\`bash\n${assignments}\n\`\`\`\n`
+        : '';
+    return `
+You are a senior Linux security expert. You are generating one modular section of a larger read-only bash compliance check script for Fedora Linux.
+Assume that helper functions (\`log_info\`, \`log_warning\`, \`check_pass\`, \`check_fail\`, \`check_na\`) and color variables are already defined and available.
+
+Your task is to generate ONLY the bash code that checks whether the following hardening measure is in place on the running system, without applying it:
+**${option.label}**: ${option.prompt}
+
+Your generated code for this section MUST adhere to these strict rules:
+1.  **Section Banner**: Start with a banner using the \`log_info\` function (e.g., \`log_info "--- Check: SSH Hardening ---"\`), preceded by a comment explaining what is checked.
+2.  **Test the Actual State**: Prefer the state the system is running with over configuration files, e.g. \`sshd -T\`, \`sysctl -n\`, \`getenforce\`, \`firewall-cmd --list-all\`, \`auditctl -l\`, \`systemctl is-active\` and \`findmnt\`.
+3.  **Report Every Check**: Report each setting with \`check_pass\` when it is in place, \`check_fail\` when it is not, or \`check_na\` when it does not apply or cannot be read (e.g., without root).
+4.  **Read Only**: Never change the system. No package installs, \`sed -i\`, \`systemctl\` start/enable, \`firewall-cmd\` changes, \`sysctl -w\`, file writes or redirects other than to /dev/null, and no \`run_cmd\`, \`write_file\`, \`append_file\` or \`run_with_spinner\`.
+5.  **Strict Mode Safe**: The script runs with \`set -euo pipefail\`. Run commands that may fail as conditions (\`if\`, \`||\`) so a failed check is reported instead of stopping the script, and use \`return 0\` to end the section early.
+${parameterRule}7.  **Output**: Provide ONLY the bash code for this section. Do not include shebangs, function definitions, \`run_section\` calls (the generator wraps the section in a function named after its id), or any other content.
 `;
-    return callApi(prompt);
 };
 
-export const generateScriptSection = async (option: HardeningOption): Promise<string> => {
+export const generateScriptSection = async (option: HardeningOption, options?: GenerationCallOptions): Promise<string> => {
+    const assignments = buildParameterAssignments(option, options?.parameterValues);
+    if (options?.scriptKind === 'check') {
+        return callApi(buildCheckSectionPrompt(option, assignments), options);
+    }
+    const parameterRule = assignments
+        ? `7.  **Parameters**: Right after the section banner, define these variables exactly as written, and use them wherever the task refers to them instead of literal values:\n\`\`\`bash\n${assignments}\n\`\`\`\n`
+        : '';
     const prompt = `
 You are a senior Linux security expert. You are generating one modular section of a larger bash hardening script for Fedora Linux.
-Assume that helper functions (\`log_info\`, \`log_success\`, \`run_with_spinner\`) and color variables are already defined and available.
+Assume that helper functions (\`log_info\`, \`log_success\`, \`run_with_spinner\`, \`run_cmd\`, \`write_file\`, \`append_file\`) and color variables are already defined and available.
 
 Your task is to generate ONLY the bash code for the following hardening measure:
 **${option.label}**: ${option.prompt}
@@ -100,12 +225,29 @@ Your generated code for this section MUST adhere to these strict rules:
     *   Add a multi-line comment before the section banner explaining the goal of this section.
     *   Before every command or complex operation, add a comment explaining the *'why'* behind the action.
 4.  **Idempotent & Non-Interactive**: All operations must be safe to re-run and require no user input (e.g., use \`-y\` flags).
-5.  **Output**: Provide ONLY the bash script content for this specific section. Do not include shebangs, function definitions, or any other content that doesn't belong in this specific module.
-`;
-    return callApi(prompt);
+5.  **Dry-Run Safe**: The script supports \`--dry-run\`. Every command that changes the system (\`dnf\`, \`sed -i\`, \`systemctl\`, \`firewall-cmd\`, \`cp\`, \`chmod\`, etc.) must be wrapped in \`run_cmd\` or \`run_with_spinner\`. Write files only by piping into \`write_file\` or \`append_file\` (e.g., \`echo "x" | append_file /etc/fstab\`), never with \`>\`, \`>>\` or \`tee\`. Read-only checks may run directly.
+6.  **Output**: Provide ONLY the bash script content for this specific section. Do not include shebangs, function definitions, \`begin_section\`/\`run_section\` calls (the generator wraps the section in a function named after its id), or any other content that doesn't belong in this specific module.
+${parameterRule}`;
+    return callApi(prompt, options);
 };
 
-export const generateScriptFooter = async (): Promise<string> => {
+const CHECK_FOOTER_PROMPT = `
+You are a senior Linux security expert. You are generating the final section (the footer) of a read-only bash compliance check script for Fedora Linux.
+Assume all checks have run and recorded their results in the associative array \`SECTION_RESULTS\` (PASS, FAIL or N/A per section id), with the ids in order in \`SECTION_IDS\` and their labels in \`SECTION_LABELS\`.
+
+Your task is to generate a concluding section for the script that does the following:
+1.  Prints a "Compliance Summary" heading with \`log_info\`.
+2.  For every id in \`SECTION_IDS\` that has a result (sections skipped with --only or --skip have none), prints one line with \`printf "%-5s %-24s %s\\n"\` of the result, the id and the label.
+3.  If any section failed, prints the number of failed options with \`log_error\` and exits with status 1; otherwise prints a success message with \`log_success\`.
+4.  Changes nothing on the system.
+
+The output MUST be ONLY the bash script content for this footer.
+`;
+
+export const generateScriptFooter = async (options?: GenerationCallOptions): Promise<string> => {
+    if (options?.scriptKind === 'check') {
+        return callApi(CHECK_FOOTER_PROMPT, options);
+    }
     const prompt = `
 You are a senior Linux security expert. You are generating the final section (the footer) of a bash hardening script for Fedora Linux.
 Assume all hardening steps have been completed.
@@ -113,38 +255,84 @@ Assume all hardening steps have been completed.
 Your task is to generate a concluding section for the script that does the following:
 1.  Uses the pre-defined \`log_success\` helper function.
 2.  Prints a prominent, decorative "Hardening Complete" message.
-3.  Reminds the user to check the log file at /var/log/hardening.log for details.
+3.  Reminds the user to check the log file at /var/log/hardening.log for details, and that /var/log/hardening.jsonl can be pasted into the app's Advanced tab for an exact analysis.
 4.  Strongly recommends rebooting the system for all changes to take effect.
+5.  If the \`BACKUP_DIR\` directory exists, tells the user that every changed file was backed up there and that \`sudo ./fedora_hardening_rollback.sh\` undoes the changes.
 
 The output MUST be ONLY the bash script content for this footer.
 `;
-    return callApi(prompt);
+    return callApi(prompt, options);
 }
 
 
-export const analyzeScriptOutput = async (
-  output: string
-): Promise<AnalysisResult> => {
-  if (!process.env.API_KEY) {
-    throw new Error("Configuration Error: The API_KEY environment variable is not set.");
-  }
+const FINDING_SEVERITIES: FindingSeverity[] = ['critical', 'high', 'medium', 'low', 'info'];
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
 
-  const fullPrompt = `
-You are a senior Linux security expert. A user has provided the output from a system hardening script they ran on their Fedora machine. Your task is to analyze this output and provide actionable feedback and a security score.
+/** Checks a finding of the analysis response. The empty option id the schema asks for becomes null. */
+const toFinding = (value: unknown): AnalysisFinding | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { severity, title, optionId, evidence, explanation, remediation } = value as Record<string, unknown>;
+  if (!FINDING_SEVERITIES.includes(severity as FindingSeverity) || typeof title !== 'string' || typeof optionId !== 'string'
+    || !isStringArray(evidence) || typeof explanation !== 'string' || !isStringArray(remediation)) {
+    return null;
+  }
+  return { severity: severity as FindingSeverity, title, optionId: optionId.trim() || null, evidence, explanation, remediation };
+};
 
-Analyze the following script output:
+/**
+ * Analyzes the output of a hardening run. Secrets in it are redacted before anything is sent.
+ * @param part - Set when `output` is one part of a longer output, see services/outputChunks.ts.
+ * @param banners - Maps the banner titles of text output to option ids (see `getSectionBanners`),
+ *   so the summary gives the model the ids its findings refer to.
+ */
+export const analyzeScriptOutput = async (
+  rawOutput: string,
+  signal?: AbortSignal,
+  part?: OutputPart,
+  banners: Map<string, string> = new Map()
+): Promise<AnalysisResult> => {
+  const provider = getProvider();
+  const output = redactSecrets(rawOutput);
+
+  // The JSON Lines log records every result, and the tagged lines of text output are counted
+  // locally, so the model explains the results instead of finding them.
+  const runLog = parseRunLog(output);
+  const parsedOutput = runLog ? null : parseScriptOutput(output, banners);
+  const outputDescription = runLog
+    ? `the structured run log (${RUN_LOG_FILE}) of a system hardening script they ran on their Fedora machine. The log records every section and command result, so these per-section results are exact. Do not assume any other successes or failures:
 ---
-${output}
+${formatRunLogSummary(summarizeRunLog(runLog.records))}
+---`
+    : parsedOutput
+    ? `the output of a system hardening script they ran on their Fedora machine. It was already split into sections and its tagged lines counted, so these per-section results are exact; each failing line is followed by the untagged output printed right before it. Only explain the failures and warnings listed:
+---
+${formatOutputSummary(parsedOutput)}
+---`
+    : `the output from a system hardening script they ran on their Fedora machine:
 ---
+${output}
+---`;
+
+  const partNote = part
+    ? `\nThis is part ${part.index} of ${part.total} of a long output, cut between sections. The other parts are analyzed separately, so only report what this part shows, and do not treat sections missing from it as failed.\n`
+    : '';
+
+  const fullPrompt = `
+You are a senior Linux security expert. A user has provided ${outputDescription}
+${partNote}
+Your task is to analyze this output and provide actionable feedback, a list of findings and a security score.
 
 Your analysis should:
 - Identify any errors, warnings, or unexpected messages (look for markers like [ERROR] or [FAILED]).
-- For each issue, explain the potential security risk or problem.
-- Provide a clear, step-by-step recommendation on how to fix the issue.
-- If the output looks good (primarily [SUCCESS] and [DONE] messages), confirm that the hardening steps appear to have been successful and suggest next steps for monitoring.
-- Format the analysis using markdown for readability (e.g., use headings, bullet points, and code blocks for commands).
+- Report each issue as one finding:
+    - \`severity\`: one of ${FINDING_SEVERITIES.join(', ')}.
+    - \`title\`: a short name for the issue.
+    - \`optionId\`: the id of the section the issue belongs to (such as \`ssh\` or \`logging\`, as shown in the results above), or an empty string if it belongs to none.
+    - \`evidence\`: the lines of the output that show the issue, quoted exactly.
+    - \`explanation\`: the potential security risk or problem.
+    - \`remediation\`: the shell commands that fix it, one command per entry, in the order to run them.
+- In \`analysisText\`, summarize the run. If the output looks good (primarily [SUCCESS] and [DONE] messages), confirm that the hardening steps appear to have been successful and suggest next steps for monitoring. Format it using markdown for readability (e.g., use headings and bullet points); the findings carry the details.
 
 Based on the successes and failures in the script output, calculate a "Security Score" from 0 to 100.
 - A score of 100 means all hardening tasks completed successfully with no errors.
@@ -153,76 +341,218 @@ Based on the successes and failures in the script output, calculate a "Security
 `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: fullPrompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            analysisText: {
-              type: Type.STRING,
-              description: "A detailed markdown-formatted analysis of the script output, identifying successes, failures, and recommendations.",
-            },
-            securityScore: {
-              type: Type.NUMBER,
-              description: "A numerical score from 0 to 100 representing the system's hardening level based on the script output.",
+    const jsonString = await provider.generateJson(fullPrompt, {
+      type: Type.OBJECT,
+      properties: {
+        analysisText: {
+          type: Type.STRING,
+          description: "A markdown-formatted summary of the script output: what succeeded, what failed, and what to do next.",
+        },
+        securityScore: {
+          type: Type.NUMBER,
+          description: "A numerical score from 0 to 100 representing the system's hardening level based on the script output.",
+        },
+        findings: {
+          type: Type.ARRAY,
+          description: "One entry per issue found in the output.",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              severity: { type: Type.STRING, description: `One of: ${FINDING_SEVERITIES.join(', ')}.` },
+              title: { type: Type.STRING, description: 'A short name for the issue.' },
+              optionId: { type: Type.STRING, description: 'The id of the section the issue belongs to, or an empty string.' },
+              evidence: { type: Type.ARRAY, description: 'Lines quoted exactly from the output.', items: { type: Type.STRING } },
+              explanation: { type: Type.STRING, description: 'The potential security risk or problem.' },
+              remediation: { type: Type.ARRAY, description: 'Shell commands that fix the issue, one per entry.', items: { type: Type.STRING } },
             },
+            required: ['severity', 'title', 'optionId', 'evidence', 'explanation', 'remediation'],
           },
-          required: ["analysisText", "securityScore"],
         },
       },
-    });
+      required: ["analysisText", "securityScore", "findings"],
+    }, signal);
     
-    const jsonString = response.text;
     let result: AnalysisResult;
 
     try {
         result = JSON.parse(jsonString);
     } catch(e) {
-        console.error("Failed to parse JSON response from Gemini:", jsonString);
-        throw new Error("Invalid Response: The analysis data from the API was malformed and could not be parsed.");
+        console.error("Failed to parse JSON analysis response:", jsonString);
+        throw new MalformedResponseError("output analysis", "analysis", { cause: e });
     }
-    
-    if (typeof result.securityScore !== 'number' || result.securityScore < 0 || result.securityScore > 100) {
-        result.securityScore = Math.max(0, Math.min(100, result.securityScore || 0));
+
+    const findings = Array.isArray(result?.findings) ? result.findings.map(toFinding) : null;
+    const invalidFields = [
+        ...(typeof result?.analysisText !== 'string' ? ['analysisText'] : []),
+        ...(typeof result?.securityScore !== 'number' || Number.isNaN(result.securityScore) ? ['securityScore'] : []),
+        ...(!findings || findings.includes(null) ? ['findings'] : []),
+    ];
+    if (invalidFields.length > 0) {
+        console.error("Analysis response does not match the schema:", jsonString);
+        throw new SchemaViolationError("output analysis", "analysis", invalidFields);
     }
+    
+    result.securityScore = Math.max(0, Math.min(100, result.securityScore));
+    result.findings = findings as AnalysisFinding[];
 
     return result;
   } catch (error) {
-    throw handleApiError(error, "output analysis");
+    throw handleApiError(error, "output analysis", signal);
   }
 };
 
+const formatSectionFailure = ({ option, evidence, content, parameterValues }: SectionFailure): string => {
+  const assignments = content ? '' : buildParameterAssignments(option, parameterValues);
+  return [
+    `### ${option.id} (${option.label})`,
+    `Task: ${option.prompt}`,
+    'Error output:',
+    ...(evidence.length > 0 ? evidence.map(line => `    ${redactSecrets(line)}`) : ['    (none was captured)']),
+    ...(content ? ['Code that ran:', '```bash', content, '```'] : []),
+    ...(assignments ? ['Define these parameters right after the banner, as the original section did:', '```bash', assignments, '```'] : []),
+  ].join('\n');
+};
+
+/**
+ * Writes a corrective section for each failed section and rewrites the prompts whose sections
+ * a better task description would have kept from failing.
+ * @param failures - The failed sections with the error output of the run.
+ */
+export const generateFixupScript = async (failures: SectionFailure[], signal?: AbortSignal): Promise<FixupResult> => {
+  const provider = getProvider();
+
+  const fullPrompt = `
+You are a senior Linux security expert. Sections of a bash hardening script for Fedora Linux failed when the user ran it, and you are writing a small fix-up script that repairs them.
+The fix-up script has the same header as the original, so helper functions (\`log_info\`, \`log_success\`, \`log_warning\`, \`log_error\`, \`run_with_spinner\`, \`run_cmd\`, \`write_file\`, \`append_file\`) and color variables are already defined and available.
+
+For each failed section you receive its id, its hardening task, the error output the run printed and, when available, the code that ran.
+
+Your task is to return a single JSON object:
+1.  **sections**: One entry per failed section, with its \`id\` and, as \`content\`, the bash of a corrective section that:
+    *   Starts with a comment naming the failure it fixes, then a banner using \`log_info\` (e.g., \`log_info "--- Fix-up: SSH Hardening ---"\`).
+    *   Removes the cause shown in the error output first (e.g., installs a missing package, loads a missing module or fixes a rejected configuration line), then completes the task.
+    *   Keeps to the rules of the original script: idempotent and non-interactive, every command that changes the system wrapped in \`run_cmd\` or \`run_with_spinner\`, files written only by piping into \`write_file\` or \`append_file\`, and no shebang, function definitions or \`begin_section\`/\`run_section\` calls.
+2.  **refinedPrompts**: For each section whose failure a more specific task would have avoided, the task rewritten so that a newly generated section handles the cause, with the section's \`id\`. Leave out the sections that failed for reasons the task cannot help with.
+3.  **summary**: A concise list of what each corrective section fixes.
+
+**Failed Sections:**
+---
+${failures.map(formatSectionFailure).join('\n\n')}
+---
+`;
+
+  try {
+    const jsonString = await provider.generateJson(fullPrompt, {
+      type: Type.OBJECT,
+      properties: {
+        sections: {
+          type: Type.ARRAY,
+          description: 'One corrective section per failed section.',
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.STRING, description: 'The id of the failed section, e.g. "ssh".' },
+              content: { type: Type.STRING, description: 'The bash of the corrective section.' },
+            },
+            required: ['id', 'content'],
+          },
+        },
+        refinedPrompts: {
+          type: Type.ARRAY,
+          description: 'The prompts rewritten to avoid the failures.',
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.STRING, description: 'The id of the section whose prompt was refined.' },
+              newPrompt: { type: Type.STRING, description: 'The new prompt text to use for future scripts.' },
+            },
+            required: ['id', 'newPrompt'],
+          },
+        },
+        summary: {
+          type: Type.ARRAY,
+          description: 'What each corrective section fixes.',
+          items: { type: Type.STRING },
+        },
+      },
+      required: ['sections', 'refinedPrompts', 'summary'],
+    }, signal);
+
+    let result: FixupResult;
+    try {
+        result = JSON.parse(jsonString);
+    } catch (e) {
+        console.error("Failed to parse JSON fix-up response:", jsonString);
+        throw new MalformedResponseError("fix-up script generation", "fix-up script", { cause: e });
+    }
+
+    const invalidFields = [
+        ...(!Array.isArray(result?.sections) || !result.sections.every(s => typeof s?.id === 'string' && typeof s?.content === 'string') ? ['sections'] : []),
+        ...(!Array.isArray(result?.refinedPrompts) || !result.refinedPrompts.every(p => typeof p?.id === 'string' && typeof p?.newPrompt === 'string')
+            ? ['refinedPrompts'] : []),
+    ];
+    if (invalidFields.length > 0) {
+        console.error("Fix-up response does not match the schema:", jsonString);
+        throw new SchemaViolationError("fix-up script generation", "fix-up script", invalidFields);
+    }
+
+    // Only the sections that failed are repaired, and only their prompts refined.
+    const failedIds = new Set(failures.map(failure => failure.option.id));
+    return {
+        sections: result.sections.filter(s => failedIds.has(s.id)).map(s => ({ id: s.id, content: cleanScriptOutput(s.content) })),
+        refinedPrompts: result.refinedPrompts.filter(p => failedIds.has(p.id)),
+        summary: isStringArray(result.summary) ? result.summary : [],
+    };
+  } catch (error) {
+    throw handleApiError(error, "fix-up script generation", signal);
+  }
+};
+
+const formatFinding = (finding: ShellcheckFinding): string => {
+  const section = finding.sectionId ? ` in section "${finding.sectionLabel}" [${finding.sectionId}]` : '';
+  return `- SC${finding.code} (${finding.level}) at line ${finding.line}, column ${finding.column}${section}: ${finding.message}`;
+};
+
+/**
+ * Fixes the issues reported by a real ShellCheck run and rewrites the prompts of the
+ * options whose sections produced them.
+ * @param findings - Verified `shellcheck` findings, already attributed to script sections.
+ */
 export const runShellcheckAndLearn = async (
   originalScript: string,
-  activeOptions: HardeningOption[]
+  activeOptions: HardeningOption[],
+  findings: ShellcheckFinding[],
+  signal?: AbortSignal
 ): Promise<ImprovementResult> => {
-  if (!process.env.API_KEY) {
-    throw new Error("Configuration Error: The API_KEY environment variable is not set.");
-  }
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const provider = getProvider();
 
-  const originalPrompts = activeOptions.map(opt => ({ id: opt.id, prompt: opt.prompt }));
+  // Only the prompts behind lines that ShellCheck flagged are candidates for refinement.
+  const flaggedIds = new Set(findings.map(f => f.sectionId));
+  const originalPrompts = activeOptions
+    .filter(opt => flaggedIds.has(opt.id))
+    .map(opt => ({ id: opt.id, prompt: opt.prompt }));
 
   const fullPrompt = `
 You are an expert system that learns from its own mistakes to improve its instructions.
 You will receive:
 1. An original bash script.
-2. The list of original high-level prompts (with their IDs) that were used to generate the script.
+2. The findings reported by running the real ShellCheck static analysis tool on that script, each with its SC code, line, column and the script section it belongs to.
+3. The original high-level prompts (with their IDs) that generated the sections containing those findings.
 
-Your task is to perform a four-step process and return the result as a single JSON object:
-1.  **Analyze**: Act as the ShellCheck static analysis tool. Thoroughly review the script and identify all potential bugs, style issues, and portability problems.
-2.  **Correct**: Based on your own analysis, rewrite the original script to fix all identified issues. The corrected script must maintain the original's intent, functionality, and output style.
-3.  **Refine**: Analyze your own findings. For each original prompt that contributed to an error, rewrite it to be more specific and robust. The new prompt should guide an AI to generate code that avoids the identified issue in the future. Only return prompts that you have actually changed.
-4.  **Summarize**: Create a concise list summarizing the main categories of corrections you made (e.g., 'Quoted variables to prevent word splitting', 'Used \`[[ ... ]]\` instead of \`[ ... ]\` for modern syntax', 'Removed deprecated backticks').
+Your task is to perform a three-step process and return the result as a single JSON object:
+1.  **Correct**: Rewrite the original script to fix every listed finding. Fix only these verified findings; do not invent other issues. The corrected script must maintain the original's intent, functionality, and output style.
+2.  **Refine**: For each original prompt whose section contains a finding, rewrite it to be more specific and robust. The new prompt should guide an AI to generate code that avoids the reported issue in the future. Only return prompts that you have actually changed.
+3.  **Summarize**: Create a concise list summarizing the main categories of corrections you made, citing the SC codes (e.g., 'SC2086: Quoted variables to prevent word splitting').
 
 Here is the data:
 **Original Script:**
 ---
 ${originalScript}
 ---
+**ShellCheck Findings:**
+---
+${findings.map(formatFinding).join('\n')}
+---
 **Original Prompts:**
 ---
 ${JSON.stringify(originalPrompts)}
@@ -232,67 +562,70 @@ Your response MUST be a single, valid JSON object that adheres to the following
 `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: fullPrompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            correctedScript: {
-              type: Type.STRING,
-              description: 'The full, corrected bash script, with all identified issues addressed.',
-            },
-            refinedPrompts: {
-              type: Type.ARRAY,
-              description: 'A list of prompts that were identified as needing improvement and have been rewritten.',
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: {
-                    type: Type.STRING,
-                    description: 'The unique identifier (e.g., "ssh", "firewall") of the prompt that was refined.',
-                  },
-                  newPrompt: {
-                    type: Type.STRING,
-                    description: 'The new, improved prompt text that should be used in the future to avoid the original issue.',
-                  },
-                },
-                required: ['id', 'newPrompt'],
+    const jsonString = await provider.generateJson(fullPrompt, {
+      type: Type.OBJECT,
+      properties: {
+        correctedScript: {
+          type: Type.STRING,
+          description: 'The full, corrected bash script, with all identified issues addressed.',
+        },
+        refinedPrompts: {
+          type: Type.ARRAY,
+          description: 'A list of prompts that were identified as needing improvement and have been rewritten.',
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: {
+                type: Type.STRING,
+                description: 'The unique identifier (e.g., "ssh", "firewall") of the prompt that was refined.',
               },
-            },
-            improvementSummary: {
-              type: Type.ARRAY,
-              description: 'A list of human-readable strings summarizing the main corrections made to the script.',
-              items: {
+              newPrompt: {
                 type: Type.STRING,
+                description: 'The new, improved prompt text that should be used in the future to avoid the original issue.',
               },
             },
+            required: ['id', 'newPrompt'],
+          },
+        },
+        improvementSummary: {
+          type: Type.ARRAY,
+          description: 'A list of human-readable strings summarizing the main corrections made to the script.',
+          items: {
+            type: Type.STRING,
           },
-          required: ['correctedScript', 'refinedPrompts', 'improvementSummary'],
         },
       },
-    });
+      required: ['correctedScript', 'refinedPrompts', 'improvementSummary'],
+    }, signal);
 
-    const jsonString = response.text;
     let result: ImprovementResult;
     try {
         result = JSON.parse(jsonString);
-        // Clean the script part of the JSON response
-        result.correctedScript = cleanScriptOutput(result.correctedScript);
-         // Ensure summary is an array
-        if (!Array.isArray(result.improvementSummary)) {
-            result.improvementSummary = [];
-        }
     } catch (e) {
-        console.error("Failed to parse JSON response from Gemini for improvement:", jsonString);
-        throw new Error("Invalid Response: The script improvement data from the API was malformed and could not be parsed.");
+        console.error("Failed to parse JSON improvement response:", jsonString);
+        throw new MalformedResponseError("script improvement", "script improvement", { cause: e });
+    }
+
+    const invalidFields = [
+        ...(typeof result?.correctedScript !== 'string' ? ['correctedScript'] : []),
+        ...(!Array.isArray(result?.refinedPrompts) || !result.refinedPrompts.every(p => typeof p?.id === 'string' && typeof p?.newPrompt === 'string')
+            ? ['refinedPrompts'] : []),
+    ];
+    if (invalidFields.length > 0) {
+        console.error("Improvement response does not match the schema:", jsonString);
+        throw new SchemaViolationError("script improvement", "script improvement", invalidFields);
+    }
+
+    // Clean the script part of the JSON response
+    result.correctedScript = cleanScriptOutput(result.correctedScript);
+    // Ensure summary is an array
+    if (!Array.isArray(result.improvementSummary)) {
+        result.improvementSummary = [];
     }
     
     return result;
 
   } catch (error) {
-    throw handleApiError(error, "script improvement");
+    throw handleApiError(error, "script improvement", signal);
   }
 };
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { EMPTY_SCRIPT, renderScript, getScriptLineRanges, moveScriptSection, removeScriptSection, extractSectionContents, findChangedSections } from './generatedScript';
+import type { GeneratedScript, HardeningOption, ScriptSection } from '../types';
+
+const section = (id: string, content: string): ScriptSection => ({
+  option: { id, label: `${id} label`, description: '', prompt: '' } as HardeningOption,
+  promptVersion: 0,
+  status: 'done',
+  content,
+  meta: { source: 'template', cached: false },
+});
+
+const SCRIPT: GeneratedScript = {
+  kind: 'harden',
+  header: '#!/bin/bash\n# Header',
+  sections: [section('alpha', 'echo alpha'), section('beta', 'echo beta\necho again')],
+  footer: '# Footer',
+  safeguards: { preamble: '# Preamble', epilogue: '' },
+};
+
+const ids = (script: GeneratedScript) => script.sections.map(s => s.option.id);
+
+describe('generatedScript', () => {
+  it('should render the header, section list, pre-flight checks, safeguards and wrapped sections in order', () => {
+    const bash = renderScript(SCRIPT);
+    const positions = ['# Header', 'register_section alpha', 'check_section_options\nstart_run', '# Pre-flight Checks', '# Preamble', 'section_alpha() {', 'section_beta() {', '# Footer']
+      .map(text => bash.indexOf(text));
+    expect(positions.every(position => position >= 0)).toBe(true);
+    expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+    expect(renderScript({ ...SCRIPT, kind: 'check' })).not.toContain('# Pre-flight Checks');
+    expect(renderScript(EMPTY_SCRIPT)).toBe('');
+  });
+
+  it('should report the line ranges of the rendered parts', () => {
+    const lines = renderScript(SCRIPT).split('\n');
+    const beta = getScriptLineRanges(SCRIPT).find(range => range.id === 'beta')!;
+    expect(lines[beta.startLine - 1]).toBe('# === Section: beta ===');
+    expect(lines[beta.endLine - 1]).toBe('run_section beta');
+  });
+
+  it('should move sections within the list and stop at either end', () => {
+    expect(ids(moveScriptSection(SCRIPT, 'beta', -1))).toEqual(['beta', 'alpha']);
+    expect(moveScriptSection(SCRIPT, 'alpha', -1)).toBe(SCRIPT);
+    expect(moveScriptSection(SCRIPT, 'missing', 1)).toBe(SCRIPT);
+    expect(ids(removeScriptSection(SCRIPT, 'alpha'))).toEqual(['beta']);
+  });
+
+  it('should read section contents back out of rendered bash', () => {
+    const contents = extractSectionContents(renderScript(SCRIPT));
+    expect([...contents]).toEqual([['alpha', 'echo alpha'], ['beta', 'echo beta\necho again']]);
+    expect(extractSectionContents('section_alpha() {\necho alpha\n').size).toBe(0);
+  });
+
+  it('should find only the sections whose content changed', () => {
+    const script = { ...SCRIPT, sections: [...SCRIPT.sections, section('notes', '# comments only\n')] };
+    const fixed = renderScript(script).replace('echo beta', 'echo "beta"');
+    expect(findChangedSections(script, fixed)).toEqual([expect.objectContaining({ content: 'echo "beta"\necho again' })]);
+    expect(findChangedSections(script, '#!/bin/bash')).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+
+import type { GeneratedScript, ScriptSection } from '../types';
+import { assembleScript, buildSectionRegistry, getSectionLineRanges, wrapSection } from './scriptAssembler';
+import { buildPreflightChecks } from './preflight';
+import type { ScriptPart, SectionLineRange } from './scriptAssembler';
+
+// The bash shown, downloaded and checked is always rendered from the `GeneratedScript` model,
+// so a single section can be regenerated, removed or moved without touching the rest.
+
+export const EMPTY_SCRIPT: GeneratedScript = {
+  kind: 'harden',
+  header: '',
+  sections: [],
+  footer: '',
+  safeguards: { preamble: '', epilogue: '' },
+};
+
+// Every part in script order. The section list and the pre-flight checks call header helpers,
+// so they wait for a header. A check script changes nothing, so it has no pre-flight checks.
+const getScriptParts = (script: GeneratedScript): ScriptPart[] => [
+  { id: 'header', label: 'Script header', content: script.header },
+  { id: 'sectionRegistry', label: 'Section list', content: script.header ? buildSectionRegistry(script.sections.map(s => s.option)) : '' },
+  {
+    id: 'preflight',
+    label: 'Pre-flight checks',
+    content: script.header && script.kind === 'harden' && script.sections.length > 0 ? buildPreflightChecks(script.sections.map(s => s.option)) : '',
+  },
+  { id: 'safeguardPreamble', label: 'Lockout safeguards', content: script.safeguards.preamble },
+  ...script.sections.map(s => ({ id: s.option.id, label: s.option.label, content: wrapSection(s.option, s.content) })),
+  { id: 'safeguardEpilogue', label: 'Lockout safeguards', content: script.safeguards.epilogue },
+  { id: 'footer', label: 'Script footer', content: script.footer },
+];
+
+/** Renders the model to bash. Streaming sections contribute their text so far. */
+export const renderScript = (script: GeneratedScript): string => {
+  const parts = getScriptParts(script);
+  const middle = parts.slice(1, -1).map(part => part.content).filter(Boolean);
+  return assembleScript(script.header, middle, script.footer);
+};
+
+/** Which lines of `renderScript` output each part occupies. */
+export const getScriptLineRanges = (script: GeneratedScript): SectionLineRange[] =>
+  getSectionLineRanges(getScriptParts(script));
+
+export const updateScriptSection = (script: GeneratedScript, id: string, patch: Partial<ScriptSection>): GeneratedScript => ({
+  ...script,
+  sections: script.sections.map(s => s.option.id === id ? { ...s, ...patch } : s),
+});
+
+export const removeScriptSection = (script: GeneratedScript, id: string): GeneratedScript => ({
+  ...script,
+  sections: script.sections.filter(s => s.option.id !== id),
+});
+
+/** Moves a section up (negative offset) or down, stopping at either end. */
+export const moveScriptSection = (script: GeneratedScript, id: string, offset: number): GeneratedScript => {
+  const from = script.sections.findIndex(s => s.option.id === id);
+  const to = Math.min(Math.max(from + offset, 0), script.sections.length - 1);
+  if (from === -1 || from === to) return script;
+  const sections = [...script.sections];
+  const [moved] = sections.splice(from, 1);
+  sections.splice(to, 0, moved);
+  return { ...script, sections };
+};
+
+/**
+ * Reads each section's content back out of rendered bash, e.g. a script corrected by
+ * ShellCheck & Learn, by the function `wrapSection` put around it. Sections whose function
+ * can no longer be found are left out.
+ */
+export const extractSectionContents = (bash: string): Map<string, string> => {
+  const contents = new Map<string, string>();
+  const lines = bash.split('\n');
+  lines.forEach((line, index) => {
+    const id = /^section_(\w+)\(\) \{$/.exec(line)?.[1];
+    if (!id) return;
+    const end = lines.indexOf(`run_section ${id}`, index);
+    if (end === -1 || lines[end - 1] !== '}') return;
+    contents.set(id, lines.slice(index + 1, end - 1).join('\n'));
+  });
+  return contents;
+};
+
+/**
+ * The sections whose content differs in `bash`, with that content. Sections missing from
+ * `bash` are treated as unchanged.
+ */
+export const findChangedSections = (script: GeneratedScript, bash: string): ScriptSection[] => {
+  const contents = extractSectionContents(bash);
+  return script.sections.flatMap(section => {
+    const content = contents.get(section.option.id);
+    // Compared wrapped, so the no-op `wrapSection` adds to comment-only sections is no change.
+    return content !== undefined && wrapSection(section.option, content) !== wrapSection(section.option, section.content)
+      ? [{ ...section, content }]
+      : [];
+  });
+};
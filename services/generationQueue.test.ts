@@ -0,0 +1,117 @@
+import { jest, describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { withRetry, runWithConcurrency, isRetryableError } from './generationQueue';
+import { AuthenticationError, CancelledError, NetworkError, QuotaError, TimeoutError } from './errors';
+
+const noDelay = { retries: 3, baseDelayMs: 0 };
+
+describe('generationQueue', () => {
+  describe('isRetryableError', () => {
+    it('should treat rate limit, network and timeout errors as retryable', () => {
+      expect(isRetryableError(new QuotaError('script generation'))).toBe(true);
+      expect(isRetryableError(new NetworkError('script generation'))).toBe(true);
+      expect(isRetryableError(new TimeoutError('script generation'))).toBe(true);
+    });
+
+    it('should not retry authentication, cancelled or untyped errors', () => {
+      expect(isRetryableError(new AuthenticationError('script generation'))).toBe(false);
+      expect(isRetryableError(new CancelledError())).toBe(false);
+      expect(isRetryableError(new Error('Rate Limit Exceeded: Too many requests sent.'))).toBe(false);
+      expect(isRetryableError('rate limit')).toBe(false);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry retryable failures until the task succeeds', async () => {
+      const task = jest.fn<() => Promise<string>>()
+        .mockRejectedValueOnce(new QuotaError('script generation'))
+        .mockRejectedValueOnce(new NetworkError('script generation'))
+        .mockResolvedValue('ok');
+      const onRetry = jest.fn();
+
+      await expect(withRetry(task, { ...noDelay, onRetry })).resolves.toBe('ok');
+      expect(task).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      const task = jest.fn<() => Promise<string>>().mockRejectedValue(new NetworkError('script generation'));
+      await expect(withRetry(task, noDelay)).rejects.toThrow('Network Error');
+      expect(task).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not retry non-retryable failures', async () => {
+      const task = jest.fn<() => Promise<string>>().mockRejectedValue(new AuthenticationError('script generation'));
+      await expect(withRetry(task, noDelay)).rejects.toThrow('Authentication Error');
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait at least as long as the provider asks', async () => {
+      const task = jest.fn<() => Promise<string>>()
+        .mockRejectedValueOnce(new QuotaError('script generation', { retryAfterMs: 20 }))
+        .mockResolvedValue('ok');
+      const onRetry = jest.fn();
+
+      await expect(withRetry(task, { ...noDelay, onRetry })).resolves.toBe('ok');
+      expect(onRetry).toHaveBeenCalledWith(1, 20, expect.any(QuotaError));
+    });
+
+    it('should stop waiting out the backoff once the signal fires', async () => {
+      const controller = new AbortController();
+      const task = jest.fn<() => Promise<string>>().mockRejectedValue(new NetworkError('script generation'));
+      const onRetry = jest.fn(() => controller.abort());
+
+      await expect(withRetry(task, { retries: 3, baseDelayMs: 60_000, onRetry, signal: controller.signal }))
+        .rejects.toThrow('Cancelled');
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('runWithConcurrency', () => {
+    it('should never run more tasks at once than the limit', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const tasks = Array.from({ length: 6 }, (_, i) => async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        return i;
+      });
+
+      await runWithConcurrency(tasks, 2);
+      expect(maxRunning).toBe(2);
+    });
+
+    it('should return results in task order and keep going after a failure', async () => {
+      const tasks = [
+        () => new Promise<string>(resolve => setTimeout(() => resolve('slow'), 10)),
+        () => Promise.reject(new Error('boom')),
+        () => Promise.resolve('fast'),
+      ];
+
+      const results = await runWithConcurrency(tasks, 3);
+      expect(results[0]).toEqual({ status: 'fulfilled', value: 'slow' });
+      expect(results[1].status).toBe('rejected');
+      expect(results[2]).toEqual({ status: 'fulfilled', value: 'fast' });
+    });
+
+    it('should skip tasks that have not started once the signal fires', async () => {
+      const controller = new AbortController();
+      const tasks = [
+        async () => { controller.abort(); return 'first'; },
+        jest.fn(async () => 'second'),
+      ];
+
+      const results = await runWithConcurrency(tasks, 1, controller.signal);
+      expect(results[0]).toEqual({ status: 'fulfilled', value: 'first' });
+      expect(results[1].status).toBe('rejected');
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(CancelledError);
+      expect(tasks[1]).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+
+import { CancelledError, LlmError } from './errors';
+
+export interface RetryOptions {
+  /** Additional attempts after the first one. */
+  retries: number;
+  /** Delay before the first retry; doubled for every further attempt. A longer retry-after hint from the provider wins. */
+  baseDelayMs: number;
+  /** Called before each retry, e.g. to surface "retrying in 2s" in the UI. */
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+  /** Stops further attempts, including one that is waiting out its backoff delay. */
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 1000,
+};
+
+/**
+ * Rate-limit, network and timeout failures are transient; everything else (bad key,
+ * malformed response...) will fail the same way again, so retrying would only waste quota.
+ */
+export const isRetryableError = (error: unknown): boolean => error instanceof LlmError && error.retryable;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new CancelledError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `task`, retrying retryable failures with exponential backoff.
+ * @throws The last error once retries are exhausted, or the first non-retryable error.
+ */
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY_OPTIONS): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) {
+      throw new CancelledError();
+    }
+    try {
+      return await task();
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new CancelledError();
+      }
+      if (attempt >= options.retries || !isRetryableError(error)) {
+        throw error;
+      }
+      const delayMs = Math.max(options.baseDelayMs * 2 ** attempt, (error as LlmError).retryAfterMs ?? 0);
+      options.onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
+
+/**
+ * Runs the tasks with at most `limit` in flight at once. Results are returned in task
+ * order regardless of completion order, and one failure does not stop the others.
+ * Once `signal` fires, tasks that have not started yet are rejected without running.
+ */
+export const runWithConcurrency = async <T>(
+  tasks: (() => Promise<T>)[],
+  limit: number,
+  signal?: AbortSignal
+): Promise<PromiseSettledResult<T>[]> => {
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < tasks.length) {
+      const index = nextIndex++;
+      if (signal?.aborted) {
+        results[index] = { status: 'rejected', reason: new CancelledError() };
+        continue;
+      }
+      try {
+        results[index] = { status: 'fulfilled', value: await tasks[index]() };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, tasks.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+};
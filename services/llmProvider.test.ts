@@ -0,0 +1,183 @@
+/**
+ * @jest-environment node
+ */
+// The docblock has to come first for Jest to honour it; the requests use Node's fetch classes.
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+
+import { Type } from '@google/genai';
+import { getProvider, getProviderConfig, setProviderConfig } from './llmProvider';
+import type { ProviderConfig } from './llmProvider';
+import { toLlmError, HttpStatusError, SafetyBlockedError } from './errors';
+
+const STORAGE_KEY = 'fedora-hardening.provider';
+
+const OPENAI: ProviderConfig = { kind: 'openai-compatible', model: 'llama3.1', baseUrl: 'http://gateway.local/v1/', apiKey: 'sk-test' };
+
+const completion = (content: string, finishReason = 'stop') =>
+  new Response(JSON.stringify({ choices: [{ message: { content }, finish_reason: finishReason }] }), { status: 200 });
+
+const delta = (content: string, finishReason: string | null = null) =>
+  `data: ${JSON.stringify({ choices: [{ delta: { content }, finish_reason: finishReason }] })}`;
+
+// A streamed reply delivered in the given pieces, which need not end at line breaks.
+const stream = (pieces: string[]) => new Response(new ReadableStream({
+  start(controller) {
+    const encoder = new TextEncoder();
+    pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+    controller.close();
+  },
+}), { status: 200 });
+
+// An in-memory localStorage; the node environment has none.
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+describe('llmProvider', () => {
+  const originalFetch = globalThis.fetch;
+  let fetchMock: jest.Mock<typeof fetch>;
+
+  beforeEach(() => {
+    fetchMock = jest.fn<typeof fetch>();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    setProviderConfig(null);
+    delete (globalThis as { localStorage?: unknown }).localStorage;
+  });
+
+  const requestOf = (call = 0) => {
+    const [url, init] = fetchMock.mock.calls[call];
+    return { url, init: init!, body: JSON.parse(init!.body as string) };
+  };
+
+  describe('OpenAiCompatibleProvider', () => {
+    it('should post the prompt to /chat/completions with the model and a bearer token', async () => {
+      fetchMock.mockImplementation(async () => completion('echo hardened'));
+      setProviderConfig(OPENAI);
+
+      expect(await getProvider().generateText('Harden SSH')).toBe('echo hardened');
+      const { url, init, body } = requestOf();
+      expect(url).toBe('http://gateway.local/v1/chat/completions');
+      expect(init.method).toBe('POST');
+      expect(init.headers).toEqual({ 'Content-Type': 'application/json', Authorization: 'Bearer sk-test' });
+      expect(body).toEqual({ model: 'llama3.1', messages: [{ role: 'user', content: 'Harden SSH' }] });
+
+      // Local servers usually need no key, and none is sent.
+      setProviderConfig({ ...OPENAI, apiKey: undefined });
+      await getProvider().generateText('Harden SSH');
+      expect(requestOf(1).init.headers).toEqual({ 'Content-Type': 'application/json' });
+    });
+
+    it('should turn an error status into an HttpStatusError that classifies by status', async () => {
+      setProviderConfig(OPENAI);
+      fetchMock.mockResolvedValueOnce(new Response('rate limited', { status: 429, headers: { 'Retry-After': '7' } }));
+      const limited = await getProvider().generateText('Harden SSH').catch(error => error);
+      expect(limited).toBeInstanceOf(HttpStatusError);
+      expect(limited).toMatchObject({ status: 429, retryAfterMs: 7000, message: 'HTTP 429 from http://gateway.local/v1/: rate limited' });
+      expect(toLlmError(limited, 'analysis')).toMatchObject({ code: 'quota', retryAfterMs: 7000 });
+
+      fetchMock.mockResolvedValueOnce(new Response('invalid key', { status: 401 }));
+      const rejected = await getProvider().generateText('Harden SSH').catch(error => error);
+      expect(toLlmError(rejected, 'analysis').code).toBe('auth');
+    });
+
+    it('should report a reply withheld by a content filter as blocked', async () => {
+      fetchMock.mockResolvedValue(completion('', 'content_filter'));
+      setProviderConfig(OPENAI);
+      await expect(getProvider().generateText('Harden SSH')).rejects.toBeInstanceOf(SafetyBlockedError);
+    });
+
+    it('should ask for a JSON object and spell out the schema as lowercase JSON Schema', async () => {
+      fetchMock.mockResolvedValue(completion('{"score":90,"tags":[]}'));
+      setProviderConfig(OPENAI);
+
+      const json = await getProvider().generateJson('Score the run.', {
+        type: Type.OBJECT,
+        properties: {
+          score: { type: Type.NUMBER, description: 'From 0 to 100.' },
+          tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ['score'],
+      });
+
+      expect(json).toBe('{"score":90,"tags":[]}');
+      const { body } = requestOf();
+      expect(body.response_format).toEqual({ type: 'json_object' });
+      const schema = {
+        type: 'object',
+        properties: {
+          score: { type: 'number', description: 'From 0 to 100.' },
+          tags: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['score'],
+      };
+      expect(body.messages[0].content).toBe(`Score the run.\n\nRespond with a single JSON object matching this JSON Schema:\n${JSON.stringify(schema, null, 2)}`);
+    });
+  });
+
+  describe('OpenAiCompatibleProvider.streamText', () => {
+    it('should report each delta as it arrives, also when an event is split across reads', async () => {
+      const first = delta('log_info "--- SSH');
+      fetchMock.mockResolvedValue(stream([first.slice(0, 20), `${first.slice(20)}\n\n${delta(' ---"')}\n\n`, 'data: [DONE]\n\n']));
+      setProviderConfig(OPENAI);
+      const chunks: string[] = [];
+
+      expect(await getProvider().streamText('Harden SSH', chunk => chunks.push(chunk))).toBe('log_info "--- SSH ---"');
+      expect(chunks).toEqual(['log_info "--- SSH', ' ---"']);
+      expect(requestOf().body.stream).toBe(true);
+    });
+
+    it('should keep the last event when the stream ends without a line break', async () => {
+      fetchMock.mockResolvedValue(stream([`${delta('echo ')}\n\n`, delta('done', 'stop')]));
+      setProviderConfig(OPENAI);
+      const chunks: string[] = [];
+
+      expect(await getProvider().streamText('Harden SSH', chunk => chunks.push(chunk))).toBe('echo done');
+      expect(chunks).toEqual(['echo ', 'done']);
+    });
+
+    it('should report a stream stopped by a content filter as blocked', async () => {
+      fetchMock.mockResolvedValue(stream([`${delta('echo ')}\n\n`, `${delta('', 'content_filter')}\n\n`, 'data: [DONE]\n\n']));
+      setProviderConfig(OPENAI);
+      await expect(getProvider().streamText('Harden SSH', () => {})).rejects.toBeInstanceOf(SafetyBlockedError);
+    });
+  });
+
+  describe('setProviderConfig', () => {
+    it('should keep the API key in memory only unless it is to be remembered', () => {
+      const storage = createStorage();
+      Object.assign(globalThis, { localStorage: storage });
+
+      setProviderConfig(OPENAI);
+      expect(getProviderConfig()).toEqual(OPENAI);
+      expect(JSON.parse(storage.getItem(STORAGE_KEY)!)).toEqual({ kind: 'openai-compatible', model: 'llama3.1', baseUrl: 'http://gateway.local/v1/' });
+
+      setProviderConfig({ ...OPENAI, rememberApiKey: true });
+      expect(JSON.parse(storage.getItem(STORAGE_KEY)!)).toEqual({ ...OPENAI, rememberApiKey: true });
+
+      setProviderConfig(null);
+      expect(storage.getItem(STORAGE_KEY)).toBeNull();
+      expect(getProviderConfig().kind).toBe('gemini');
+    });
+
+    it('should restore the stored choice and drop a key that was not to be remembered', async () => {
+      const storage = createStorage();
+      storage.setItem(STORAGE_KEY, JSON.stringify(OPENAI));
+      Object.assign(globalThis, { localStorage: storage });
+
+      await jest.isolateModulesAsync(async () => {
+        const { getProviderConfig: getStoredConfig } = await import('./llmProvider');
+        expect(getStoredConfig()).toEqual({ kind: 'openai-compatible', model: 'llama3.1', baseUrl: 'http://gateway.local/v1/' });
+      });
+      expect(JSON.parse(storage.getItem(STORAGE_KEY)!).apiKey).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import type { GenerateContentResponse } from "@google/genai";
+import { ConfigurationError, HttpStatusError, SafetyBlockedError, parseRetryAfterHeader } from './errors';
+
+export type ProviderKind = 'gemini' | 'openai-compatible';
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  model: string;
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama. */
+  baseUrl?: string;
+  /** Overrides the key baked in at build time. Optional for most local servers. */
+  apiKey?: string;
+  /** Keeps `apiKey` in localStorage across reloads. Otherwise the key is only held in memory. */
+  rememberApiKey?: boolean;
+}
+
+/**
+ * A provider-neutral description of a structured response. It mirrors the Gemini
+ * `responseSchema` shape so existing schemas can be passed through unchanged.
+ */
+export interface ResponseSchema {
+  type: Type;
+  description?: string;
+  properties?: Record<string, ResponseSchema>;
+  items?: ResponseSchema;
+  required?: string[];
+}
+
+export interface LlmProvider {
+  readonly kind: ProviderKind;
+  readonly model: string;
+  /** The server an OpenAI-compatible provider talks to; Gemini has none. */
+  readonly baseUrl?: string;
+  /** Returns the raw text of the model's reply. Every method stops waiting once `signal` fires. */
+  generateText(prompt: string, signal?: AbortSignal): Promise<string>;
+  /** Like `generateText`, but reports each piece of the reply through `onChunk` as it arrives. */
+  streamText(prompt: string, onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<string>;
+  /** Returns the raw JSON text of a reply constrained to the given schema. */
+  generateJson(prompt: string, schema: ResponseSchema, signal?: AbortSignal): Promise<string>;
+}
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+const STORAGE_KEY = 'fedora-hardening.provider';
+
+// --- Gemini ---
+
+// Finish reasons that mean the reply was withheld by a content filter.
+const BLOCKED_FINISH_REASONS = new Set<string>(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']);
+
+/**
+ * A blocked reply comes back as a successful response without text, so it has to be
+ * detected from the prompt feedback or the finish reason.
+ */
+const textOrThrowIfBlocked = (response: GenerateContentResponse): string => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.has(finishReason))) {
+    throw new SafetyBlockedError('');
+  }
+  return response.text ?? '';
+};
+
+class GeminiProvider implements LlmProvider {
+  readonly kind = 'gemini' as const;
+
+  constructor(readonly model: string, private readonly apiKey: string) {}
+
+  async generateText(prompt: string, signal?: AbortSignal): Promise<string> {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+    const response = await ai.models.generateContent({
+      model: this.model,
+      contents: prompt,
+      config: { abortSignal: signal },
+    });
+    return textOrThrowIfBlocked(response);
+  }
+
+  async streamText(prompt: string, onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<string> {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+    const stream = await ai.models.generateContentStream({
+      model: this.model,
+      contents: prompt,
+      config: { abortSignal: signal },
+    });
+
+    let text = '';
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      const piece = textOrThrowIfBlocked(chunk);
+      if (piece) {
+        text += piece;
+        onChunk(piece);
+      }
+    }
+    return text;
+  }
+
+  async generateJson(prompt: string, schema: ResponseSchema, signal?: AbortSignal): Promise<string> {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+    const response = await ai.models.generateContent({
+      model: this.model,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema,
+        abortSignal: signal,
+      },
+    });
+    return textOrThrowIfBlocked(response);
+  }
+}
+
+// --- OpenAI-compatible (self-hosted gateways, Ollama, llama.cpp server, vLLM...) ---
+
+/**
+ * Converts a Gemini-style schema into standard JSON Schema, whose type names are lowercase.
+ */
+const toJsonSchema = (schema: ResponseSchema): Record<string, unknown> => {
+  const result: Record<string, unknown> = { type: String(schema.type).toLowerCase() };
+  if (schema.description) result.description = schema.description;
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+class OpenAiCompatibleProvider implements LlmProvider {
+  readonly kind = 'openai-compatible' as const;
+
+  constructor(readonly model: string, readonly baseUrl: string, private readonly apiKey?: string) {}
+
+  private async request(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.model, ...body }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new HttpStatusError(
+        response.status,
+        `HTTP ${response.status} from ${this.baseUrl}: ${detail}`,
+        parseRetryAfterHeader(response.headers.get('retry-after'))
+      );
+    }
+    return response;
+  }
+
+  private async complete(body: Record<string, unknown>, signal?: AbortSignal): Promise<string> {
+    const response = await this.request(body, signal);
+    const data = await response.json();
+    const choice = data?.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') {
+      throw new SafetyBlockedError('');
+    }
+    return choice?.message?.content ?? '';
+  }
+
+  generateText(prompt: string, signal?: AbortSignal): Promise<string> {
+    return this.complete({
+      messages: [{ role: 'user', content: prompt }],
+    }, signal);
+  }
+
+  async streamText(prompt: string, onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<string> {
+    const response = await this.request({
+      messages: [{ role: 'user', content: prompt }],
+      stream: true,
+    }, signal);
+    if (!response.body) {
+      throw new Error(`HTTP ${response.status} from ${this.baseUrl}: the response has no body to stream.`);
+    }
+
+    // Server-sent events: one `data: {json}` line per delta, terminated by `data: [DONE]`.
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    const handleLine = (line: string) => {
+      if (!line.startsWith('data:')) return;
+      const payload = line.slice('data:'.length).trim();
+      if (!payload || payload === '[DONE]') return;
+      const choice = JSON.parse(payload)?.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new SafetyBlockedError('');
+      }
+      const piece = choice?.delta?.content ?? '';
+      if (piece) {
+        text += piece;
+        onChunk(piece);
+      }
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+    // The last event need not end with a line break.
+    handleLine(buffer + decoder.decode());
+    return text;
+  }
+
+  generateJson(prompt: string, schema: ResponseSchema, signal?: AbortSignal): Promise<string> {
+    // Not every compatible server honours `json_schema`, so the schema is also spelled out in the prompt.
+    const schemaText = JSON.stringify(toJsonSchema(schema), null, 2);
+    return this.complete({
+      messages: [{ role: 'user', content: `${prompt}\n\nRespond with a single JSON object matching this JSON Schema:\n${schemaText}` }],
+      response_format: { type: 'json_object' },
+    }, signal);
+  }
+}
+
+// --- Runtime configuration ---
+
+const readStoredConfig = (): ProviderConfig | null => {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const config: ProviderConfig | null = raw ? JSON.parse(raw) : null;
+    // A key stored before remembering it was opt-in is dropped.
+    if (config?.apiKey && !config.rememberApiKey) {
+      delete config.apiKey;
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+    }
+    return config;
+  } catch {
+    return null;
+  }
+};
+
+let runtimeConfig: ProviderConfig | null = readStoredConfig();
+
+/**
+ * The configuration used when the user has not chosen one in the UI.
+ * Build-time variables (see vite.config.ts) select the backend.
+ */
+export const getDefaultProviderConfig = (): ProviderConfig => {
+  if (process.env.LLM_PROVIDER === 'openai-compatible') {
+    return {
+      kind: 'openai-compatible',
+      model: process.env.LLM_MODEL || DEFAULT_OPENAI_MODEL,
+      baseUrl: process.env.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+    };
+  }
+  return { kind: 'gemini', model: process.env.LLM_MODEL || DEFAULT_GEMINI_MODEL };
+};
+
+export const getProviderConfig = (): ProviderConfig => runtimeConfig ?? getDefaultProviderConfig();
+
+/**
+ * Switches the backend used by all subsequent service calls and remembers the choice. The API
+ * key is only remembered when `rememberApiKey` is set, since localStorage is stored unencrypted.
+ * Passing `null` reverts to the build-time default.
+ */
+export const setProviderConfig = (config: ProviderConfig | null): void => {
+  runtimeConfig = config;
+  if (typeof localStorage === 'undefined') return;
+  if (config) {
+    const { apiKey, ...withoutKey } = config;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config.rememberApiKey ? config : withoutKey));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+};
+
+/**
+ * Builds the provider for the current configuration.
+ * @throws A `ConfigurationError` if the selected backend is missing required settings.
+ */
+export const getProvider = (): LlmProvider => {
+  const config = getProviderConfig();
+
+  if (config.kind === 'openai-compatible') {
+    if (!config.baseUrl) {
+      throw new ConfigurationError("No base URL is set for the OpenAI-compatible provider.");
+    }
+    return new OpenAiCompatibleProvider(
+      config.model || DEFAULT_OPENAI_MODEL,
+      config.baseUrl,
+      config.apiKey || process.env.LLM_API_KEY
+    );
+  }
+
+  const apiKey = config.apiKey || process.env.API_KEY;
+  if (!apiKey) {
+    throw new ConfigurationError("The API_KEY environment variable is not set.");
+  }
+  return new GeminiProvider(config.model || DEFAULT_GEMINI_MODEL, apiKey);
+};
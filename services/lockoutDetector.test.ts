@@ -0,0 +1,74 @@
+import { describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { detectLockoutRisks, getOfferedSafeguards, buildSafeguardParts } from './lockoutDetector';
+import { generateTemplateSection } from './scriptTemplates';
+import { PARANOIA_LEVELS } from '../constants';
+import { buildOptionGraph } from './optionGraph';
+
+const options = buildOptionGraph(PARANOIA_LEVELS.flatMap(level => level.options)).options;
+
+const ids = (risks: { id: string }[]) => risks.map(risk => risk.id);
+
+const templateFor = (id: string) => generateTemplateSection(options.get(id)!);
+
+describe('lockoutDetector', () => {
+  describe('detectLockoutRisks', () => {
+    it('should flag risky selections before generation', () => {
+      expect(ids(detectLockoutRisks({ ssh: true }))).toEqual(['ssh-password-auth-without-key']);
+      expect(ids(detectLockoutRisks({ iptablesAdvanced: true, iptablesPortKnocking: true })))
+        .toEqual(['iptables-flush-open-session', 'port-knocking-removes-ssh']);
+      expect(detectLockoutRisks({ firewall: true, fail2ban: true })).toEqual([]);
+    });
+
+    it('should only flag a new SSH port when the firewall section is not selected', () => {
+      expect(detectLockoutRisks({ sshPort: true })[0]).toMatchObject({
+        id: 'ssh-port-without-firewall',
+        optionIds: ['sshPort'],
+        safeguards: ['autoRevert'],
+      });
+      expect(detectLockoutRisks({ sshPort: true, firewall: true })).toEqual([]);
+    });
+
+    it('should drop risks the generated script does not contain', () => {
+      const selected = { ssh: true, iptablesAdvanced: true };
+      // The templates check for a key and accept established sessions before dropping anything.
+      const script = [templateFor('ssh'), templateFor('iptablesAdvanced')].join('\n\n');
+      expect(detectLockoutRisks(selected, script)).toEqual([]);
+
+      const unsafe = 'sed -i "s/^PasswordAuthentication.*/PasswordAuthentication no/" /etc/ssh/sshd_config\niptables -F\niptables -P INPUT DROP';
+      expect(ids(detectLockoutRisks(selected, unsafe))).toEqual(['ssh-password-auth-without-key', 'iptables-flush-open-session']);
+    });
+
+    it('should treat risks as covered once the script carries their safeguard', () => {
+      const selected = { iptablesPortKnocking: true };
+      const script = templateFor('iptablesPortKnocking');
+      expect(ids(detectLockoutRisks(selected, script))).toEqual(['port-knocking-removes-ssh']);
+
+      const { preamble, epilogue } = buildSafeguardParts(['autoRevert']);
+      expect(detectLockoutRisks(selected, [preamble, script, epilogue].join('\n\n'))).toEqual([]);
+    });
+  });
+
+  describe('buildSafeguardParts', () => {
+    it('should only emit the safeguards that were chosen', () => {
+      expect(buildSafeguardParts([])).toEqual({ preamble: '', epilogue: '' });
+
+      const keyCheck = buildSafeguardParts(['sshKeyPrecheck']);
+      expect(keyCheck.preamble).toContain('authorized_keys');
+      expect(keyCheck.epilogue).toBe('');
+
+      const revert = buildSafeguardParts(['autoRevert']);
+      expect(revert.preamble).toContain('iptables-save | write_file "$REVERT_DIR/iptables.rules"');
+      expect(revert.epilogue).toContain('systemd-run --unit=hardening-auto-revert --on-active=10m');
+    });
+
+    it('should offer each safeguard once for all the risks that need it', () => {
+      expect(getOfferedSafeguards(detectLockoutRisks({ ssh: true, sshPort: true, iptablesAdvanced: true })))
+        .toEqual(['sshKeyPrecheck', 'autoRevert']);
+    });
+  });
+});
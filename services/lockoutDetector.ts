@@ -0,0 +1,184 @@
+
+import type { LockoutRisk, SafeguardId, SelectedOptions } from '../types';
+import { lintScript } from './scriptLinter';
+
+// Option combinations that can cut off the SSH session a remote host is managed through.
+// Risks are checked against the selection before generation, and against the generated
+// script afterwards to see which of them the script actually contains.
+
+interface LockoutRule extends Omit<LockoutRisk, 'optionIds'> {
+  /** Returns the options causing the risk, or an empty list when the selection is safe. */
+  match: (selected: SelectedOptions) => string[];
+  /** Whether a generated script still contains the risky change. */
+  presentIn: (script: string) => boolean;
+}
+
+interface Safeguard {
+  label: string;
+  description: string;
+  /** Identifies the safeguard in a generated script. */
+  marker: string;
+}
+
+// Name of the transient systemd timer that restores the snapshot.
+const AUTO_REVERT_UNIT = 'hardening-auto-revert';
+const AUTO_REVERT_MINUTES = 10;
+
+export const SAFEGUARDS: Record<SafeguardId, Safeguard> = {
+  sshKeyPrecheck: {
+    label: 'Stop if no SSH key is installed',
+    description: 'Aborts the script before any change if no non-empty authorized_keys file exists.',
+    marker: '# Lockout safeguard: SSH key check',
+  },
+  autoRevert: {
+    label: `Auto-revert firewall and SSH changes after ${AUTO_REVERT_MINUTES} minutes`,
+    description: `Snapshots the firewall rules and /etc/ssh first, and restores them ${AUTO_REVERT_MINUTES} minutes after the script finishes unless you confirm from a new session that you can still log in.`,
+    marker: `systemd-run --unit=${AUTO_REVERT_UNIT}`,
+  },
+};
+
+const selectedIds = (selected: SelectedOptions, ...ids: string[]) => ids.every(id => selected[id]) ? ids : [];
+
+const LOCKOUT_RULES: LockoutRule[] = [
+  {
+    id: 'ssh-password-auth-without-key',
+    title: 'Password logins disabled without a key check',
+    message: 'SSH Hardening turns off password authentication. If no SSH key is installed for your account, the next login will fail.',
+    safeguards: ['sshKeyPrecheck'],
+    match: selected => selectedIds(selected, 'ssh'),
+    presentIn: script => /PasswordAuthentication\s+no/.test(script) && !script.includes('authorized_keys'),
+  },
+  {
+    id: 'ssh-port-without-firewall',
+    title: 'SSH port changed without the firewall section',
+    message: 'Change Default SSH Port moves sshd to a new port, but Firewall Configuration is not selected, so nothing guarantees the new port is open. sshd will listen on a port the firewall blocks.',
+    safeguards: ['autoRevert'],
+    match: selected => selected.firewall ? [] : selectedIds(selected, 'sshPort'),
+    presentIn: script => !/firewall-cmd\b[^\n]*--add-port/.test(script),
+  },
+  {
+    id: 'iptables-flush-open-session',
+    title: 'Firewall rules flushed during the session',
+    message: 'Advanced IPtables Ruleset flushes every rule and sets INPUT to DROP while you are connected. If the new rules do not accept your session first, it is dropped mid-run.',
+    safeguards: ['autoRevert'],
+    match: selected => selectedIds(selected, 'iptablesAdvanced'),
+    presentIn: script => lintScript(script).some(finding => finding.ruleId === 'iptables-flush-without-established'),
+  },
+  {
+    id: 'port-knocking-removes-ssh',
+    title: 'Port knocking removes the SSH accept rule',
+    message: 'Enable Port Knocking for SSH deletes the rule that accepts new SSH connections. New sessions only work after the knock sequence, so make sure you have a knock client before disconnecting.',
+    safeguards: ['autoRevert'],
+    match: selected => selectedIds(selected, 'iptablesPortKnocking'),
+    presentIn: script => /iptables\s+-D\s+INPUT\b/.test(script),
+  },
+];
+
+/**
+ * Lists the lockout risks of a selection. With a generated script, only the risks the
+ * script still contains and no safeguard covers are returned.
+ */
+export const detectLockoutRisks = (selected: SelectedOptions, script?: string): LockoutRisk[] =>
+  LOCKOUT_RULES.flatMap(({ match, presentIn, ...risk }) => {
+    const optionIds = match(selected);
+    if (optionIds.length === 0) return [];
+    if (script !== undefined) {
+      const isCovered = risk.safeguards.some(id => script.includes(SAFEGUARDS[id].marker));
+      if (isCovered || !presentIn(script)) return [];
+    }
+    return [{ ...risk, optionIds }];
+  });
+
+/** The safeguards offered by any of the risks, in a stable order. */
+export const getOfferedSafeguards = (risks: LockoutRisk[]): SafeguardId[] =>
+  (Object.keys(SAFEGUARDS) as SafeguardId[]).filter(id => risks.some(risk => risk.safeguards.includes(id)));
+
+const SSH_KEY_PRECHECK = `# ----------------------------------------------------------------------------
+${SAFEGUARDS.sshKeyPrecheck.marker}
+# Password logins are about to be disabled. Stop before changing anything if
+# no account has an SSH key to log in with afterwards.
+# ----------------------------------------------------------------------------
+log_info "--- Lockout Safeguard: SSH Key Check ---"
+
+ssh_key_found=false
+for keys_file in /root/.ssh/authorized_keys /home/*/.ssh/authorized_keys; do
+    if [[ -s "$keys_file" ]]; then
+        ssh_key_found=true
+        break
+    fi
+done
+if [[ "$ssh_key_found" != true && "$DRY_RUN" == true ]]; then
+    log_warning "No SSH key is installed in any authorized_keys file. A real run would stop here."
+elif [[ "$ssh_key_found" != true ]]; then
+    log_error "No SSH key is installed in any authorized_keys file. Add one with ssh-copy-id before running this script."
+    exit 1
+else
+    log_success "Found an installed SSH key; password logins can be disabled safely."
+fi`;
+
+const AUTO_REVERT_SNAPSHOT = `# ----------------------------------------------------------------------------
+# Lockout safeguard: snapshot for the timed auto-revert
+# Saves the firewall rules and the SSH server configuration before any section
+# runs. The restore is armed at the end of the script.
+# ----------------------------------------------------------------------------
+log_info "--- Lockout Safeguard: Configuration Snapshot ---"
+
+REVERT_DIR="/root/hardening-revert-$(date +%Y%m%d%H%M%S)"
+run_cmd mkdir -p "$REVERT_DIR"
+run_cmd cp -a /etc/ssh "$REVERT_DIR/ssh"
+if [[ -d /etc/firewalld ]]; then
+    run_cmd cp -a /etc/firewalld "$REVERT_DIR/firewalld"
+fi
+if systemctl is-active --quiet firewalld; then
+    run_cmd touch "$REVERT_DIR/firewalld.active"
+fi
+if command -v iptables-save >/dev/null 2>&1; then
+    iptables-save | write_file "$REVERT_DIR/iptables.rules"
+    ip6tables-save | write_file "$REVERT_DIR/ip6tables.rules"
+fi
+
+write_file "$REVERT_DIR/revert.sh" <<'EOF'
+#!/bin/bash
+# Restores the firewall and SSH configuration saved by the hardening script.
+SNAPSHOT="$(dirname "$0")"
+rm -rf /etc/ssh/sshd_config.d
+cp -a "$SNAPSHOT/ssh/." /etc/ssh/
+if [[ -d "$SNAPSHOT/firewalld" ]]; then
+    rm -rf /etc/firewalld
+    cp -a "$SNAPSHOT/firewalld" /etc/firewalld
+fi
+if [[ -f "$SNAPSHOT/firewalld.active" ]]; then
+    systemctl enable --now firewalld
+    firewall-cmd --reload
+elif [[ -f "$SNAPSHOT/iptables.rules" ]]; then
+    iptables-restore < "$SNAPSHOT/iptables.rules"
+    ip6tables-restore < "$SNAPSHOT/ip6tables.rules"
+fi
+systemctl restart sshd
+echo "[REVERTED] $(date '+%Y-%m-%d %H:%M:%S') Firewall and SSH configuration restored from $SNAPSHOT" >> /var/log/hardening.log
+EOF
+run_cmd chmod 700 "$REVERT_DIR/revert.sh"
+log_success "Saved the firewall and SSH configuration to $REVERT_DIR."`;
+
+const AUTO_REVERT_ARM = `# ----------------------------------------------------------------------------
+# Lockout safeguard: arm the timed auto-revert
+# Restores the snapshot taken at the start unless the changes are confirmed.
+# ----------------------------------------------------------------------------
+log_info "--- Lockout Safeguard: Auto-Revert ---"
+
+run_cmd systemctl stop ${AUTO_REVERT_UNIT}.timer 2>/dev/null || true
+run_cmd ${SAFEGUARDS.autoRevert.marker} --on-active=${AUTO_REVERT_MINUTES}m /bin/bash "$REVERT_DIR/revert.sh"
+log_warning "The firewall and SSH configuration will be restored in ${AUTO_REVERT_MINUTES} minutes."
+log_warning "Open a NEW SSH session now. If it works, keep the changes with: systemctl stop ${AUTO_REVERT_UNIT}.timer"`;
+
+/**
+ * Builds the bash for the chosen safeguards: a preamble that runs right after the header
+ * and an epilogue that runs after the last section. Either may be empty.
+ */
+export const buildSafeguardParts = (safeguards: SafeguardId[]): { preamble: string; epilogue: string } => {
+  const preamble = [
+    safeguards.includes('sshKeyPrecheck') ? SSH_KEY_PRECHECK : '',
+    safeguards.includes('autoRevert') ? AUTO_REVERT_SNAPSHOT : '',
+  ].filter(Boolean).join('\n\n');
+  return { preamble, epilogue: safeguards.includes('autoRevert') ? AUTO_REVERT_ARM : '' };
+};
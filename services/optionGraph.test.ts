@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { buildOptionGraph, toggleOption, findConflicts, getMissingRecommendations, getOptionEdges, describeSelectionChange } from './optionGraph';
+import { PARANOIA_LEVELS } from '../constants';
+import type { HardeningOption } from '../types';
+
+const option = (id: string, extra: Partial<HardeningOption> = {}): HardeningOption => ({ id, label: `${id} label`, description: '', prompt: '', ...extra });
+
+// firewall and iptables exclude each other; knocking needs iptables; ssh suggests fail2ban.
+const GRAPH = buildOptionGraph([
+  option('network', { subOptions: [option('firewall'), option('ssh', { recommends: [{ id: 'fail2ban', reason: 'Bans attackers.' }] }), option('fail2ban')] }),
+  option('iptablesGroup', {
+    subOptions: [
+      option('iptables', { conflictsWith: [{ id: 'firewall', reason: 'Both manage netfilter.' }] }),
+      option('knocking', { requires: [{ id: 'iptables', reason: 'Needs the ruleset.' }] }),
+    ],
+  }),
+]);
+
+const selectedIds = (selected: Record<string, boolean>) => Object.keys(selected).filter(id => selected[id]).sort();
+
+describe('optionGraph', () => {
+  it('should select requirements along with an option', () => {
+    const change = toggleOption(GRAPH, {}, 'knocking');
+    expect(selectedIds(change.selected)).toEqual(['iptables', 'iptablesGroup', 'knocking']);
+    expect(change.added).toEqual(['iptables']);
+    expect(describeSelectionChange(GRAPH, 'knocking', change)).toBe('Also selected iptables label, required by knocking label.');
+  });
+
+  it('should keep the parent and child hierarchy in sync', () => {
+    const parent = toggleOption(GRAPH, {}, 'network');
+    expect(selectedIds(parent.selected)).toEqual(['fail2ban', 'firewall', 'network', 'ssh']);
+    const child = toggleOption(GRAPH, parent.selected, 'ssh');
+    expect(selectedIds(child.selected)).toEqual(['fail2ban', 'firewall']);
+  });
+
+  it('should refuse a selection that conflicts, including through a requirement', () => {
+    const selected = { firewall: true };
+    const change = toggleOption(GRAPH, selected, 'knocking');
+    expect(change.selected).toBe(selected);
+    expect(change.conflicts).toEqual([{ optionId: 'firewall', conflictId: 'iptables', reason: 'Both manage netfilter.' }]);
+    expect(describeSelectionChange(GRAPH, 'knocking', change)).toBe('knocking label was not selected: firewall label conflicts with iptables label. Both manage netfilter.');
+
+    // Checking the group would check iptables, so it is refused as well.
+    expect(toggleOption(GRAPH, selected, 'iptablesGroup').conflicts).toHaveLength(1);
+  });
+
+  it('should deselect options whose requirement is deselected', () => {
+    const { selected } = toggleOption(GRAPH, {}, 'knocking');
+    const change = toggleOption(GRAPH, selected, 'iptables');
+    expect(selectedIds(change.selected)).toEqual([]);
+    expect(change.removed).toEqual(['knocking']);
+  });
+
+  it('should report conflicts and missing recommendations of a selection', () => {
+    expect(findConflicts(GRAPH, { firewall: true, iptables: true })).toEqual([
+      { optionId: 'firewall', conflictId: 'iptables', reason: 'Both manage netfilter.' },
+    ]);
+    expect(getMissingRecommendations(GRAPH, { ssh: true }).map(edge => edge.id)).toEqual(['fail2ban']);
+    expect(getMissingRecommendations(GRAPH, { ssh: true, fail2ban: true })).toEqual([]);
+  });
+
+  it('should only relate options that exist, without requiring a conflict', () => {
+    const graph = buildOptionGraph(PARANOIA_LEVELS.flatMap(level => level.options));
+    for (const edge of getOptionEdges(graph)) {
+      expect(graph.options.has(edge.id)).toBe(true);
+      expect(edge.reason).not.toBe('');
+    }
+    for (const id of graph.options.keys()) {
+      expect(toggleOption(graph, {}, id).conflicts).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,154 @@
+
+import type { HardeningOption, OptionRelation, SelectedOptions } from '../types';
+
+// Which options need, exclude or suggest each other. Toggling an option goes through here so
+// requirements are selected with it and conflicting selections are refused. The parent and
+// child hierarchy is applied here as well, since both change the same selection.
+
+export interface OptionGraph {
+  options: Map<string, HardeningOption>;
+  /** Child id to parent id. */
+  parents: Map<string, string>;
+}
+
+export type OptionRelationKind = 'requires' | 'conflictsWith' | 'recommends';
+
+export interface OptionEdge extends OptionRelation {
+  kind: OptionRelationKind;
+  /** The option that declares the relation. */
+  fromId: string;
+}
+
+export interface OptionConflict {
+  optionId: string;
+  conflictId: string;
+  reason: string;
+}
+
+export interface SelectionChange {
+  selected: SelectedOptions;
+  /** Requirements selected along with the toggled option. */
+  added: string[];
+  /** Options deselected because something they require was deselected. */
+  removed: string[];
+  /** Why the toggle was refused. `selected` is then unchanged. */
+  conflicts: OptionConflict[];
+}
+
+const RELATION_KINDS: OptionRelationKind[] = ['requires', 'conflictsWith', 'recommends'];
+
+export const buildOptionGraph = (roots: HardeningOption[]): OptionGraph => {
+  const options = new Map<string, HardeningOption>();
+  const parents = new Map<string, string>();
+  const visit = (list: HardeningOption[], parentId?: string) => {
+    for (const option of list) {
+      options.set(option.id, option);
+      if (parentId) parents.set(option.id, parentId);
+      if (option.subOptions) visit(option.subOptions, option.id);
+    }
+  };
+  visit(roots);
+  return { options, parents };
+};
+
+/** Every declared relation, in option order. */
+export const getOptionEdges = (graph: OptionGraph): OptionEdge[] =>
+  [...graph.options.values()].flatMap(option =>
+    RELATION_KINDS.flatMap(kind => (option[kind] ?? []).map(relation => ({ ...relation, kind, fromId: option.id })))
+  );
+
+const getDescendantIds = (graph: OptionGraph, id: string): string[] =>
+  (graph.options.get(id)?.subOptions ?? []).flatMap(sub => [sub.id, ...getDescendantIds(graph, sub.id)]);
+
+// Checks or unchecks an option with all of its descendants, then updates its ancestors: a
+// parent stays checked only while all of its children are.
+const setChecked = (graph: OptionGraph, selected: SelectedOptions, id: string, checked: boolean) => {
+  for (const target of [id, ...getDescendantIds(graph, id)]) {
+    selected[target] = checked;
+  }
+  let parentId = graph.parents.get(id);
+  while (parentId) {
+    const parent = graph.options.get(parentId);
+    if (!parent?.subOptions) break;
+    selected[parentId] = parent.subOptions.every(sub => selected[sub.id]);
+    parentId = graph.parents.get(parentId);
+  }
+};
+
+/** The option, its descendants and everything they require, directly or through other requirements. */
+export const getSelectionClosure = (graph: OptionGraph, id: string): string[] => {
+  const closure: string[] = [];
+  const visit = (current: string) => {
+    if (closure.includes(current)) return;
+    closure.push(current);
+    getDescendantIds(graph, current).forEach(visit);
+    graph.options.get(current)?.requires?.forEach(requirement => visit(requirement.id));
+  };
+  visit(id);
+  return closure;
+};
+
+const conflictBetween = (graph: OptionGraph, a: string, b: string): OptionConflict | null => {
+  const reason = graph.options.get(a)?.conflictsWith?.find(relation => relation.id === b)?.reason
+    ?? graph.options.get(b)?.conflictsWith?.find(relation => relation.id === a)?.reason;
+  return reason ? { optionId: a, conflictId: b, reason } : null;
+};
+
+/** Every pair of selected options that conflict, once. */
+export const findConflicts = (graph: OptionGraph, selected: SelectedOptions): OptionConflict[] => {
+  const ids = [...graph.options.keys()].filter(id => selected[id]);
+  return ids.flatMap((a, index) => ids.slice(index + 1).flatMap(b => conflictBetween(graph, a, b) ?? []));
+};
+
+/** Recommendations of selected options whose target is not selected. */
+export const getMissingRecommendations = (graph: OptionGraph, selected: SelectedOptions): OptionEdge[] =>
+  getOptionEdges(graph).filter(edge => edge.kind === 'recommends' && selected[edge.fromId] && !selected[edge.id]);
+
+/**
+ * Checks or unchecks an option. Checking also checks what it requires, unless that would
+ * select two conflicting options; unchecking also unchecks the options that required it.
+ */
+export const toggleOption = (graph: OptionGraph, selected: SelectedOptions, id: string): SelectionChange => {
+  const next = { ...selected };
+
+  if (!selected[id]) {
+    const closure = getSelectionClosure(graph, id);
+    closure.forEach(target => setChecked(graph, next, target, true));
+    const conflicts = findConflicts(graph, next).filter(conflict => closure.includes(conflict.optionId) || closure.includes(conflict.conflictId));
+    if (conflicts.length > 0) {
+      return { selected, added: [], removed: [], conflicts };
+    }
+    const ownIds = [id, ...getDescendantIds(graph, id)];
+    const added = closure.filter(target => !ownIds.includes(target) && !selected[target]);
+    return { selected: next, added, removed: [], conflicts: [] };
+  }
+
+  setChecked(graph, next, id, false);
+  const removed: string[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const option of graph.options.values()) {
+      if (next[option.id] && option.requires?.some(requirement => !next[requirement.id])) {
+        setChecked(graph, next, option.id, false);
+        removed.push(option.id);
+        changed = true;
+      }
+    }
+  }
+  return { selected: next, added: [], removed, conflicts: [] };
+};
+
+/** A sentence for the user about what a toggle did besides the option itself, if anything. */
+export const describeSelectionChange = (graph: OptionGraph, id: string, change: SelectionChange): string | null => {
+  const label = (optionId: string) => graph.options.get(optionId)?.label ?? optionId;
+  const list = (ids: string[]) => ids.map(label).join(', ');
+  if (change.conflicts.length > 0) {
+    return change.conflicts
+      .map(conflict => `${label(id)} was not selected: ${label(conflict.optionId)} conflicts with ${label(conflict.conflictId)}. ${conflict.reason}`)
+      .join('\n');
+  }
+  if (change.added.length > 0) return `Also selected ${list(change.added)}, required by ${label(id)}.`;
+  if (change.removed.length > 0) return `Also deselected ${list(change.removed)}, which can no longer run without ${label(id)}.`;
+  return null;
+};
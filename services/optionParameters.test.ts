@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { parseParameterInput, resolveParameters, buildParameterAssignments } from './optionParameters';
+import { generateTemplateSection } from './scriptTemplates';
+import { PARANOIA_LEVELS } from '../constants';
+import { buildOptionGraph } from './optionGraph';
+import type { HardeningOption, OptionParameter } from '../types';
+
+const options = buildOptionGraph(PARANOIA_LEVELS.flatMap(level => level.options)).options;
+
+const optionFor = (id: string): HardeningOption => options.get(id)!;
+
+const NOTE: OptionParameter = { name: 'NOTE', label: 'Note', type: 'string', default: 'x' };
+
+describe('optionParameters', () => {
+  it('should parse and validate each parameter type', () => {
+    const port: OptionParameter = { name: 'PORT', label: 'Port', type: 'port', default: 22 };
+    expect(parseParameterInput(port, ' 2200 ')).toEqual({ value: 2200 });
+    expect(parseParameterInput(port, '70000').error).toBe('Enter a number from 1 to 65535.');
+    expect(parseParameterInput(port, '22a').error).toBe('Enter a whole number.');
+
+    const days: OptionParameter = { name: 'DAYS', label: 'Days', type: 'number', default: 35, min: 1, max: 3650 };
+    expect(parseParameterInput(days, '0').error).toBe('Enter a number from 1 to 3650.');
+
+    const size: OptionParameter = { name: 'SIZE', label: 'Size', type: 'string', default: '500M', pattern: '[1-9][0-9]*[KMG]', patternHint: 'Use a size such as 500M.' };
+    expect(parseParameterInput(size, '2G')).toEqual({ value: '2G' });
+    expect(parseParameterInput(size, '2G; reboot').error).toBe('Use a size such as 500M.');
+
+    const bantime: OptionParameter = { name: 'BANTIME', label: 'Ban time', type: 'enum', default: '1h', choices: ['1h', '1d'] };
+    expect(parseParameterInput(bantime, '2h').error).toBe('Choose one of 1h, 1d.');
+
+    const knocks: OptionParameter = { name: 'KNOCKS', label: 'Knocks', type: 'list', itemType: 'port', length: 3, default: [1, 2, 3] };
+    expect(parseParameterInput(knocks, '7001, 7002 7003')).toEqual({ value: [7001, 7002, 7003] });
+    expect(parseParameterInput(knocks, '7001 7002').error).toBe('Enter exactly 3 values, separated by spaces.');
+    expect(parseParameterInput(knocks, '7001 7002 99999').error).toBe('99999: Enter a number from 1 to 65535.');
+  });
+
+  it('should fall back to the default for untouched and invalid inputs', () => {
+    const { values, errors } = resolveParameters(optionFor('userAccountManagement'), { NEW_ADMIN_USER: 'Bad User' });
+    expect(values).toEqual({ NEW_ADMIN_USER: 'your_admin', INACTIVE_DAYS: 35 });
+    expect(Object.keys(errors)).toEqual(['NEW_ADMIN_USER']);
+  });
+
+  it('should build bash assignments with strings quoted safely', () => {
+    const option = { ...optionFor('iptablesPortKnocking'), parameters: [...optionFor('iptablesPortKnocking').parameters!, NOTE] };
+    expect(buildParameterAssignments(option, { NOTE: 'say "$(id)" `now`' })).toBe('KNOCK_PORTS=(7001 7002 7003)\nNOTE="say \\"\\$(id)\\" \\`now\\`"');
+    expect(buildParameterAssignments(optionFor('ssh'))).toBe('');
+  });
+
+  it('should set the parameters in the offline templates', () => {
+    const section = generateTemplateSection(optionFor('sshPort'), { NEW_SSH_PORT: 2200 });
+    expect(section).toContain('\nNEW_SSH_PORT=2200\n');
+    expect(section).not.toContain('@parameters');
+    expect(generateTemplateSection(optionFor('fail2ban'))).toContain('FAIL2BAN_BANTIME="1h"\nFAIL2BAN_MAXRETRY=3');
+  });
+});
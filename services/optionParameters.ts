@@ -0,0 +1,80 @@
+
+import type { HardeningOption, OptionParameter, ParameterValue, ParameterValues } from '../types';
+
+// Typed values of hardening options, such as the new SSH port. The user edits them as text;
+// they are checked here and reach both the prompts and the offline templates as bash
+// variable assignments, so AI and template sections read them the same way.
+
+type ParseResult = { value: ParameterValue; error?: undefined } | { value?: undefined; error: string };
+
+const parseInteger = (text: string, min: number, max: number): { value: number; error?: undefined } | { value?: undefined; error: string } => {
+  if (!/^\d+$/.test(text)) return { error: 'Enter a whole number.' };
+  const value = Number(text);
+  if (value < min || value > max) return { error: `Enter a number from ${min} to ${max}.` };
+  return { value };
+};
+
+/** The text an input shows for a value. List items are separated by spaces. */
+export const formatParameterValue = (value: ParameterValue): string =>
+  Array.isArray(value) ? value.join(' ') : String(value);
+
+/** Checks what the user typed for a parameter and converts it to the parameter's type. */
+export const parseParameterInput = (parameter: OptionParameter, text: string): ParseResult => {
+  const trimmed = text.trim();
+  switch (parameter.type) {
+    case 'number':
+      return parseInteger(trimmed, parameter.min ?? 0, parameter.max ?? Number.MAX_SAFE_INTEGER);
+    case 'port':
+      return parseInteger(trimmed, 1, 65535);
+    case 'string':
+      if (!trimmed) return { error: 'Enter a value.' };
+      if (parameter.pattern && !new RegExp(`^(?:${parameter.pattern})$`).test(trimmed)) {
+        return { error: parameter.patternHint ?? 'Enter a valid value.' };
+      }
+      return { value: trimmed };
+    case 'enum':
+      return parameter.choices.includes(trimmed) ? { value: trimmed } : { error: `Choose one of ${parameter.choices.join(', ')}.` };
+    case 'list': {
+      const items = trimmed.split(/[\s,]+/).filter(Boolean);
+      if (parameter.length !== undefined && items.length !== parameter.length) {
+        return { error: `Enter exactly ${parameter.length} values, separated by spaces.` };
+      }
+      if (items.length === 0) return { error: 'Enter at least one value.' };
+      const values: number[] = [];
+      for (const item of items) {
+        const parsed = parameter.itemType === 'port' ? parseInteger(item, 1, 65535) : parseInteger(item, 0, Number.MAX_SAFE_INTEGER);
+        if (parsed.error !== undefined) return { error: `${item}: ${parsed.error}` };
+        values.push(parsed.value);
+      }
+      return { value: values };
+    }
+  }
+};
+
+/**
+ * The values of an option's parameters: what the user typed where it is valid, the default
+ * where nothing was typed. Invalid inputs also fall back to the default and are reported in
+ * `errors`, keyed by variable name.
+ */
+export const resolveParameters = (option: HardeningOption, inputs: Record<string, string> = {}): { values: ParameterValues; errors: Record<string, string> } => {
+  const values: ParameterValues = {};
+  const errors: Record<string, string> = {};
+  for (const parameter of option.parameters ?? []) {
+    const text = inputs[parameter.name];
+    const parsed = text === undefined ? { value: parameter.default } : parseParameterInput(parameter, text);
+    if (parsed.error !== undefined) errors[parameter.name] = parsed.error;
+    values[parameter.name] = parsed.value ?? parameter.default;
+  }
+  return { values, errors };
+};
+
+// Double quotes keep `$NAME` readable in the script; the characters bash expands inside them are escaped.
+const toBashValue = (value: ParameterValue): string => {
+  if (Array.isArray(value)) return `(${value.join(' ')})`;
+  if (typeof value === 'number') return String(value);
+  return `"${value.replace(/["$`\\]/g, '\\$&')}"`;
+};
+
+/** One bash assignment per parameter of the option, in declaration order. Missing values use the default. */
+export const buildParameterAssignments = (option: HardeningOption, values: ParameterValues = {}): string =>
+  (option.parameters ?? []).map(parameter => `${parameter.name}=${toBashValue(values[parameter.name] ?? parameter.default)}`).join('\n');
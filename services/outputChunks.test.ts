@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { splitOutputForAnalysis, mergeAnalysisResults } from './outputChunks';
+import { parseScriptOutput } from './outputParser';
+import type { AnalysisResult } from '../types';
+
+const section = (title: string, lineCount: number) => [
+  `[INFO] 2025-01-01 12:00:00 --- ${title} ---`,
+  ...Array.from({ length: lineCount }, (_, index) => `[INFO] 2025-01-01 12:00:01 ${title} step ${index + 1}`),
+];
+
+describe('outputChunks', () => {
+  it('should keep output that fits and any run log in one part', () => {
+    const short = section('SSH Hardening', 3).join('\n');
+    expect(splitOutputForAnalysis(short, 1000)).toEqual([{ text: short, sections: ['SSH Hardening'] }]);
+
+    const record = JSON.stringify({ timestamp: '2025-01-01T12:00:00+00:00', section: 'ssh', step: 'x'.repeat(200), status: 'info', exit_code: null, stderr_tail: '' });
+    const runLog = Array(20).fill(record).join('\n');
+    expect(splitOutputForAnalysis(runLog, 1000)).toHaveLength(1);
+  });
+
+  it('should cut long output between sections and repeat the banner of a section cut in two', () => {
+    const header = ['[INFO] Welcome to the hardening script.'];
+    const ssh = section('SSH Hardening', 5);
+    const logging = section('Logging & Auditing Setup (auditd)', 5);
+    const updates = section('System Updates & Package Management', 40);
+    const chunks = splitOutputForAnalysis([...header, ...ssh, ...logging, ...updates].join('\n'), 800);
+
+    // The header and the two short sections share a part.
+    expect(chunks[0]).toEqual({ text: [...header, ...ssh, ...logging].join('\n'), sections: ['SSH Hardening', 'Logging & Auditing Setup (auditd)'] });
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(800);
+    }
+    // Every later piece of the long section is still read as that section.
+    for (const chunk of chunks.slice(1)) {
+      expect(chunk.sections).toEqual(['System Updates & Package Management']);
+      expect(chunk.text.startsWith(updates[0])).toBe(true);
+      expect(parseScriptOutput(chunk.text)!.sections.map(s => s.title)).toEqual(['System Updates & Package Management']);
+    }
+    const updateLines = chunks.slice(1).flatMap(chunk => chunk.text.split('\n').slice(1));
+    expect(updateLines).toEqual(updates.slice(1));
+  });
+
+  it('should merge the analyses of the parts with the lowest score', () => {
+    const result = (analysisText: string, securityScore: number, title: string): AnalysisResult => ({
+      analysisText,
+      securityScore,
+      findings: [{ severity: 'medium', title, optionId: null, evidence: [], explanation: '', remediation: [] }],
+    });
+    const merged = mergeAnalysisResults(
+      [{ text: '', sections: ['SSH Hardening', 'Logging'] }, { text: '', sections: [] }],
+      [result('All good.', 90, 'First'), result('Updates failed.', 40, 'Second')]
+    );
+
+    expect(merged.analysisText).toBe('## Part 1 of 2: SSH Hardening, Logging\n\nAll good.\n\n## Part 2 of 2\n\nUpdates failed.');
+    expect(merged.securityScore).toBe(40);
+    expect(merged.findings.map(finding => finding.title)).toEqual(['First', 'Second']);
+  });
+});
@@ -0,0 +1,108 @@
+
+import type { AnalysisResult } from '../types';
+import { parseRunLog } from './runLog';
+import { locateSectionBanners } from './outputParser';
+
+// Long output is analyzed in parts, so no prompt grows with the log. Text output is cut at its
+// section banners, so each part holds whole sections and the analyses of the parts can be
+// merged. A JSON Lines run log is never cut: the model only gets its summary, which stays short.
+
+/** Output up to this many characters is analyzed in one part. */
+export const MAX_CHUNK_CHARS = 60_000;
+
+export interface OutputChunk {
+  text: string;
+  /** The titles of the sections in the part, in output order. */
+  sections: string[];
+}
+
+/** Which part of a longer output a prompt covers, counted from 1. */
+export interface OutputPart {
+  index: number;
+  total: number;
+}
+
+// Cuts a line longer than a whole part into pieces that fit.
+const cutLine = (line: string, maxChars: number): string[] => {
+  if (line.length <= maxChars) return [line];
+  const pieces: string[] = [];
+  for (let start = 0; start < line.length; start += maxChars) {
+    pieces.push(line.slice(start, start + maxChars));
+  }
+  return pieces;
+};
+
+// Cuts the lines of one section at line breaks. Every piece after the first starts with the
+// banner line again, so the parser still counts its lines towards the section.
+const cutSection = (lines: string[], title: string | null, maxChars: number): OutputChunk[] => {
+  const sections = title ? [title] : [];
+  const text = lines.join('\n');
+  if (text.length <= maxChars) return [{ text, sections }];
+
+  const repeated = title ? [lines[0]] : [];
+  const budget = Math.max(1, maxChars - (title ? lines[0].length + 1 : 0));
+  const pieces: OutputChunk[] = [];
+  let piece: string[] = [];
+  // The length of `piece` joined with line breaks.
+  let size = -1;
+  for (const line of lines.flatMap(line => cutLine(line, budget))) {
+    if (piece.length > repeated.length && size + 1 + line.length > maxChars) {
+      pieces.push({ text: piece.join('\n'), sections });
+      piece = [...repeated];
+      size = title ? lines[0].length : -1;
+    }
+    piece.push(line);
+    size += 1 + line.length;
+  }
+  pieces.push({ text: piece.join('\n'), sections });
+  return pieces;
+};
+
+/**
+ * Splits output into parts of at most `maxChars` characters, cut at the section banners.
+ * Consecutive sections share a part as long as they fit; a longer section is cut at line breaks.
+ * Output that fits, and any run log, is a single part.
+ */
+export const splitOutputForAnalysis = (text: string, maxChars: number = MAX_CHUNK_CHARS): OutputChunk[] => {
+  const banners = locateSectionBanners(text);
+  if (text.length <= maxChars || parseRunLog(text)) {
+    return [{ text, sections: [...new Set(banners.map(banner => banner.title))] }];
+  }
+
+  const lines = text.split('\n');
+  // What the header printed before the first banner is a piece of its own.
+  const starts = [0, ...banners.map(banner => banner.line).filter(line => line > 0)];
+  const pieces = starts.flatMap((start, index) => cutSection(
+    lines.slice(start, starts[index + 1] ?? lines.length),
+    banners.find(banner => banner.line === start)?.title ?? null,
+    maxChars
+  ));
+
+  const chunks: OutputChunk[] = [];
+  for (const piece of pieces) {
+    const last = chunks[chunks.length - 1];
+    if (last && last.text.length + 1 + piece.text.length <= maxChars) {
+      last.text += `\n${piece.text}`;
+      last.sections = [...new Set([...last.sections, ...piece.sections])];
+    } else {
+      chunks.push({ ...piece });
+    }
+  }
+  return chunks;
+};
+
+/**
+ * Merges the analyses of the parts of one output into one result, with a heading per part in
+ * the summary. A failure in any part concerns the whole run, so the lowest score is kept.
+ */
+export const mergeAnalysisResults = (chunks: OutputChunk[], results: AnalysisResult[]): AnalysisResult => {
+  if (results.length === 1) return results[0];
+  return {
+    analysisText: results.map((result, index) => {
+      const { sections } = chunks[index];
+      return `## Part ${index + 1} of ${results.length}${sections.length > 0 ? `: ${sections.join(', ')}` : ''}\n\n${result.analysisText}`;
+    }).join('\n\n'),
+    securityScore: Math.min(...results.map(result => result.securityScore)),
+    findings: results.flatMap(result => result.findings),
+  };
+};
@@ -0,0 +1,86 @@
+import { describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { stripTerminalArtifacts, getSectionBanners, parseScriptOutput, formatOutputSummary, redactSecrets } from './outputParser';
+import { parseRunLog } from './runLog';
+import type { HardeningOption } from '../types';
+
+const ESC = '\u001b';
+const color = (code: string, text: string) => `${ESC}[${code}m${text}${ESC}[0m`;
+
+const OUTPUT = [
+  `${color('0;34', '[INFO]')} 2025-01-01 12:00:00 Starting Fedora hardening.`,
+  `${color('0;34', '[INFO]')} 2025-01-01 12:00:01 --- System Updates & Package Management ---`,
+  `\r${color('0;34', '[|]')} Upgrading all installed packages\r${color('0;34', '[/]')} Upgrading all installed packages\r${color('0;32', '[DONE]')} Upgrading all installed packages`,
+  `${color('0;32', '[SUCCESS]')} 2025-01-01 12:03:00 telnet-server is not installed.`,
+  `${color('0;34', '[INFO]')} 2025-01-01 12:03:01 Skipping section: Set GRUB Bootloader Password (grubPassword)`,
+  `${color('0;34', '[INFO]')} 2025-01-01 12:03:02 --- Logging & Auditing Setup (auditd) ---`,
+  'Error sending add rule data request (No such file or directory)',
+  'There was an error in line 5 of /etc/audit/audit.rules',
+  `${color('0;31', '[FAILED]')} Loading the audit rules`,
+  `${color('1;33', '[WARNING]')} 2025-01-01 12:03:05 auditd will load the rules at the next boot.`,
+  `${color('0;32', '[SUCCESS]')} 2025-01-01 12:03:06 ==========================================================`,
+  `${color('0;32', '[SUCCESS]')} 2025-01-01 12:03:06                   Hardening Complete`,
+  `${color('1;33', '[WARNING]')} 2025-01-01 12:03:06 Reboot the system so that all changes take effect.`,
+].join('\r\n');
+
+describe('outputParser', () => {
+  it('should strip color codes and keep the last spinner frame of a line', () => {
+    const lines = stripTerminalArtifacts(OUTPUT).split('\n');
+    expect(lines).toHaveLength(13);
+    expect(lines[0]).toBe('[INFO] 2025-01-01 12:00:00 Starting Fedora hardening.');
+    expect(lines[2]).toBe('[DONE] Upgrading all installed packages');
+    // Frames that ended up on lines of their own are dropped.
+    expect(stripTerminalArtifacts('[/] Upgrading all installed packages')).toBe('');
+  });
+
+  it('should split the output into sections with their counts and failing lines', () => {
+    const banners = getSectionBanners([
+      { option: { id: 'logging' } as HardeningOption, content: 'log_info "--- Logging & Auditing Setup (auditd) ---"\nrun_cmd augenrules --load' },
+    ]);
+    const parsed = parseScriptOutput(OUTPUT, banners)!;
+    expect(parsed.sections.map(({ id, title, outcome }) => [id, title, outcome])).toEqual([
+      [null, 'System Updates & Package Management', 'passed'],
+      ['grubPassword', 'Set GRUB Bootloader Password', 'skipped'],
+      ['logging', 'Logging & Auditing Setup (auditd)', 'failed'],
+    ]);
+    expect(parsed.sections[0].counts).toEqual({ info: 1, success: 1, warning: 0, error: 0, done: 1, failed: 0 });
+    expect(parsed.sections[2].failures).toEqual([{
+      lineNumber: 9,
+      marker: 'failed',
+      message: 'Loading the audit rules',
+      context: ['Error sending add rule data request (No such file or directory)', 'There was an error in line 5 of /etc/audit/audit.rules'],
+    }]);
+    expect(parsed.sections[2].warnings).toHaveLength(1);
+    // The footer's warning belongs to no section.
+    expect(parsed.otherIssues.map(line => line.message)).toEqual(['Reboot the system so that all changes take effect.']);
+
+    expect(parseScriptOutput('dnf upgrade -y\nComplete!')).toBeNull();
+  });
+
+  it('should describe the failing lines for the analysis', () => {
+    const summary = formatOutputSummary(parseScriptOutput(OUTPUT)!);
+    expect(summary).toContain('- System Updates & Package Management: PASSED, 1 info, 1 success, 1 done');
+    expect(summary).toContain([
+      '- Logging & Auditing Setup (auditd): FAILED, 1 info, 1 warning, 1 failed',
+      '    - line 9: [FAILED] Loading the audit rules',
+      '      output: Error sending add rule data request (No such file or directory)',
+    ].join('\n'));
+    expect(summary).toContain('- Outside any section:\n    - line 13: [WARNING] Reboot the system');
+  });
+
+  it('should redact secrets without breaking a JSON Lines record', () => {
+    expect(redactSecrets("[WARNING] 2025-01-01 12:03:03 GRUB superuser 'root' password: Ab12Cd34Ef56Gh78"))
+      .toBe("[WARNING] 2025-01-01 12:03:03 GRUB superuser 'root' password: [REDACTED]");
+    expect(redactSecrets('password_pbkdf2 root grub.pbkdf2.sha512.10000.0A1B.2C3D')).toBe('password_pbkdf2 root grub.pbkdf2.sha512.[REDACTED]');
+    expect(redactSecrets('API_KEY=sk-123 token: abc')).toBe('API_KEY=[REDACTED] token: [REDACTED]');
+    // Lines that only mention passwords stay as they are.
+    expect(redactSecrets('[INFO] Password aging set: PASS_MAX_DAYS 90')).toBe('[INFO] Password aging set: PASS_MAX_DAYS 90');
+
+    const record = JSON.stringify({ timestamp: '2025-01-01T12:03:03+00:00', section: 'grubPassword', step: "GRUB superuser 'root' password: Ab12Cd34Ef56Gh78", status: 'warning', exit_code: null, stderr_tail: '' });
+    expect(parseRunLog(redactSecrets(record))!.records[0].step).toBe("GRUB superuser 'root' password: [REDACTED]");
+  });
+});
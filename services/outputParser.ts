@@ -0,0 +1,179 @@
+
+import type { RunLogStatus, ScriptSection } from '../types';
+import type { SectionOutcome } from './runLog';
+
+// Reads the terminal output or text log of a generated hardening script without a model. The
+// header's log helpers tag each line ([INFO], [SUCCESS], [WARNING], [ERROR]), run_with_spinner
+// reports [DONE] or [FAILED], and each section starts with an "[INFO] --- Title ---" banner.
+
+export type OutputMarker = Extract<RunLogStatus, 'info' | 'success' | 'warning' | 'error' | 'done' | 'failed'>;
+
+export const OUTPUT_MARKERS: OutputMarker[] = ['info', 'success', 'warning', 'error', 'done', 'failed'];
+
+export interface OutputLine {
+  /** 1-based, in the pasted text. */
+  lineNumber: number;
+  marker: OutputMarker;
+  message: string;
+  /** The untagged lines right before it, such as the error output of a failed command. */
+  context: string[];
+}
+
+export interface OutputSection {
+  /** The option id, when the banner or skip message can be traced back to a section of the script. */
+  id: string | null;
+  title: string;
+  /** 'failed' when the section printed an [ERROR] or [FAILED] line, 'warning' for a [WARNING]. */
+  outcome: SectionOutcome;
+  counts: Record<OutputMarker, number>;
+  /** [ERROR] and [FAILED] lines, in output order. */
+  failures: OutputLine[];
+  warnings: OutputLine[];
+}
+
+export interface ParsedOutput {
+  sections: OutputSection[];
+  /** Failures and warnings printed outside any section, e.g. by the header or the footer. */
+  otherIssues: OutputLine[];
+}
+
+// Untagged lines kept before a failure.
+const CONTEXT_LINES = 3;
+
+const ANSI_SEQUENCE = /\u001b\[[0-9;?]*[ -/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)|\u001b[@-Z\\-_]/g;
+// What is left of run_with_spinner's animation when each frame ends up on a line of its own.
+const SPINNER_FRAME = /^\[[|/\\-]\] /;
+const MARKED_LINE = /^\[(INFO|SUCCESS|WARNING|ERROR|DONE|FAILED)\]\s*(?:\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}\S*\s+)?(.*)$/;
+const BANNER = /^---\s*(.+?)\s*---$/;
+const SKIPPED_SECTION = /^Skipping section: (.*) \((\w+)\)$/;
+// The footer's "=====" lines end the last section.
+const FOOTER_RULE = /^={5,}$/;
+
+/**
+ * Removes color codes and spinner frames. Of a line the spinner redrew with carriage returns,
+ * only the last frame is kept, as a terminal shows it. Line numbers stay the same.
+ */
+export const stripTerminalArtifacts = (text: string): string =>
+  text.split('\n').map(line => {
+    const frames = line.replace(ANSI_SEQUENCE, '').replace(/\r+$/, '').split('\r');
+    const shown = frames[frames.length - 1];
+    return SPINNER_FRAME.test(shown) ? '' : shown;
+  }).join('\n');
+
+// A secret given as "password: value" or "token=value", and a GRUB password hash. The value
+// ends before a quote or backslash, so a JSON Lines record stays valid when it is redacted.
+const SECRET_VALUE = /((?<![a-z])(?:password|passphrase|passwd|secret|token|api[_ -]?key)\s*[:=]\s*)[^\s"'\\]+/gi;
+const GRUB_HASH = /\b(grub\.pbkdf2\.\w+\.)[\w.]+/g;
+
+/**
+ * Replaces passwords, tokens, keys and GRUB password hashes with [REDACTED], so a log can be
+ * sent to a model. Older scripts wrote the generated GRUB password to their logs.
+ */
+export const redactSecrets = (text: string): string =>
+  text.replace(SECRET_VALUE, '$1[REDACTED]').replace(GRUB_HASH, '$1[REDACTED]');
+
+/**
+ * Maps the banner titles the sections print, e.g. "SSH Hardening" for `log_info "--- SSH
+ * Hardening ---"`, to their option ids, so the parsed sections can be traced back to options.
+ */
+export const getSectionBanners = (sections: Pick<ScriptSection, 'option' | 'content'>[]): Map<string, string> => {
+  const banners = new Map<string, string>();
+  for (const { option, content } of sections) {
+    for (const match of content.matchAll(/log_info\s+"---\s*(.+?)\s*---"/g)) {
+      banners.set(match[1], option.id);
+    }
+  }
+  return banners;
+};
+
+/** The 0-based line numbers of the section banners in the output, with their titles. */
+export const locateSectionBanners = (text: string): { line: number; title: string }[] =>
+  stripTerminalArtifacts(text).split('\n').flatMap((rawLine, line) => {
+    const match = MARKED_LINE.exec(rawLine.trim());
+    const banner = match?.[1] === 'INFO' ? BANNER.exec(match[2].trim()) : null;
+    return banner ? [{ line, title: banner[1] }] : [];
+  });
+
+const newSection = (id: string | null, title: string): OutputSection => ({
+  id,
+  title,
+  outcome: 'passed',
+  counts: { info: 0, success: 0, warning: 0, error: 0, done: 0, failed: 0 },
+  failures: [],
+  warnings: [],
+});
+
+/**
+ * Splits pasted script output into its sections and counts each section's tagged lines.
+ * Returns null when no line carries one of the markers, i.e. the text is not script output.
+ */
+export const parseScriptOutput = (text: string, banners: Map<string, string> = new Map()): ParsedOutput | null => {
+  const sections: OutputSection[] = [];
+  const otherIssues: OutputLine[] = [];
+  let current: OutputSection | null = null;
+  let untagged: string[] = [];
+  let markedLines = 0;
+
+  stripTerminalArtifacts(text).split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const match = MARKED_LINE.exec(line);
+    if (!match) {
+      if (line) untagged = [...untagged, line].slice(-CONTEXT_LINES);
+      return;
+    }
+    markedLines++;
+    const marker = match[1].toLowerCase() as OutputMarker;
+    const message = match[2].trim();
+    const context = untagged;
+    untagged = [];
+
+    const banner = marker === 'info' ? BANNER.exec(message) : null;
+    const skipped = marker === 'info' ? SKIPPED_SECTION.exec(message) : null;
+    if (banner) {
+      const id = banners.get(banner[1]) ?? null;
+      // A section printing a second banner of its own carries on.
+      if (!current || id === null || current.id !== id) {
+        current = newSection(id, banner[1]);
+        sections.push(current);
+      }
+    } else if (skipped) {
+      sections.push({ ...newSection(skipped[2], skipped[1]), outcome: 'skipped' });
+      current = null;
+      return;
+    } else if (FOOTER_RULE.test(message)) {
+      current = null;
+    }
+
+    if (current) current.counts[marker]++;
+    const entry: OutputLine = { lineNumber: index + 1, marker, message, context };
+    if (marker === 'error' || marker === 'failed') {
+      (current ? current.failures : otherIssues).push(entry);
+    } else if (marker === 'warning') {
+      (current ? current.warnings : otherIssues).push(entry);
+    }
+  });
+
+  if (markedLines === 0) return null;
+  for (const section of sections) {
+    if (section.outcome === 'skipped') continue;
+    section.outcome = section.failures.length > 0 ? 'failed' : section.warnings.length > 0 ? 'warning' : 'passed';
+  }
+  return { sections, otherIssues };
+};
+
+const formatLine = (line: OutputLine): string[] => [
+  `    - line ${line.lineNumber}: [${line.marker.toUpperCase()}] ${line.message}`,
+  ...line.context.map(text => `      output: ${text}`),
+];
+
+/** Describes the parsed output as plain text for a prompt: one entry per section with its failing lines. */
+export const formatOutputSummary = (parsed: ParsedOutput): string => {
+  const lines = parsed.sections.flatMap(section => [
+    `- ${section.title}${section.id ? ` (${section.id})` : ''}: ${section.outcome.toUpperCase()}, ${OUTPUT_MARKERS.filter(marker => section.counts[marker] > 0).map(marker => `${section.counts[marker]} ${marker}`).join(', ') || 'no tagged lines'}`,
+    ...[...section.failures, ...section.warnings].flatMap(formatLine),
+  ]);
+  if (parsed.otherIssues.length > 0) {
+    lines.push('- Outside any section:', ...parsed.otherIssues.flatMap(formatLine));
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,39 @@
+import { describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { buildPreflightChecks } from './preflight';
+import { lintScript } from './scriptLinter';
+import { generateTemplateHeader } from './scriptTemplates';
+import type { HardeningOption } from '../types';
+
+const options = (...ids: string[]) => ids.map(id => ({ id, label: id, description: '', prompt: '' }) as HardeningOption);
+
+describe('preflight', () => {
+  it('should only add the checks for the selected sections', () => {
+    const kernelOnly = buildPreflightChecks(options('kernel'));
+    expect(kernelOnly).toContain('os_release_field VERSION_ID');
+    expect(kernelOnly).not.toContain('authorized_keys');
+    expect(kernelOnly).not.toContain('df -Pm');
+    expect(kernelOnly).toContain('log_success "Pre-flight: GO. All ${PREFLIGHT_PASSED} checks passed."');
+
+    const script = buildPreflightChecks(options('updates', 'ssh', 'iptablesAdvanced', 'sshPort', 'grubPassword'));
+    expect(script).toContain('if preflight_wants updates; then\n    # dnf upgrade downloads');
+    expect(script).toContain('admin_home/.ssh/authorized_keys');
+    expect(script).toContain('SSH_CONNECTION');
+    expect(script).toContain('command -v semanage');
+    expect(script).toContain('command -v grub2-mkconfig');
+  });
+
+  it('should stop a real run on a no-go but let a dry run carry on', () => {
+    const summary = buildPreflightChecks(options('ssh')).split('# Go or no-go')[1];
+    expect(summary).toMatch(/"\$DRY_RUN" == true \]\]; then\n\s+log_warning "Pre-flight: NO-GO[^\n]*\nelif [^\n]*\n\s+log_error "Pre-flight: NO-GO[^\n]*\n\s+exit 1/);
+  });
+
+  it('should change nothing the built-in checks would flag', () => {
+    const preflight = buildPreflightChecks(options('updates', 'ssh', 'iptablesAdvanced', 'sshPort', 'grubPassword'));
+    expect(lintScript(`${generateTemplateHeader()}\n\n${preflight}`)).toEqual([]);
+  });
+});
@@ -0,0 +1,180 @@
+
+import type { HardeningOption } from '../types';
+
+// Pre-flight checks run after the section list and before any change. Which checks a script
+// contains depends on its sections, and a check only runs when --only and --skip leave one of
+// them in. A failed check either stops the script (no-go) or is only reported as a warning.
+
+interface PreflightCheck {
+  /** The sections the check is for. A check without any is part of every script. */
+  optionIds?: string[];
+  /** Bash that reports through `preflight_pass`, `preflight_warn` and `preflight_block`. */
+  script: string;
+}
+
+// The oldest release the templates were written against.
+const MIN_FEDORA_RELEASE = 40;
+// What dnf upgrade needs in /var for downloads and in /usr for the installed packages.
+const MIN_FREE_MB = 2048;
+
+const PREFLIGHT_HELPERS = `# ----------------------------------------------------------------------------
+# Pre-flight Checks
+# Run before any change. A no-go stops the script with nothing changed; a
+# warning is only reported. A dry run reports both and carries on.
+# ----------------------------------------------------------------------------
+log_info "--- Pre-flight Checks ---"
+
+PREFLIGHT_PASSED=0
+PREFLIGHT_WARNINGS=()
+PREFLIGHT_BLOCKERS=()
+
+preflight_pass() {
+    PREFLIGHT_PASSED=$((PREFLIGHT_PASSED + 1))
+    log_success "Pre-flight: $1"
+}
+
+preflight_warn() {
+    PREFLIGHT_WARNINGS+=("$1")
+}
+
+preflight_block() {
+    PREFLIGHT_BLOCKERS+=("$1")
+}
+
+# Whether --only and --skip leave any of the given sections in.
+# Usage: preflight_wants <id>...
+preflight_wants() {
+    local id
+    for id in "$@"; do
+        if [[ -z "$ONLY_SECTIONS" || ",$ONLY_SECTIONS," == *",$id,"* ]] && [[ ",$SKIP_SECTIONS," != *",$id,"* ]]; then
+            return 0
+        fi
+    done
+    return 1
+}
+
+# Prints a field of /etc/os-release without its quotes, or nothing.
+# Usage: os_release_field <name>
+os_release_field() {
+    sed -n "s/^$1=//p" /etc/os-release 2>/dev/null | tr -d '"' || true
+}`;
+
+const PREFLIGHT_CHECKS: PreflightCheck[] = [
+  {
+    script: `# The sections are written for a current, package-based Fedora.
+os_id="$(os_release_field ID)"
+os_version="$(os_release_field VERSION_ID)"
+os_variant="$(os_release_field VARIANT_ID)"
+if [[ "$os_id" != fedora ]]; then
+    preflight_block "This is not Fedora (/etc/os-release says ID=\${os_id:-nothing})."
+elif [[ -e /run/ostree-booted ]]; then
+    preflight_block "Fedora \${os_variant:-Atomic} is image-based: dnf and changes under /usr do not work. Use rpm-ostree instead."
+elif [[ ! "$os_version" =~ ^[0-9]+$ ]]; then
+    preflight_warn "Fedora \${os_version:-without a release number} is not a numbered release; package names and defaults may differ."
+elif [[ "$os_version" -lt ${MIN_FEDORA_RELEASE} ]]; then
+    preflight_warn "Fedora \${os_version} is older than Fedora ${MIN_FEDORA_RELEASE}; it may be end of life, and its defaults may differ."
+else
+    preflight_pass "Fedora \${os_version} (\${os_variant:-no variant})."
+fi`,
+  },
+  {
+    optionIds: ['updates'],
+    script: `# dnf upgrade downloads to /var/cache/dnf and installs under /usr.
+for dir in /var /usr; do
+    free_mb="$(df -Pm "$dir" 2>/dev/null | awk 'NR == 2 { print $4 }' || true)"
+    if [[ ! "$free_mb" =~ ^[0-9]+$ ]]; then
+        preflight_warn "Could not read the free space of \${dir}."
+    elif [[ "$free_mb" -lt ${MIN_FREE_MB} ]]; then
+        preflight_block "Only \${free_mb} MB are free in \${dir}; dnf upgrade needs at least ${MIN_FREE_MB} MB."
+    else
+        preflight_pass "\${free_mb} MB free in \${dir}."
+    fi
+done`,
+  },
+  {
+    optionIds: ['ssh'],
+    script: `# Password logins are disabled, so the account running the script needs a key.
+admin_user="\${SUDO_USER:-root}"
+admin_home="$(getent passwd "$admin_user" | cut -d: -f6 || true)"
+if [[ -n "$admin_home" && -s "$admin_home/.ssh/authorized_keys" ]]; then
+    preflight_pass "\${admin_user} has an SSH key in \${admin_home}/.ssh/authorized_keys."
+else
+    preflight_block "\${admin_user} has no SSH key in \${admin_home:-its home}/.ssh/authorized_keys and could not log in once passwords are disabled. Add one with ssh-copy-id."
+fi`,
+  },
+  {
+    optionIds: ['iptablesAdvanced'],
+    script: `# Flushing the firewall rules can drop the connection the script runs over.
+# sudo clears SSH_CONNECTION, so sshd is also looked for among the parent processes.
+over_ssh=false
+if [[ -n "\${SSH_CONNECTION:-}" ]]; then
+    over_ssh=true
+else
+    pid="$PPID"
+    while [[ "$pid" =~ ^[0-9]+$ && "$pid" -gt 1 ]]; do
+        if [[ "$(ps -o comm= -p "$pid" 2>/dev/null || true)" == sshd* ]]; then
+            over_ssh=true
+            break
+        fi
+        pid="$(ps -o ppid= -p "$pid" 2>/dev/null | tr -d ' ' || true)"
+    done
+fi
+if [[ "$over_ssh" == true ]]; then
+    preflight_warn "This session runs over SSH, and the firewall rules will be flushed. Run the script from a console, or inside tmux or screen so it finishes if the connection drops."
+else
+    preflight_pass "The session does not run over SSH."
+fi`,
+  },
+  {
+    optionIds: ['sshPort'],
+    script: `# The new SSH port is labelled for sshd with semanage.
+if command -v semanage >/dev/null 2>&1; then
+    preflight_pass "semanage is available."
+else
+    preflight_warn "semanage is not installed. The SSH port section installs policycoreutils-python-utils for it, which needs a reachable repository."
+fi`,
+  },
+  {
+    optionIds: ['grubPassword'],
+    script: `# The bootloader password only takes effect once grub.cfg is regenerated.
+if command -v grub2-mkconfig >/dev/null 2>&1; then
+    preflight_pass "grub2-mkconfig is available."
+else
+    preflight_block "grub2-mkconfig is not installed, so the GRUB password cannot be applied. Is this system booted with GRUB?"
+fi`,
+  },
+];
+
+const PREFLIGHT_SUMMARY = `# Go or no-go, with every failed check listed together.
+for message in "\${PREFLIGHT_BLOCKERS[@]}"; do
+    log_error "Pre-flight [NO-GO]: \${message}"
+done
+for message in "\${PREFLIGHT_WARNINGS[@]}"; do
+    log_warning "Pre-flight [WARNING]: \${message}"
+done
+if [[ \${#PREFLIGHT_BLOCKERS[@]} -gt 0 && "$DRY_RUN" == true ]]; then
+    log_warning "Pre-flight: NO-GO (\${#PREFLIGHT_BLOCKERS[@]} failed). A real run would stop here; the dry run carries on."
+elif [[ \${#PREFLIGHT_BLOCKERS[@]} -gt 0 ]]; then
+    log_error "Pre-flight: NO-GO (\${#PREFLIGHT_BLOCKERS[@]} failed). Nothing was changed. Fix the problems above, or leave out the sections they concern with --skip."
+    exit 1
+elif [[ \${#PREFLIGHT_WARNINGS[@]} -gt 0 ]]; then
+    log_warning "Pre-flight: GO with \${#PREFLIGHT_WARNINGS[@]} warning(s) and \${PREFLIGHT_PASSED} passed check(s)."
+else
+    log_success "Pre-flight: GO. All \${PREFLIGHT_PASSED} checks passed."
+fi`;
+
+const indent = (script: string) => script.split('\n').map(line => line ? `    ${line}` : line).join('\n');
+
+/**
+ * Builds the pre-flight checks for a hardening script with the given sections: the checks
+ * every script gets, plus those for the selected sections, then the go/no-go summary.
+ */
+export const buildPreflightChecks = (options: HardeningOption[]): string => {
+  const ids = new Set(options.map(option => option.id));
+  const checks = PREFLIGHT_CHECKS.flatMap(({ optionIds, script }) => {
+    if (!optionIds) return [script];
+    const selected = optionIds.filter(id => ids.has(id));
+    return selected.length > 0 ? [`if preflight_wants ${selected.join(' ')}; then\n${indent(script)}\nfi`] : [];
+  });
+  return [PREFLIGHT_HELPERS, ...checks, PREFLIGHT_SUMMARY].join('\n\n');
+};
@@ -0,0 +1,38 @@
+/**
+ * @jest-environment node
+ */
+// The docblock has to come first for Jest to honour it; hashing needs Node's Web Crypto.
+import { describe, it, expect } from '@jest/globals';
+
+import { computeCacheKey, getCachedResponse, putCachedResponse, getCacheStats, isResponseCacheAvailable } from './responseCache';
+
+const parts = { provider: 'gemini', model: 'gemini-2.5-flash', prompt: 'Harden SSH', optionId: 'ssh' };
+
+describe('responseCache', () => {
+  describe('computeCacheKey', () => {
+    it('should produce the same SHA-256 hex digest for the same inputs', async () => {
+      const key = await computeCacheKey(parts);
+      expect(key).toMatch(/^[0-9a-f]{64}$/);
+      expect(await computeCacheKey({ ...parts })).toBe(key);
+    });
+
+    it('should change when the provider, model, server, prompt or option changes', async () => {
+      const key = await computeCacheKey(parts);
+      const variants = await Promise.all([
+        computeCacheKey({ ...parts, provider: 'openai-compatible' }),
+        computeCacheKey({ ...parts, model: 'llama3.1' }),
+        computeCacheKey({ ...parts, baseUrl: 'http://gateway.local/v1' }),
+        computeCacheKey({ ...parts, prompt: 'Harden SSH, refined' }),
+        computeCacheKey({ ...parts, optionId: 'sshPort' }),
+      ]);
+      variants.forEach(variant => expect(variant).not.toBe(key));
+    });
+  });
+
+  it('should behave as an empty cache when IndexedDB is unavailable', async () => {
+    expect(isResponseCacheAvailable()).toBe(false);
+    await putCachedResponse('key', 'ssh', 'echo cached');
+    expect(await getCachedResponse('key')).toBeNull();
+    expect(await getCacheStats()).toEqual({ entries: 0, bytes: 0 });
+  });
+});
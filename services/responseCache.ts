@@ -0,0 +1,152 @@
+
+/**
+ * A persistent, content-addressed cache of generated script parts, stored in IndexedDB.
+ * Every function degrades to a no-op where IndexedDB is unavailable (tests, private
+ * browsing), and storage failures are logged rather than thrown: a cache miss only
+ * costs a request, so it must never break generation.
+ */
+
+export interface CacheKeyParts {
+  provider: string;
+  model: string;
+  /** The server of an OpenAI-compatible provider, as two servers may serve different models under one name. */
+  baseUrl?: string;
+  prompt: string;
+  /** The option id, or 'header' / 'footer' for the fixed parts of the script. */
+  optionId: string;
+}
+
+interface CacheEntry {
+  key: string;
+  optionId: string;
+  text: string;
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+// Least recently used entries are evicted once either limit is exceeded.
+export const MAX_CACHE_ENTRIES = 200;
+export const MAX_CACHE_BYTES = 5 * 1024 * 1024;
+
+const DB_NAME = 'fedora-hardening';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const openDb = (): Promise<IDBDatabase> | null => {
+  if (typeof indexedDB === 'undefined') return null;
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('optionId', 'optionId');
+        store.createIndex('lastUsedAt', 'lastUsedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again instead of caching the failure forever.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/** Runs `operation` against the store, or resolves to `fallback` when there is no usable database. */
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  fallback: T,
+  operation: (store: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const pending = openDb();
+  if (!pending) return fallback;
+  try {
+    const db = await pending;
+    const tx = db.transaction(STORE_NAME, mode);
+    const result = await operation(tx.objectStore(STORE_NAME));
+    await transactionDone(tx);
+    return result;
+  } catch (error) {
+    console.warn('Response cache unavailable:', error);
+    return fallback;
+  }
+};
+
+/** Hashing needs `crypto.subtle`, which browsers only expose in secure contexts. */
+export const isResponseCacheAvailable = (): boolean =>
+  typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && crypto.subtle !== undefined;
+
+/**
+ * Hashes everything that determines a reply, so a changed prompt (e.g. one refined by
+ * ShellCheck & Learn), a different model or another server never hits a stale entry.
+ */
+export const computeCacheKey = async ({ provider, model, baseUrl, prompt, optionId }: CacheKeyParts): Promise<string> => {
+  const data = new TextEncoder().encode(JSON.stringify([provider, model, baseUrl ?? null, optionId, prompt]));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** Returns the cached text for `key`, or `null` on a miss, and marks the entry as recently used. */
+export const getCachedResponse = (key: string): Promise<string | null> =>
+  withStore('readwrite', null, async store => {
+    const entry: CacheEntry | undefined = await promisify(store.get(key));
+    if (!entry) return null;
+    store.put({ ...entry, lastUsedAt: Date.now() });
+    return entry.text;
+  });
+
+const evictLeastRecentlyUsed = async (store: IDBObjectStore): Promise<void> => {
+  const entries: CacheEntry[] = await promisify(store.index('lastUsedAt').getAll());
+  let count = entries.length;
+  let bytes = entries.reduce((total, entry) => total + entry.size, 0);
+  for (const entry of entries) {
+    if (count <= MAX_CACHE_ENTRIES && bytes <= MAX_CACHE_BYTES) break;
+    store.delete(entry.key);
+    count--;
+    bytes -= entry.size;
+  }
+};
+
+export const putCachedResponse = (key: string, optionId: string, text: string): Promise<void> =>
+  withStore('readwrite', undefined, async store => {
+    const now = Date.now();
+    const entry: CacheEntry = { key, optionId, text, size: text.length * 2, createdAt: now, lastUsedAt: now };
+    await promisify(store.put(entry));
+    await evictLeastRecentlyUsed(store);
+  });
+
+/** Drops every cached reply for one option, e.g. after its prompt has been refined. */
+export const invalidateCachedResponses = (optionId: string): Promise<void> =>
+  withStore('readwrite', undefined, async store => {
+    const keys = await promisify(store.index('optionId').getAllKeys(optionId));
+    keys.forEach(key => store.delete(key));
+  });
+
+export const clearResponseCache = (): Promise<void> =>
+  withStore('readwrite', undefined, async store => {
+    await promisify(store.clear());
+  });
+
+export const getCacheStats = (): Promise<CacheStats> =>
+  withStore('readonly', { entries: 0, bytes: 0 }, async store => {
+    const entries: CacheEntry[] = await promisify(store.getAll());
+    return { entries: entries.length, bytes: entries.reduce((total, entry) => total + entry.size, 0) };
+  });
@@ -0,0 +1,39 @@
+import { describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { generateRollbackScript } from './rollbackScript';
+import { PARANOIA_LEVELS } from '../constants';
+import { buildOptionGraph } from './optionGraph';
+import type { HardeningOption } from '../types';
+
+const options = buildOptionGraph(PARANOIA_LEVELS.flatMap(level => level.options)).options;
+
+const optionsFor = (...ids: string[]): HardeningOption[] => ids.map(id => options.get(id)!);
+
+describe('rollbackScript', () => {
+  it('should list the sections it was generated for', () => {
+    const script = generateRollbackScript(optionsFor('ssh', 'umask'));
+    expect(script.startsWith('#!/bin/bash\n')).toBe(true);
+    expect(script).toMatch(/^# {3}ssh {21}SSH Hardening$/m);
+    expect(script).toMatch(/^# {3}umask {19}/m);
+    expect(script).toContain('Usage: sudo ./fedora_hardening_rollback.sh [--dry-run] [--list] [--backup-dir DIR] [SECTION_ID...]');
+  });
+
+  it('should only reload what the selected sections changed', () => {
+    const script = generateRollbackScript(optionsFor('ssh', 'sshPort', 'auditLogins', 'umask'));
+    expect(script).toContain('        ssh|sshPort)\n            if sshd -t; then');
+    expect(script).toContain('        auditLogins)\n            run_cmd augenrules --load');
+    expect(script).not.toContain('umask)');
+    expect(script).not.toContain('sysctl --system');
+  });
+
+  it('should keep the shell expansions intact in the generated bash', () => {
+    const script = generateRollbackScript([]);
+    expect(script).toContain('BACKUP_DIR="${2:?--backup-dir needs a directory}"');
+    expect(script).toContain("while IFS=$'\\t' read -r -u 3 kind section target enabled active; do");
+    expect(script).toContain('    case "$1" in\n        *) ;;\n    esac');
+  });
+});
@@ -0,0 +1,221 @@
+
+import type { HardeningOption } from '../types';
+
+// The companion script that undoes a hardening run. The hardening script itself records what
+// it changes (see "Backups for Rollback" in the header); this script only replays that record
+// backwards, so it works the same for template and AI-generated sections.
+
+export const ROLLBACK_SCRIPT_NAME = 'fedora_hardening_rollback.sh';
+
+const RESTART_SSHD = `if sshd -t; then
+    run_cmd systemctl restart sshd
+else
+    log_error "The restored sshd configuration does not pass sshd -t; sshd was not restarted."
+fi`;
+const LOAD_AUDIT_RULES = 'run_cmd augenrules --load';
+const RESTORE_IPTABLES = `if [[ -f /etc/sysconfig/iptables ]]; then
+    run_cmd iptables-restore /etc/sysconfig/iptables
+fi`;
+
+/** What reads a section's files, keyed by option id, so the restored configuration takes effect. */
+const RELOAD_AFTER_RESTORE: Record<string, string> = {
+  firewall: `if systemctl is-active --quiet firewalld; then
+    run_cmd firewall-cmd --reload
+fi`,
+  ssh: RESTART_SSHD,
+  sshPort: RESTART_SSHD,
+  fail2ban: `if systemctl is-active --quiet fail2ban; then
+    run_cmd systemctl restart fail2ban
+fi`,
+  kernel: 'run_cmd sysctl --system',
+  filesystem: 'run_cmd systemctl daemon-reload',
+  logging: 'run_cmd systemctl restart systemd-journald',
+  auditFileAccess: LOAD_AUDIT_RULES,
+  auditCommands: LOAD_AUDIT_RULES,
+  auditLogins: LOAD_AUDIT_RULES,
+  selinux: 'log_warning "The previous SELinux mode applies after a reboot."',
+  iptablesAdvanced: RESTORE_IPTABLES,
+  iptablesBogon: RESTORE_IPTABLES,
+  iptablesPortKnocking: RESTORE_IPTABLES,
+};
+
+const indent = (code: string, spaces: number) =>
+  code.split('\n').map(line => ' '.repeat(spaces) + line).join('\n');
+
+// One case branch per reload snippet, listing every selected option that needs it.
+const buildReloadCases = (options: HardeningOption[]): string => {
+  const idsBySnippet = new Map<string, string[]>();
+  for (const option of options) {
+    const snippet = RELOAD_AFTER_RESTORE[option.id];
+    if (snippet) idsBySnippet.set(snippet, [...(idsBySnippet.get(snippet) ?? []), option.id]);
+  }
+  return [...idsBySnippet].map(([snippet, ids]) => `        ${ids.join('|')})\n${indent(snippet, 12)}\n            ;;`).join('\n');
+};
+
+/**
+ * Builds `fedora_hardening_rollback.sh` for the selected sections. It restores the files
+ * and service states the hardening script backed up, newest section first.
+ */
+export const generateRollbackScript = (options: HardeningOption[]): string => {
+  const sectionList = options.map(option => `#   ${option.id.padEnd(24)}${option.label}`).join('\n');
+  const reloadCases = buildReloadCases(options);
+
+  return `#!/bin/bash
+#
+# Rollback for fedora_hardening.sh, generated together with it.
+# Restores the files and service states the hardening script backed up before changing
+# them, one section at a time, newest first. Sections in the hardening script:
+${sectionList}
+#
+# Usage: sudo ./${ROLLBACK_SCRIPT_NAME} [--dry-run] [--list] [--backup-dir DIR] [SECTION_ID...]
+#
+
+set -euo pipefail
+
+GREEN='\\033[0;32m'
+YELLOW='\\033[1;33m'
+RED='\\033[0;31m'
+BLUE='\\033[0;34m'
+NC='\\033[0m'
+
+log_info()    { echo -e "\${BLUE}[INFO]\${NC} $1"; }
+log_success() { echo -e "\${GREEN}[SUCCESS]\${NC} $1"; }
+log_warning() { echo -e "\${YELLOW}[WARNING]\${NC} $1"; }
+log_error()   { echo -e "\${RED}[ERROR]\${NC} $1" >&2; }
+
+# --- Command-Line Options ---
+BACKUP_DIR="/var/backups/fedora-hardening/latest"
+DRY_RUN=false
+LIST_ONLY=false
+REQUESTED=()
+
+usage() {
+    echo "Usage: $0 [--dry-run] [--list] [--backup-dir DIR] [SECTION_ID...]"
+    echo "Rolls back every recorded section, or only the given ones, newest first."
+}
+
+while [[ $# -gt 0 ]]; do
+    case "$1" in
+        --dry-run) DRY_RUN=true ;;
+        --list) LIST_ONLY=true ;;
+        --backup-dir)
+            BACKUP_DIR="\${2:?--backup-dir needs a directory}"
+            shift
+            ;;
+        -h|--help)
+            usage
+            exit 0
+            ;;
+        -*)
+            echo "Unknown option: $1" >&2
+            usage >&2
+            exit 2
+            ;;
+        *) REQUESTED+=("$1") ;;
+    esac
+    shift
+done
+
+# Runs a command, or prints it in dry-run mode.
+run_cmd() {
+    if [[ "$DRY_RUN" == true ]]; then
+        printf "\${YELLOW}[DRY-RUN]\${NC} %s\\n" "$*"
+        return 0
+    fi
+    "$@"
+}
+
+MANIFEST="$BACKUP_DIR/manifest"
+if [[ ! -f "$MANIFEST" ]]; then
+    log_error "No backup manifest at $MANIFEST. Pass the directory the hardening script reported with --backup-dir."
+    exit 1
+fi
+if [[ "$LIST_ONLY" != true && "$DRY_RUN" != true && "\${EUID}" -ne 0 ]]; then
+    log_error "This script must be run as root (try: sudo $0)."
+    exit 1
+fi
+
+section_label() {
+    awk -F'\\t' -v id="$1" '$1 == "section" && $2 == id { print $3; exit }' "$MANIFEST"
+}
+
+# Counts the manifest records of one kind for a section.
+count_records() {
+    awk -F'\\t' -v kind="$1" -v id="$2" '$1 == kind && $2 == id' "$MANIFEST" | wc -l
+}
+
+# Puts a unit back into the enabled and active state recorded before the section ran.
+# Usage: restore_service <unit> <is-enabled state> <is-active state>
+restore_service() {
+    case "$2" in
+        enabled)
+            run_cmd systemctl unmask "$1"
+            run_cmd systemctl enable "$1"
+            ;;
+        disabled)
+            run_cmd systemctl unmask "$1"
+            run_cmd systemctl disable "$1"
+            ;;
+        masked) run_cmd systemctl mask "$1" ;;
+    esac
+    case "$3" in
+        active) run_cmd systemctl start "$1" ;;
+        inactive|failed) run_cmd systemctl stop "$1" ;;
+    esac
+}
+
+# Reloads whatever reads a section's restored files, so the previous configuration takes effect.
+reload_section() {
+    case "$1" in
+${reloadCases ? `${reloadCases}\n` : ''}        *) ;;
+    esac
+}
+
+# Restores the files a section changed, removes the ones it created, and puts its
+# services back into their previous state.
+rollback_section() {
+    local id="$1"
+    local kind section target enabled active
+    log_info "--- Rolling back: $(section_label "$id") ---"
+    while IFS=$'\\t' read -r -u 3 kind section target enabled active; do
+        [[ "$section" == "$id" ]] || continue
+        case "$kind" in
+            file) run_cmd cp -a "$BACKUP_DIR/files/$id$target" "$target" ;;
+            created) run_cmd rm -rf -- "$target" ;;
+            service) restore_service "$target" "$enabled" "$active" ;;
+        esac
+    done 3< "$MANIFEST"
+    reload_section "$id"
+}
+
+mapfile -t RECORDED < <(awk -F'\\t' '$1 == "section" { print $2 }' "$MANIFEST" | tac)
+
+if [[ "$LIST_ONLY" == true ]]; then
+    log_info "Sections recorded in $BACKUP_DIR, newest first:"
+    for id in "\${RECORDED[@]}"; do
+        printf "  %-24s %s (%d files, %d services)\\n" "$id" "$(section_label "$id")" \\
+            "$(( $(count_records file "$id") + $(count_records created "$id") ))" "$(count_records service "$id")"
+    done
+    exit 0
+fi
+
+for id in "\${REQUESTED[@]}"; do
+    if [[ " \${RECORDED[*]} " != *" $id "* ]]; then
+        log_error "Section '$id' is not recorded in $MANIFEST. Run with --list to see the recorded sections."
+        exit 2
+    fi
+done
+
+if [[ "$DRY_RUN" == true ]]; then
+    log_warning "Dry run: the commands below are printed, not run."
+fi
+for id in "\${RECORDED[@]}"; do
+    if [[ \${#REQUESTED[@]} -eq 0 || " \${REQUESTED[*]} " == *" $id "* ]]; then
+        rollback_section "$id"
+    fi
+done
+
+log_success "Rollback finished from $BACKUP_DIR."
+log_warning "Reboot the system so that restored kernel, SELinux, mount and GRUB settings take effect."
+`;
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { parseRunLog, summarizeRunLog, formatRunLogSummary } from './runLog';
+
+const record = (status: string, section: string, step: string, exitCode: number | null = null, stderrTail = '') =>
+  JSON.stringify({ timestamp: '2025-01-01T12:00:00+00:00', section, step, status, exit_code: exitCode, stderr_tail: stderrTail });
+
+const RUN = [
+  record('info', '', 'Starting Fedora hardening.'),
+  record('start', 'updates', 'System Updates & Packages'),
+  record('done', 'updates', 'dnf upgrade -y', 0),
+  record('end', 'updates', 'System Updates & Packages'),
+  record('start', 'firewall', 'Firewall Configuration'),
+  record('failed', 'firewall', 'firewall-cmd --permanent --new-zone=hardened', 114, 'Error: NAME_CONFLICT: hardened'),
+  record('warning', 'firewall', 'The zone already exists.'),
+  record('end', 'firewall', 'Firewall Configuration'),
+  record('skipped', 'grubPassword', 'Set GRUB Bootloader Password'),
+  record('start', 'logging', 'Logging & Auditing Setup (auditd)'),
+  record('failed', 'logging', 'augenrules --load', 1, 'Error sending add rule data request (No such file or directory)\nThere was an error in line 5'),
+  record('exit', 'logging', 'Stopped', 1),
+];
+
+describe('runLog', () => {
+  it('should read records and leave other text to the text analysis', () => {
+    const parsed = parseRunLog(`${RUN.join('\n')}\n{"timestamp":"2025-01-01T12:`);
+    expect(parsed?.records).toHaveLength(RUN.length);
+    expect(parsed?.records[5]).toMatchObject({ status: 'failed', exitCode: 114, stderrTail: 'Error: NAME_CONFLICT: hardened' });
+    // The last line was cut off mid-write.
+    expect(parsed?.invalidLines).toEqual([RUN.length + 1]);
+
+    expect(parseRunLog('[INFO] 2025-01-01 12:00:00 Starting Fedora hardening.')).toBeNull();
+    expect(parseRunLog('{"analysis": true}')).toBeNull();
+    expect(parseRunLog('')).toBeNull();
+  });
+
+  it('should work out each section\'s outcome from its records', () => {
+    const summary = summarizeRunLog(parseRunLog(RUN.join('\n'))!.records);
+    expect(summary.sections.map(({ id, outcome, completed }) => [id, outcome, completed])).toEqual([
+      ['updates', 'passed', true],
+      ['firewall', 'warning', true],
+      ['grubPassword', 'skipped', false],
+      ['logging', 'failed', false],
+    ]);
+    expect(summary.exitCode).toBe(1);
+    expect(summary.earlierRuns).toBe(0);
+    expect(formatRunLogSummary(summary)).toContain([
+      '- logging (Logging & Auditing Setup (auditd)): FAILED, the run stopped in this section',
+      '    - [failed] augenrules --load (exit code 1)',
+      '      stderr: Error sending add rule data request (No such file or directory)',
+      '      stderr: There was an error in line 5',
+      'The script exited with status 1.',
+    ].join('\n'));
+  });
+
+  it('should only summarize the last run of a log several runs were appended to', () => {
+    const rerun = [
+      record('start', 'logging', 'Logging & Auditing Setup (auditd)'),
+      record('error', 'logging', 'auditd is not running.'),
+      record('end', 'logging', 'Logging & Auditing Setup (auditd)'),
+    ];
+    const summary = summarizeRunLog(parseRunLog([...RUN, ...rerun].join('\n'))!.records);
+    expect(summary.sections.map(({ id, outcome }) => [id, outcome])).toEqual([['logging', 'failed']]);
+    // Without an exit record the run was killed or is still going.
+    expect(summary.exitCode).toBeNull();
+    expect(summary.earlierRuns).toBe(1);
+  });
+});
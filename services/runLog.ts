@@ -0,0 +1,156 @@
+
+import type { RunLogRecord, RunLogStatus } from '../types';
+
+// Reads the JSON Lines log a generated hardening script writes next to its text log. Unlike
+// the terminal output it records every command result and section boundary, so the outcome
+// of each section is known instead of guessed from colored text.
+
+export const RUN_LOG_FILE = '/var/log/hardening.jsonl';
+
+const STATUSES: RunLogStatus[] = ['info', 'success', 'warning', 'error', 'done', 'failed', 'start', 'end', 'skipped', 'exit'];
+
+/**
+ * How a section went: 'failed' when the run stopped inside it or it logged an error, and
+ * 'warning' when it finished despite warnings or failed commands it tolerated.
+ */
+export type SectionOutcome = 'passed' | 'warning' | 'failed' | 'skipped';
+
+export interface RunLogSection {
+  id: string;
+  label: string;
+  outcome: SectionOutcome;
+  /** False when the run stopped before the section's 'end' record. */
+  completed: boolean;
+  /** Failed commands and error messages, in log order. */
+  failures: RunLogRecord[];
+  warnings: RunLogRecord[];
+}
+
+export interface RunLogSummary {
+  sections: RunLogSection[];
+  /** Failures and warnings logged outside any section, e.g. by the header or a safeguard. */
+  otherIssues: RunLogRecord[];
+  /** The script's exit status, or null when the log ends without one (still running, or killed). */
+  exitCode: number | null;
+  /** Earlier runs appended to the same file. Only the last run is summarized. */
+  earlierRuns: number;
+}
+
+export interface ParsedRunLog {
+  records: RunLogRecord[];
+  /** 1-based numbers of the lines that are not valid records, such as one cut off mid-write. */
+  invalidLines: number[];
+}
+
+const parseRecord = (line: string): RunLogRecord | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (typeof value !== 'object' || value === null) return null;
+  const { timestamp, section, step, status, exit_code: exitCode, stderr_tail: stderrTail } = value as Record<string, unknown>;
+  if (typeof timestamp !== 'string' || typeof section !== 'string' || typeof step !== 'string' || typeof stderrTail !== 'string'
+    || !STATUSES.includes(status as RunLogStatus) || (exitCode !== null && typeof exitCode !== 'number')) {
+    return null;
+  }
+  return { timestamp, section, step, status: status as RunLogStatus, exitCode: exitCode as number | null, stderrTail };
+};
+
+/**
+ * Reads a pasted JSON Lines run log. Returns null when the text is not one, i.e. its first
+ * non-empty line is not a record, so terminal output is left to the text analysis.
+ */
+export const parseRunLog = (text: string): ParsedRunLog | null => {
+  const lines = text.split('\n').map(line => line.trim());
+  const firstLine = lines.find(line => line);
+  if (!firstLine || !parseRecord(firstLine)) return null;
+
+  const records: RunLogRecord[] = [];
+  const invalidLines: number[] = [];
+  lines.forEach((line, index) => {
+    if (!line) return;
+    const record = parseRecord(line);
+    if (record) {
+      records.push(record);
+    } else {
+      invalidLines.push(index + 1);
+    }
+  });
+  return { records, invalidLines };
+};
+
+/** Works out each section's outcome in the last run of the log. */
+export const summarizeRunLog = (records: RunLogRecord[]): RunLogSummary => {
+  // Each run ends with its 'exit' record; anything after the last one is a run that did not finish.
+  const exits = records.flatMap((record, index) => record.status === 'exit' ? [index] : []);
+  const lastExit = exits[exits.length - 1] ?? -1;
+  const endsWithExit = lastExit === records.length - 1;
+  const runStart = endsWithExit ? (exits[exits.length - 2] ?? -1) + 1 : lastExit + 1;
+  const run = records.slice(runStart);
+
+  const sections = new Map<string, RunLogSection>();
+  const sectionFor = (id: string, label = id) => {
+    let section = sections.get(id);
+    if (!section) {
+      section = { id, label, outcome: 'passed', completed: false, failures: [], warnings: [] };
+      sections.set(id, section);
+    }
+    return section;
+  };
+  const otherIssues: RunLogRecord[] = [];
+
+  for (const record of run) {
+    if (record.status === 'start') {
+      sectionFor(record.section, record.step);
+    } else if (record.status === 'skipped') {
+      sectionFor(record.section, record.step).outcome = 'skipped';
+    } else if (record.status === 'end') {
+      sectionFor(record.section, record.step).completed = true;
+    } else if (record.status === 'failed' || record.status === 'error' || record.status === 'warning') {
+      if (!record.section) {
+        otherIssues.push(record);
+        continue;
+      }
+      const section = sectionFor(record.section);
+      (record.status === 'warning' ? section.warnings : section.failures).push(record);
+    }
+  }
+
+  for (const section of sections.values()) {
+    if (section.outcome === 'skipped') continue;
+    if (!section.completed || section.failures.some(record => record.status === 'error')) {
+      section.outcome = 'failed';
+    } else if (section.failures.length > 0 || section.warnings.length > 0) {
+      section.outcome = 'warning';
+    }
+  }
+
+  return {
+    sections: [...sections.values()],
+    otherIssues,
+    exitCode: endsWithExit ? records[lastExit].exitCode : null,
+    earlierRuns: endsWithExit ? exits.length - 1 : exits.length,
+  };
+};
+
+const formatRecord = (record: RunLogRecord): string[] => [
+  `    - [${record.status}] ${record.step}${record.exitCode !== null ? ` (exit code ${record.exitCode})` : ''}`,
+  ...(record.stderrTail ? record.stderrTail.split('\n').map(line => `      stderr: ${line}`) : []),
+];
+
+/** Describes the summary as plain text for a prompt: one entry per section with its failing steps. */
+export const formatRunLogSummary = (summary: RunLogSummary): string => {
+  const lines = summary.sections.flatMap(section => [
+    `- ${section.id} (${section.label}): ${section.outcome.toUpperCase()}${!section.completed && section.outcome === 'failed' ? ', the run stopped in this section' : ''}`,
+    ...[...section.failures, ...section.warnings].flatMap(formatRecord),
+  ]);
+  if (summary.otherIssues.length > 0) {
+    lines.push('- Outside any section:', ...summary.otherIssues.flatMap(formatRecord));
+  }
+  lines.push(summary.exitCode === null
+    ? 'The log ends without an exit record: the run was killed or is still going.'
+    : `The script exited with status ${summary.exitCode}.`);
+  return lines.join('\n');
+};
@@ -0,0 +1,101 @@
+
+import type { HardeningOption } from '../types';
+import { describeExecutionOrder } from './executionOrder';
+
+/**
+ * Stitches the generated parts into the final script. Sections are always emitted in
+ * the order given, independent of the order in which they finished generating.
+ */
+export const assembleScript = (header: string, sections: string[], footer: string): string => {
+  let script = header ? header + '\n\n' : '';
+  for (const section of sections) {
+    script += section + '\n\n';
+  }
+  if (footer) {
+    script += footer + '\n';
+  }
+  return script;
+};
+
+export interface ScriptPart {
+  /** The option id, 'header' / 'footer', 'sectionRegistry', 'preflight', or 'safeguardPreamble' / 'safeguardEpilogue'. */
+  id: string;
+  label: string;
+  content: string;
+}
+
+export interface SectionLineRange {
+  id: string;
+  label: string;
+  /** 1-based and inclusive, matching the line numbers reported by ShellCheck. */
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Works out which lines of the `assembleScript` output each part occupies, so a line
+ * number from a tool like ShellCheck can be traced back to the option that produced it.
+ */
+export const getSectionLineRanges = (parts: ScriptPart[]): SectionLineRange[] => {
+  const ranges: SectionLineRange[] = [];
+  let nextLine = 1;
+  for (const part of parts) {
+    if (!part.content) continue;
+    const lineCount = part.content.split('\n').length;
+    ranges.push({ id: part.id, label: part.label, startLine: nextLine, endLine: nextLine + lineCount - 1 });
+    // Parts are separated by one blank line (see assembleScript).
+    nextLine += lineCount + 1;
+  }
+  return ranges;
+};
+
+// Option labels end up inside double quotes in bash.
+const shellLabel = (option: HardeningOption) => option.label.replace(/["$`\\]/g, '');
+
+/**
+ * Stands in for a section whose generation failed, so the rest of the script stays
+ * usable and the gap is obvious both when reading the script and when running it.
+ */
+export const buildFailedSectionPlaceholder = (option: HardeningOption, errorMessage: string): string => {
+  const safeLabel = shellLabel(option);
+  return [
+    '# ----------------------------------------------------------------------------',
+    `# [GENERATION FAILED] ${safeLabel} (${option.id})`,
+    ...errorMessage.split('\n').map(line => `# ${line}`.trimEnd()),
+    '# Retry this section in the generator before running the script.',
+    '# ----------------------------------------------------------------------------',
+    `log_error "Section '${safeLabel}' was not generated and has been skipped."`,
+  ].join('\n');
+};
+
+/**
+ * Wraps a section in a function named after its option id, followed by the `run_section`
+ * call that runs it, so `--only`, `--skip` and the rollback script can address it by id.
+ */
+export const wrapSection = (option: HardeningOption, content: string): string => {
+  if (!content) return content;
+  // bash rejects a function body without a single command.
+  const body = /^\s*[^#\s]/m.test(content) ? content : `${content}\n:`;
+  return [`# === Section: ${option.id} ===`, `section_${option.id}() {`, body, '}', `run_section ${option.id}`].join('\n');
+};
+
+/**
+ * Registers every section with the header right after it, so the script can list them and
+ * check `--only` and `--skip` before `start_run` writes its logs and any section runs. Its
+ * comment is the script's table of contents and explains the order the sections run in.
+ */
+export const buildSectionRegistry = (options: HardeningOption[]): string => {
+  if (options.length === 0) return '';
+  return [
+    '# ----------------------------------------------------------------------------',
+    '# Sections',
+    '# Each section below is a function run by run_section. Print their ids with',
+    '# --list, and choose which run with --only or --skip.',
+    '#',
+    ...describeExecutionOrder(options),
+    '# ----------------------------------------------------------------------------',
+    ...options.map(option => `register_section ${option.id} "${shellLabel(option)}"`),
+    'check_section_options',
+    'start_run',
+  ].join('\n');
+};
@@ -0,0 +1,167 @@
+import { describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { lintScript } from './scriptLinter';
+import { assembleScript, buildSectionRegistry, wrapSection } from './scriptAssembler';
+import { generateTemplateHeader, generateTemplateSection, generateTemplateFooter } from './scriptTemplates';
+import { generateCheckHeader, generateCheckSection, generateCheckFooter } from './checkTemplates';
+import { PARANOIA_LEVELS } from '../constants';
+import type { HardeningOption } from '../types';
+
+const HEADER = `#!/bin/bash
+set -euo pipefail
+DRY_RUN=false
+log_info() { echo "$1"; }
+run_cmd() {
+    if [[ "$DRY_RUN" == true ]]; then
+        echo "[DRY-RUN] $*"
+        return 0
+    fi
+    "$@"
+}
+write_file() {
+    cat > "$1"
+}
+run_with_spinner() {
+    log_info "$1"
+    bash -c "$2"
+}`;
+
+// Wraps a section in a minimal header so only the rule under test fires.
+const lintSection = (section: string) => lintScript(`${HEADER}\n${section}`);
+const ruleIds = (script: string) => lintSection(script).map(finding => finding.ruleId);
+const findingsOf = (ruleId: string, script: string) => lintScript(script).filter(finding => finding.ruleId === ruleId);
+
+const flatten = (options: HardeningOption[]): HardeningOption[] =>
+  options.flatMap(option => option.subOptions ? flatten(option.subOptions) : [option]);
+
+describe('scriptLinter', () => {
+  it('should not flag any script built from the offline templates', () => {
+    const options = flatten(PARANOIA_LEVELS.flatMap(level => level.options));
+    const sections = options.map(option => wrapSection(option, generateTemplateSection(option)));
+    const script = assembleScript(generateTemplateHeader(), [buildSectionRegistry(options), ...sections], generateTemplateFooter());
+    expect(lintScript(script)).toEqual([]);
+  });
+
+  describe('check scripts', () => {
+    it('should not flag any check script built from the offline templates', () => {
+      const options = flatten(PARANOIA_LEVELS.flatMap(level => level.options));
+      const sections = options.map(option => wrapSection(option, generateCheckSection(option)));
+      const script = assembleScript(generateCheckHeader(), [buildSectionRegistry(options), ...sections], generateCheckFooter());
+      expect(lintScript(script, 'check')).toEqual([]);
+      // Without the dry-run wrappers the same script would fail the hardening rules.
+      expect(lintScript(script).map(finding => finding.ruleId)).toContain('dry-run-bypass');
+    });
+
+    it('should flag anything that changes the system, wrapped or not', () => {
+      const check = (section: string) => lintScript(`${generateCheckHeader()}\n${section}`, 'check')
+        .map(({ ruleId, message }) => `${ruleId}: ${message.split(' ')[0]}`);
+      // The check header does not define the wrappers either.
+      expect(check('run_cmd systemctl enable --now firewalld')).toEqual(['helper-before-definition: `run_cmd`', 'check-changes-system: `run_cmd`']);
+      expect(check('sysctl -w net.ipv4.tcp_syncookies=1')).toEqual(['check-changes-system: `sysctl`']);
+      expect(check('echo "umask 027" >> /etc/bashrc')).toEqual(['check-changes-system: The']);
+      expect(check('systemctl is-active --quiet firewalld && sysctl -n kernel.kptr_restrict >/dev/null')).toEqual([]);
+    });
+  });
+
+  it('should warn when strict mode is missing or incomplete', () => {
+    expect(findingsOf('strict-mode', '#!/bin/bash\necho hi')).toEqual([
+      expect.objectContaining({ ruleId: 'strict-mode', severity: 'warning', line: 1 }),
+    ]);
+    const partial = findingsOf('strict-mode', '#!/bin/bash\nset -e\necho hi');
+    expect(partial[0]).toMatchObject({ ruleId: 'strict-mode', line: 2 });
+    expect(partial[0].message).toContain('missing -u, -o pipefail');
+    expect(findingsOf('strict-mode', '#!/bin/bash\nset -eu\nset -o pipefail')).toEqual([]);
+  });
+
+  it('should flag helpers called before the header defines them', () => {
+    const findings = findingsOf('helper-before-definition', '#!/bin/bash\nlog_info "early"\nlog_info() { echo "$1"; }\nrun_with_spinner "x" "true"');
+    expect(findings.map(finding => finding.line)).toEqual([2, 4]);
+    expect(findings[0].message).toContain('line 3');
+    expect(findings[1].message).toContain('never defined');
+  });
+
+  it('should ignore helper calls inside function bodies and comments', () => {
+    expect(ruleIds('step() {\n    log_info "inside"\n}\n# log_info "comment"\nstep')).toEqual([]);
+  });
+
+  describe('dry-run-bypass', () => {
+    it('should flag mutating commands and file redirects outside the wrappers', () => {
+      const findings = lintSection([
+        'dnf install -y aide',
+        'if ! grep -q tmp /etc/fstab; then echo "tmpfs /tmp tmpfs 0 0" >> /etc/fstab; fi',
+        'systemctl enable --now auditd && chmod 600 /etc/audit/auditd.conf',
+        'set_flag() {',
+        '    sed -i "s/a/b/" "$1"',
+        '}',
+      ].join('\n'));
+      expect(findings.map(({ ruleId, line }) => [ruleId, line])).toEqual([
+        ['dry-run-bypass', 19],
+        ['dry-run-bypass', 20],
+        ['dry-run-bypass', 21],
+        ['dry-run-bypass', 21],
+        ['dry-run-bypass', 23],
+      ]);
+      expect(findings[0].message).toContain('`dnf` changes the system even with --dry-run');
+      expect(findings[1].message).toContain('The redirect to /etc/fstab');
+    });
+
+    it('should accept wrapped commands, read-only commands and log redirects', () => {
+      expect(ruleIds([
+        'run_cmd dnf install -y aide',
+        'run_with_spinner "Enabling auditd" "systemctl enable --now auditd"',
+        'echo "x" | write_file /etc/example.conf',
+        'if systemctl is-active --quiet firewalld; then log_info "$(firewall-cmd --list-services)"; fi',
+        'dnf --security check-update bind >/dev/null 2>&1 || true',
+        'iptables -C INPUT -j BOGONS 2>/dev/null && awk \'NR > 1 { print $1 }\' /etc/passwd',
+        'echo "done" >> "$LOG_FILE"',
+        'printf \'{"status":"done"}\\n\' >> "$LOG_JSON_FILE"',
+      ].join('\n'))).toEqual([]);
+    });
+
+    it('should report a script without the dry-run wrapper once', () => {
+      expect(findingsOf('dry-run-bypass', '#!/bin/bash\ndnf upgrade -y\nsystemctl reboot')).toEqual([
+        expect.objectContaining({ line: 1, message: expect.stringContaining('cannot be previewed with --dry-run') }),
+      ]);
+    });
+  });
+
+  it('should flag in-place edits of sshd_config without a backup', () => {
+    expect(ruleIds('run_cmd sed -i "s/^#PermitRootLogin.*/PermitRootLogin no/" /etc/ssh/sshd_config')).toEqual(['sshd-config-sed-without-backup']);
+    expect(ruleIds('CFG="/etc/ssh/sshd_config"\nrun_with_spinner "Edit" "sed -Ei \'s/a/b/\' $CFG"')).toEqual(['sshd-config-sed-without-backup']);
+
+    expect(ruleIds('run_cmd sed -i.bak "s/a/b/" /etc/ssh/sshd_config')).toEqual([]);
+    expect(ruleIds('run_cmd cp -a /etc/ssh/sshd_config /etc/ssh/sshd_config.orig\nrun_cmd sed -i "s/a/b/" /etc/ssh/sshd_config')).toEqual([]);
+    expect(ruleIds('run_cmd sed -i "s/a/b/" /etc/ssh/sshd_config.d/01-hardening.conf')).toEqual([]);
+  });
+
+  it('should flag an INPUT flush that can drop the running SSH session', () => {
+    expect(ruleIds('run_cmd iptables -F\nrun_cmd iptables -P INPUT DROP')).toEqual(['iptables-flush-without-established']);
+    expect(ruleIds('run_cmd iptables -P INPUT ACCEPT\nrun_cmd iptables -F\nrun_cmd iptables -A INPUT -p tcp --dport 22 -j ACCEPT\nrun_cmd iptables -P INPUT DROP'))
+      .toEqual(['iptables-flush-without-established']);
+
+    expect(ruleIds('run_cmd iptables -P INPUT ACCEPT\nrun_cmd iptables -F\nrun_cmd iptables -A INPUT -m conntrack --ctstate ESTABLISHED,RELATED -j ACCEPT\nrun_cmd iptables -P INPUT DROP'))
+      .toEqual([]);
+    expect(ruleIds('run_cmd iptables -N BOGONS 2>/dev/null || run_cmd iptables -F BOGONS')).toEqual([]);
+    expect(ruleIds('run_cmd iptables -t nat -F')).toEqual([]);
+  });
+
+  it('should flag remote scripts piped into a shell', () => {
+    expect(ruleIds('curl -fsSL https://example.com/install.sh | sudo bash')).toEqual(['curl-pipe-shell']);
+    expect(ruleIds('bash <(wget -qO- https://example.com/install.sh)')).toEqual(['curl-pipe-shell']);
+    expect(ruleIds('curl -fsSL https://example.com/key | gpg --dearmor')).toEqual([]);
+  });
+
+  it('should flag SELinux being switched to permissive', () => {
+    expect(ruleIds('run_cmd setenforce 0')).toEqual(['setenforce-permissive']);
+    expect(ruleIds('run_with_spinner "Relax SELinux" "setenforce Permissive"')).toEqual(['setenforce-permissive']);
+    expect(ruleIds('run_cmd setenforce 1')).toEqual([]);
+  });
+
+  it('should not treat heredoc bodies as commands', () => {
+    expect(ruleIds("write_file /root/notes.txt <<'EOF'\nNever run setenforce 0 here.\nEOF\nlog_info done")).toEqual([]);
+  });
+});
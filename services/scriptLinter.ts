@@ -0,0 +1,440 @@
+
+import type { LintFinding, LintSeverity, ScriptKind } from '../types';
+
+// App-specific checks for generated hardening scripts. Unlike ShellCheck these know what a
+// script from this app is supposed to look like (the header's helpers, the SSH and firewall
+// sections), run entirely in the browser, and only read the text. Compliance check scripts
+// get their own rules: they must not change anything, so they need no dry-run wrappers.
+
+interface ScriptLine {
+  /** 1-based line number. */
+  number: number;
+  text: string;
+  /** The line with comments removed and heredoc bodies blanked, i.e. only what bash executes. */
+  code: string;
+  /** `code` with the contents of quoted strings replaced by `_`, keeping every index in place. */
+  masked: string;
+}
+
+interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  /** Short name shown in the summary panel. */
+  title: string;
+  /** The kinds of script the rule applies to; every kind when unset. */
+  kinds?: ScriptKind[];
+  check: (lines: ScriptLine[]) => { line: number; message: string }[];
+}
+
+const HELPERS = ['log_info', 'log_success', 'log_warning', 'log_error', 'log_secret', 'run_with_spinner', 'run_cmd', 'write_file', 'append_file', 'begin_section', 'register_section', 'check_section_options', 'start_run', 'run_section', 'check_pass', 'check_fail', 'check_na'];
+// The header functions that implement --dry-run and the rollback backups; their bodies are the
+// only place allowed to change the system directly.
+const DRY_RUN_HELPERS = ['_log', '_init_logs', 'run_cmd', 'write_file', 'append_file', 'run_with_spinner', 'begin_section', 'backup_path', 'record_service', 'track_changes'];
+// The helpers a hardening script changes the system through. A check script has no reason to call them.
+const CHANGE_HELPERS = ['run_cmd', 'write_file', 'append_file', 'run_with_spinner', 'begin_section'];
+const SSHD_CONFIG = '/etc/ssh/sshd_config';
+
+const HEREDOC_PATTERN = /(?<!<)<<(-?)\s*(['"]?)([A-Za-z_]\w*)\2/g;
+const FUNCTION_DEFINITION_PATTERN = /^\s*(?:function\s+([A-Za-z_]\w*)|([A-Za-z_]\w*)\s*\(\s*\))/;
+
+/**
+ * Splits a script into lines and works out which part of each line bash would execute.
+ * Quotes are tracked across lines so a `#` inside a multi-line string is not a comment.
+ */
+const prepareLines = (script: string): ScriptLine[] => {
+  const lines: ScriptLine[] = [];
+  const heredocs: { delimiter: string; stripTabs: boolean }[] = [];
+  let quote: "'" | '"' | null = null;
+
+  script.split('\n').forEach((text, index) => {
+    const number = index + 1;
+    if (heredocs.length > 0) {
+      const { delimiter, stripTabs } = heredocs[0];
+      if ((stripTabs ? text.replace(/^\t+/, '') : text) === delimiter) {
+        heredocs.shift();
+      }
+      lines.push({ number, text, code: '', masked: '' });
+      return;
+    }
+
+    let code = '';
+    let masked = '';
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quote === "'") {
+        code += char;
+        masked += char === "'" ? char : '_';
+        if (char === "'") quote = null;
+        continue;
+      }
+      if (char === '\\') {
+        const escaped = text.slice(i, i + 2);
+        code += escaped;
+        masked += quote ? '_'.repeat(escaped.length) : escaped;
+        i++;
+        continue;
+      }
+      if (quote === '"') {
+        code += char;
+        masked += char === '"' ? char : '_';
+        if (char === '"') quote = null;
+        continue;
+      }
+      if (char === "'" || char === '"') {
+        quote = char;
+      } else if (char === '#' && (i === 0 || /[\s;&|(]/.test(text[i - 1]))) {
+        break;
+      }
+      code += char;
+      masked += char;
+    }
+    lines.push({ number, text, code, masked });
+
+    if (quote === null) {
+      for (const match of code.matchAll(HEREDOC_PATTERN)) {
+        heredocs.push({ delimiter: match[3], stripTabs: match[1] === '-' });
+      }
+    }
+  });
+  return lines;
+};
+
+const countOf = (text: string, char: string): number => text.split(char).length - 1;
+
+/** Yields each line together with the name of the function whose body it is in, if any. */
+const withEnclosingFunction = (lines: ScriptLine[]): { line: ScriptLine; inFunction?: string }[] => {
+  let current: string | undefined;
+  let depth = 0;
+  return lines.map(line => {
+    if (depth === 0) {
+      const match = FUNCTION_DEFINITION_PATTERN.exec(line.code);
+      current = match ? match[1] ?? match[2] : undefined;
+    }
+    const inFunction = current;
+    if (current !== undefined) {
+      depth = Math.max(0, depth + countOf(line.masked, '{') - countOf(line.masked, '}'));
+      if (depth === 0) current = undefined;
+    }
+    return { line, inFunction };
+  });
+};
+
+const READ_ONLY_DNF = ['list', 'info', 'search', 'check-update', 'repoquery', 'provides', 'history', 'updateinfo'];
+const READ_ONLY_SYSTEMCTL = ['is-active', 'is-enabled', 'is-failed', 'status', 'show', 'cat', 'list-units', 'list-unit-files', 'list-timers'];
+const MUTATING_IPTABLES_FLAGS = ['-A', '--append', '-I', '--insert', '-D', '--delete', '-R', '--replace', '-F', '--flush', '-X', '--delete-chain', '-Z', '--zero', '-N', '--new-chain', '-P', '--policy', '-E', '--rename-chain'];
+
+const firstVerb = (args: string[]) => args.find(arg => !arg.startsWith('-'));
+const isInPlaceSed = (args: string[]) => args.some(arg => arg === '--in-place' || /^--in-place=/.test(arg) || /^-[a-zA-Z]*i/.test(arg));
+
+/** Commands that change the system, each with a check of whether its arguments make it do so. */
+const MUTATING_COMMANDS: Record<string, (args: string[]) => boolean> = {
+  dnf: args => !READ_ONLY_DNF.includes(firstVerb(args) ?? ''),
+  sed: isInPlaceSed,
+  systemctl: args => !READ_ONLY_SYSTEMCTL.includes(firstVerb(args) ?? 'status'),
+  'firewall-cmd': args => args.some(arg => /^--(add|remove|set|new|delete|change)-|^--(reload|complete-reload|runtime-to-permanent)$/.test(arg)),
+  iptables: args => args.some(arg => MUTATING_IPTABLES_FLAGS.includes(arg)),
+  ip6tables: args => args.some(arg => MUTATING_IPTABLES_FLAGS.includes(arg)),
+  semanage: args => args.some(arg => /^-[adm]$|^--(add|delete|modify)$/.test(arg)),
+  sysctl: args => args.some(arg => /^-[wp]|^--(system|load|write)/.test(arg)),
+  tee: args => args.some(arg => !arg.startsWith('-') && arg !== '/dev/null'),
+  ...Object.fromEntries(['cp', 'mv', 'rm', 'ln', 'install', 'mkdir', 'touch', 'chmod', 'chown', 'chgrp', 'useradd', 'usermod', 'userdel',
+    'groupadd', 'chage', 'passwd', 'setenforce', 'setsebool', 'restorecon', 'augenrules', 'authselect', 'grub2-mkconfig', 'systemd-run']
+    .map(name => [name, () => true])),
+};
+
+// Words that can precede the command itself in a simple command.
+const COMMAND_PREFIXES = new Set(['!', 'if', 'elif', 'while', 'until', 'then', 'do', 'else', 'time', 'exec', 'command', 'sudo']);
+const ALLOWED_REDIRECT_TARGETS = /^("?)(\/dev\/(null|stdout|stderr)|\$\{?LOG(_JSON)?_FILE\}?)\1$/;
+
+/** Finds the commands and file redirects on a line that change the system. */
+const findMutations = ({ code, masked }: ScriptLine): string[] => {
+  const mutations: string[] = [];
+  for (const segment of masked.split(/;|&&|\|\||\||\$\(|`|[(){}]/)) {
+    const words = segment.trim().split(/\s+/).filter(Boolean);
+    while (words.length > 0 && (COMMAND_PREFIXES.has(words[0]) || /^[A-Za-z_]\w*=/.test(words[0]))) {
+      words.shift();
+    }
+    const [command, ...args] = words;
+    if (command && MUTATING_COMMANDS[command]?.(args)) {
+      mutations.push(`\`${command}\``);
+    }
+  }
+  for (const match of masked.matchAll(/(?<![<>&])\d?>>?(?![>&])\s*(\S+)/g)) {
+    const start = match.index! + match[0].length - match[1].length;
+    const target = code.slice(start, start + match[1].length).replace(/[;)]+$/, '');
+    if (!ALLOWED_REDIRECT_TARGETS.test(target)) {
+      mutations.push(`the redirect to ${target}`);
+    }
+  }
+  return mutations;
+};
+
+/** Collects the shell options enabled by `set` commands anywhere in the script. */
+const collectShellOptions = (lines: ScriptLine[]): { options: Set<string>; firstSetLine?: number } => {
+  const options = new Set<string>();
+  let firstSetLine: number | undefined;
+  for (const { number, code } of lines) {
+    for (const match of code.matchAll(/(?:^|[;&|]|\bthen|\bdo)\s*set\s+([^;&|]+)/g)) {
+      firstSetLine ??= number;
+      const tokens = match[1].trim().split(/\s+/);
+      tokens.forEach((token, i) => {
+        const flags = /^-([a-zA-Z]+)$/.exec(token);
+        if (!flags) return;
+        for (const flag of flags[1]) {
+          if (flag === 'o') {
+            const name = tokens[i + 1];
+            if (name === 'errexit') options.add('e');
+            else if (name === 'nounset') options.add('u');
+            else if (name) options.add(name);
+          } else {
+            options.add(flag);
+          }
+        }
+      });
+    }
+  }
+  return { options, firstSetLine };
+};
+
+interface IptablesCommand {
+  line: number;
+  tool: string;
+  /** Set for `-F`; null means every chain of the table. */
+  flushedChain?: string | null;
+  policy?: { chain: string; target: string };
+  rule?: { chain: string; target?: string; established: boolean };
+}
+
+/** Reads the parts of `iptables`/`ip6tables` invocations in the filter table that matter for lockouts. */
+const parseIptablesCommands = (lines: ScriptLine[]): IptablesCommand[] => {
+  const commands: IptablesCommand[] = [];
+  for (const { number, code } of lines) {
+    for (const match of code.matchAll(/\b(ip6?tables)\s+([^;&|`]*)/g)) {
+      // Quotes are dropped so `-F "$chain"` and `run_with_spinner "..." "iptables -F"` read the same as bare words.
+      const tokens = match[2].trim().split(/\s+/).map(token => token.replace(/^["']|["']$/g, ''));
+      const command: IptablesCommand = { line: number, tool: match[1] };
+      let table = 'filter';
+      let target: string | undefined;
+      tokens.forEach((token, i) => {
+        const next = tokens[i + 1];
+        if (token === '-t' || token === '--table') {
+          table = next;
+        } else if (token === '-F' || token === '--flush') {
+          command.flushedChain = next && !next.startsWith('-') ? next : null;
+        } else if (token === '-P' || token === '--policy') {
+          command.policy = { chain: next, target: tokens[i + 2] };
+        } else if (token === '-A' || token === '--append' || token === '-I' || token === '--insert') {
+          command.rule = { chain: next, established: tokens.some(t => t.includes('ESTABLISHED')) };
+        } else if (token === '-j' || token === '--jump') {
+          target = next;
+        }
+      });
+      if (command.rule) command.rule.target = target;
+      if (table === 'filter') commands.push(command);
+    }
+  }
+  return commands;
+};
+
+const isDrop = (target?: string) => target === 'DROP' || target === 'REJECT';
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'strict-mode',
+    severity: 'warning',
+    title: 'Missing strict mode',
+    check: lines => {
+      const { options, firstSetLine } = collectShellOptions(lines);
+      const missing = [['e', '-e'], ['u', '-u'], ['pipefail', '-o pipefail']]
+        .filter(([option]) => !options.has(option))
+        .map(([, flag]) => flag);
+      if (missing.length === 0) return [];
+      return [{
+        line: firstSetLine ?? 1,
+        message: `Strict mode is not fully enabled (missing ${missing.join(', ')}). Add \`set -euo pipefail\` after the shebang so a failing command stops the script instead of leaving the system half-hardened.`,
+      }];
+    },
+  },
+  {
+    id: 'helper-before-definition',
+    severity: 'error',
+    title: 'Helper used before it is defined',
+    check: lines => {
+      const definedOn = new Map<string, number>();
+      for (const { number, code } of lines) {
+        const match = FUNCTION_DEFINITION_PATTERN.exec(code);
+        const name = match?.[1] ?? match?.[2];
+        if (name && !definedOn.has(name)) definedOn.set(name, number);
+      }
+
+      // Calls inside function bodies run whenever the function is called, so there only a
+      // helper that is never defined is certain to fail.
+      const reported = new Set<string>();
+      const findings: { line: number; message: string }[] = [];
+      let bodyDepth = 0;
+      for (const { number, code } of lines) {
+        const inBody = bodyDepth > 0 || FUNCTION_DEFINITION_PATTERN.test(code);
+        if (inBody) {
+          bodyDepth = Math.max(0, bodyDepth + countOf(code, '{') - countOf(code, '}'));
+        }
+        for (const helper of HELPERS) {
+          if (reported.has(helper) || !new RegExp(`(?:^|[\\s;&|(\`"'])${helper}(?=\\s|;|$)`).test(code)) continue;
+          const definition = definedOn.get(helper);
+          if (definition !== undefined && (inBody || definition < number)) continue;
+          reported.add(helper);
+          findings.push({
+            line: number,
+            message: definition === undefined
+              ? `\`${helper}\` is called but never defined. The script header that provides the helpers is missing.`
+              : `\`${helper}\` is called before the header defines it on line ${definition}; bash will report "command not found".`,
+          });
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'dry-run-bypass',
+    severity: 'error',
+    title: 'Change bypasses --dry-run',
+    kinds: ['harden'],
+    check: lines => {
+      if (!lines.some(({ code }) => /^\s*(function\s+)?run_cmd\s*\(/.test(code))) {
+        return [{
+          line: 1,
+          message: 'The script does not define the `run_cmd` dry-run wrapper, so it cannot be previewed with --dry-run.',
+        }];
+      }
+      return withEnclosingFunction(lines)
+        .filter(({ inFunction }) => !inFunction || !DRY_RUN_HELPERS.includes(inFunction))
+        .flatMap(({ line }) => findMutations(line).map(mutation => ({
+          line: line.number,
+          message: `${mutation[0].toUpperCase()}${mutation.slice(1)} changes the system even with --dry-run. Wrap commands in \`run_cmd\` and write files with \`write_file\` or \`append_file\`.`,
+        })));
+    },
+  },
+  {
+    id: 'sshd-config-sed-without-backup',
+    severity: 'error',
+    title: 'sshd_config edited without a backup',
+    kinds: ['harden'],
+    check: lines => {
+      // Scripts often keep the path in a variable, e.g. SSHD_CONFIG="/etc/ssh/sshd_config".
+      const aliases = lines.flatMap(({ code }) => {
+        const match = /^\s*(?:export\s+|local\s+|readonly\s+)?([A-Za-z_]\w*)=(['"]?)\/etc\/ssh\/sshd_config\2(?=\s|;|$)/.exec(code);
+        return match ? [match[1]] : [];
+      });
+      const refersToConfig = (code: string) =>
+        new RegExp(`${SSHD_CONFIG}(?![\\w./-])`).test(code)
+        || aliases.some(alias => new RegExp(`\\$\\{?${alias}(?![\\w])`).test(code));
+
+      const findings: { line: number; message: string }[] = [];
+      let backedUp = false;
+      for (const { number, code } of lines) {
+        if (!refersToConfig(code)) continue;
+        const sed = /\bsed\s+([^|;&]*)/.exec(code);
+        if (!sed) {
+          if (/\b(cp|rsync|install)\s/.test(code)) backedUp = true;
+          continue;
+        }
+        const inPlace = sed[1].split(/\s+/).some(arg => arg === '--in-place' || /^-[a-zA-Z]*i$/.test(arg));
+        if (inPlace && !backedUp) {
+          findings.push({
+            line: number,
+            message: `\`sed -i\` rewrites ${SSHD_CONFIG} in place without a backup. Copy the file first (or use \`sed -i.bak\`) so a broken config can be restored before sshd locks you out.`,
+          });
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'iptables-flush-without-established',
+    severity: 'error',
+    title: 'Firewall flush can drop the SSH session',
+    kinds: ['harden'],
+    check: lines => {
+      const commands = parseIptablesCommands(lines);
+      const findings: { line: number; message: string }[] = [];
+      commands.forEach((command, index) => {
+        if (command.flushedChain === undefined || (command.flushedChain !== null && command.flushedChain !== 'INPUT')) return;
+        const sameTool = (other: IptablesCommand) => other.tool === command.tool;
+        const flush = `${command.tool} -F`;
+
+        const policy = commands.slice(0, index).filter(sameTool).reverse().find(c => c.policy?.chain === 'INPUT')?.policy;
+        if (policy?.target !== 'ACCEPT') {
+          findings.push({
+            line: command.line,
+            message: `\`${flush}\` runs while the INPUT policy may still be DROP, so the SSH session running this script is cut off. Set \`${command.tool} -P INPUT ACCEPT\` before flushing.`,
+          });
+          return;
+        }
+
+        const later = commands.slice(index + 1).filter(sameTool);
+        const accept = later.findIndex(c => c.rule?.chain === 'INPUT' && c.rule.established && c.rule.target === 'ACCEPT');
+        const drop = later.findIndex(c =>
+          (c.policy?.chain === 'INPUT' && isDrop(c.policy.target)) || (c.rule?.chain === 'INPUT' && !c.rule.established && isDrop(c.rule.target)));
+        if (drop !== -1 && (accept === -1 || accept > drop)) {
+          findings.push({
+            line: command.line,
+            message: `\`${flush}\` is not followed by an ESTABLISHED,RELATED accept rule before INPUT traffic is dropped on line ${later[drop].line}, which cuts off the SSH session running this script.`,
+          });
+        }
+      });
+      return findings;
+    },
+  },
+  {
+    id: 'check-changes-system',
+    severity: 'error',
+    title: 'Check changes the system',
+    kinds: ['check'],
+    check: lines => lines.flatMap(line => {
+      const helpers = CHANGE_HELPERS
+        .filter(helper => new RegExp(`(?:^|[\\s;&|(\`])${helper}(?=\\s|;|$)`).test(line.masked))
+        .map(helper => `\`${helper}\``);
+      return [...helpers, ...findMutations(line)].map(mutation => ({
+        line: line.number,
+        message: `${mutation[0].toUpperCase()}${mutation.slice(1)} changes the system, but a compliance check must only read it. Test the current state instead and report it with \`check_pass\`, \`check_fail\` or \`check_na\`.`,
+      }));
+    }),
+  },
+  {
+    id: 'curl-pipe-shell',
+    severity: 'error',
+    title: 'Remote script piped into a shell',
+    check: lines => lines
+      .filter(({ code }) =>
+        /\b(curl|wget)\b[^|]*\|\s*(sudo\s+(-\S+\s+)*)?(ba|z|da|k)?sh\b/.test(code)
+        || /\b(ba|z|da|k)?sh\s+<\(\s*(curl|wget)\b/.test(code))
+      .map(({ number }) => ({
+        line: number,
+        message: 'A downloaded script is executed without being reviewed or verified. Download it to a file, check its checksum or signature, then run it.',
+      })),
+  },
+  {
+    id: 'setenforce-permissive',
+    severity: 'error',
+    title: 'SELinux switched to permissive',
+    check: lines => lines
+      .filter(({ code }) => /\bsetenforce\s+(0|permissive)\b/i.test(code))
+      .map(({ number }) => ({
+        line: number,
+        message: '`setenforce 0` puts SELinux in permissive mode and turns off one of Fedora\'s main protections. Fix the denial with `semanage` or a boolean instead.',
+      })),
+  },
+];
+
+/** Runs the built-in rules for the kind of script over it. Findings are ordered by line. */
+export const lintScript = (script: string, kind: ScriptKind = 'harden'): LintFinding[] => {
+  if (!script.trim()) return [];
+  const lines = prepareLines(script);
+  return LINT_RULES
+    .filter(rule => !rule.kinds || rule.kinds.includes(kind))
+    .flatMap(rule => rule.check(lines).map(({ line, message }) => ({ ruleId: rule.id, severity: rule.severity, line, message })))
+    .sort((a, b) => a.line - b.line);
+};
+
+/** Looks up the summary title of a rule, for display next to its findings. */
+export const getLintRuleTitle = (ruleId: string): string =>
+  LINT_RULES.find(rule => rule.id === ruleId)?.title ?? ruleId;
@@ -0,0 +1,1211 @@
+import type { HardeningOption, ParameterValues } from '../types';
+import { buildParameterAssignments } from './optionParameters';
+
+// Offline, deterministic script generation. Each snippet below is hand-reviewed bash that uses
+// the same helpers (`log_*`, `run_with_spinner`, and the dry-run wrappers `run_cmd`,
+// `write_file` and `append_file`) the AI header is asked to define, so template and AI
+// sections can be mixed. The same selection always yields a byte-identical script.
+
+const TEMPLATE_HEADER = `#!/bin/bash
+#
+# Fedora hardening script, generated from the offline template library.
+# Review every section before running it as root on a production host.
+# Run it with --dry-run first to print every change instead of making it.
+# Changed files are backed up so fedora_hardening_rollback.sh can undo each section.
+# Use --list to see the sections, and --only or --skip to run some of them.
+#
+
+# Stop on the first failing command, unset variable or failed pipeline stage.
+set -euo pipefail
+
+# --- Color Variables ---
+GREEN='\\033[0;32m'
+YELLOW='\\033[1;33m'
+RED='\\033[0;31m'
+BLUE='\\033[0;34m'
+NC='\\033[0m'
+
+# --- Command-Line Options ---
+# --dry-run prints every command that would change the system instead of running it.
+# --only and --skip take comma-separated section ids; --list prints the ids and exits.
+DRY_RUN=false
+LIST_SECTIONS=false
+ONLY_SECTIONS=""
+SKIP_SECTIONS=""
+
+usage() {
+    echo "Usage: $0 [--dry-run] [--list] [--only ID[,ID...]] [--skip ID[,ID...]]"
+}
+
+while [[ $# -gt 0 ]]; do
+    case "$1" in
+        --dry-run) DRY_RUN=true ;;
+        --list) LIST_SECTIONS=true ;;
+        --only|--skip)
+            if [[ $# -lt 2 ]]; then
+                echo "$1 needs a comma-separated list of section ids." >&2
+                usage >&2
+                exit 2
+            fi
+            case "$1" in
+                --only) ONLY_SECTIONS="$2" ;;
+                --skip) SKIP_SECTIONS="$2" ;;
+            esac
+            shift
+            ;;
+        --only=*) ONLY_SECTIONS="\${1#*=}" ;;
+        --skip=*) SKIP_SECTIONS="\${1#*=}" ;;
+        *)
+            echo "Unknown option: $1" >&2
+            usage >&2
+            exit 2
+            ;;
+    esac
+    shift
+done
+
+# --- Logging Setup ---
+LOG_FILE="/var/log/hardening.log"
+# The same run as JSON Lines: one record per log line, command result and section boundary,
+# which the app's Advanced tab reads as exact results.
+LOG_JSON_FILE="/var/log/hardening.jsonl"
+# A dry run changes nothing, including the log files, and --list only prints.
+if [[ "$DRY_RUN" == true || "$LIST_SECTIONS" == true ]]; then
+    LOG_FILE="/dev/null"
+    LOG_JSON_FILE="/dev/null"
+fi
+
+# Prints a string as the contents of a JSON string. Control characters are dropped, and
+# backslashes, quotes, tabs and line breaks are escaped.
+# Usage: _json_escape <text>
+_json_escape() {
+    local text
+    text="$(printf '%s' "$1" | tr -d '\\000-\\010\\013\\014\\016-\\037')"
+    text="\${text//\\\\/\\\\\\\\}"
+    text="\${text//\\"/\\\\\\"}"
+    text="\${text//$'\\t'/\\\\t}"
+    text="\${text//$'\\r'/\\\\r}"
+    text="\${text//$'\\n'/\\\\n}"
+    printf '%s' "$text"
+}
+
+# Appends one record for the current section to the JSON Lines log.
+# Usage: _log_json <status> <step> [exit code] [stderr tail]
+_log_json() {
+    printf '{"timestamp":"%s","section":"%s","step":"%s","status":"%s","exit_code":%s,"stderr_tail":"%s"}\\n' \\
+        "$(date -Iseconds)" "$(_json_escape "\${CURRENT_SECTION:-}")" "$(_json_escape "$2")" "$1" "\${3:-null}" \\
+        "$(_json_escape "\${4:-}")" >> "$LOG_JSON_FILE"
+}
+
+# Creates the log files readable by root only, as they record every change made to the system.
+_init_logs() {
+    if [[ "$DRY_RUN" == true ]]; then
+        return 0
+    fi
+    touch "$LOG_FILE" "$LOG_JSON_FILE"
+    chmod 600 "$LOG_FILE" "$LOG_JSON_FILE"
+}
+
+# Prints a colored, timestamped status line and appends a plain copy to the log files.
+# Usage: _log <color> <tag> <message>
+_log() {
+    local timestamp
+    timestamp="$(date '+%Y-%m-%d %H:%M:%S')"
+    echo -e "\${1}[\${2}]\${NC} \${timestamp} \${3}"
+    echo "[\${2}] \${timestamp} \${3}" >> "$LOG_FILE"
+    _log_json "\${2,,}" "$3"
+}
+
+# Records how the run ended, including a stop by set -e in the middle of a section.
+_log_exit() {
+    local status=$?
+    if [[ "$status" -eq 0 ]]; then
+        _log_json exit "Finished" 0
+    else
+        _log_json exit "Stopped" "$status"
+    fi
+}
+
+log_info()    { _log "$BLUE" "INFO" "$1"; }
+log_success() { _log "$GREEN" "SUCCESS" "$1"; }
+log_warning() { _log "$YELLOW" "WARNING" "$1"; }
+log_error()   { _log "$RED" "ERROR" "$1"; }
+
+# Shows a secret, such as a generated password, on the terminal only. The log files get the
+# message with [REDACTED] in place of the secret, since they are meant to be pasted for analysis.
+# Usage: log_secret <message> <secret>
+log_secret() {
+    local timestamp
+    timestamp="$(date '+%Y-%m-%d %H:%M:%S')"
+    echo -e "\${YELLOW}[WARNING]\${NC} \${timestamp} \${1}: \${2}"
+    echo "[WARNING] \${timestamp} \${1}: [REDACTED]" >> "$LOG_FILE"
+    _log_json warning "\${1}: [REDACTED]"
+}
+
+# --- Backups for Rollback ---
+# Before a section changes a file, the file is copied to BACKUP_DIR, and the previous state
+# of every service it enables or disables is recorded in BACKUP_DIR/manifest.
+# fedora_hardening_rollback.sh reads them to undo the changes section by section.
+BACKUP_ROOT="/var/backups/fedora-hardening"
+BACKUP_DIR="\${BACKUP_ROOT}/$(date +%Y%m%d-%H%M%S)"
+CURRENT_SECTION=""
+declare -A BACKED_UP=()
+
+# Starts recording changes under a section id. run_section calls this before each section.
+# Usage: begin_section <id> <label>
+begin_section() {
+    CURRENT_SECTION="$1"
+    if [[ "$DRY_RUN" == true ]]; then
+        return 0
+    fi
+    if [[ ! -d "$BACKUP_DIR" ]]; then
+        mkdir -p "$BACKUP_DIR/files"
+        ln -sfn "$BACKUP_DIR" "\${BACKUP_ROOT}/latest"
+    fi
+    printf 'section\\t%s\\t%s\\n' "$1" "$2" >> "$BACKUP_DIR/manifest"
+}
+
+# Copies a file to BACKUP_DIR the first time the current section changes it, or records
+# that the section creates it.
+# Usage: backup_path <path>
+backup_path() {
+    local path="$1"
+    local key="\${CURRENT_SECTION}:\${path}"
+    if [[ "$DRY_RUN" == true || -z "$CURRENT_SECTION" || "$path" != /* || -n "\${BACKED_UP[$key]:-}" ]]; then
+        return 0
+    fi
+    BACKED_UP[$key]=1
+    if [[ -f "$path" || -L "$path" ]]; then
+        mkdir -p "$BACKUP_DIR/files/$CURRENT_SECTION$(dirname "$path")"
+        cp -a "$path" "$BACKUP_DIR/files/$CURRENT_SECTION$path"
+        printf 'file\\t%s\\t%s\\n' "$CURRENT_SECTION" "$path" >> "$BACKUP_DIR/manifest"
+    elif [[ ! -e "$path" && -d "$(dirname "$path")" ]]; then
+        printf 'created\\t%s\\t%s\\n' "$CURRENT_SECTION" "$path" >> "$BACKUP_DIR/manifest"
+    fi
+}
+
+# Records whether a unit was enabled and active before the current section changes it.
+# Usage: record_service <unit>
+record_service() {
+    local unit="$1"
+    local key="service:\${CURRENT_SECTION}:\${unit}"
+    local enabled active
+    if [[ "$DRY_RUN" == true || -z "$CURRENT_SECTION" || -n "\${BACKED_UP[$key]:-}" ]]; then
+        return 0
+    fi
+    BACKED_UP[$key]=1
+    enabled="$(systemctl is-enabled "$unit" 2>/dev/null)" || true
+    active="$(systemctl is-active "$unit" 2>/dev/null)" || true
+    printf 'service\\t%s\\t%s\\t%s\\t%s\\n' "$CURRENT_SECTION" "$unit" "\${enabled:-unknown}" "\${active:-unknown}" >> "$BACKUP_DIR/manifest"
+}
+
+# Backs up what a command is about to change: the files among its arguments, the account
+# databases, or the units it enables, disables, masks or unmasks.
+# Usage: track_changes <command> [args...]
+track_changes() {
+    local arg
+    case "\${1:-}" in
+        systemctl)
+            case " $* " in
+                *" enable "*|*" disable "*|*" mask "*|*" unmask "*) ;;
+                *) return 0 ;;
+            esac
+            for arg in "\${@:2}"; do
+                case "$arg" in
+                    -*|enable|disable|mask|unmask) ;;
+                    *) record_service "$arg" ;;
+                esac
+            done
+            ;;
+        sed|cp|mv|install|ln|rm|touch|mkdir|chmod|chown|chgrp|grub2-mkconfig)
+            for arg in "\${@:2}"; do
+                backup_path "$arg"
+            done
+            ;;
+        useradd|usermod|userdel|groupadd|groupmod|groupdel|chage|passwd)
+            for arg in /etc/passwd /etc/shadow /etc/group /etc/gshadow; do
+                backup_path "$arg"
+            done
+            ;;
+    esac
+}
+
+# --- Dry-Run Wrappers ---
+# Every command that changes the system goes through one of these, so that --dry-run
+# can print it with its target instead.
+
+# Runs a command, or prints it in dry-run mode. Its result goes to the JSON Lines log, with
+# the end of its error output if it failed.
+# Usage: run_cmd <command> [args...]
+run_cmd() {
+    local stderr_file
+    local status=0
+    if [[ "$DRY_RUN" == true ]]; then
+        printf "\${YELLOW}[DRY-RUN]\${NC} %s\\n" "$*"
+        return 0
+    fi
+    track_changes "$@"
+    stderr_file="$(mktemp)"
+    "$@" 2> "$stderr_file" || status=$?
+    cat "$stderr_file" >&2
+    if [[ "$status" -eq 0 ]]; then
+        _log_json done "$*" 0
+    else
+        _log_json failed "$*" "$status" "$(tail -n 5 "$stderr_file")"
+    fi
+    rm -f "$stderr_file"
+    return "$status"
+}
+
+# Replaces a file with standard input, or prints the target and content in dry-run mode.
+# Usage: write_file <path> <<'EOF' ... EOF
+write_file() {
+    if [[ "$DRY_RUN" == true ]]; then
+        printf "\${YELLOW}[DRY-RUN]\${NC} write %s:\\n" "$1"
+        sed 's/^/    | /'
+        return 0
+    fi
+    backup_path "$1"
+    cat > "$1"
+}
+
+# Appends standard input to a file, or prints the target and content in dry-run mode.
+# Usage: append_file <path> <<'EOF' ... EOF
+append_file() {
+    if [[ "$DRY_RUN" == true ]]; then
+        printf "\${YELLOW}[DRY-RUN]\${NC} append to %s:\\n" "$1"
+        sed 's/^/    | /'
+        return 0
+    fi
+    backup_path "$1"
+    cat >> "$1"
+}
+
+# --- Spinner for Tasks ---
+# Runs a command in the background with an animated spinner, then reports [DONE] or [FAILED].
+# All command output goes to the log file, and the result to the JSON Lines log. In dry-run
+# mode the command is only printed.
+# Usage: run_with_spinner "<description>" "<command>"
+run_with_spinner() {
+    local description="$1"
+    local command="$2"
+    local spin='|/-\\'
+    local i=0
+    local pid
+    local stderr_file
+    local status=0
+    local -a words
+
+    if [[ "$DRY_RUN" == true ]]; then
+        printf "\${YELLOW}[DRY-RUN]\${NC} %s: %s\\n" "$description" "$command"
+        return 0
+    fi
+    read -ra words <<< "$command"
+    track_changes "\${words[@]}"
+
+    echo "--- \${description} ---" >> "$LOG_FILE"
+    stderr_file="$(mktemp)"
+    bash -c "$command" >> "$LOG_FILE" 2> "$stderr_file" &
+    pid=$!
+
+    while kill -0 "$pid" 2>/dev/null; do
+        i=$(( (i + 1) % 4 ))
+        printf "\\r\${BLUE}[%c]\${NC} %s" "\${spin:$i:1}" "$description"
+        sleep 0.1
+    done
+
+    wait "$pid" || status=$?
+    cat "$stderr_file" >> "$LOG_FILE"
+    if [[ "$status" -eq 0 ]]; then
+        printf "\\r\${GREEN}[DONE]\${NC} %s\\n" "$description"
+        echo "[DONE] \${description}" >> "$LOG_FILE"
+        _log_json done "$description" 0
+    else
+        printf "\\r\${RED}[FAILED]\${NC} %s\\n" "$description"
+        echo "[FAILED] \${description}" >> "$LOG_FILE"
+        _log_json failed "$description" "$status" "$(tail -n 5 "$stderr_file")"
+    fi
+    rm -f "$stderr_file"
+    [[ "$status" -eq 0 ]]
+}
+
+# --- Sections ---
+# Each section is a function named section_<id>. The generator registers them right after
+# this header, so --list, --only and --skip know every section before the first one runs.
+SECTION_IDS=()
+declare -A SECTION_LABELS=()
+
+# Usage: register_section <id> <label>
+register_section() {
+    SECTION_IDS+=("$1")
+    SECTION_LABELS[$1]="$2"
+}
+
+# Rejects unknown ids in --only and --skip, and prints the sections and exits for --list.
+# It runs before start_run, so a mistyped id or --list leaves no trace on the system.
+check_section_options() {
+    local id
+    for id in \${ONLY_SECTIONS//,/ } \${SKIP_SECTIONS//,/ }; do
+        if [[ -z "\${SECTION_LABELS[$id]:-}" ]]; then
+            echo -e "\${RED}[ERROR]\${NC} Unknown section '$id'. Run $0 --list to see the section ids." >&2
+            exit 2
+        fi
+    done
+    if [[ "$LIST_SECTIONS" == true ]]; then
+        for id in "\${SECTION_IDS[@]}"; do
+            printf "%-24s %s\\n" "$id" "\${SECTION_LABELS[$id]}"
+        done
+        exit 0
+    fi
+}
+
+# Runs a section unless --only or --skip leave it out.
+# Usage: run_section <id>
+run_section() {
+    local id="$1"
+    if [[ -n "$ONLY_SECTIONS" && ",$ONLY_SECTIONS," != *",$id,"* ]] || [[ ",$SKIP_SECTIONS," == *",$id,"* ]]; then
+        log_info "Skipping section: \${SECTION_LABELS[$id]} ($id)"
+        CURRENT_SECTION="$id" _log_json skipped "\${SECTION_LABELS[$id]}"
+        return 0
+    fi
+    begin_section "$id" "\${SECTION_LABELS[$id]}"
+    _log_json start "\${SECTION_LABELS[$id]}"
+    "section_$id"
+    _log_json end "\${SECTION_LABELS[$id]}"
+    CURRENT_SECTION=""
+}
+
+# --- Root Check ---
+# A dry run may be previewed without root, although some checks then see less of the system.
+check_root() {
+    if [[ "\${EUID}" -ne 0 ]]; then
+        if [[ "$DRY_RUN" == true ]]; then
+            echo -e "\${YELLOW}[WARNING]\${NC} Not running as root; some checks may fail during the dry run."
+            return 0
+        fi
+        echo -e "\${RED}[ERROR]\${NC} This script must be run as root (try: sudo $0)."
+        exit 1
+    fi
+}
+
+# --- Initial Execution ---
+# The generator calls this right after check_section_options, which exits first for --list
+# and for unknown section ids, so nothing is written before the options are known to be valid.
+start_run() {
+    check_root
+    _init_logs
+    trap _log_exit EXIT
+    if [[ "$DRY_RUN" == true ]]; then
+        log_warning "Dry run: commands that change the system are printed, not run."
+    else
+        log_info "Starting Fedora hardening. Detailed logs are written to \${LOG_FILE}."
+    fi
+}`;
+
+const TEMPLATE_FOOTER = `# ----------------------------------------------------------------------------
+# Hardening Complete
+# ----------------------------------------------------------------------------
+echo
+log_success "=========================================================="
+log_success "                  Hardening Complete"
+log_success "=========================================================="
+if [[ "$DRY_RUN" == true ]]; then
+    log_info "Dry run finished; nothing was changed. Run without --dry-run to apply the changes above."
+else
+    log_info "Review the full log at \${LOG_FILE} for details of every step."
+    log_info "For an exact analysis, paste \${LOG_JSON_FILE} into the Advanced tab of the generator."
+    if [[ -d "$BACKUP_DIR" ]]; then
+        log_info "Every changed file was backed up to \${BACKUP_DIR}. Undo the changes with: sudo ./fedora_hardening_rollback.sh"
+    fi
+    log_warning "Reboot the system so that all changes (kernel, SELinux, mounts, GRUB) take effect."
+fi`;
+
+/** Curated bash snippets keyed by `HardeningOption.id`. */
+// Replaced with the option's parameter assignments, e.g. NEW_SSH_PORT=2222.
+const PARAMETERS = '# @parameters';
+
+const SECTION_TEMPLATES: Record<string, string> = {
+  updates: `# ----------------------------------------------------------------------------
+# System Updates & Package Management
+# Bring every installed package up to date and remove legacy remote-access
+# servers that send credentials in clear text.
+# ----------------------------------------------------------------------------
+log_info "--- System Updates & Package Management ---"
+
+# Upgrade first so that every later section configures current package versions.
+run_with_spinner "Upgrading all installed packages" "dnf upgrade -y"
+
+# telnet and rsh transmit passwords unencrypted; nothing on a hardened host needs them.
+for pkg in telnet-server rsh-server; do
+    if rpm -q "$pkg" >/dev/null 2>&1; then
+        run_with_spinner "Removing insecure package \${pkg}" "dnf remove -y \${pkg}"
+    else
+        log_success "\${pkg} is not installed."
+    fi
+done
+
+# Drop cached metadata and packages to reclaim disk space.
+run_with_spinner "Cleaning the DNF cache" "dnf clean all"
+log_success "System packages are up to date."`,
+  firewall: `# ----------------------------------------------------------------------------
+# Firewall Configuration
+# Run firewalld with the public zone as default, which rejects unsolicited
+# incoming traffic, and keep SSH reachable.
+# ----------------------------------------------------------------------------
+log_info "--- Firewall Configuration ---"
+
+# firewalld ships with Fedora, but minimal and cloud images may lack it.
+if ! rpm -q firewalld >/dev/null 2>&1; then
+    run_with_spinner "Installing firewalld" "dnf install -y firewalld"
+fi
+
+run_with_spinner "Enabling and starting firewalld" "systemctl enable --now firewalld"
+
+# The public zone only admits explicitly listed services; everything else is rejected.
+run_with_spinner "Setting the default zone to public" "firewall-cmd --set-default-zone=public"
+
+# Open SSH before reloading so the current remote session is never cut off.
+run_with_spinner "Allowing SSH in the public zone" "firewall-cmd --permanent --zone=public --add-service=ssh"
+
+# Apply the permanent configuration to the running firewall.
+run_with_spinner "Reloading firewalld" "firewall-cmd --reload"
+log_success "Firewall active. Allowed services: $(firewall-cmd --zone=public --list-services)"`,
+  ssh: `# ----------------------------------------------------------------------------
+# SSH Hardening
+# Disable root logins and password authentication so that only users holding
+# an authorized key can log in over SSH.
+# ----------------------------------------------------------------------------
+log_info "--- SSH Hardening ---"
+
+SSH_HARDENING_DROPIN="/etc/ssh/sshd_config.d/01-hardening.conf"
+
+# Key-only logins lock out anyone without a key, so make the risk visible first.
+if ! compgen -G "/root/.ssh/authorized_keys" >/dev/null && ! compgen -G "/home/*/.ssh/authorized_keys" >/dev/null; then
+    log_warning "No authorized_keys file was found. Install an SSH key for your admin user before logging out!"
+fi
+
+# sshd reads the sshd_config.d drop-ins before the rest of sshd_config and keeps the
+# first value it sees, so a low-numbered drop-in overrides the distribution defaults.
+write_file "$SSH_HARDENING_DROPIN" <<'EOF'
+# Managed by the Fedora hardening script.
+PermitRootLogin no
+PasswordAuthentication no
+KbdInteractiveAuthentication no
+PubkeyAuthentication yes
+EOF
+run_cmd chmod 600 "$SSH_HARDENING_DROPIN"
+
+# Validate the configuration before reloading so that a mistake cannot stop sshd.
+if sshd -t; then
+    run_with_spinner "Reloading sshd" "systemctl reload sshd"
+    log_success "SSH hardened: root login and password authentication are disabled."
+else
+    log_error "sshd configuration test failed; the running daemon was left untouched."
+fi`,
+  sshPort: `# ----------------------------------------------------------------------------
+# Change Default SSH Port
+# Move sshd off port 22 to cut down automated scanning noise. SELinux and the
+# firewall both have to allow the new port before sshd is restarted.
+# ----------------------------------------------------------------------------
+log_info "--- Change Default SSH Port ---"
+
+${PARAMETERS}
+
+# semanage comes from policycoreutils-python-utils, which minimal installs omit.
+if ! command -v semanage >/dev/null 2>&1; then
+    run_with_spinner "Installing policycoreutils-python-utils" "dnf install -y policycoreutils-python-utils"
+fi
+
+# SELinux only lets sshd bind to ports labelled ssh_port_t.
+if semanage port -l | grep -E '^ssh_port_t' | grep -qw "$NEW_SSH_PORT"; then
+    log_success "Port \${NEW_SSH_PORT} is already labelled ssh_port_t."
+else
+    run_with_spinner "Labelling port \${NEW_SSH_PORT} for sshd in SELinux" "semanage port -a -t ssh_port_t -p tcp \${NEW_SSH_PORT}"
+fi
+
+# Open the new port before sshd moves to it.
+if systemctl is-active --quiet firewalld; then
+    run_with_spinner "Opening port \${NEW_SSH_PORT}/tcp in firewalld" "firewall-cmd --permanent --add-port=\${NEW_SSH_PORT}/tcp"
+    run_with_spinner "Reloading firewalld" "firewall-cmd --reload"
+else
+    log_warning "firewalld is not running; make sure port \${NEW_SSH_PORT}/tcp is reachable."
+fi
+
+# A drop-in keeps the change separate from the distribution's sshd_config.
+write_file /etc/ssh/sshd_config.d/02-port.conf <<EOF
+# Managed by the Fedora hardening script.
+Port \${NEW_SSH_PORT}
+EOF
+
+if sshd -t; then
+    run_with_spinner "Restarting sshd" "systemctl restart sshd"
+    log_warning "sshd now listens on port \${NEW_SSH_PORT}. Keep this session open and test a new connection first."
+else
+    log_error "sshd configuration test failed; sshd was not restarted."
+fi`,
+  fail2ban: `# ----------------------------------------------------------------------------
+# Fail2Ban Intrusion Prevention
+# Ban addresses that repeatedly fail SSH authentication.
+# ----------------------------------------------------------------------------
+log_info "--- Fail2Ban Intrusion Prevention ---"
+
+# How long an offending address stays banned, and how many failures within
+# findtime (10 minutes) lead to a ban.
+${PARAMETERS}
+
+run_with_spinner "Installing fail2ban" "dnf install -y fail2ban"
+
+# jail.local overrides jail.conf and is never replaced by package updates.
+write_file /etc/fail2ban/jail.local <<EOF
+# Managed by the Fedora hardening script.
+[sshd]
+enabled = true
+bantime = \${FAIL2BAN_BANTIME}
+findtime = 10m
+maxretry = \${FAIL2BAN_MAXRETRY}
+EOF
+
+run_with_spinner "Enabling and starting fail2ban" "systemctl enable --now fail2ban"
+log_success "Fail2Ban is protecting sshd."`,
+  passwordPolicy: `# ----------------------------------------------------------------------------
+# Enforce Strong Password Policies
+# Require long passwords that mix digits, upper case, lower case and symbols.
+# ----------------------------------------------------------------------------
+log_info "--- Enforce Strong Password Policies ---"
+
+PWQUALITY_CONF="/etc/security/pwquality.conf"
+${PARAMETERS}
+
+# Replaces a setting (commented out or not) in pwquality.conf, or appends it.
+# Usage: set_pwquality <key> <value>
+set_pwquality() {
+    if grep -qE "^[[:space:]]*#?[[:space:]]*$1[[:space:]]*=" "$PWQUALITY_CONF"; then
+        run_cmd sed -i -E "s|^[[:space:]]*#?[[:space:]]*$1[[:space:]]*=.*|$1 = $2|" "$PWQUALITY_CONF"
+    else
+        echo "$1 = $2" | append_file "$PWQUALITY_CONF"
+    fi
+}
+
+# minlen: the minimum acceptable password length.
+set_pwquality minlen "$PWQUALITY_MINLEN"
+# dcredit = -1: at least one digit.
+set_pwquality dcredit -1
+# ucredit = -1: at least one upper-case letter.
+set_pwquality ucredit -1
+# ocredit = -1: at least one special character.
+set_pwquality ocredit -1
+# lcredit = -1: at least one lower-case letter.
+set_pwquality lcredit -1
+
+log_success "Password complexity rules written to \${PWQUALITY_CONF}."`,
+  userAccountManagement: `# ----------------------------------------------------------------------------
+# User Account Management
+# Create a dedicated admin account and lock accounts that are no longer used.
+# ----------------------------------------------------------------------------
+log_info "--- User Account Management ---"
+
+# The admin account to create, and how long an account may go unused before it is locked.
+${PARAMETERS}
+
+if id "$NEW_ADMIN_USER" >/dev/null 2>&1; then
+    log_success "User \${NEW_ADMIN_USER} already exists."
+else
+    # A named admin in the wheel group gives an audit trail that shared root logins lack.
+    run_cmd useradd -m -s /bin/bash "$NEW_ADMIN_USER"
+    run_cmd usermod -aG wheel "$NEW_ADMIN_USER"
+    # Temporary admin accounts should not live forever.
+    run_cmd chage -E "$(date -d '+90 days' +%Y-%m-%d)" "$NEW_ADMIN_USER"
+    log_success "Created \${NEW_ADMIN_USER} (wheel member, expires in 90 days). Set a password with: passwd \${NEW_ADMIN_USER}"
+fi
+
+# Dormant accounts are a common foothold; lock regular users idle for more than INACTIVE_DAYS days.
+# System accounts (UID < 1000), the new admin and the user running sudo are skipped.
+if command -v lastlog >/dev/null 2>&1; then
+    while read -r idle_user; do
+        idle_uid="$(id -u "$idle_user" 2>/dev/null || echo 0)"
+        if [[ "$idle_uid" -ge 1000 && "$idle_user" != "nobody" && "$idle_user" != "$NEW_ADMIN_USER" && "$idle_user" != "\${SUDO_USER:-}" ]]; then
+            run_cmd usermod -L "$idle_user"
+            log_warning "Locked inactive account: \${idle_user}"
+        fi
+    done < <(lastlog -b "$INACTIVE_DAYS" | awk 'NR > 1 { print $1 }')
+else
+    log_warning "lastlog is not available; skipping the inactive account check."
+fi`,
+  sudoAudit: `# ----------------------------------------------------------------------------
+# Audit Sudo Privileges
+# Report sudo rules that skip the password prompt or grant unrestricted root.
+# This section only reads files; it changes nothing.
+# ----------------------------------------------------------------------------
+log_info "--- Audit Sudo Privileges ---"
+
+sudo_findings=0
+for sudoers_file in /etc/sudoers /etc/sudoers.d/*; do
+    [[ -f "$sudoers_file" ]] || continue
+
+    # NOPASSWD lets anyone with the account's session run commands as root.
+    while IFS= read -r entry; do
+        log_warning "NOPASSWD rule in \${sudoers_file}: \${entry}"
+        sudo_findings=$((sudo_findings + 1))
+    done < <(grep -E '^[^#]*NOPASSWD' "$sudoers_file")
+
+    # "ALL=(ALL) ALL" for anyone but root and %wheel deserves a second look.
+    while IFS= read -r entry; do
+        log_warning "Unrestricted ALL rule in \${sudoers_file}: \${entry}"
+        sudo_findings=$((sudo_findings + 1))
+    done < <(grep -E '^[^#]*ALL[[:space:]]*=[[:space:]]*\\(ALL(:ALL)?\\)[[:space:]]*ALL' "$sudoers_file" | grep -vE '^[[:space:]]*(root|%wheel)[[:space:]]')
+done
+
+if [[ "$sudo_findings" -eq 0 ]]; then
+    log_success "No insecure sudo rules found."
+else
+    log_warning "\${sudo_findings} sudo rule(s) need review. Edit them with visudo."
+fi`,
+  umask: `# ----------------------------------------------------------------------------
+# Enforce Stricter Umask
+# New files are created without any permissions for "other" users (umask 027).
+# ----------------------------------------------------------------------------
+log_info "--- Enforce Stricter Umask ---"
+
+for profile_file in /etc/bashrc /etc/profile; do
+    if grep -qE '^umask 027$' "$profile_file"; then
+        log_success "\${profile_file} already sets umask 027."
+    else
+        # Fedora sets the umask inside a conditional; a final unconditional line overrides it.
+        printf '\\n# Managed by the Fedora hardening script.\\numask 027\\n' | append_file "$profile_file"
+        log_success "Set umask 027 in \${profile_file}."
+    fi
+done`,
+  kernel: `# ----------------------------------------------------------------------------
+# Kernel Hardening (sysctl)
+# Tune network and kernel parameters against spoofing, SYN floods and
+# information leaks.
+# ----------------------------------------------------------------------------
+log_info "--- Kernel Hardening (sysctl) ---"
+
+# A dedicated file in /etc/sysctl.d survives package updates and is easy to revert.
+write_file /etc/sysctl.d/90-hardening.conf <<'EOF'
+# Managed by the Fedora hardening script.
+# Reverse-path filtering drops packets with spoofed source addresses.
+net.ipv4.conf.all.rp_filter = 1
+net.ipv4.conf.default.rp_filter = 1
+# SYN cookies keep the host responsive during SYN floods.
+net.ipv4.tcp_syncookies = 1
+# ICMP redirects and source routing can be abused to reroute traffic.
+net.ipv4.conf.all.accept_redirects = 0
+net.ipv4.conf.default.accept_redirects = 0
+net.ipv6.conf.all.accept_redirects = 0
+net.ipv6.conf.default.accept_redirects = 0
+net.ipv4.conf.all.send_redirects = 0
+net.ipv4.conf.default.send_redirects = 0
+net.ipv4.conf.all.accept_source_route = 0
+net.ipv6.conf.all.accept_source_route = 0
+# Log packets with impossible source addresses.
+net.ipv4.conf.all.log_martians = 1
+# Ignore broadcast pings (smurf amplification) and bogus ICMP errors.
+net.ipv4.icmp_echo_ignore_broadcasts = 1
+net.ipv4.icmp_ignore_bogus_error_responses = 1
+# Hide kernel pointers and restrict the kernel log to root.
+kernel.kptr_restrict = 2
+kernel.dmesg_restrict = 1
+EOF
+
+run_with_spinner "Applying kernel parameters" "sysctl --system"
+log_success "Kernel parameters hardened."`,
+  selinux: `# ----------------------------------------------------------------------------
+# SELinux Configuration
+# Run SELinux in enforcing mode now and after every reboot.
+# Check the current state with \`sestatus\`. \`setenforce 1\` switches the running
+# system to enforcing until the next reboot.
+# ----------------------------------------------------------------------------
+log_info "--- SELinux Configuration ---"
+
+SELINUX_CONFIG="/etc/selinux/config"
+
+# The config file decides the mode at boot.
+if grep -qE '^SELINUX=' "$SELINUX_CONFIG"; then
+    run_cmd sed -i -E 's/^SELINUX=.*/SELINUX=enforcing/' "$SELINUX_CONFIG"
+else
+    echo "SELINUX=enforcing" | append_file "$SELINUX_CONFIG"
+fi
+
+current_mode="$(getenforce)"
+if [[ "$current_mode" == "Disabled" ]]; then
+    # Files created while SELinux was off carry no labels, so relabel on the next boot.
+    run_cmd touch /.autorelabel
+    log_warning "SELinux is disabled; it will be enforcing after a reboot (a full relabel will run)."
+elif [[ "$current_mode" != "Enforcing" ]]; then
+    run_cmd setenforce 1
+    log_success "SELinux switched to enforcing mode."
+else
+    log_success "SELinux is already enforcing."
+fi`,
+  autoUpdates: `# ----------------------------------------------------------------------------
+# Enable Automatic Security Updates
+# Let dnf-automatic download and apply security updates every day.
+# ----------------------------------------------------------------------------
+log_info "--- Enable Automatic Security Updates ---"
+
+run_with_spinner "Installing dnf-automatic" "dnf install -y dnf-automatic"
+
+AUTOMATIC_CONF="/etc/dnf/automatic.conf"
+
+# DNF 5 no longer installs a config file in /etc, so create one if it is missing.
+if [[ -f "$AUTOMATIC_CONF" ]]; then
+    run_cmd sed -i -E 's/^[[:space:]]*upgrade_type[[:space:]]*=.*/upgrade_type = security/; s/^[[:space:]]*apply_updates[[:space:]]*=.*/apply_updates = yes/' "$AUTOMATIC_CONF"
+else
+    printf '[commands]\\nupgrade_type = security\\napply_updates = yes\\n' | write_file "$AUTOMATIC_CONF"
+fi
+
+run_with_spinner "Enabling dnf-automatic.timer" "systemctl enable --now dnf-automatic.timer"
+log_success "Security updates will be applied automatically."`,
+  dnfSecurity: `# ----------------------------------------------------------------------------
+# Secure DNF Configuration
+# Refuse unsigned packages globally and report repositories that do not
+# verify signatures.
+# ----------------------------------------------------------------------------
+log_info "--- Secure DNF Configuration ---"
+
+DNF_CONF="/etc/dnf/dnf.conf"
+
+# gpgcheck=1 makes dnf reject packages whose signature does not verify.
+if grep -qE '^[[:space:]]*gpgcheck[[:space:]]*=' "$DNF_CONF"; then
+    run_cmd sed -i -E 's/^[[:space:]]*gpgcheck[[:space:]]*=.*/gpgcheck=1/' "$DNF_CONF"
+else
+    run_cmd sed -i '/^\\[main\\]/a gpgcheck=1' "$DNF_CONF"
+fi
+log_success "gpgcheck=1 is set in \${DNF_CONF}."
+
+# A repository with gpgcheck=0 lets anyone who can tamper with it install code as root.
+for repo_file in /etc/yum.repos.d/*.repo; do
+    [[ -f "$repo_file" ]] || continue
+    while IFS= read -r repo_id; do
+        log_warning "Repository \${repo_id} in \${repo_file} has gpgcheck=0."
+    done < <(awk '/^\\[/ { section = $0 } /^[[:space:]]*gpgcheck[[:space:]]*=[[:space:]]*0/ { print section }' "$repo_file")
+    while IFS= read -r repo_id; do
+        log_info "Repository \${repo_id} in \${repo_file} is disabled (enabled=0)."
+    done < <(awk '/^\\[/ { section = $0 } /^[[:space:]]*enabled[[:space:]]*=[[:space:]]*0/ { print section }' "$repo_file")
+done`,
+  bindCheck: `# ----------------------------------------------------------------------------
+# Check for BIND Vulnerabilities
+# Report the installed BIND version and any pending security updates for it.
+# This section only reads state; it changes nothing.
+# ----------------------------------------------------------------------------
+log_info "--- Check for BIND Vulnerabilities ---"
+
+if rpm -q bind >/dev/null 2>&1; then
+    log_warning "BIND is installed: $(named -v 2>/dev/null || rpm -q bind). Check this version against published CVEs."
+    # check-update exits with 100 when updates are available.
+    if dnf --security check-update bind >/dev/null 2>&1; then
+        log_success "No pending security updates for bind."
+    elif [[ $? -eq 100 ]]; then
+        log_warning "Security updates are available for bind. Run: dnf upgrade bind"
+    else
+        log_error "Could not check for bind security updates."
+    fi
+else
+    log_success "BIND is not installed."
+fi`,
+  iptablesAdvanced: `# ----------------------------------------------------------------------------
+# Advanced IPtables Ruleset
+# Replace the firewall with a stateful iptables rule set that drops invalid
+# packets and stealth scans and rate-limits new SSH connections.
+# ----------------------------------------------------------------------------
+log_info "--- Advanced IPtables Ruleset ---"
+
+SSH_PORT="\${NEW_SSH_PORT:-22}"
+
+# firewalld and iptables both program netfilter; firewalld would overwrite these rules.
+if systemctl is-active --quiet firewalld; then
+    log_warning "Stopping and disabling firewalld in favour of the iptables rule set."
+    run_with_spinner "Disabling firewalld" "systemctl disable --now firewalld"
+fi
+run_with_spinner "Installing iptables-services" "dnf install -y iptables-services"
+
+# Accept everything while the chains are rebuilt, and allow established sessions
+# before switching the policy to DROP, so the current SSH session survives.
+run_cmd iptables -P INPUT ACCEPT
+run_cmd iptables -F
+run_cmd iptables -X
+run_cmd iptables -Z
+run_cmd iptables -A INPUT -i lo -j ACCEPT
+run_cmd iptables -A INPUT -m conntrack --ctstate ESTABLISHED,RELATED -j ACCEPT
+
+# Invalid packets belong to no known connection.
+run_cmd iptables -A INPUT -m conntrack --ctstate INVALID -j LOG --log-prefix "IPT INVALID: "
+run_cmd iptables -A INPUT -m conntrack --ctstate INVALID -j DROP
+
+# NULL, FIN and XMAS scans use flag combinations that real traffic never sends.
+run_cmd iptables -A INPUT -p tcp --tcp-flags ALL NONE -j LOG --log-prefix "IPT NULL SCAN: "
+run_cmd iptables -A INPUT -p tcp --tcp-flags ALL NONE -j DROP
+run_cmd iptables -A INPUT -p tcp --tcp-flags ALL FIN -j LOG --log-prefix "IPT FIN SCAN: "
+run_cmd iptables -A INPUT -p tcp --tcp-flags ALL FIN -j DROP
+run_cmd iptables -A INPUT -p tcp --tcp-flags ALL FIN,PSH,URG -j LOG --log-prefix "IPT XMAS SCAN: "
+run_cmd iptables -A INPUT -p tcp --tcp-flags ALL FIN,PSH,URG -j DROP
+
+# Allow at most 3 new SSH connections per minute from one address.
+run_cmd iptables -A INPUT -p tcp --dport "$SSH_PORT" -m conntrack --ctstate NEW -m recent --set --name SSH
+run_cmd iptables -A INPUT -p tcp --dport "$SSH_PORT" -m conntrack --ctstate NEW -m recent --update --seconds 60 --hitcount 4 --name SSH -j DROP
+run_cmd iptables -A INPUT -p tcp --dport "$SSH_PORT" -m conntrack --ctstate NEW -j ACCEPT
+
+run_cmd iptables -P INPUT DROP
+run_cmd iptables -P FORWARD DROP
+run_cmd iptables -P OUTPUT ACCEPT
+
+# iptables.service restores this file at boot.
+iptables-save | write_file /etc/sysconfig/iptables
+run_with_spinner "Enabling iptables.service" "systemctl enable iptables"
+log_success "Stateful iptables rule set is active and persisted."`,
+  iptablesBogon: `# ----------------------------------------------------------------------------
+# Block Bogon Networks
+# Bogons are address ranges that are reserved or unallocated, so no legitimate
+# packet from the internet can come from them. Spoofed traffic often does.
+# Ranges that contain one of this host's addresses or the current SSH client
+# are skipped, because private LAN ranges are bogons too.
+# ----------------------------------------------------------------------------
+log_info "--- Block Bogon Networks ---"
+
+BOGON_RANGES=(
+    0.0.0.0/8 10.0.0.0/8 100.64.0.0/10 127.0.0.0/8 169.254.0.0/16 172.16.0.0/12
+    192.0.0.0/24 192.0.2.0/24 192.168.0.0/16 198.18.0.0/15 198.51.100.0/24
+    203.0.113.0/24 224.0.0.0/4 240.0.0.0/4
+)
+
+# Converts a dotted IPv4 address to an integer.
+ip_to_int() {
+    local IFS=.
+    local a b c d
+    read -r a b c d <<< "$1"
+    echo $(( (a << 24) + (b << 16) + (c << 8) + d ))
+}
+
+# Succeeds when address $1 lies inside CIDR range $2.
+ip_in_range() {
+    local ip net bits mask
+    ip="$(ip_to_int "$1")"
+    net="$(ip_to_int "\${2%/*}")"
+    bits="\${2#*/}"
+    mask=$(( (0xFFFFFFFF << (32 - bits)) & 0xFFFFFFFF ))
+    (( (ip & mask) == (net & mask) ))
+}
+
+mapfile -t own_addresses < <(ip -4 -o addr show scope global | awk '{ split($4, a, "/"); print a[1] }')
+if [[ -n "\${SSH_CLIENT:-}" ]]; then
+    own_addresses+=("\${SSH_CLIENT%% *}")
+fi
+
+run_cmd iptables -N BOGONS 2>/dev/null || run_cmd iptables -F BOGONS
+for range in "\${BOGON_RANGES[@]}"; do
+    skip_range=false
+    for address in "\${own_addresses[@]}"; do
+        if ip_in_range "$address" "$range"; then
+            skip_range=true
+        fi
+    done
+    if [[ "$skip_range" == true ]]; then
+        log_warning "Not blocking \${range}: this host or the current SSH client uses it."
+    else
+        run_cmd iptables -A BOGONS -s "$range" -j DROP
+    fi
+done
+
+# Loopback legitimately uses 127.0.0.0/8, so only external interfaces are filtered.
+if ! iptables -C INPUT ! -i lo -j BOGONS 2>/dev/null; then
+    run_cmd iptables -I INPUT 1 ! -i lo -j BOGONS
+fi
+
+iptables-save | write_file /etc/sysconfig/iptables
+log_success "Bogon ranges are dropped on external interfaces."`,
+  iptablesPortKnocking: `# ----------------------------------------------------------------------------
+# Enable Port Knocking for SSH
+# The SSH port stays closed until a client "knocks" on three secret ports in
+# order, each within 15 seconds of the previous one. From a client run:
+#     knock <server> <KNOCK_PORTS, in order> && ssh -p <ssh-port> <server>
+# To change the sequence, edit KNOCK_PORTS below and re-run this section.
+# ----------------------------------------------------------------------------
+log_info "--- Enable Port Knocking for SSH ---"
+
+SSH_PORT="\${NEW_SSH_PORT:-22}"
+${PARAMETERS}
+
+# Remove any rule that accepts new SSH connections directly. A dry run only prints the
+# delete, so the rule would keep matching; it is printed once instead.
+while iptables -C INPUT -p tcp --dport "$SSH_PORT" -m conntrack --ctstate NEW -j ACCEPT 2>/dev/null; do
+    run_cmd iptables -D INPUT -p tcp --dport "$SSH_PORT" -m conntrack --ctstate NEW -j ACCEPT
+    if [[ "$DRY_RUN" == true ]]; then
+        break
+    fi
+done
+
+for chain in KNOCK1 KNOCK2 SSH_GATE; do
+    run_cmd iptables -N "$chain" 2>/dev/null || run_cmd iptables -F "$chain"
+done
+
+# Each stage remembers the source address with the recent module.
+run_cmd iptables -A KNOCK1 -m recent --name KNOCK1 --set -j DROP
+run_cmd iptables -A KNOCK2 -m recent --name KNOCK2 --set -j DROP
+run_cmd iptables -A SSH_GATE -m recent --name SSH_GATE --set -j DROP
+
+run_cmd iptables -A INPUT -p tcp --dport "\${KNOCK_PORTS[0]}" -j KNOCK1
+run_cmd iptables -A INPUT -p tcp --dport "\${KNOCK_PORTS[1]}" -m recent --name KNOCK1 --rcheck --seconds 15 -j KNOCK2
+run_cmd iptables -A INPUT -p tcp --dport "\${KNOCK_PORTS[2]}" -m recent --name KNOCK2 --rcheck --seconds 15 -j SSH_GATE
+
+# Only addresses that completed the sequence in the last 15 seconds reach sshd.
+run_cmd iptables -A INPUT -p tcp --dport "$SSH_PORT" -m conntrack --ctstate NEW -m recent --name SSH_GATE --rcheck --seconds 15 -j ACCEPT
+
+iptables-save | write_file /etc/sysconfig/iptables
+log_warning "SSH is now hidden behind the knock sequence \${KNOCK_PORTS[*]}. Test it from a second session before disconnecting."`,
+  grubPassword: `# ----------------------------------------------------------------------------
+# Set GRUB Bootloader Password
+#
+#   !!! READ THIS BEFORE RUNNING !!!
+#   A random password is generated below and printed ONCE to the screen; the
+#   log files do not record it. Save it in your password manager immediately.
+#   Without it, nobody can edit boot entries or boot into rescue mode, and
+#   recovering the system will require external boot media.
+#
+# ----------------------------------------------------------------------------
+log_info "--- Set GRUB Bootloader Password ---"
+
+# 16 random alphanumeric characters.
+GRUB_PASSWORD="$(head -c 256 /dev/urandom | tr -dc 'A-Za-z0-9' | cut -c1-16)"
+log_secret "GRUB superuser 'root' password" "$GRUB_PASSWORD"
+log_warning "SAVE THIS PASSWORD NOW. Losing it means boot media is needed to recover the system."
+
+# GRUB stores only a PBKDF2 hash of the password.
+GRUB_HASH="$(printf '%s\\n%s\\n' "$GRUB_PASSWORD" "$GRUB_PASSWORD" | grub2-mkpasswd-pbkdf2 | awk '/grub\\.pbkdf2/ { print $NF }')"
+
+# Fedora's /etc/grub.d/01_users reads the hash from user.cfg, which is what grub2-setpassword writes.
+echo "GRUB2_PASSWORD=\${GRUB_HASH}" | write_file /boot/grub2/user.cfg
+run_cmd chmod 600 /boot/grub2/user.cfg
+
+# Since Fedora 34, UEFI and BIOS systems both boot from /boot/grub2/grub.cfg
+# (the EFI partition only holds a stub that points there).
+run_with_spinner "Regenerating grub.cfg" "grub2-mkconfig -o /boot/grub2/grub.cfg"
+log_success "GRUB is password protected."`,
+  filesystem: `# ----------------------------------------------------------------------------
+# Secure Filesystem Mounts
+# Mount temporary and shared-memory filesystems noexec,nosuid,nodev so that
+# attackers cannot run dropped binaries from them, then report world-writable
+# paths.
+# ----------------------------------------------------------------------------
+log_info "--- Secure Filesystem Mounts ---"
+
+# Fedora mounts /tmp through tmp.mount; a drop-in adds the options without replacing the unit.
+run_cmd mkdir -p /etc/systemd/system/tmp.mount.d
+write_file /etc/systemd/system/tmp.mount.d/hardening.conf <<'EOF'
+# Managed by the Fedora hardening script.
+[Mount]
+Options=mode=1777,strictatime,nosuid,nodev,noexec
+EOF
+
+# /var/tmp and /dev/shm are configured through fstab; only add entries that are missing.
+if ! grep -qE '^[^#]+[[:space:]]/var/tmp[[:space:]]' /etc/fstab; then
+    echo "/var/tmp /var/tmp none bind,nosuid,nodev,noexec 0 0" | append_file /etc/fstab
+fi
+if ! grep -qE '^[^#]+[[:space:]]/dev/shm[[:space:]]' /etc/fstab; then
+    echo "tmpfs /dev/shm tmpfs defaults,nosuid,nodev,noexec 0 0" | append_file /etc/fstab
+fi
+run_with_spinner "Reloading systemd mount units" "systemctl daemon-reload"
+log_success "Mount options updated; they apply fully after a reboot."
+
+# World-writable files can be modified by any user; list them for review.
+log_info "Scanning for world-writable files and directories without the sticky bit..."
+world_writable=0
+while IFS= read -r path; do
+    log_warning "World-writable: \${path}"
+    world_writable=$((world_writable + 1))
+done < <(find / -xdev \\( -type f -perm -0002 -o -type d -perm -0002 ! -perm -1000 \\) 2>/dev/null)
+log_info "Found \${world_writable} world-writable path(s)."`,
+  disableFilesystems: `# ----------------------------------------------------------------------------
+# Disable Unused Filesystems
+# Every filesystem driver the kernel can load is attack surface. Map the rarely
+# used ones to /bin/true so that modprobe never loads them.
+# ----------------------------------------------------------------------------
+log_info "--- Disable Unused Filesystems ---"
+
+write_file /etc/modprobe.d/hardening-filesystems.conf <<'EOF'
+# Managed by the Fedora hardening script.
+install cramfs /bin/true
+install freevxfs /bin/true
+install jffs2 /bin/true
+install hfs /bin/true
+install hfsplus /bin/true
+install squashfs /bin/true
+install udf /bin/true
+EOF
+
+log_success "Unused filesystem modules are blocked (takes full effect after a reboot)."`,
+  logging: `# ----------------------------------------------------------------------------
+# Logging & Auditing Setup (auditd)
+# Make sure the Linux audit daemon runs and load a baseline rule set.
+# ----------------------------------------------------------------------------
+log_info "--- Logging & Auditing Setup (auditd) ---"
+
+if ! rpm -q audit >/dev/null 2>&1; then
+    run_with_spinner "Installing the audit package" "dnf install -y audit"
+fi
+run_with_spinner "Enabling and starting auditd" "systemctl enable --now auditd"
+
+# Rules in /etc/audit/rules.d are compiled by augenrules in file-name order.
+write_file /etc/audit/rules.d/00-base.rules <<'EOF'
+# Managed by the Fedora hardening script.
+# Start from an empty rule set.
+-D
+# Raise the kernel backlog so bursts of events are not lost.
+-b 8192
+# Failure mode 2: panic if events can no longer be recorded.
+-f 2
+# Enable auditing.
+-e 1
+EOF
+
+run_with_spinner "Loading audit rules" "augenrules --load"
+log_success "auditd is running with the baseline rule set."`,
+  auditFileAccess: `# ----------------------------------------------------------------------------
+# Monitor Critical File Access
+# Record reads, writes and attribute changes of account and policy files.
+# ----------------------------------------------------------------------------
+log_info "--- Monitor Critical File Access ---"
+
+write_file /etc/audit/rules.d/50-file-access.rules <<'EOF'
+# Managed by the Fedora hardening script.
+-w /etc/passwd -p rwa -k identity
+-w /etc/shadow -p rwa -k identity
+-w /etc/group -p rwa -k identity
+-w /etc/gshadow -p rwa -k identity
+-w /etc/sudoers -p rwa -k privilege
+-w /etc/selinux/semanage.conf -p rwa -k selinux
+EOF
+
+run_with_spinner "Loading audit rules" "augenrules --load"
+log_success "Critical files are being monitored (search with: ausearch -k identity)."`,
+  auditCommands: `# ----------------------------------------------------------------------------
+# Monitor Privileged Commands
+# Log every execution of setuid/setgid programs and of commands that change
+# ownership, permissions or mounts.
+# ----------------------------------------------------------------------------
+log_info "--- Monitor Privileged Commands ---"
+
+# Collect the explicit commands plus every setuid/setgid binary, without duplicates,
+# because auditctl rejects a rule that already exists.
+mapfile -t privileged_paths < <(
+    {
+        printf '%s\\n' /usr/bin/sudo /usr/bin/mount /usr/bin/chown /usr/bin/chmod
+        find / -xdev -type f \\( -perm -4000 -o -perm -2000 \\) 2>/dev/null
+    } | sort -u
+)
+
+{
+    echo "# Managed by the Fedora hardening script."
+    for path in "\${privileged_paths[@]}"; do
+        echo "-a always,exit -F path=\${path} -F perm=x -F auid>=1000 -F auid!=unset -k privileged"
+    done
+} | write_file /etc/audit/rules.d/51-commands.rules
+
+run_with_spinner "Loading audit rules" "augenrules --load"
+log_success "Monitoring \${#privileged_paths[@]} privileged command(s) (search with: ausearch -k privileged)."`,
+  auditLogins: `# ----------------------------------------------------------------------------
+# Monitor Login Attempts
+# Keep an audit trail of logins, failed logins and new sessions.
+# ----------------------------------------------------------------------------
+log_info "--- Monitor Login Attempts ---"
+
+write_file /etc/audit/rules.d/52-logins.rules <<'EOF'
+# Managed by the Fedora hardening script.
+-w /var/log/faillog -p wa -k logins
+-w /var/log/lastlog -p wa -k logins
+-w /var/log/tallylog -p wa -k logins
+-a always,exit -F arch=b64 -S setsid -k session
+-a always,exit -F arch=b32 -S setsid -k session
+EOF
+
+run_with_spinner "Loading audit rules" "augenrules --load"
+log_success "Login events are being audited (search with: ausearch -k logins)."`,
+  pciDss: `# ----------------------------------------------------------------------------
+# PCI DSS Baseline Checks
+# File integrity monitoring, persistent logs, fewer services and stronger
+# password history and lockout rules.
+# ----------------------------------------------------------------------------
+log_info "--- PCI DSS Baseline Checks ---"
+
+# The most disk space the journal may use.
+${PARAMETERS}
+
+# File Integrity Monitoring (Req 11.5): AIDE records a baseline of file checksums.
+run_with_spinner "Installing AIDE" "dnf install -y aide"
+if [[ ! -f /var/lib/aide/aide.db.gz ]]; then
+    run_with_spinner "Initialising the AIDE database (this can take several minutes)" "aide --init"
+    run_cmd mv /var/lib/aide/aide.db.new.gz /var/lib/aide/aide.db.gz
+    # An attacker with root could rebuild the database, so keep a copy off the host.
+    log_warning "Copy /var/lib/aide/aide.db.gz to read-only offline storage."
+fi
+write_file /etc/cron.daily/aidecheck <<'EOF'
+#!/bin/bash
+# Managed by the Fedora hardening script.
+/usr/sbin/aide --check >> /var/log/aide-check.log 2>&1
+EOF
+run_cmd chmod 700 /etc/cron.daily/aidecheck
+
+# Log Retention (Req 10.7): keep the journal on disk, capped at JOURNAL_MAX_USE.
+run_cmd mkdir -p /etc/systemd/journald.conf.d
+write_file /etc/systemd/journald.conf.d/hardening.conf <<EOF
+# Managed by the Fedora hardening script.
+[Journal]
+Storage=persistent
+SystemMaxUse=\${JOURNAL_MAX_USE}
+EOF
+run_with_spinner "Restarting systemd-journald" "systemctl restart systemd-journald"
+
+# Disable Unnecessary Services (Req 2.2.2).
+for unit in telnet.socket rsh.socket nfs-server.service smb.service; do
+    if systemctl cat "$unit" >/dev/null 2>&1; then
+        run_with_spinner "Disabling \${unit}" "systemctl disable --now \${unit}"
+    fi
+done
+
+# Password History & Lockout (Req 8.2.3, 8.1.6). Fedora replaced pam_tally2 with
+# pam_faillock; authselect wires both modules into system-auth and password-auth.
+write_file /etc/security/pwhistory.conf <<'EOF'
+# Managed by the Fedora hardening script.
+remember = 5
+EOF
+write_file /etc/security/faillock.conf <<'EOF'
+# Managed by the Fedora hardening script.
+deny = 5
+unlock_time = 900
+EOF
+run_with_spinner "Enabling pam_pwhistory" "authselect enable-feature with-pwhistory"
+run_with_spinner "Enabling pam_faillock" "authselect enable-feature with-faillock"
+log_success "PCI DSS baseline controls applied."`,
+};
+
+/** Prefixes every line with `# ` so arbitrary text can be embedded in the script safely. */
+const toBashComment = (text: string): string =>
+  text.split('\n').map(line => `# ${line}`.trimEnd()).join('\n');
+
+export const generateTemplateHeader = (): string => TEMPLATE_HEADER;
+
+/**
+ * Returns the curated snippet for an option, with its parameters set to `values` (or their
+ * defaults). Options without a template (such as the custom requirement) produce a commented
+ * placeholder that logs a warning when the script runs.
+ */
+export const generateTemplateSection = (option: HardeningOption, values: ParameterValues = {}): string => {
+  const template = SECTION_TEMPLATES[option.id];
+  if (template) {
+    return template.replace(PARAMETERS, () => buildParameterAssignments(option, values));
+  }
+
+  const safeLabel = option.label.replace(/["$`\\]/g, '');
+  return [
+    '# ----------------------------------------------------------------------------',
+    `# ${safeLabel}`,
+    '# No offline template exists for this item; switch to AI mode to generate it.',
+    '# Requested:',
+    toBashComment(option.prompt),
+    '# ----------------------------------------------------------------------------',
+    `log_warning "Skipped '${safeLabel}': no offline template is available for it."`,
+  ].join('\n');
+};
+
+export const generateTemplateFooter = (): string => TEMPLATE_FOOTER;
@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { computeSecurityScore } from './securityScore';
+import type { SectionResult } from './securityScore';
+import { PARANOIA_LEVELS } from '../constants';
+import { buildOptionGraph } from './optionGraph';
+
+const options = buildOptionGraph(PARANOIA_LEVELS.flatMap(level => level.options)).options;
+
+const result = (id: string | null, outcome: SectionResult['outcome']): SectionResult => ({ id, label: id ?? 'Pre-flight Checks', outcome });
+
+describe('securityScore', () => {
+  it('should take each section\'s weight off the score by its outcome', () => {
+    const score = computeSecurityScore([
+      result('ssh', 'passed'),
+      result('logging', 'failed'),
+      result('sshPort', 'warning'),
+      result('grubPassword', 'skipped'),
+      result('custom', 'passed'),
+      result(null, 'failed'),
+    ], options)!;
+
+    // Weights 5 + 3 + 1 + 1 = 10 ran: logging loses all of its 3, sshPort half of its 1.
+    expect(score.sections.map(({ id, weight, pointsLost }) => [id, weight, pointsLost])).toEqual([
+      ['ssh', 5, 0],
+      ['logging', 3, 30],
+      ['sshPort', 1, 5],
+      ['grubPassword', 2, 0],
+      ['custom', 1, 0],
+    ]);
+    expect(score.score).toBe(65);
+    // Logging is high, but a cap of 70 is above the score.
+    expect(score.cappedBy).toBeNull();
+    expect(score.unscored.map(section => section.label)).toEqual(['Pre-flight Checks']);
+    expect(computeSecurityScore([result('ssh', 'passed'), result('logging', 'failed')], options))
+      .toEqual(computeSecurityScore([result('ssh', 'passed'), result('logging', 'failed')], options));
+  });
+
+  it('should cap the score when a critical section failed', () => {
+    const score = computeSecurityScore([result('ssh', 'failed'), result('kernel', 'passed'), result('logging', 'passed')], options)!;
+    expect(score.uncappedScore).toBe(55);
+    expect(score.score).toBe(40);
+    expect(score.cappedBy).toMatchObject({ id: 'ssh', criticality: 'critical' });
+  });
+
+  it('should not score a run without any section traced back to an option', () => {
+    expect(computeSecurityScore([result(null, 'passed')], options)).toBeNull();
+    expect(computeSecurityScore([result('ssh', 'skipped')], options)).toBeNull();
+    expect(computeSecurityScore([], options)).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+
+import type { Criticality, HardeningOption } from '../types';
+import type { SectionOutcome } from './runLog';
+
+// A reproducible security score computed from the section outcomes of a run, instead of a
+// number a model picks. Each section is worth its option's weight: a failed section loses all
+// of it and a section with warnings half. A failed critical or high section also caps the score.
+
+/** A section outcome from a run log or parsed text output. */
+export interface SectionResult {
+  /** The option id, or null for a part that is not traced back to an option, e.g. a safeguard. */
+  id: string | null;
+  label: string;
+  outcome: SectionOutcome;
+}
+
+export interface ScoredSection {
+  id: string;
+  label: string;
+  outcome: SectionOutcome;
+  weight: number;
+  criticality: Criticality;
+  /** Score points the section cost, 0 for a passed or skipped section. */
+  pointsLost: number;
+}
+
+export interface SecurityScore {
+  /** 0-100, the same for the same outcomes. */
+  score: number;
+  /** The score before any cap. */
+  uncappedScore: number;
+  /** The failed section that capped the score, if any. */
+  cappedBy: ScoredSection | null;
+  sections: ScoredSection[];
+  /** Parts without an option, which are not scored. */
+  unscored: SectionResult[];
+}
+
+const DEFAULT_WEIGHT = 1;
+const DEFAULT_CRITICALITY: Criticality = 'medium';
+// The share of its weight a section with warnings loses.
+const WARNING_SHARE = 0.5;
+// The highest score left once a section of this criticality failed.
+export const SCORE_CAPS: Partial<Record<Criticality, number>> = { critical: 40, high: 70 };
+
+const OUTCOME_SHARE: Record<SectionOutcome, number> = { passed: 0, warning: WARNING_SHARE, failed: 1, skipped: 0 };
+
+/**
+ * Scores the outcomes of a run. Skipped sections did not run and are not counted; sections of
+ * options not in `options`, such as a custom request, get a weight of 1 and medium criticality.
+ * Returns null when no section that ran can be traced back to an option.
+ */
+export const computeSecurityScore = (results: SectionResult[], options: Map<string, HardeningOption>): SecurityScore | null => {
+  const unscored = results.filter(result => result.id === null);
+  const sections = results.flatMap(({ id, label, outcome }) => {
+    if (id === null) return [];
+    const option = options.get(id);
+    return [{ id, label, outcome, weight: option?.weight ?? DEFAULT_WEIGHT, criticality: option?.criticality ?? DEFAULT_CRITICALITY, pointsLost: 0 }];
+  });
+  const totalWeight = sections.reduce((sum, section) => sum + (section.outcome === 'skipped' ? 0 : section.weight), 0);
+  if (totalWeight === 0) return null;
+
+  for (const section of sections) {
+    section.pointsLost = 100 * section.weight * OUTCOME_SHARE[section.outcome] / totalWeight;
+  }
+  const uncappedScore = Math.round(100 - sections.reduce((sum, section) => sum + section.pointsLost, 0));
+  // The lowest cap among the failed sections applies.
+  const cappedBy = sections
+    .filter(section => section.outcome === 'failed' && SCORE_CAPS[section.criticality] !== undefined)
+    .sort((a, b) => SCORE_CAPS[a.criticality]! - SCORE_CAPS[b.criticality]!)[0] ?? null;
+  const cap = cappedBy ? SCORE_CAPS[cappedBy.criticality]! : 100;
+  return {
+    score: Math.min(uncappedScore, cap),
+    uncappedScore,
+    cappedBy: cap < uncappedScore ? cappedBy : null,
+    sections,
+    unscored,
+  };
+};
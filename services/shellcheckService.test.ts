@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals';
+
+/**
+ * @jest-environment node
+ */
+
+import { parseShellcheckJson, attributeFindings } from './shellcheckService';
+import { assembleScript, getSectionLineRanges } from './scriptAssembler';
+
+const comment = (line: number, code = 2086, level = 'info') =>
+  ({ file: '-', line, endLine: line, column: 5, endColumn: 9, level, code, message: `Finding on line ${line}`, fix: null });
+
+describe('shellcheckService', () => {
+  describe('parseShellcheckJson', () => {
+    it('should read the comments of a json1 report', () => {
+      const findings = parseShellcheckJson(JSON.stringify({ comments: [comment(3), comment(7, 2034, 'warning')] }));
+      expect(findings).toEqual([
+        { code: 2086, level: 'info', message: 'Finding on line 3', line: 3, endLine: 3, column: 5, endColumn: 9 },
+        { code: 2034, level: 'warning', message: 'Finding on line 7', line: 7, endLine: 7, column: 5, endColumn: 9 },
+      ]);
+    });
+
+    it('should drop malformed comments and accept an empty report', () => {
+      expect(parseShellcheckJson(JSON.stringify({ comments: [{ line: 1 }, comment(2, 2086, 'fatal')] }))).toEqual([]);
+      expect(parseShellcheckJson('{"comments":[]}')).toEqual([]);
+    });
+  });
+
+  describe('attributeFindings', () => {
+    it('should link each finding to the part of the assembled script it falls in', () => {
+      const header = '#!/bin/bash\nset -euo pipefail';
+      const ssh = 'log_info "--- SSH ---"\nsed -i $FILE\nsystemctl reload sshd';
+      const firewall = 'firewall-cmd --reload';
+      const footer = 'log_success "Done"';
+      const script = assembleScript(header, [ssh, firewall], footer);
+      const lines = script.split('\n');
+
+      const ranges = getSectionLineRanges([
+        { id: 'header', label: 'Script header', content: header },
+        { id: 'ssh', label: 'SSH Hardening', content: ssh },
+        { id: 'firewall', label: 'Firewall Configuration', content: firewall },
+        { id: 'footer', label: 'Script footer', content: footer },
+      ]);
+      const findings = attributeFindings(parseShellcheckJson(JSON.stringify({
+        comments: [comment(lines.indexOf('sed -i $FILE') + 1), comment(lines.indexOf(firewall) + 1), comment(lines.indexOf(footer) + 1)],
+      })), ranges);
+
+      expect(findings.map(f => f.sectionId)).toEqual(['ssh', 'firewall', 'footer']);
+      expect(findings[0].sectionLabel).toBe('SSH Hardening');
+    });
+
+    it('should skip empty parts and leave findings on blank separator lines unattributed', () => {
+      const ranges = getSectionLineRanges([
+        { id: 'header', label: 'Script header', content: '#!/bin/bash' },
+        { id: 'ssh', label: 'SSH Hardening', content: '' },
+        { id: 'footer', label: 'Script footer', content: 'echo done' },
+      ]);
+      expect(ranges).toEqual([
+        { id: 'header', label: 'Script header', startLine: 1, endLine: 1 },
+        { id: 'footer', label: 'Script footer', startLine: 3, endLine: 3 },
+      ]);
+      expect(attributeFindings(parseShellcheckJson(JSON.stringify({ comments: [comment(2)] })), ranges)[0].sectionId).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+
+import type { ShellcheckFinding, ShellcheckLevel } from '../types';
+import type { SectionLineRange } from './scriptAssembler';
+
+// Served by server/shellcheckPlugin.ts on the Vite dev and preview servers.
+const SHELLCHECK_ENDPOINT = '/api/shellcheck';
+
+const LEVELS: ShellcheckLevel[] = ['error', 'warning', 'info', 'style'];
+
+export const SEVERITY_ORDER: Record<ShellcheckLevel, number> = { error: 0, warning: 1, info: 2, style: 3 };
+
+/** Links to the ShellCheck wiki page explaining a code, e.g. SC2086. */
+export const shellcheckWikiUrl = (code: number): string => `https://www.shellcheck.net/wiki/SC${code}`;
+
+/**
+ * Parses ShellCheck's `--format=json1` output, dropping anything that is not a
+ * well-formed comment.
+ */
+export const parseShellcheckJson = (json: string): ShellcheckFinding[] => {
+  const data = JSON.parse(json);
+  const comments: unknown[] = Array.isArray(data?.comments) ? data.comments : [];
+  return comments.flatMap((comment: unknown): ShellcheckFinding[] => {
+    if (typeof comment !== 'object' || comment === null) return [];
+    const { code, level, message, line, endLine, column, endColumn } = comment as Record<string, unknown>;
+    if (typeof code !== 'number' || typeof line !== 'number' || !LEVELS.includes(level as ShellcheckLevel)) {
+      return [];
+    }
+    const startColumn = typeof column === 'number' ? column : 1;
+    return [{
+      code,
+      level: level as ShellcheckLevel,
+      message: String(message ?? ''),
+      line,
+      endLine: typeof endLine === 'number' ? endLine : line,
+      column: startColumn,
+      endColumn: typeof endColumn === 'number' ? endColumn : startColumn,
+    }];
+  });
+};
+
+/** Tags each finding with the script part (and thus the option) its line belongs to. */
+export const attributeFindings = (findings: ShellcheckFinding[], ranges: SectionLineRange[]): ShellcheckFinding[] =>
+  findings.map(finding => {
+    const range = ranges.find(r => finding.line >= r.startLine && finding.line <= r.endLine);
+    return range ? { ...finding, sectionId: range.id, sectionLabel: range.label } : finding;
+  });
+
+/**
+ * Runs the real `shellcheck` binary on the script through the dev server helper.
+ * @throws A "ShellCheck Unavailable" error if the helper or the binary is missing.
+ */
+export const runShellcheck = async (script: string, signal?: AbortSignal): Promise<ShellcheckFinding[]> => {
+  const response = await fetch(SHELLCHECK_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ script }),
+    signal,
+  });
+
+  const body = await response.text();
+  if (!response.ok) {
+    let detail = `HTTP ${response.status}`;
+    try {
+      detail = JSON.parse(body).error || detail;
+    } catch {
+      // A static host without the helper answers with HTML; keep the status.
+    }
+    throw new Error(`ShellCheck Unavailable: ${detail}`);
+  }
+  try {
+    return parseShellcheckJson(body);
+  } catch {
+    throw new Error("ShellCheck Unavailable: The server did not return ShellCheck results.");
+  }
+};
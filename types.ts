@@ -6,13 +6,104 @@ export interface HardeningOption {
   prompt: string;
   subOptions?: HardeningOption[];
   rebootRequired?: boolean;
+  /** Values the user can change; each reaches the section as a bash variable. */
+  parameters?: OptionParameter[];
+  /** Options selected automatically along with this one. */
+  requires?: OptionRelation[];
+  /** Options that cannot be selected together with this one. The relation applies both ways. */
+  conflictsWith?: OptionRelation[];
+  /** Options suggested, but not selected, along with this one. */
+  recommends?: OptionRelation[];
+  /** When the section runs, see services/executionOrder.ts. Options without one run last. */
+  phase?: ExecutionPhase;
+  /** Sections that must run before this one when both are selected. Required options always do. */
+  runsAfter?: OptionRelation[];
+  /** Sections that must run after this one when both are selected. */
+  runsBefore?: OptionRelation[];
+  /** How much of the security score the section is worth, see services/securityScore.ts. Defaults to 1. */
+  weight?: number;
+  /** How serious a failure of the section is. A failed critical or high section caps the score. */
+  criticality?: Criticality;
 }
 
+export type Criticality = 'low' | 'medium' | 'high' | 'critical';
+
+export type ExecutionPhase = 'preflight' | 'packages' | 'network' | 'access' | 'kernel' | 'audit' | 'boot' | 'finalize';
+
+/** An edge of the option graph, see services/optionGraph.ts. */
+export interface OptionRelation {
+  /** The option id at the other end. */
+  id: string;
+  /** Shown to the user to explain the edge. */
+  reason: string;
+}
+
+interface OptionParameterBase {
+  /** The bash variable the section reads, e.g. `NEW_SSH_PORT`. */
+  name: string;
+  label: string;
+  description?: string;
+}
+
+export type OptionParameter =
+  | OptionParameterBase & { type: 'number'; default: number; min?: number; max?: number }
+  | OptionParameterBase & { type: 'port'; default: number }
+  | OptionParameterBase & {
+      type: 'string';
+      default: string;
+      /** A regular expression the whole value must match, and what to tell the user otherwise. */
+      pattern?: string;
+      patternHint?: string;
+    }
+  | OptionParameterBase & { type: 'enum'; default: string; choices: string[] }
+  | OptionParameterBase & { type: 'list'; default: number[]; itemType: 'number' | 'port'; length?: number };
+
+export type OptionParameterType = OptionParameter['type'];
+
+export type ParameterValue = number | string | number[];
+
+/** Parameter values of one option, keyed by variable name. */
+export type ParameterValues = Record<string, ParameterValue>;
+
 export type SelectedOptions = Record<string, boolean>;
 
+export type FindingSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+/** One problem the output analysis found, with what to run to fix it. */
+export interface AnalysisFinding {
+  severity: FindingSeverity;
+  title: string;
+  /** The option whose section the finding concerns, or null when it concerns none. */
+  optionId: string | null;
+  /** Lines quoted from the script output. */
+  evidence: string[];
+  explanation: string;
+  /** Shell commands that fix the problem, in the order to run them. */
+  remediation: string[];
+}
+
 export interface AnalysisResult {
+  /** A markdown summary of the run. */
   analysisText: string;
   securityScore: number;
+  findings: AnalysisFinding[];
+}
+
+/** The status of a record in the JSON Lines log of a hardening run. */
+export type RunLogStatus = 'info' | 'success' | 'warning' | 'error' | 'done' | 'failed' | 'start' | 'end' | 'skipped' | 'exit';
+
+/** One record of /var/log/hardening.jsonl, written by the generated script's logging helpers. */
+export interface RunLogRecord {
+  timestamp: string;
+  /** The option id of the section that wrote the record; empty outside sections. */
+  section: string;
+  /** The log message, command or section label. */
+  step: string;
+  status: RunLogStatus;
+  /** Set for command results ('done' / 'failed') and the 'exit' record. */
+  exitCode: number | null;
+  /** The last lines of a failed command's error output. */
+  stderrTail: string;
 }
 
 export interface RefinedPrompt {
@@ -26,6 +117,25 @@ export interface ImprovementResult {
     improvementSummary: string[];
 }
 
+/** A section that failed in an analyzed run, to be repaired by a fix-up script; see services/fixupScript.ts. */
+export interface SectionFailure {
+  option: HardeningOption;
+  /** The failing lines of the run and the error output printed with them. */
+  evidence: string[];
+  /** The section as it ran, when the script that printed the output is the one loaded. */
+  content?: string;
+  /** The parameter values the section ran with; missing ones use their defaults. */
+  parameterValues?: ParameterValues;
+}
+
+export interface FixupResult {
+  /** Corrective bash per failed section, keyed by option id. */
+  sections: { id: string; content: string }[];
+  /** Prompts rewritten so that a new script avoids the failures. */
+  refinedPrompts: RefinedPrompt[];
+  summary: string[];
+}
+
 export interface ParanoiaLevel {
   level: number;
   title: string;
@@ -36,4 +146,87 @@ export interface ParanoiaLevel {
 export interface SuggestedPrompt {
   label: string;
   promptText: string;
-}
\ No newline at end of file
+}
+export interface StreamProgress {
+  /** The reply received so far, with markdown fences already stripped. */
+  text: string;
+  /** Approximate number of tokens received so far. */
+  tokens: number;
+}
+
+export type ShellcheckLevel = 'error' | 'warning' | 'info' | 'style';
+
+/** One comment from `shellcheck --format=json1`, linked back to the part of the script it falls in. */
+export interface ShellcheckFinding {
+  /** The numeric part of the SC code, e.g. 2086 for SC2086. */
+  code: number;
+  level: ShellcheckLevel;
+  message: string;
+  line: number;
+  endLine: number;
+  column: number;
+  endColumn: number;
+  /** The option id of the section containing the line, or 'header' / 'footer'. */
+  sectionId?: string;
+  sectionLabel?: string;
+}
+
+export type LintSeverity = 'error' | 'warning';
+
+/** A problem found by the built-in rules in services/scriptLinter.ts. */
+export interface LintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+  /** 1-based line in the linted script. */
+  line: number;
+  message: string;
+}
+
+export type SafeguardId = 'sshKeyPrecheck' | 'autoRevert';
+
+/** A selection that can cut off remote access to the host, found by services/lockoutDetector.ts. */
+export interface LockoutRisk {
+  id: string;
+  title: string;
+  message: string;
+  /** The selected options that together cause the risk. */
+  optionIds: string[];
+  /** Script additions that make the risk recoverable. */
+  safeguards: SafeguardId[];
+}
+
+export type SectionStatus = 'pending' | 'generating' | 'done' | 'failed';
+
+/** Where a section's content came from and when. */
+export interface SectionGenerationMeta {
+  source: 'ai' | 'template' | 'shellcheck';
+  /** Served from the response cache instead of a fresh reply. */
+  cached: boolean;
+  /** ISO timestamp of when the content was finished. */
+  generatedAt?: string;
+  error?: string;
+}
+
+export interface ScriptSection {
+  option: HardeningOption;
+  /** The version of the option's prompt the content was generated from; see ShellCheck & Learn. */
+  promptVersion: number;
+  status: SectionStatus;
+  /** The generated bash, or a placeholder comment block once generation has failed. */
+  content: string;
+  meta: SectionGenerationMeta;
+}
+
+/** A hardening script changes the system; a check script only reports whether it is already hardened. */
+export type ScriptKind = 'harden' | 'check';
+
+/** A generated script as parts; the bash is rendered from it by services/generatedScript.ts. */
+export interface GeneratedScript {
+  kind: ScriptKind;
+  header: string;
+  /** In the order they run. */
+  sections: ScriptSection[];
+  footer: string;
+  /** Lockout safeguards around the sections; either may be empty. */
+  safeguards: { preamble: string; epilogue: string };
+}